@@ -11,6 +11,7 @@ import Analytics from "@/pages/analytics";
 import BulkScheduling from "@/pages/bulk-scheduling";
 import Subscription from "@/pages/subscription";
 import Settings from "@/pages/settings";
+import Invite from "@/pages/invite";
 import NotFound from "@/pages/not-found";
 
 function Router() {
@@ -22,6 +23,7 @@ function Router() {
       <Route path="/bulk-scheduling" component={BulkScheduling} />
       <Route path="/subscription" component={Subscription} />
       <Route path="/settings" component={Settings} />
+      <Route path="/invite/:token" component={Invite} />
       <Route component={NotFound} />
     </Switch>
   );
@@ -1,141 +1,66 @@
-import { useState, useRef, useEffect } from "react";
-import { Brain, Sparkles, Clock, TrendingUp, Target, Lightbulb, Send, MessageCircle, Bot, User } from "lucide-react";
+import { useState } from "react";
+import { Link } from "wouter";
+import { Brain, Sparkles, Clock, TrendingUp, Target, Lightbulb, Crown, Loader2 } from "lucide-react";
 import { Button } from "@/components/ui/button";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Badge } from "@/components/ui/badge";
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
-import { Input } from "@/components/ui/input";
-import { ScrollArea } from "@/components/ui/scroll-area";
-import { useQuery } from "@tanstack/react-query";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
 import { toast } from "sonner";
-import type { ContentItem } from "@shared/schema";
-
-interface Message {
-  id: string;
-  content: string;
-  sender: 'user' | 'ai';
-  timestamp: Date;
-}
+import { useSubscription } from "@/hooks/use-subscription";
+import { apiRequest, errorMessage } from "@/lib/queryClient";
+import { usePostingTimes } from "@/hooks/use-posting-times";
+import { formatWindow } from "@/lib/posting-times";
+import { AssistantChat } from "@/components/AssistantChat";
+import {
+  contentPlatforms,
+  type ContentItem,
+  type ContentSuggestion,
+} from "@shared/schema";
 
 interface ChatProps {
-  onSuggestionUse?: (suggestion: any) => void;
+  onSuggestionUse?: (suggestion: ContentSuggestion) => void;
+  onContentOpen?: (item: ContentItem) => void;
 }
 
-export function AIAssistant({ onSuggestionUse }: ChatProps = {}) {
+const platformLabels: Record<string, string> = {
+  social: 'Social Media',
+  email: 'Email',
+  blog: 'Blog',
+};
+
+export function AIAssistant({ onSuggestionUse, onContentOpen }: ChatProps = {}) {
   const [activeMode, setActiveMode] = useState("suggestions");
-  const [messages, setMessages] = useState<Message[]>([
-    {
-      id: '1',
-      content: 'Hi! I\'m your AI assistant. I can help you create content ideas, optimize posting times, and provide insights. What would you like to work on today?',
-      sender: 'ai',
-      timestamp: new Date()
-    }
-  ]);
-  const [inputMessage, setInputMessage] = useState('');
-  const [isTyping, setIsTyping] = useState(false);
-  const messagesEndRef = useRef<HTMLDivElement>(null);
+  const queryClient = useQueryClient();
+  const { hasAccess } = useSubscription();
   
+  // Only the first item is used, for the platform tip
   const { data: contentItems = [] } = useQuery<ContentItem[]>({
-    queryKey: ["/api/content"],
+    queryKey: ["/api/content", { limit: 1 }],
   });
 
-  useEffect(() => {
-    messagesEndRef.current?.scrollIntoView({ behavior: 'smooth' });
-  }, [messages]);
-
-  const handleSendMessage = async () => {
-    if (!inputMessage.trim()) return;
-
-    const userMessage: Message = {
-      id: Date.now().toString(),
-      content: inputMessage,
-      sender: 'user',
-      timestamp: new Date()
-    };
-
-    setMessages(prev => [...prev, userMessage]);
-    setInputMessage('');
-    setIsTyping(true);
-
-    // Simulate AI response
-    setTimeout(() => {
-      const aiResponse = generateAIResponse(inputMessage.toLowerCase());
-      const aiMessage: Message = {
-        id: (Date.now() + 1).toString(),
-        content: aiResponse,
-        sender: 'ai',
-        timestamp: new Date()
-      };
-      setMessages(prev => [...prev, aiMessage]);
-      setIsTyping(false);
-    }, 1000 + Math.random() * 1500);
-  };
-
-  const generateAIResponse = (input: string): string => {
-    const responses = {
-      'content': 'Here are some content ideas based on your audience: "5 Tips for Productivity", "Behind the Scenes Look", "User Success Stories", "Industry Trends Update"',
-      'schedule': 'Best posting times are: Social Media (2-4 PM), Email (9-11 AM), Blog (7-9 PM). I recommend scheduling posts when your audience is most active.',
-      'analytics': 'Your content performs best on weekdays. Posts with questions get 34% more engagement. Consider adding more video content for higher reach.',
-      'help': 'I can help with: \n• Content idea generation\n• Optimal posting times\n• Performance insights\n• Content optimization tips\n• Platform-specific advice',
-      'time': 'For maximum engagement, post social content between 2-4 PM, send emails 9-11 AM, and publish blog posts 7-9 PM when your audience is most active.',
-      'ideas': 'Here are trending content ideas: How-to tutorials, Customer spotlights, Industry news commentary, Quick tips, Behind-the-scenes content, Q&A sessions, and seasonal topics.',
-    };
-
-    for (const [key, response] of Object.entries(responses)) {
-      if (input.includes(key)) {
-        return response;
-      }
-    }
-
-    return "I'd be happy to help! I can assist with content ideas, scheduling optimization, analytics insights, and content strategy. What specific area would you like to focus on?";
-  };
+  const suggestionsMutation = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest('POST', '/api/ai/suggestions', { count: 5 });
+      return response.json() as Promise<ContentSuggestion[]>;
+    },
+    onSettled: () => {
+      queryClient.invalidateQueries({ queryKey: ['/api/me/usage'] });
+    },
+    onError: (error: Error) => {
+      toast.error(errorMessage(error));
+    },
+  });
+  const suggestions = suggestionsMutation.data ?? [];
 
-  const handleSuggestionClick = (suggestion: any) => {
+  const handleSuggestionClick = (suggestion: ContentSuggestion) => {
     toast.success(`Added "${suggestion.title}" to your content ideas!`);
     if (onSuggestionUse) {
       onSuggestionUse(suggestion);
     }
   };
 
-  const generateSuggestions = () => {
-    const topics = [
-      "10 Tips for Remote Work Productivity",
-      "Behind the Scenes: Our Team Culture",
-      "Customer Success Story Spotlight", 
-      "Industry Trends You Should Know",
-      "Quick Tutorial: Getting Started",
-      "Weekly Roundup: Top Insights",
-      "Q&A Session with Our Experts",
-      "Product Feature Deep Dive",
-      "Community Highlights",
-      "Seasonal Content Ideas"
-    ];
-    
-    return topics.slice(0, 5).map((topic, index) => ({
-      id: index,
-      title: topic,
-      platform: ["social", "email", "blog"][index % 3],
-      confidence: Math.floor(Math.random() * 20) + 80,
-      reasoning: [
-        "High engagement potential based on similar content",
-        "Trending topic in your industry",
-        "Performs well with your audience",
-        "Seasonal relevance detected",
-        "Competitor analysis shows opportunity"
-      ][index % 5]
-    }));
-  };
-
-  const getOptimalTimes = () => {
-    return [
-      { platform: "Social Media", time: "2:00 PM - 4:00 PM", engagement: "+23%", reason: "Peak activity hours" },
-      { platform: "Email", time: "9:00 AM - 11:00 AM", engagement: "+18%", reason: "Morning check routine" },
-      { platform: "Blog", time: "7:00 PM - 9:00 PM", engagement: "+15%", reason: "Evening reading time" }
-    ];
-  };
-
-  const suggestions = generateSuggestions();
-  const optimalTimes = getOptimalTimes();
+  const { data: postingTimes } = usePostingTimes(activeMode === "timing");
 
   return (
     <Card className="animate-slide-up">
@@ -160,30 +85,52 @@ export function AIAssistant({ onSuggestionUse }: ChatProps = {}) {
               <Lightbulb className="h-4 w-4 text-yellow-500" />
               <span className="text-sm font-medium">AI Content Suggestions</span>
             </div>
-            {suggestions.map((suggestion) => (
-              <div key={suggestion.id} className="p-3 bg-muted/50 rounded-lg hover:bg-muted/70 transition-colors cursor-pointer">
-                <div className="flex items-center justify-between mb-1">
-                  <h4 className="text-sm font-medium text-foreground line-clamp-1">{suggestion.title}</h4>
-                  <Badge variant="outline" className="text-xs">
-                    {suggestion.confidence}% match
-                  </Badge>
-                </div>
-                <p className="text-xs text-muted-foreground mb-2">{suggestion.reasoning}</p>
-                <div className="flex items-center justify-between">
-                  <Badge variant="secondary" className="text-xs capitalize">
-                    {suggestion.platform}
-                  </Badge>
-                  <Button 
-                    size="sm" 
-                    variant="ghost" 
-                    className="h-6 text-xs"
-                    onClick={() => handleSuggestionClick(suggestion)}
-                  >
-                    Use This
+            {!hasAccess('ai-suggestions') ? (
+              <div className="p-3 bg-muted/50 rounded-lg text-center">
+                <p className="text-xs text-muted-foreground mb-2">AI content suggestions are part of Premium.</p>
+                <Link href="/subscription">
+                  <Button size="sm" variant="outline" className="h-7 text-xs">
+                    <Crown className="h-3 w-3 mr-1" />
+                    Upgrade
                   </Button>
-                </div>
+                </Link>
               </div>
-            ))}
+            ) : (
+              <>
+                {suggestions.map((suggestion) => (
+                  <div key={suggestion.title} className="p-3 bg-muted/50 rounded-lg hover:bg-muted/70 transition-colors cursor-pointer">
+                    <h4 className="text-sm font-medium text-foreground line-clamp-1 mb-1">{suggestion.title}</h4>
+                    <p className="text-xs text-muted-foreground mb-2">{suggestion.reasoning}</p>
+                    <div className="flex items-center justify-between">
+                      <Badge variant="secondary" className="text-xs capitalize">
+                        {suggestion.platform}
+                      </Badge>
+                      <Button 
+                        size="sm" 
+                        variant="ghost" 
+                        className="h-6 text-xs"
+                        onClick={() => handleSuggestionClick(suggestion)}
+                      >
+                        Use This
+                      </Button>
+                    </div>
+                  </div>
+                ))}
+                <Button
+                  size="sm"
+                  variant="outline"
+                  className="w-full text-xs"
+                  onClick={() => suggestionsMutation.mutate()}
+                  disabled={suggestionsMutation.isPending}
+                  data-testid="button-suggest-content"
+                >
+                  {suggestionsMutation.isPending
+                    ? <Loader2 className="h-3 w-3 mr-2 animate-spin" />
+                    : <Sparkles className="h-3 w-3 mr-2" />}
+                  {suggestions.length > 0 ? 'Refresh Ideas' : 'Suggest Ideas From My Content'}
+                </Button>
+              </>
+            )}
           </TabsContent>
 
           <TabsContent value="timing" className="space-y-3">
@@ -191,16 +138,31 @@ export function AIAssistant({ onSuggestionUse }: ChatProps = {}) {
               <Clock className="h-4 w-4 text-blue-500" />
               <span className="text-sm font-medium">Optimal Posting Times</span>
             </div>
-            {optimalTimes.map((time, index) => (
-              <div key={index} className="p-3 bg-muted/50 rounded-lg">
-                <div className="flex items-center justify-between mb-1">
-                  <h4 className="text-sm font-medium text-foreground">{time.platform}</h4>
-                  <span className="text-xs text-green-600 font-medium">{time.engagement}</span>
+            {postingTimes && contentPlatforms.map((platform) => {
+              const times = postingTimes.platforms[platform];
+              const [best, ...others] = times.windows;
+              return (
+                <div key={platform} className="p-3 bg-muted/50 rounded-lg" data-testid={`posting-times-${platform}`}>
+                  <div className="flex items-center justify-between mb-1">
+                    <h4 className="text-sm font-medium text-foreground">{platformLabels[platform]}</h4>
+                    {times.source === 'history' ? (
+                      best.lift !== null && best.lift > 0 && <span className="text-xs text-green-600 font-medium">+{best.lift}%</span>
+                    ) : (
+                      <Badge variant="outline" className="text-xs">Default</Badge>
+                    )}
+                  </div>
+                  <p className="text-sm text-foreground mb-1">{formatWindow(best)}</p>
+                  {others.length > 0 && (
+                    <p className="text-xs text-foreground mb-1">Also good: {others.map(formatWindow).join(', ')}</p>
+                  )}
+                  <p className="text-xs text-muted-foreground">
+                    {times.source === 'history'
+                      ? `From ${times.postsWithMetrics} posted items with engagement`
+                      : `Not enough history yet: ${times.postsWithMetrics} of ${times.minimumPosts} posted items have engagement`}
+                  </p>
                 </div>
-                <p className="text-sm text-foreground mb-1">{time.time}</p>
-                <p className="text-xs text-muted-foreground">{time.reason}</p>
-              </div>
-            ))}
+              );
+            })}
           </TabsContent>
 
           <TabsContent value="insights" className="space-y-3">
@@ -225,81 +187,7 @@ export function AIAssistant({ onSuggestionUse }: ChatProps = {}) {
           </TabsContent>
           
           <TabsContent value="chat" className="space-y-3">
-            <div className="flex items-center space-x-2 mb-3">
-              <MessageCircle className="h-4 w-4 text-blue-500" />
-              <span className="text-sm font-medium">AI Chat Assistant</span>
-            </div>
-            <Card className="h-[300px] flex flex-col">
-              <CardContent className="p-0 flex-1 flex flex-col">
-                <ScrollArea className="flex-1 p-3">
-                  <div className="space-y-3">
-                    {messages.map((message) => (
-                      <div
-                        key={message.id}
-                        className={`flex items-start space-x-2 ${message.sender === 'user' ? 'justify-end' : 'justify-start'}`}
-                      >
-                        {message.sender === 'ai' && (
-                          <div className="w-6 h-6 rounded-full bg-purple-500 flex items-center justify-center flex-shrink-0">
-                            <Bot className="h-3 w-3 text-white" />
-                          </div>
-                        )}
-                        <div
-                          className={`max-w-[80%] p-2 rounded-lg text-xs ${
-                            message.sender === 'user'
-                              ? 'bg-primary text-primary-foreground ml-2'
-                              : 'bg-muted text-foreground mr-2'
-                          }`}
-                        >
-                          {message.content}
-                        </div>
-                        {message.sender === 'user' && (
-                          <div className="w-6 h-6 rounded-full bg-blue-500 flex items-center justify-center flex-shrink-0">
-                            <User className="h-3 w-3 text-white" />
-                          </div>
-                        )}
-                      </div>
-                    ))}
-                    {isTyping && (
-                      <div className="flex items-start space-x-2">
-                        <div className="w-6 h-6 rounded-full bg-purple-500 flex items-center justify-center">
-                          <Bot className="h-3 w-3 text-white" />
-                        </div>
-                        <div className="bg-muted p-2 rounded-lg">
-                          <div className="flex space-x-1">
-                            <div className="w-1 h-1 bg-muted-foreground rounded-full animate-bounce" />
-                            <div className="w-1 h-1 bg-muted-foreground rounded-full animate-bounce" style={{ animationDelay: '0.1s' }} />
-                            <div className="w-1 h-1 bg-muted-foreground rounded-full animate-bounce" style={{ animationDelay: '0.2s' }} />
-                          </div>
-                        </div>
-                      </div>
-                    )}
-                    <div ref={messagesEndRef} />
-                  </div>
-                </ScrollArea>
-                <div className="p-3 border-t">
-                  <div className="flex space-x-2">
-                    <Input
-                      value={inputMessage}
-                      onChange={(e) => setInputMessage(e.target.value)}
-                      placeholder="Ask me about content ideas, timing, or analytics..."
-                      className="flex-1 text-xs"
-                      onKeyPress={(e) => {
-                        if (e.key === 'Enter') {
-                          handleSendMessage();
-                        }
-                      }}
-                    />
-                    <Button
-                      size="sm"
-                      onClick={handleSendMessage}
-                      disabled={!inputMessage.trim() || isTyping}
-                    >
-                      <Send className="h-3 w-3" />
-                    </Button>
-                  </div>
-                </div>
-              </CardContent>
-            </Card>
+            <AssistantChat onContentOpen={onContentOpen} />
           </TabsContent>
         </Tabs>
       </CardContent>
@@ -0,0 +1,335 @@
+import { useState, useRef, useEffect } from "react";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { Bot, Check, History, MessageCircle, Pencil, Plus, Send, Trash2, User, X } from "lucide-react";
+import moment from "moment";
+import { toast } from "sonner";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { ScrollArea } from "@/components/ui/scroll-area";
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuLabel,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu";
+import { apiRequest, errorMessage } from "@/lib/queryClient";
+import { ChangeProposalReview } from "./ChangeProposalReview";
+import { ChatMessageLinks } from "./ChatMessageLinks";
+import type { AssistantEvent, ChatThread, ChatThreadWithMessages, ContentItem } from "@shared/schema";
+
+// The open thread survives reloads
+const THREAD_STORAGE_KEY = "ai_chat_thread";
+
+const GREETING = "Hi! I'm your AI assistant. I can help you create content ideas, optimize posting times, and draft or move posts on your calendar. What would you like to work on today?";
+
+interface AssistantChatProps {
+  onContentOpen?: (item: ContentItem) => void;
+}
+
+// A message on its way, shown until the server has stored it with its reply
+interface PendingExchange {
+  content: string;
+  reply: string;
+}
+
+function Bubble({ sender, children }: { sender: 'user' | 'ai'; children: React.ReactNode }) {
+  return (
+    <div className={`flex items-start space-x-2 ${sender === 'user' ? 'justify-end' : 'justify-start'}`}>
+      {sender === 'ai' && (
+        <div className="w-6 h-6 rounded-full bg-purple-500 flex items-center justify-center flex-shrink-0">
+          <Bot className="h-3 w-3 text-white" />
+        </div>
+      )}
+      <div
+        className={`max-w-[80%] p-2 rounded-lg text-xs whitespace-pre-wrap ${
+          sender === 'user'
+            ? 'bg-primary text-primary-foreground ml-2'
+            : 'bg-muted text-foreground mr-2'
+        }`}
+      >
+        {children}
+      </div>
+      {sender === 'user' && (
+        <div className="w-6 h-6 rounded-full bg-blue-500 flex items-center justify-center flex-shrink-0">
+          <User className="h-3 w-3 text-white" />
+        </div>
+      )}
+    </div>
+  );
+}
+
+// Chat threads are stored on the server, so a conversation can be picked up
+// again later from the history
+export function AssistantChat({ onContentOpen }: AssistantChatProps) {
+  const queryClient = useQueryClient();
+  const [threadId, setThreadId] = useState<string | null>(() => localStorage.getItem(THREAD_STORAGE_KEY));
+  const [inputMessage, setInputMessage] = useState('');
+  const [pending, setPending] = useState<PendingExchange | null>(null);
+  const [titleDraft, setTitleDraft] = useState<string | null>(null);
+  const messagesEndRef = useRef<HTMLDivElement>(null);
+
+  const selectThread = (id: string | null) => {
+    setThreadId(id);
+    setTitleDraft(null);
+    if (id) {
+      localStorage.setItem(THREAD_STORAGE_KEY, id);
+    } else {
+      localStorage.removeItem(THREAD_STORAGE_KEY);
+    }
+  };
+
+  const { data: threads = [] } = useQuery<ChatThread[]>({
+    queryKey: ['/api/ai/threads'],
+  });
+  const { data: thread, isError } = useQuery<ChatThreadWithMessages>({
+    queryKey: ['/api/ai/threads', threadId],
+    enabled: !!threadId,
+  });
+
+  // The remembered thread may be deleted or from another workspace
+  useEffect(() => {
+    if (isError) selectThread(null);
+  }, [isError]);
+
+  const messages = thread?.messages ?? [];
+
+  useEffect(() => {
+    messagesEndRef.current?.scrollIntoView({ behavior: 'smooth' });
+  }, [messages.length, pending]);
+
+  const renameMutation = useMutation({
+    mutationFn: ({ id, title }: { id: string; title: string }) =>
+      apiRequest('PATCH', `/api/ai/threads/${id}`, { title }),
+    onSuccess: () => {
+      setTitleDraft(null);
+      queryClient.invalidateQueries({ queryKey: ['/api/ai/threads'] });
+    },
+    onError: (error: Error) => {
+      toast.error(errorMessage(error));
+    },
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: (id: string) => apiRequest('DELETE', `/api/ai/threads/${id}`),
+    onSuccess: (_, id) => {
+      if (id === threadId) selectThread(null);
+      queryClient.removeQueries({ queryKey: ['/api/ai/threads', id] });
+      queryClient.invalidateQueries({ queryKey: ['/api/ai/threads'], exact: true });
+    },
+    onError: (error: Error) => {
+      toast.error(errorMessage(error));
+    },
+  });
+
+  const handleRename = () => {
+    const title = titleDraft?.trim();
+    if (!thread || !title) return;
+    renameMutation.mutate({ id: thread.id, title });
+  };
+
+  const handleDelete = () => {
+    if (thread && window.confirm(`Delete "${thread.title ?? 'New chat'}"? This can't be undone.`)) {
+      deleteMutation.mutate(thread.id);
+    }
+  };
+
+  // The reply streams in as one JSON event per line, so it's shown as it
+  // arrives. The last event has the exchange as stored.
+  const handleSendMessage = async () => {
+    const content = inputMessage.trim();
+    if (!content || pending) return;
+
+    setInputMessage('');
+    setPending({ content, reply: '' });
+    let saved = false;
+
+    try {
+      let id = threadId;
+      if (!id) {
+        const response = await apiRequest('POST', '/api/ai/threads', {});
+        id = ((await response.json()) as ChatThread).id;
+        selectThread(id);
+      }
+      const threadKey = ['/api/ai/threads', id];
+
+      const handleEvent = async (event: AssistantEvent) => {
+        if (event.type === 'text') {
+          setPending(prev => prev && { ...prev, reply: prev.reply + event.text });
+        } else if (event.type === 'saved') {
+          saved = true;
+          if (queryClient.getQueryData(threadKey)) {
+            queryClient.setQueryData<ChatThreadWithMessages>(threadKey, (prev) =>
+              prev && { ...prev, ...event.thread, messages: [...prev.messages, ...event.messages] });
+          } else {
+            await queryClient.invalidateQueries({ queryKey: threadKey });
+          }
+          queryClient.invalidateQueries({ queryKey: ['/api/ai/threads'], exact: true });
+        } else if (event.type === 'error') {
+          throw new Error(event.message);
+        }
+        // Proposals are shown once saved, so they can be applied
+      };
+
+      const response = await apiRequest('POST', `/api/ai/threads/${id}/messages`, { content });
+      const reader = response.body!.getReader();
+      const decoder = new TextDecoder();
+      let buffer = '';
+      for (;;) {
+        const { done, value } = await reader.read();
+        if (done) break;
+        buffer += decoder.decode(value, { stream: true });
+        const lines = buffer.split('\n');
+        buffer = lines.pop()!;
+        for (const line of lines.filter(Boolean)) {
+          await handleEvent(JSON.parse(line));
+        }
+      }
+      if (buffer.trim()) await handleEvent(JSON.parse(buffer));
+      if (!saved) {
+        toast.error("The reply was interrupted. Please try again.");
+      }
+    } catch (error) {
+      toast.error(errorMessage(error as Error));
+    } finally {
+      if (!saved) setInputMessage(content);
+      setPending(null);
+      queryClient.invalidateQueries({ queryKey: ['/api/me/usage'] });
+    }
+  };
+
+  return (
+    <>
+      <div className="flex items-center space-x-2 mb-3">
+        <MessageCircle className="h-4 w-4 flex-shrink-0 text-blue-500" />
+        {titleDraft !== null ? (
+          <>
+            <Input
+              value={titleDraft}
+              onChange={(e) => setTitleDraft(e.target.value)}
+              onKeyDown={(e) => {
+                if (e.key === 'Enter') handleRename();
+                if (e.key === 'Escape') setTitleDraft(null);
+              }}
+              maxLength={100}
+              className="h-7 flex-1 text-xs"
+              autoFocus
+              data-testid="input-thread-title"
+            />
+            <Button size="icon" variant="ghost" className="h-6 w-6" onClick={handleRename} disabled={renameMutation.isPending}>
+              <Check className="h-3 w-3" />
+            </Button>
+            <Button size="icon" variant="ghost" className="h-6 w-6" onClick={() => setTitleDraft(null)}>
+              <X className="h-3 w-3" />
+            </Button>
+          </>
+        ) : (
+          <>
+            <span className="text-sm font-medium truncate flex-1" data-testid="text-thread-title">
+              {thread?.title ?? 'New chat'}
+            </span>
+            {thread && (
+              <>
+                <Button size="icon" variant="ghost" className="h-6 w-6" title="Rename" onClick={() => setTitleDraft(thread.title ?? '')}>
+                  <Pencil className="h-3 w-3" />
+                </Button>
+                <Button size="icon" variant="ghost" className="h-6 w-6" title="Delete" onClick={handleDelete} disabled={deleteMutation.isPending}>
+                  <Trash2 className="h-3 w-3" />
+                </Button>
+              </>
+            )}
+            <DropdownMenu>
+              <DropdownMenuTrigger asChild>
+                <Button size="icon" variant="ghost" className="h-6 w-6" title="History" data-testid="button-chat-history">
+                  <History className="h-3 w-3" />
+                </Button>
+              </DropdownMenuTrigger>
+              <DropdownMenuContent align="end" className="w-56">
+                <DropdownMenuItem onClick={() => selectThread(null)}>
+                  <Plus className="h-3 w-3 mr-2" />
+                  New chat
+                </DropdownMenuItem>
+                <DropdownMenuSeparator />
+                <DropdownMenuLabel className="text-xs text-muted-foreground">History</DropdownMenuLabel>
+                {threads.length === 0 && (
+                  <DropdownMenuItem disabled className="text-xs">No saved chats yet</DropdownMenuItem>
+                )}
+                {threads.map((saved) => (
+                  <DropdownMenuItem
+                    key={saved.id}
+                    onClick={() => selectThread(saved.id)}
+                    className={saved.id === threadId ? 'bg-muted' : undefined}
+                  >
+                    <span className="truncate flex-1 text-xs">{saved.title ?? 'New chat'}</span>
+                    <span className="ml-2 text-[10px] text-muted-foreground">{moment(saved.updatedAt).fromNow()}</span>
+                  </DropdownMenuItem>
+                ))}
+              </DropdownMenuContent>
+            </DropdownMenu>
+          </>
+        )}
+      </div>
+      <Card className="h-[300px] flex flex-col">
+        <CardContent className="p-0 flex-1 flex flex-col">
+          <ScrollArea className="flex-1 p-3">
+            <div className="space-y-3">
+              {messages.length === 0 && !pending && <Bubble sender="ai">{GREETING}</Bubble>}
+              {messages.map((message) => (
+                <Bubble key={message.id} sender={message.role === 'user' ? 'user' : 'ai'}>
+                  {message.content}
+                  {message.proposal && (
+                    <ChangeProposalReview threadId={message.threadId} message={{ ...message, proposal: message.proposal }} />
+                  )}
+                  {message.role === 'assistant' && (
+                    <ChatMessageLinks threadId={message.threadId} message={message} onContentOpen={onContentOpen} />
+                  )}
+                </Bubble>
+              ))}
+              {pending && <Bubble sender="user">{pending.content}</Bubble>}
+              {pending?.reply && <Bubble sender="ai">{pending.reply}</Bubble>}
+              {pending && !pending.reply && (
+                <div className="flex items-start space-x-2">
+                  <div className="w-6 h-6 rounded-full bg-purple-500 flex items-center justify-center">
+                    <Bot className="h-3 w-3 text-white" />
+                  </div>
+                  <div className="bg-muted p-2 rounded-lg">
+                    <div className="flex space-x-1">
+                      <div className="w-1 h-1 bg-muted-foreground rounded-full animate-bounce" />
+                      <div className="w-1 h-1 bg-muted-foreground rounded-full animate-bounce" style={{ animationDelay: '0.1s' }} />
+                      <div className="w-1 h-1 bg-muted-foreground rounded-full animate-bounce" style={{ animationDelay: '0.2s' }} />
+                    </div>
+                  </div>
+                </div>
+              )}
+              <div ref={messagesEndRef} />
+            </div>
+          </ScrollArea>
+          <div className="p-3 border-t">
+            <div className="flex space-x-2">
+              <Input
+                value={inputMessage}
+                onChange={(e) => setInputMessage(e.target.value)}
+                placeholder="Ask for ideas, or to fill next week's gaps..."
+                className="flex-1 text-xs"
+                onKeyPress={(e) => {
+                  if (e.key === 'Enter') {
+                    handleSendMessage();
+                  }
+                }}
+              />
+              <Button
+                size="sm"
+                onClick={handleSendMessage}
+                disabled={!inputMessage.trim() || !!pending}
+              >
+                <Send className="h-3 w-3" />
+              </Button>
+            </div>
+          </div>
+        </CardContent>
+      </Card>
+    </>
+  );
+}
@@ -0,0 +1,127 @@
+import { useState } from "react";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { CalendarDays, Copy, RefreshCw, Trash2 } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest } from "@/lib/queryClient";
+
+interface CalendarFeedInfo {
+  path: string;
+  createdAt: string;
+}
+
+export function CalendarFeed() {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [platform, setPlatform] = useState("all");
+  const [confirmedOnly, setConfirmedOnly] = useState(false);
+
+  const { data: feed } = useQuery<CalendarFeedInfo | null>({
+    queryKey: ['/api/calendar-feed'],
+  });
+
+  const rotateMutation = useMutation({
+    mutationFn: () => apiRequest('POST', '/api/calendar-feed/rotate'),
+    onSuccess: () => {
+      const replaced = !!feed;
+      queryClient.invalidateQueries({ queryKey: ['/api/calendar-feed'] });
+      toast({
+        title: replaced ? "Feed URL Rotated" : "Feed Created",
+        description: replaced
+          ? "The old URL no longer works. Update your calendar subscriptions."
+          : "Subscribe to the URL from your calendar app.",
+      });
+    },
+    onError: () => {
+      toast({ title: "Error", description: "Failed to update the calendar feed", variant: "destructive" });
+    },
+  });
+
+  const revokeMutation = useMutation({
+    mutationFn: () => apiRequest('DELETE', '/api/calendar-feed'),
+    onSuccess: () => queryClient.invalidateQueries({ queryKey: ['/api/calendar-feed'] }),
+    onError: () => {
+      toast({ title: "Error", description: "Failed to revoke the calendar feed", variant: "destructive" });
+    },
+  });
+
+  // Filters live in the query string, so one token can back several subscriptions
+  const params = new URLSearchParams();
+  if (platform !== "all") params.set("platform", platform);
+  if (confirmedOnly) params.set("status", "scheduled,posted");
+  const query = params.toString();
+  const feedUrl = feed ? `${window.location.origin}${feed.path}${query ? `?${query}` : ""}` : "";
+
+  const copyFeedUrl = async () => {
+    await navigator.clipboard.writeText(feedUrl);
+    toast({ title: "Link Copied", description: "Paste it into your calendar app's subscribe option." });
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <CalendarDays className="h-5 w-5" />
+          Calendar Feed
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <p className="text-sm text-muted-foreground">
+          Subscribe to this workspace's content calendar from Google Calendar, Outlook or Apple Calendar.
+          Anyone with the link can see the feed, so keep it private.
+        </p>
+
+        {feed ? (
+          <>
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+              <div className="space-y-2">
+                <Label>Platform</Label>
+                <Select value={platform} onValueChange={setPlatform}>
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="all">All platforms</SelectItem>
+                    <SelectItem value="social">Social Media</SelectItem>
+                    <SelectItem value="email">Email</SelectItem>
+                    <SelectItem value="blog">Blog</SelectItem>
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="flex items-center justify-between md:pt-7">
+                <Label htmlFor="feed-confirmed-only">Only scheduled and posted</Label>
+                <Switch id="feed-confirmed-only" checked={confirmedOnly} onCheckedChange={setConfirmedOnly} />
+              </div>
+            </div>
+            <div className="flex items-center gap-2">
+              <Input value={feedUrl} readOnly className="font-mono text-xs" />
+              <Button variant="outline" size="icon" onClick={copyFeedUrl} title="Copy link">
+                <Copy className="h-4 w-4" />
+              </Button>
+            </div>
+            <div className="flex items-center gap-2">
+              <Button variant="outline" size="sm" onClick={() => rotateMutation.mutate()} disabled={rotateMutation.isPending}>
+                <RefreshCw className="h-4 w-4 mr-2" />
+                Rotate URL
+              </Button>
+              <Button variant="ghost" size="sm" onClick={() => revokeMutation.mutate()} disabled={revokeMutation.isPending}>
+                <Trash2 className="h-4 w-4 mr-2" />
+                Revoke
+              </Button>
+            </div>
+          </>
+        ) : (
+          <Button onClick={() => rotateMutation.mutate()} disabled={rotateMutation.isPending}>
+            <CalendarDays className="h-4 w-4 mr-2" />
+            Create Feed URL
+          </Button>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
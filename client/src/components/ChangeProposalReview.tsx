@@ -0,0 +1,158 @@
+import { useState } from "react";
+import { useMutation, useQueryClient } from "@tanstack/react-query";
+import { ArrowRight, CalendarPlus, Check, Loader2, MoveRight } from "lucide-react";
+import { toast } from "sonner";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Checkbox } from "@/components/ui/checkbox";
+import { apiRequest, errorMessage } from "@/lib/queryClient";
+import type { ChangeProposal, ChatMessage, ContentChangeResult } from "@shared/schema";
+
+interface ChangeProposalReviewProps {
+  threadId: string;
+  message: ChatMessage & { proposal: ChangeProposal };
+}
+
+// Dates arrive as JSON strings
+function formatWhen(date: Date | string): string {
+  return new Date(date).toLocaleString(undefined, {
+    weekday: 'short',
+    month: 'short',
+    day: 'numeric',
+    hour: 'numeric',
+    minute: '2-digit',
+  });
+}
+
+// Changes the assistant proposed. Nothing happens until the user applies
+// the ones they keep, all in one request, which also links the resulting
+// items to the message.
+export function ChangeProposalReview({ threadId, message }: ChangeProposalReviewProps) {
+  const { proposal } = message;
+  const queryClient = useQueryClient();
+  const [selected, setSelected] = useState(() => new Set(proposal.changes.map((_, index) => index)));
+  const outcome = message.proposalStatus === 'pending' ? null : message.proposalStatus;
+
+  const applyMutation = useMutation({
+    mutationFn: async () => {
+      const changes = proposal.changes
+        .filter((_, index) => selected.has(index))
+        .map(({ current, ...change }) => change);
+      const response = await apiRequest('POST', '/api/content/changes', {
+        changes,
+        source: { threadId, messageId: message.id },
+      });
+      return response.json() as Promise<ContentChangeResult>;
+    },
+    onSuccess: ({ created, moved }) => {
+      queryClient.invalidateQueries({ queryKey: ['/api/content'] });
+      queryClient.invalidateQueries({ queryKey: ['/api/me/usage'] });
+      const parts = [
+        created.length > 0 && `${created.length} ${created.length === 1 ? 'draft' : 'drafts'} created`,
+        moved.length > 0 && `${moved.length} ${moved.length === 1 ? 'item' : 'items'} moved`,
+      ].filter(Boolean);
+      toast.success(parts.join(', '));
+      // Stays pending until the message shows it was applied
+      return queryClient.invalidateQueries({ queryKey: ['/api/ai/threads', threadId] });
+    },
+    onError: (error: Error) => {
+      toast.error(errorMessage(error));
+    },
+  });
+
+  const dismissMutation = useMutation({
+    mutationFn: () =>
+      apiRequest('PATCH', `/api/ai/threads/${threadId}/messages/${message.id}`, { proposalStatus: 'dismissed' }),
+    onSuccess: () => queryClient.invalidateQueries({ queryKey: ['/api/ai/threads', threadId] }),
+    onError: (error: Error) => {
+      toast.error(errorMessage(error));
+    },
+  });
+  const isPending = applyMutation.isPending || dismissMutation.isPending;
+
+  const toggle = (index: number) => {
+    setSelected(prev => {
+      const next = new Set(prev);
+      if (next.has(index)) {
+        next.delete(index);
+      } else {
+        next.add(index);
+      }
+      return next;
+    });
+  };
+
+  return (
+    <div className="mt-2 space-y-2 rounded-md border bg-background p-2" data-testid="change-proposal">
+      <p className="font-medium">{proposal.summary}</p>
+      <div className="space-y-1">
+        {proposal.changes.map((change, index) => (
+          <label
+            key={index}
+            className={`flex items-start gap-2 rounded p-1 ${outcome ? '' : 'cursor-pointer hover:bg-muted/50'}`}
+            data-testid={`change-${index}`}
+          >
+            <Checkbox
+              checked={selected.has(index)}
+              onCheckedChange={() => toggle(index)}
+              disabled={outcome !== null || isPending}
+              className="mt-0.5"
+            />
+            {change.type === 'create' ? (
+              <div className="min-w-0 flex-1">
+                <div className="flex items-center gap-1">
+                  <CalendarPlus className="h-3 w-3 flex-shrink-0 text-green-600" />
+                  <span className="truncate">{change.title}</span>
+                </div>
+                <div className="flex items-center gap-1 text-muted-foreground">
+                  <Badge variant="secondary" className="h-4 px-1 text-[10px] capitalize">{change.platform}</Badge>
+                  {formatWhen(change.scheduledDate)}
+                </div>
+              </div>
+            ) : (
+              <div className="min-w-0 flex-1">
+                <div className="flex items-center gap-1">
+                  <MoveRight className="h-3 w-3 flex-shrink-0 text-blue-600" />
+                  <span className="truncate">{change.current?.title ?? 'Content item'}</span>
+                </div>
+                <div className="flex items-center gap-1 text-muted-foreground">
+                  {change.current && <>{formatWhen(change.current.scheduledDate)}<ArrowRight className="h-3 w-3" /></>}
+                  {formatWhen(change.scheduledDate)}
+                </div>
+              </div>
+            )}
+          </label>
+        ))}
+      </div>
+
+      {outcome === 'applied' ? (
+        <p className="flex items-center text-green-600"><Check className="h-3 w-3 mr-1" />Applied</p>
+      ) : outcome === 'dismissed' ? (
+        <p className="text-muted-foreground">Dismissed</p>
+      ) : (
+        <div className="flex gap-2">
+          <Button
+            size="sm"
+            className="h-6 flex-1 text-xs"
+            onClick={() => applyMutation.mutate()}
+            disabled={selected.size === 0 || isPending}
+            data-testid="button-apply-changes"
+          >
+            {applyMutation.isPending && <Loader2 className="h-3 w-3 mr-1 animate-spin" />}
+            Apply {selected.size} {selected.size === 1 ? 'change' : 'changes'}
+          </Button>
+          <Button
+            size="sm"
+            variant="ghost"
+            className="h-6 text-xs"
+            onClick={() => dismissMutation.mutate()}
+            disabled={isPending}
+            data-testid="button-dismiss-changes"
+          >
+            Dismiss
+          </Button>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,113 @@
+import { useEffect, useState } from "react";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { Link2, Plus } from "lucide-react";
+import { toast } from "sonner";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover";
+import { Command, CommandEmpty, CommandInput, CommandItem, CommandList } from "@/components/ui/command";
+import { apiRequest, errorMessage } from "@/lib/queryClient";
+import type { ChatMessage, ContentItem } from "@shared/schema";
+
+const SEARCH_DEBOUNCE_MS = 200;
+
+interface LinkedItemProps {
+  id: string;
+  onOpen?: (item: ContentItem) => void;
+}
+
+function LinkedItem({ id, onOpen }: LinkedItemProps) {
+  const { data: item } = useQuery<ContentItem>({
+    queryKey: ['/api/content', id],
+  });
+  if (!item) return null;
+
+  return (
+    <Badge
+      variant="outline"
+      className="max-w-full cursor-pointer text-[10px] font-normal"
+      onClick={() => onOpen?.(item)}
+      data-testid={`linked-content-${id}`}
+    >
+      <Link2 className="h-2.5 w-2.5 mr-1 flex-shrink-0" />
+      <span className="truncate">{item.title}</span>
+    </Badge>
+  );
+}
+
+interface ChatMessageLinksProps {
+  threadId: string;
+  message: ChatMessage;
+  onContentOpen?: (item: ContentItem) => void;
+}
+
+// The content that came out of a message, and a search to link more
+export function ChatMessageLinks({ threadId, message, onContentOpen }: ChatMessageLinksProps) {
+  const queryClient = useQueryClient();
+  const [open, setOpen] = useState(false);
+  const [input, setInput] = useState("");
+  const [search, setSearch] = useState("");
+
+  useEffect(() => {
+    const timer = setTimeout(() => setSearch(input.trim()), SEARCH_DEBOUNCE_MS);
+    return () => clearTimeout(timer);
+  }, [input]);
+
+  const { data: results = [] } = useQuery<ContentItem[]>({
+    queryKey: ['/api/content', { q: search, limit: 10, sort: '-scheduledDate' }],
+    enabled: open && search.length >= 2,
+  });
+
+  const linkMutation = useMutation({
+    mutationFn: (contentId: string) =>
+      apiRequest('POST', `/api/ai/threads/${threadId}/messages/${message.id}/links`, { contentIds: [contentId] }),
+    onSuccess: () => {
+      setOpen(false);
+      setInput("");
+      queryClient.invalidateQueries({ queryKey: ['/api/ai/threads', threadId] });
+    },
+    onError: (error: Error) => {
+      toast.error(errorMessage(error));
+    },
+  });
+
+  return (
+    <div className="mt-1 flex flex-wrap items-center gap-1">
+      {message.contentIds.map((id) => (
+        <LinkedItem key={id} id={id} onOpen={onContentOpen} />
+      ))}
+      <Popover open={open} onOpenChange={setOpen}>
+        <PopoverTrigger asChild>
+          <Button
+            variant="ghost"
+            size="sm"
+            className="h-5 px-1 text-[10px] text-muted-foreground"
+            data-testid={`button-link-content-${message.id}`}
+          >
+            <Plus className="h-2.5 w-2.5 mr-0.5" />
+            Link content
+          </Button>
+        </PopoverTrigger>
+        <PopoverContent className="w-64 p-0" align="start">
+          <Command shouldFilter={false}>
+            <CommandInput placeholder="Search content..." value={input} onValueChange={setInput} />
+            <CommandList>
+              <CommandEmpty>{search.length >= 2 ? "No matching content." : "Type to search."}</CommandEmpty>
+              {search.length >= 2 && results.map((item) => (
+                <CommandItem
+                  key={item.id}
+                  value={item.id}
+                  onSelect={() => linkMutation.mutate(item.id)}
+                  disabled={message.contentIds.includes(item.id)}
+                >
+                  <span className="truncate">{item.title}</span>
+                  <Badge variant="outline" className="ml-auto text-xs capitalize">{item.platform}</Badge>
+                </CommandItem>
+              ))}
+            </CommandList>
+          </Command>
+        </PopoverContent>
+      </Popover>
+    </div>
+  );
+}
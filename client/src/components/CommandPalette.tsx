@@ -0,0 +1,124 @@
+import { useEffect, useState, type ComponentType } from "react";
+import moment from "moment";
+import { useQuery } from "@tanstack/react-query";
+import { Dialog, DialogContent, DialogTitle } from "@/components/ui/dialog";
+import {
+  Command,
+  CommandEmpty,
+  CommandGroup,
+  CommandInput,
+  CommandItem,
+  CommandList,
+  CommandSeparator,
+} from "@/components/ui/command";
+import { Badge } from "@/components/ui/badge";
+import { statusColors } from "@/lib/content-status";
+import type { ContentItem } from "@shared/schema";
+import type { ContentStatus } from "@shared/workflow";
+
+export interface PaletteAction {
+  id: string;
+  label: string;
+  icon: ComponentType<{ className?: string }>;
+  run: () => void;
+}
+
+interface CommandPaletteProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  onOpenItem: (item: ContentItem) => void;
+  actions: PaletteAction[];
+}
+
+const SEARCH_DEBOUNCE_MS = 200;
+
+// Ctrl/Cmd+K palette: server-side content search plus quick actions. Results
+// come pre-filtered from the API, so cmdk's own filtering is turned off.
+export function CommandPalette({ open, onOpenChange, onOpenItem, actions }: CommandPaletteProps) {
+  const [input, setInput] = useState("");
+  const [search, setSearch] = useState("");
+
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if ((e.metaKey || e.ctrlKey) && e.key.toLowerCase() === "k") {
+        e.preventDefault();
+        onOpenChange(!open);
+      }
+    };
+    window.addEventListener("keydown", handleKeyDown);
+    return () => window.removeEventListener("keydown", handleKeyDown);
+  }, [open, onOpenChange]);
+
+  useEffect(() => {
+    const timer = setTimeout(() => setSearch(input.trim()), SEARCH_DEBOUNCE_MS);
+    return () => clearTimeout(timer);
+  }, [input]);
+
+  useEffect(() => {
+    if (!open) setInput("");
+  }, [open]);
+
+  const { data: results = [], isFetching } = useQuery<ContentItem[]>({
+    queryKey: ['/api/content', { q: search, limit: 10, sort: '-scheduledDate' }],
+    enabled: open && search.length >= 2,
+  });
+
+  const matchingActions = actions.filter((action) =>
+    action.label.toLowerCase().includes(input.trim().toLowerCase())
+  );
+
+  const run = (callback: () => void) => {
+    onOpenChange(false);
+    callback();
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="overflow-hidden p-0 shadow-lg">
+        <DialogTitle className="sr-only">Search content</DialogTitle>
+        <Command
+          shouldFilter={false}
+          className="[&_[cmdk-group-heading]]:px-2 [&_[cmdk-group-heading]]:font-medium [&_[cmdk-group-heading]]:text-muted-foreground [&_[cmdk-group]]:px-2 [&_[cmdk-input-wrapper]_svg]:h-5 [&_[cmdk-input-wrapper]_svg]:w-5 [&_[cmdk-input]]:h-12 [&_[cmdk-item]]:px-2 [&_[cmdk-item]]:py-3"
+        >
+          <CommandInput
+            placeholder="Search content or type a command..."
+            value={input}
+            onValueChange={setInput}
+            data-testid="input-command-palette"
+          />
+          <CommandList>
+            <CommandEmpty>
+              {isFetching ? "Searching..." : "No matching content or commands."}
+            </CommandEmpty>
+
+            {search.length >= 2 && results.length > 0 && (
+              <CommandGroup heading="Content">
+                {results.map((item) => (
+                  <CommandItem key={item.id} value={`item-${item.id}`} onSelect={() => run(() => onOpenItem(item))}>
+                    <div className={`mr-2 h-2.5 w-2.5 flex-shrink-0 rounded-full ${statusColors[item.status as ContentStatus]?.dot ?? ''}`} />
+                    <span className="truncate">{item.title}</span>
+                    <Badge variant="outline" className="ml-auto mr-2 text-xs capitalize">{item.platform}</Badge>
+                    <span className="text-xs text-muted-foreground">{moment(item.scheduledDate).format('MMM D, YYYY')}</span>
+                  </CommandItem>
+                ))}
+              </CommandGroup>
+            )}
+
+            {search.length >= 2 && results.length > 0 && matchingActions.length > 0 && <CommandSeparator />}
+
+            {matchingActions.length > 0 && (
+              <CommandGroup heading="Actions">
+                {matchingActions.map((action) => (
+                  <CommandItem key={action.id} value={`action-${action.id}`} onSelect={() => run(action.run)}>
+                    <action.icon className="mr-2 h-4 w-4" />
+                    {action.label}
+                  </CommandItem>
+                ))}
+              </CommandGroup>
+            )}
+          </CommandList>
+        </Command>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,135 @@
+import { useState } from "react";
+import moment from "moment";
+import { Layers } from "lucide-react";
+import { useMutation, useQueryClient } from "@tanstack/react-query";
+import { toast } from "sonner";
+import { Badge } from "@/components/ui/badge";
+import { Card, CardContent } from "@/components/ui/card";
+import { useWorkspaces } from "@/hooks/use-workspaces";
+import { apiRequest, errorMessage } from "@/lib/queryClient";
+import { statusColors } from "@/lib/content-status";
+import { patchCachedContentItem } from "@/lib/content-cache";
+import { can, type ContentItem } from "@shared/schema";
+import { canTransition, isReviewDecision, statusLabels, type ContentStatus } from "@shared/workflow";
+
+interface ContentBoardProps {
+  items: ContentItem[];
+  // Columns to show, in workflow order
+  statuses: ContentStatus[];
+  onSelectItem: (item: ContentItem) => void;
+}
+
+const platformLabels: Record<string, string> = {
+  social: "Social",
+  email: "Email",
+  blog: "Blog",
+};
+
+// Kanban view of the workflow: one column per status. Dropping a card on
+// another column moves the item through the status API.
+export function ContentBoard({ items, statuses, onSelectItem }: ContentBoardProps) {
+  const queryClient = useQueryClient();
+  const { currentWorkspace } = useWorkspaces();
+  const [dragging, setDragging] = useState<ContentItem | null>(null);
+  const [dropTarget, setDropTarget] = useState<ContentStatus | null>(null);
+
+  const statusMutation = useMutation({
+    mutationFn: ({ id, status }: { id: string; status: ContentStatus }) =>
+      apiRequest('POST', `/api/content/${id}/status`, { status }),
+    onMutate: async ({ id, status }) => ({
+      rollback: await patchCachedContentItem(queryClient, id, { status }),
+    }),
+    onError: (error: Error, _variables, context) => {
+      context?.rollback();
+      toast.error(errorMessage(error));
+    },
+    onSettled: () => {
+      queryClient.invalidateQueries({ queryKey: ['/api/content'] });
+    },
+  });
+
+  // Mirrors the server's checks so impossible drops are never offered
+  const canMove = (item: ContentItem, to: ContentStatus) => {
+    if (!currentWorkspace || !canTransition(item.status, to)) return false;
+    const permission = isReviewDecision(item.status, to) ? "content:review" : "content:write";
+    return can(currentWorkspace.role, permission);
+  };
+
+  const handleDrop = (to: ContentStatus) => {
+    if (dragging && canMove(dragging, to)) {
+      statusMutation.mutate({ id: dragging.id, status: to });
+    }
+    setDragging(null);
+    setDropTarget(null);
+  };
+
+  return (
+    <div className="flex h-full gap-4 overflow-x-auto pb-2">
+      {statuses.map((status) => {
+        const columnItems = items.filter((item) => item.status === status);
+        const isAllowed = !dragging || dragging.status === status || canMove(dragging, status);
+
+        return (
+          <div
+            key={status}
+            className={`flex w-72 flex-shrink-0 flex-col rounded-lg border bg-muted/30 transition-all ${
+              dropTarget === status ? 'border-primary bg-primary/5' : 'border-border'
+            } ${isAllowed ? '' : 'opacity-40'}`}
+            onDragOver={(e) => {
+              if (dragging && dragging.status !== status && canMove(dragging, status)) {
+                e.preventDefault();
+                setDropTarget(status);
+              }
+            }}
+            onDragLeave={() => setDropTarget((current) => (current === status ? null : current))}
+            onDrop={(e) => {
+              e.preventDefault();
+              handleDrop(status);
+            }}
+            data-testid={`board-column-${status}`}
+          >
+            <div className="flex items-center justify-between border-b border-border p-3">
+              <div className="flex items-center gap-2">
+                <div className={`h-3 w-3 rounded-full ${statusColors[status].dot}`} />
+                <h3 className="font-semibold text-foreground">{statusLabels[status]}</h3>
+              </div>
+              <Badge variant="secondary" className="text-xs">{columnItems.length}</Badge>
+            </div>
+            <div className="flex-1 space-y-2 overflow-y-auto p-2">
+              {columnItems.map((item) => (
+                <Card
+                  key={item.id}
+                  draggable
+                  onDragStart={(e) => {
+                    e.dataTransfer.effectAllowed = "move";
+                    setDragging(item);
+                  }}
+                  onDragEnd={() => {
+                    setDragging(null);
+                    setDropTarget(null);
+                  }}
+                  onClick={() => onSelectItem(item)}
+                  className="cursor-grab transition-all hover:shadow-md active:cursor-grabbing"
+                  data-testid={`board-card-${item.id}`}
+                >
+                  <CardContent className="space-y-2 p-3">
+                    <p className="text-sm font-medium text-foreground">{item.title}</p>
+                    <div className="flex items-center justify-between">
+                      <Badge variant="outline" className="text-xs">
+                        {item.pieceId && <Layers className="h-3 w-3 mr-1" />}
+                        {platformLabels[item.platform] ?? item.platform}
+                      </Badge>
+                      <span className="text-xs text-muted-foreground">
+                        {moment(item.scheduledDate).format('MMM D, h:mm A')}
+                      </span>
+                    </div>
+                  </CardContent>
+                </Card>
+              ))}
+            </div>
+          </div>
+        );
+      })}
+    </div>
+  );
+}
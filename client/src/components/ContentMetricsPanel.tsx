@@ -0,0 +1,103 @@
+import { useState } from "react";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { Activity, Loader2, Plus } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest, errorMessage } from "@/lib/queryClient";
+import { metricFields, type ContentItem, type ContentMetrics, type MetricField } from "@shared/schema";
+
+const metricLabels: Record<MetricField, string> = {
+  impressions: "Impressions",
+  clicks: "Clicks",
+  likes: "Likes",
+  shares: "Shares",
+  comments: "Comments",
+  opens: "Opens",
+};
+
+const emptyForm = Object.fromEntries(metricFields.map((field) => [field, ""])) as Record<MetricField, string>;
+
+interface ContentMetricsPanelProps {
+  item: ContentItem;
+  canWrite: boolean;
+}
+
+// Engagement of a posted item: its latest numbers, and a form to record
+// new running totals by hand
+export function ContentMetricsPanel({ item, canWrite }: ContentMetricsPanelProps) {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [form, setForm] = useState(emptyForm);
+
+  const { data: snapshots = [] } = useQuery<ContentMetrics[]>({
+    queryKey: ['/api/content', item.id, 'metrics'],
+  });
+  const latest = snapshots[snapshots.length - 1];
+
+  const recordMutation = useMutation({
+    // Blank fields keep their last recorded value
+    mutationFn: () => apiRequest('POST', `/api/content/${item.id}/metrics`, Object.fromEntries(
+      metricFields.map((field) => [field, form[field] === "" ? latest?.[field] ?? 0 : Number(form[field])]),
+    )),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['/api/content', item.id, 'metrics'] });
+      queryClient.invalidateQueries({ queryKey: ['/api/analytics'] });
+      queryClient.invalidateQueries({ queryKey: ['/api/posting-times'] });
+      setForm(emptyForm);
+      toast({ title: "Metrics Recorded", description: "The engagement numbers were saved." });
+    },
+    onError: (error: Error) => {
+      toast({ title: "Error", description: errorMessage(error), variant: "destructive" });
+    },
+  });
+
+  return (
+    <div className="space-y-3 rounded-lg border border-border p-4" data-testid="metrics-panel">
+      <div className="flex items-center justify-between">
+        <Label className="flex items-center gap-2">
+          <Activity className="h-4 w-4" />
+          Engagement
+        </Label>
+        <span className="text-xs text-muted-foreground">
+          {latest ? `As of ${new Date(latest.capturedAt).toLocaleString()}` : "No metrics recorded yet"}
+        </span>
+      </div>
+
+      <div className="grid grid-cols-3 gap-3">
+        {metricFields.map((field) => (
+          <div key={field} className="space-y-1">
+            <Label htmlFor={`metric-${field}`} className="text-xs text-muted-foreground">{metricLabels[field]}</Label>
+            <Input
+              id={`metric-${field}`}
+              type="number"
+              min={0}
+              placeholder={(latest?.[field] ?? 0).toString()}
+              value={form[field]}
+              onChange={(e) => setForm({ ...form, [field]: e.target.value })}
+              disabled={!canWrite}
+              data-testid={`input-metric-${field}`}
+            />
+          </div>
+        ))}
+      </div>
+
+      {canWrite && (
+        <div className="flex justify-end">
+          <Button
+            type="button"
+            variant="outline"
+            size="sm"
+            disabled={recordMutation.isPending || Object.values(form).every((value) => value === "")}
+            onClick={() => recordMutation.mutate()}
+            data-testid="button-record-metrics"
+          >
+            {recordMutation.isPending ? <Loader2 className="h-4 w-4 mr-2 animate-spin" /> : <Plus className="h-4 w-4 mr-2" />}
+            Record Totals
+          </Button>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -1,8 +1,8 @@
-import { useState, useEffect } from "react";
-import { useMutation, useQueryClient } from "@tanstack/react-query";
+import { useState, useEffect, useRef } from "react";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
 import { zodResolver } from "@hookform/resolvers/zod";
 import { useForm } from "react-hook-form";
-import { X, Save, Loader2 } from "lucide-react";
+import { X, Save, Loader2, CheckCircle, XCircle, Repeat, Trash2 } from "lucide-react";
 import {
   Dialog,
   DialogContent,
@@ -29,9 +29,39 @@ import { Textarea } from "@/components/ui/textarea";
 import { Button } from "@/components/ui/button";
 import { RadioGroup, RadioGroupItem } from "@/components/ui/radio-group";
 import { Label } from "@/components/ui/label";
+import { Badge } from "@/components/ui/badge";
 import { useToast } from "@/hooks/use-toast";
-import { apiRequest } from "@/lib/queryClient";
-import { insertContentItemSchema, type ContentItem, type InsertContentItem } from "@shared/schema";
+import { useWorkspaces } from "@/hooks/use-workspaces";
+import { apiRequest, errorMessage } from "@/lib/queryClient";
+import { statusColors, statusDescriptions } from "@/lib/content-status";
+import { isOccurrence, occurrencePath } from "@/lib/content-series";
+import { RecurrencePicker } from "./RecurrencePicker";
+import { ContentMetricsPanel } from "./ContentMetricsPanel";
+import { PostingTimeChoices } from "./PostingTimeChoices";
+import { ContentVariantTabs } from "./ContentVariantTabs";
+import {
+  can,
+  insertContentItemSchema,
+  type ContentItem,
+  type ContentPieceWithVariants,
+  type ContentPlatform,
+  type InsertContentItem,
+  type PublishDestination,
+} from "@shared/schema";
+import {
+  initialStatuses,
+  isReviewDecision,
+  statusLabels,
+  statusTransitions,
+  type ContentStatus,
+} from "@shared/workflow";
+import type { OccurrenceScope } from "@shared/recurrence";
+
+const scopeLabels: Record<OccurrenceScope, string> = {
+  this: "This occurrence",
+  following: "This and following",
+  all: "All occurrences",
+};
 
 interface ContentModalProps {
   isOpen: boolean;
@@ -39,10 +69,59 @@ interface ContentModalProps {
   editingItem: ContentItem | null;
 }
 
-export function ContentModal({ isOpen, onClose, editingItem }: ContentModalProps) {
+export function ContentModal({ isOpen, onClose, editingItem: openedItem }: ContentModalProps) {
   const { toast } = useToast();
   const queryClient = useQueryClient();
+  const { currentWorkspace } = useWorkspaces();
   const [isSubmitting, setIsSubmitting] = useState(false);
+  const [reviewNote, setReviewNote] = useState("");
+  const [tagInput, setTagInput] = useState("");
+  const [scope, setScope] = useState<OccurrenceScope>("this");
+
+  const { data: destinations = [] } = useQuery<PublishDestination[]>({
+    queryKey: ['/api/destinations'],
+    enabled: isOpen,
+  });
+
+  // The variants of a piece are edited in tabs. Edits made in one tab are
+  // kept while another is open, and saved along with it.
+  const [pieceId, setPieceId] = useState<string | null>(null);
+  const [activeId, setActiveId] = useState<string | null>(null);
+  const drafts = useRef<Record<string, InsertContentItem>>({});
+
+  useEffect(() => {
+    setPieceId(openedItem?.pieceId ?? null);
+    setActiveId(null);
+    drafts.current = {};
+  }, [openedItem, isOpen]);
+
+  // Variants also change from the calendar and the board, so they're
+  // fetched again each time the modal opens
+  const { data: piece } = useQuery<ContentPieceWithVariants>({
+    queryKey: ['/api/pieces', pieceId],
+    enabled: isOpen && !!pieceId,
+    staleTime: 0,
+  });
+  const editingItem = piece?.variants.find((variant) => variant.id === (activeId ?? openedItem?.id)) ?? openedItem;
+
+  // Suggestions pre-fill an item without an id; those are still new items
+  const isEditing = !!editingItem?.id;
+  const editingOccurrence = !!editingItem && isOccurrence(editingItem);
+  // One occurrence can't get a rule of its own, and variants don't repeat
+  const canRepeat = !editingItem?.seriesId && !editingItem?.pieceId && !(editingOccurrence && scope === "this");
+  const canHaveVariants = isEditing && !editingItem!.recurrence && !editingItem!.seriesId;
+  const currentStatus = (editingItem?.status ?? "draft") as ContentStatus;
+  const canWrite = !!currentWorkspace && can(currentWorkspace.role, "content:write");
+  const canReview =
+    isEditing &&
+    currentStatus === "in_review" &&
+    !!currentWorkspace &&
+    can(currentWorkspace.role, "content:review");
+
+  // Sign-off decisions go through the reviewer panel, not the status picker
+  const statusOptions: ContentStatus[] = isEditing
+    ? [currentStatus, ...statusTransitions[currentStatus].filter((to) => !isReviewDecision(currentStatus, to))]
+    : [...initialStatuses];
 
   const form = useForm<InsertContentItem>({
     resolver: zodResolver(insertContentItemSchema),
@@ -61,6 +140,7 @@ export function ContentModal({ isOpen, onClose, editingItem }: ContentModalProps
       apiRequest('POST', '/api/content', data),
     onSuccess: () => {
       queryClient.invalidateQueries({ queryKey: ['/api/content'] });
+      queryClient.invalidateQueries({ queryKey: ['/api/me/usage'] });
       toast({
         title: "Success",
         description: "Content item created successfully",
@@ -68,21 +148,26 @@ export function ContentModal({ isOpen, onClose, editingItem }: ContentModalProps
       onClose();
       form.reset();
     },
-    onError: () => {
+    onError: (error: Error) => {
       toast({
         title: "Error",
-        description: "Failed to create content item",
+        description: errorMessage(error),
         variant: "destructive",
       });
     },
   });
 
-  // Update mutation
+  // Update mutation. Occurrences of a series are edited through the
+  // occurrence API, with the scope picked in the form.
   const updateMutation = useMutation({
-    mutationFn: ({ id, data }: { id: string; data: Partial<InsertContentItem> }) =>
-      apiRequest('PUT', `/api/content/${id}`, data),
+    mutationFn: ({ item, data }: { item: ContentItem; data: Partial<InsertContentItem> }) =>
+      isOccurrence(item)
+        ? apiRequest('PUT', occurrencePath(item), { ...data, scope })
+        : apiRequest('PUT', `/api/content/${item.id}`, data),
     onSuccess: () => {
       queryClient.invalidateQueries({ queryKey: ['/api/content'] });
+      queryClient.invalidateQueries({ queryKey: ['/api/pieces'] });
+      queryClient.invalidateQueries({ queryKey: ['/api/me/usage'] });
       toast({
         title: "Success",
         description: "Content item updated successfully",
@@ -90,24 +175,112 @@ export function ContentModal({ isOpen, onClose, editingItem }: ContentModalProps
       onClose();
       form.reset();
     },
+    onError: (error: Error) => {
+      toast({
+        title: "Error",
+        description: errorMessage(error),
+        variant: "destructive",
+      });
+    },
+  });
+
+  const deleteOccurrenceMutation = useMutation({
+    mutationFn: (item: ContentItem) => apiRequest('DELETE', `${occurrencePath(item)}?scope=${scope}`),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['/api/content'] });
+      toast({
+        title: "Deleted",
+        description: scope === "this" ? "The occurrence was removed from the series" : "The series was updated",
+      });
+      onClose();
+    },
     onError: () => {
       toast({
         title: "Error",
-        description: "Failed to update content item",
+        description: "Failed to delete occurrence",
         variant: "destructive",
       });
     },
   });
 
+  // Reviewer sign-off
+  const reviewMutation = useMutation({
+    mutationFn: ({ id, status }: { id: string; status: "approved" | "rejected" }) =>
+      apiRequest('POST', `/api/content/${id}/status`, { status, note: reviewNote || undefined }),
+    onSuccess: (_res, { status }) => {
+      queryClient.invalidateQueries({ queryKey: ['/api/content'] });
+      queryClient.invalidateQueries({ queryKey: ['/api/pieces'] });
+      toast({
+        title: status === "approved" ? "Approved" : "Changes Requested",
+        description: status === "approved"
+          ? "The content is signed off and can now be scheduled"
+          : "The author has been asked to revise this content",
+      });
+      setReviewNote("");
+      onClose();
+    },
+    onError: () => {
+      toast({
+        title: "Error",
+        description: "Failed to record review decision",
+        variant: "destructive",
+      });
+    },
+  });
+
+  // Starts from the other channel's copy, as a draft
+  const addVariantMutation = useMutation({
+    mutationFn: async (platform: ContentPlatform) => {
+      const { title, description, tags, scheduledDate } = form.getValues();
+      const response = await apiRequest('POST', `/api/content/${editingItem!.id}/variants`, {
+        title,
+        description,
+        tags,
+        scheduledDate,
+        platform,
+        status: "draft",
+      });
+      return response.json() as Promise<ContentItem>;
+    },
+    onSuccess: (variant) => {
+      queryClient.invalidateQueries({ queryKey: ['/api/content'] });
+      queryClient.invalidateQueries({ queryKey: ['/api/pieces', variant.pieceId] });
+      queryClient.invalidateQueries({ queryKey: ['/api/me/usage'] });
+      selectVariant(variant.id);
+      setPieceId(variant.pieceId);
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Error",
+        description: errorMessage(error),
+        variant: "destructive",
+      });
+    },
+  });
+
+  const selectVariant = (id: string) => {
+    if (editingItem && form.formState.isDirty) {
+      drafts.current[editingItem.id] = form.getValues();
+    }
+    setActiveId(id);
+  };
+
   // Set form values when editing
   useEffect(() => {
-    if (editingItem) {
+    setTagInput("");
+    setScope("this");
+    if (editingItem && drafts.current[editingItem.id]) {
+      form.reset(drafts.current[editingItem.id]);
+    } else if (editingItem) {
       form.reset({
         title: editingItem.title,
         description: editingItem.description || "",
         platform: editingItem.platform as "social" | "email" | "blog",
         scheduledDate: new Date(editingItem.scheduledDate),
-        status: editingItem.status as "draft" | "scheduled" | "posted",
+        status: editingItem.status as ContentStatus,
+        destinationId: editingItem.destinationId ?? null,
+        tags: editingItem.tags ?? [],
+        recurrence: editingItem.recurrence ?? null,
       });
     } else {
       form.reset({
@@ -116,23 +289,53 @@ export function ContentModal({ isOpen, onClose, editingItem }: ContentModalProps
         platform: "social",
         scheduledDate: new Date(),
         status: "draft",
+        destinationId: null,
+        tags: [],
+        recurrence: null,
       });
     }
   }, [editingItem, form]);
 
   const onSubmit = async (data: InsertContentItem) => {
     setIsSubmitting(true);
+    const { recurrence, ...fields } = data;
+    const payload: InsertContentItem = canRepeat ? { ...fields, recurrence: recurrence ?? null } : fields;
+    // New rules repeat on the author's local calendar
+    if (canRepeat && recurrence && recurrence !== editingItem?.recurrence) {
+      payload.timeZone = Intl.DateTimeFormat().resolvedOptions().timeZone;
+    }
     try {
-      if (editingItem) {
-        await updateMutation.mutateAsync({ id: editingItem.id, data });
+      if (isEditing) {
+        // Other tabs' edits first, so a failure shows the tab it came from
+        for (const id of Object.keys(drafts.current).filter((id) => id !== editingItem!.id)) {
+          try {
+            await apiRequest('PUT', `/api/content/${id}`, drafts.current[id]);
+            delete drafts.current[id];
+          } catch (error) {
+            queryClient.invalidateQueries({ queryKey: ['/api/content'] });
+            queryClient.invalidateQueries({ queryKey: ['/api/pieces'] });
+            drafts.current[editingItem!.id] = data;
+            setActiveId(id);
+            toast({
+              title: "Error",
+              description: errorMessage(error as Error),
+              variant: "destructive",
+            });
+            return;
+          }
+        }
+        await updateMutation.mutateAsync({ item: editingItem!, data: payload });
       } else {
-        await createMutation.mutateAsync(data);
+        await createMutation.mutateAsync(payload);
       }
     } finally {
       setIsSubmitting(false);
     }
   };
 
+  const isTakenPlatform = (platform: ContentPlatform) =>
+    !!piece?.variants.some((variant) => variant.id !== editingItem?.id && variant.platform === platform);
+
   const handleClose = () => {
     onClose();
     form.reset();
@@ -150,10 +353,93 @@ export function ContentModal({ isOpen, onClose, editingItem }: ContentModalProps
       <DialogContent className="max-w-2xl max-h-[90vh] overflow-y-auto animate-slide-up transition-all duration-300">
         <DialogHeader>
           <DialogTitle className="text-2xl font-bold">
-            {editingItem ? "Edit Content" : "Add New Content"}
+            {isEditing ? "Edit Content" : "Add New Content"}
           </DialogTitle>
         </DialogHeader>
 
+        {canHaveVariants && (
+          <ContentVariantTabs
+            piece={piece}
+            activeItem={editingItem!}
+            unsavedIds={Object.keys(drafts.current)}
+            canWrite={canWrite}
+            isAdding={addVariantMutation.isPending}
+            onSelect={selectVariant}
+            onAdd={(platform) => addVariantMutation.mutate(platform)}
+          />
+        )}
+
+        {editingItem?.seriesId && (
+          <div className="flex items-center gap-2 rounded-lg border border-border p-3 text-sm text-muted-foreground">
+            <Repeat className="h-4 w-4" />
+            This occurrence of a series has been edited on its own. Changes here only affect it.
+          </div>
+        )}
+
+        {isEditing && (editingItem!.approvedAt || editingItem!.reviewNote || editingItem!.lastPublishError) && (
+          <div className="rounded-lg border border-border p-3 text-sm space-y-1">
+            {editingItem!.approvedAt && (
+              <div className="flex items-center gap-2">
+                <CheckCircle className="h-4 w-4 text-teal-500" />
+                Approved {new Date(editingItem!.approvedAt).toLocaleString()}
+              </div>
+            )}
+            {editingItem!.reviewNote && (
+              <div className="text-muted-foreground">Reviewer note: {editingItem!.reviewNote}</div>
+            )}
+            {editingItem!.lastPublishError && (
+              <div className="flex items-center gap-2 text-orange-600">
+                <XCircle className="h-4 w-4" />
+                Publishing failed after {editingItem!.publishAttempts} attempt(s): {editingItem!.lastPublishError}
+              </div>
+            )}
+          </div>
+        )}
+
+        {isEditing && (currentStatus === "approved" || currentStatus === "scheduled") && (
+          <p className="text-sm text-muted-foreground">
+            Changing the title, description, platform or tags sends this content back for review.
+          </p>
+        )}
+
+        {isEditing && currentStatus === "posted" && (
+          <ContentMetricsPanel key={editingItem!.id} item={editingItem!} canWrite={canWrite} />
+        )}
+
+        {canReview && (
+          <div className="rounded-lg border border-blue-400/50 bg-blue-500/5 p-4 space-y-3" data-testid="review-panel">
+            <div className="font-medium">This content is waiting for your sign-off</div>
+            <Textarea
+              placeholder="Optional note for the author..."
+              rows={2}
+              value={reviewNote}
+              onChange={(e) => setReviewNote(e.target.value)}
+              data-testid="textarea-review-note"
+            />
+            <div className="flex gap-2 justify-end">
+              <Button
+                type="button"
+                variant="outline"
+                disabled={reviewMutation.isPending}
+                onClick={() => reviewMutation.mutate({ id: editingItem!.id, status: "rejected" })}
+                data-testid="button-reject"
+              >
+                <XCircle className="h-4 w-4 mr-2" />
+                Request Changes
+              </Button>
+              <Button
+                type="button"
+                disabled={reviewMutation.isPending}
+                onClick={() => reviewMutation.mutate({ id: editingItem!.id, status: "approved" })}
+                data-testid="button-approve"
+              >
+                <CheckCircle className="h-4 w-4 mr-2" />
+                Approve
+              </Button>
+            </div>
+          </div>
+        )}
+
         <Form {...form}>
           <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-6 animate-fade-in">
             {/* Title Field */}
@@ -200,6 +486,57 @@ export function ContentModal({ isOpen, onClose, editingItem }: ContentModalProps
               )}
             />
 
+            {/* Tags */}
+            <FormField
+              control={form.control}
+              name="tags"
+              render={({ field }) => {
+                const tags = field.value ?? [];
+                const addTag = () => {
+                  const tag = tagInput.trim().replace(/,$/, "");
+                  if (tag && !tags.includes(tag)) field.onChange([...tags, tag]);
+                  setTagInput("");
+                };
+                return (
+                  <FormItem>
+                    <FormLabel>Tags</FormLabel>
+                    {tags.length > 0 && (
+                      <div className="flex flex-wrap gap-1">
+                        {tags.map((tag) => (
+                          <Badge key={tag} variant="secondary" className="gap-1">
+                            {tag}
+                            <button
+                              type="button"
+                              onClick={() => field.onChange(tags.filter((t) => t !== tag))}
+                              aria-label={`Remove ${tag}`}
+                            >
+                              <X className="h-3 w-3" />
+                            </button>
+                          </Badge>
+                        ))}
+                      </div>
+                    )}
+                    <FormControl>
+                      <Input
+                        placeholder="Type a tag and press Enter..."
+                        value={tagInput}
+                        onChange={(e) => setTagInput(e.target.value)}
+                        onKeyDown={(e) => {
+                          if (e.key === "Enter" || e.key === ",") {
+                            e.preventDefault();
+                            addTag();
+                          }
+                        }}
+                        onBlur={addTag}
+                        data-testid="input-tags"
+                      />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                );
+              }}
+            />
+
             {/* Platform Selection */}
             <FormField
               control={form.control}
@@ -216,9 +553,40 @@ export function ContentModal({ isOpen, onClose, editingItem }: ContentModalProps
                       </SelectTrigger>
                     </FormControl>
                     <SelectContent>
-                      <SelectItem value="social">Social Media</SelectItem>
-                      <SelectItem value="email">Email</SelectItem>
-                      <SelectItem value="blog">Blog</SelectItem>
+                      {/* A piece has one variant per channel */}
+                      <SelectItem value="social" disabled={isTakenPlatform("social")}>Social Media</SelectItem>
+                      <SelectItem value="email" disabled={isTakenPlatform("email")}>Email</SelectItem>
+                      <SelectItem value="blog" disabled={isTakenPlatform("blog")}>Blog</SelectItem>
+                    </SelectContent>
+                  </Select>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+
+            {/* Publish Destination */}
+            <FormField
+              control={form.control}
+              name="destinationId"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Publish To</FormLabel>
+                  <Select
+                    onValueChange={(value) => field.onChange(value === "none" ? null : value)}
+                    value={field.value ?? "none"}
+                  >
+                    <FormControl>
+                      <SelectTrigger data-testid="select-destination">
+                        <SelectValue />
+                      </SelectTrigger>
+                    </FormControl>
+                    <SelectContent>
+                      <SelectItem value="none">Don't deliver (just mark as posted)</SelectItem>
+                      {destinations.map((destination) => (
+                        <SelectItem key={destination.id} value={destination.id}>
+                          {destination.name}
+                        </SelectItem>
+                      ))}
                     </SelectContent>
                   </Select>
                   <FormMessage />
@@ -244,11 +612,37 @@ export function ContentModal({ isOpen, onClose, editingItem }: ContentModalProps
                       className="transition-all duration-200 focus:scale-105"
                     />
                   </FormControl>
+                  {currentStatus !== "posted" && (
+                    <PostingTimeChoices
+                      platform={form.watch("platform")}
+                      value={field.value}
+                      onSelect={field.onChange}
+                    />
+                  )}
                   <FormMessage />
                 </FormItem>
               )}
             />
 
+            {/* Recurrence */}
+            {canRepeat && (
+              <FormField
+                control={form.control}
+                name="recurrence"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Repeat</FormLabel>
+                    <RecurrencePicker
+                      value={field.value}
+                      onChange={field.onChange}
+                      startDate={form.watch("scheduledDate")}
+                    />
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+            )}
+
             {/* Status Selection */}
             <FormField
               control={form.control}
@@ -264,11 +658,12 @@ export function ContentModal({ isOpen, onClose, editingItem }: ContentModalProps
                       onValueChange={field.onChange}
                       className="grid grid-cols-3 gap-3"
                     >
-                      {[
-                        { value: "draft", label: "Draft", desc: "Not ready", color: "bg-gray-400" },
-                        { value: "scheduled", label: "Scheduled", desc: "Ready to post", color: "bg-yellow-400" },
-                        { value: "posted", label: "Posted", desc: "Published", color: "bg-green-400" },
-                      ].map((option) => (
+                      {statusOptions.map((status) => ({
+                        value: status,
+                        label: statusLabels[status],
+                        desc: statusDescriptions[status],
+                        color: statusColors[status].dot,
+                      })).map((option) => (
                         <div key={option.value} className="flex items-center space-x-2">
                           <RadioGroupItem
                             value={option.value}
@@ -297,8 +692,43 @@ export function ContentModal({ isOpen, onClose, editingItem }: ContentModalProps
               )}
             />
 
+            {/* Which occurrences a save or delete applies to */}
+            {editingOccurrence && (
+              <div className="space-y-2 rounded-lg border border-border p-4">
+                <Label className="flex items-center gap-2">
+                  <Repeat className="h-4 w-4" />
+                  Apply to
+                </Label>
+                <RadioGroup
+                  value={scope}
+                  onValueChange={(value) => setScope(value as OccurrenceScope)}
+                  className="flex flex-wrap gap-4"
+                >
+                  {(Object.keys(scopeLabels) as OccurrenceScope[]).map((option) => (
+                    <div key={option} className="flex items-center gap-2">
+                      <RadioGroupItem value={option} id={`scope-${option}`} data-testid={`radio-scope-${option}`} />
+                      <Label htmlFor={`scope-${option}`} className="font-normal cursor-pointer">{scopeLabels[option]}</Label>
+                    </div>
+                  ))}
+                </RadioGroup>
+              </div>
+            )}
+
             {/* Form Actions */}
             <div className="flex items-center justify-end gap-3 pt-4 border-t border-border">
+              {editingOccurrence && (
+                <Button
+                  type="button"
+                  variant="ghost"
+                  className="mr-auto text-destructive"
+                  disabled={!canWrite || deleteOccurrenceMutation.isPending}
+                  onClick={() => deleteOccurrenceMutation.mutate(editingItem!)}
+                  data-testid="button-delete-occurrence"
+                >
+                  <Trash2 className="h-4 w-4 mr-2" />
+                  Delete
+                </Button>
+              )}
               <Button
                 type="button"
                 variant="outline"
@@ -310,19 +740,19 @@ export function ContentModal({ isOpen, onClose, editingItem }: ContentModalProps
               </Button>
               <Button
                 type="submit"
-                disabled={isSubmitting}
+                disabled={isSubmitting || !canWrite}
                 data-testid="button-save"
                 className="transition-all duration-200 hover:scale-105 hover:shadow-lg"
               >
                 {isSubmitting ? (
                   <>
                     <Loader2 className="h-4 w-4 mr-2 animate-spin" />
-                    {editingItem ? "Updating..." : "Saving..."}
+                    {isEditing ? "Updating..." : "Saving..."}
                   </>
                 ) : (
                   <>
                     <Save className="h-4 w-4 mr-2" />
-                    {editingItem ? "Update Content" : "Save Content"}
+                    {isEditing ? "Update Content" : "Save Content"}
                   </>
                 )}
               </Button>
@@ -1,25 +1,34 @@
 import { useState, useCallback } from "react";
-import { Link } from "wouter";
+import { Link, useLocation } from "wouter";
 import { Calendar, momentLocalizer } from "react-big-calendar";
+import withDragAndDrop, { type EventInteractionArgs } from "react-big-calendar/lib/addons/dragAndDrop";
 import moment from "moment";
 import "react-big-calendar/lib/css/react-big-calendar.css";
-import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
-import { Plus, Settings, ChevronLeft, ChevronRight, Filter, BarChart3, Clock, Home, Zap, Crown, LogOut, User } from "lucide-react";
+import "react-big-calendar/lib/addons/dragAndDrop/styles.css";
+import { useQuery, useMutation, useQueryClient, keepPreviousData } from "@tanstack/react-query";
+import { Plus, Settings, ChevronLeft, ChevronRight, Filter, BarChart3, Clock, Home, Zap, Crown, LogOut, User, Check, Search, CalendarDays, LayoutGrid } from "lucide-react";
 import { ContentModal } from "./ContentModal";
+import { ContentBoard } from "./ContentBoard";
+import { CommandPalette, type PaletteAction } from "./CommandPalette";
 import { AIAssistant } from "./AIAssistant";
 import { AuthModal } from "./AuthModal";
+import { UpgradePrompt } from "./UpgradePrompt";
 import { useAuth } from "@/contexts/AuthContext";
 import { ThemeToggle } from "@/components/ui/theme-toggle";
 import { Button } from "@/components/ui/button";
 import { Checkbox } from "@/components/ui/checkbox";
-import { Card, CardContent } from "@/components/ui/card";
 import { Badge } from "@/components/ui/badge";
 import { Avatar, AvatarFallback } from "@/components/ui/avatar";
 import { DropdownMenu, DropdownMenuContent, DropdownMenuItem, DropdownMenuSeparator, DropdownMenuTrigger } from "@/components/ui/dropdown-menu";
 import { useToast } from "@/hooks/use-toast";
-import { apiRequest } from "@/lib/queryClient";
+import { useWorkspaces } from "@/hooks/use-workspaces";
+import { apiRequest, errorMessage } from "@/lib/queryClient";
 import { toast } from "sonner";
-import { type ContentItem } from "@shared/schema";
+import { can, type ContentItem, type ContentSuggestion } from "@shared/schema";
+import { contentStatuses, statusLabels, type ContentStatus } from "@shared/workflow";
+import { statusColors } from "@/lib/content-status";
+import { patchCachedContentItem } from "@/lib/content-cache";
+import { isOccurrence, occurrencePath } from "@/lib/content-series";
 
 const localizer = momentLocalizer(moment);
 
@@ -31,18 +40,39 @@ interface CalendarEvent {
   resource: ContentItem;
 }
 
+const DragAndDropCalendar = withDragAndDrop<CalendarEvent>(Calendar);
+
+// Month view pads the month out to whole weeks, like the grid does
+function visibleRange(date: Date, view: 'month' | 'week' | 'day') {
+  const start = view === 'month' ? moment(date).startOf('month').startOf('week') : moment(date).startOf(view);
+  const end = view === 'month' ? moment(date).endOf('month').endOf('week') : moment(date).endOf(view);
+  return { from: start.toISOString(), to: end.toISOString() };
+}
+
 export function ContentPlannerApp() {
   const { toast: useToastHook } = useToast();
   const { user, loading, signOut } = useAuth();
   const queryClient = useQueryClient();
+  const { workspaces, currentWorkspace, switchWorkspace } = useWorkspaces();
   const [isModalOpen, setIsModalOpen] = useState(false);
   const [isAuthModalOpen, setIsAuthModalOpen] = useState(false);
+  const [isPaletteOpen, setIsPaletteOpen] = useState(false);
+  const [, setLocation] = useLocation();
   const [editingItem, setEditingItem] = useState<ContentItem | null>(null);
   const [currentDate, setCurrentDate] = useState(new Date());
-  const [view, setView] = useState<'month' | 'week' | 'day'>('month');
+  const [view, setView] = useState<'month' | 'week' | 'day' | 'board'>('month');
   const [filters, setFilters] = useState({
     platforms: { social: true, email: true, blog: true },
-    statuses: { draft: true, scheduled: true, posted: true }
+    statuses: {
+      draft: true,
+      in_review: true,
+      approved: true,
+      rejected: true,
+      scheduled: true,
+      posted: true,
+      failed: true,
+      archived: false,
+    } as Record<ContentStatus, boolean>
   });
 
   const handleSignOut = async () => {
@@ -54,7 +84,7 @@ export function ContentPlannerApp() {
     }
   };
 
-  const handleSuggestionUse = (suggestion: any) => {
+  const handleSuggestionUse = (suggestion: ContentSuggestion) => {
     setEditingItem({
       id: '',
       title: suggestion.title,
@@ -68,42 +98,45 @@ export function ContentPlannerApp() {
     setIsModalOpen(true);
   };
 
-  // Show auth modal if not authenticated
-  if (!loading && !user) {
-    return (
-      <div className="flex h-screen items-center justify-center bg-background">
-        <div className="text-center space-y-6 p-8">
-          <h1 className="text-4xl font-bold text-foreground">Welcome to ContentPro</h1>
-          <p className="text-xl text-muted-foreground max-w-md mx-auto">
-            Please sign in to access your content planning dashboard
-          </p>
-          <Button 
-            onClick={() => setIsAuthModalOpen(true)}
-            size="lg"
-            className="transition-all duration-300 hover:scale-105"
-          >
-            Sign In to Continue
-          </Button>
-        </div>
-        <AuthModal open={isAuthModalOpen} onOpenChange={setIsAuthModalOpen} />
-      </div>
-    );
-  }
+  const openNewItem = (platform: string) => {
+    setEditingItem({
+      id: '',
+      title: '',
+      description: null,
+      platform,
+      scheduledDate: new Date(),
+      status: 'draft',
+      createdAt: new Date(),
+      updatedAt: new Date()
+    } as ContentItem);
+    setIsModalOpen(true);
+  };
 
-  if (loading) {
-    return (
-      <div className="flex h-screen items-center justify-center bg-background">
-        <div className="text-center space-y-4">
-          <div className="w-8 h-8 border-4 border-primary border-t-transparent rounded-full animate-spin mx-auto"></div>
-          <p className="text-muted-foreground">Loading your dashboard...</p>
-        </div>
-      </div>
-    );
-  }
+  // Search hits jump the calendar to their date and open for editing
+  const openSearchResult = (item: ContentItem) => {
+    if (view === 'board') setView('month');
+    setCurrentDate(new Date(item.scheduledDate));
+    setEditingItem(item);
+    setIsModalOpen(true);
+  };
 
-  // Fetch content items
+  const paletteActions: PaletteAction[] = [
+    { id: 'new-social', label: 'New social post', icon: Plus, run: () => openNewItem('social') },
+    { id: 'new-email', label: 'New email', icon: Plus, run: () => openNewItem('email') },
+    { id: 'new-blog', label: 'New blog post', icon: Plus, run: () => openNewItem('blog') },
+    { id: 'today', label: 'Go to today', icon: CalendarDays, run: () => setCurrentDate(new Date()) },
+    { id: 'view-month', label: 'Show month view', icon: CalendarDays, run: () => setView('month') },
+    { id: 'view-board', label: 'Show board view', icon: LayoutGrid, run: () => setView('board') },
+    { id: 'analytics', label: 'Go to analytics', icon: BarChart3, run: () => setLocation('/analytics') },
+    { id: 'bulk', label: 'Go to bulk scheduling', icon: Clock, run: () => setLocation('/bulk-scheduling') },
+    { id: 'settings', label: 'Go to settings', icon: Settings, run: () => setLocation('/settings') },
+  ];
+
+  // Fetch only what the calendar shows; the board needs the whole pipeline
   const { data: contentItems = [], isLoading } = useQuery<ContentItem[]>({
-    queryKey: ['/api/content'],
+    queryKey: view === 'board' ? ['/api/content'] : ['/api/content', visibleRange(currentDate, view)],
+    placeholderData: keepPreviousData,
+    enabled: !!user,
   });
 
   // Delete mutation
@@ -111,6 +144,7 @@ export function ContentPlannerApp() {
     mutationFn: (id: string) => apiRequest('DELETE', `/api/content/${id}`),
     onSuccess: () => {
       queryClient.invalidateQueries({ queryKey: ['/api/content'] });
+      queryClient.invalidateQueries({ queryKey: ['/api/me/usage'] });
       toast.success('Content item deleted successfully');
     },
     onError: () => {
@@ -118,16 +152,41 @@ export function ContentPlannerApp() {
     },
   });
 
+  // Drag-and-drop rescheduling: move the item in the cache right away and
+  // put it back if the server refuses. A dragged occurrence of a series
+  // moves on its own.
+  const rescheduleMutation = useMutation({
+    mutationFn: ({ item, scheduledDate }: { item: ContentItem; scheduledDate: Date }) =>
+      isOccurrence(item)
+        ? apiRequest('PUT', occurrencePath(item), { scope: 'this', scheduledDate })
+        : apiRequest('PUT', `/api/content/${item.id}`, { scheduledDate }),
+    onMutate: async ({ item, scheduledDate }) => ({
+      rollback: await patchCachedContentItem(queryClient, item.id, { scheduledDate }, item.occurrenceDate),
+    }),
+    onError: (error: Error, _variables, context) => {
+      context?.rollback();
+      toast.error(errorMessage(error));
+    },
+    onSettled: () => {
+      queryClient.invalidateQueries({ queryKey: ['/api/content'] });
+      queryClient.invalidateQueries({ queryKey: ['/api/me/usage'] });
+    },
+  });
+
+  const canEdit = !!currentWorkspace && can(currentWorkspace.role, 'content:write');
+
   // Filter content items
   const filteredItems = contentItems.filter(item => 
     filters.platforms[item.platform as keyof typeof filters.platforms] &&
     filters.statuses[item.status as keyof typeof filters.statuses]
   );
 
-  // Convert content items to calendar events
+  // Convert content items to calendar events. Each variant of a piece is an
+  // event of its own, and opens with the others.
+  // Occurrences of a series share its id, so their start keeps keys unique
   const events: CalendarEvent[] = filteredItems.map(item => ({
-    id: item.id,
-    title: item.title,
+    id: item.occurrenceDate ? `${item.id}@${item.occurrenceDate}` : item.id,
+    title: item.recurrence ? `↻ ${item.title}` : item.pieceId ? `⧉ ${item.title}` : item.title,
     start: new Date(item.scheduledDate),
     end: new Date(item.scheduledDate),
     resource: item,
@@ -137,16 +196,8 @@ export function ContentPlannerApp() {
   const eventStyleGetter = useCallback((event: CalendarEvent) => {
     const { status, platform } = event.resource;
     
-    let backgroundColor = '#6b7280'; // gray-500 for draft
-    let borderColor = '#6b7280';
-    
-    if (status === 'scheduled') {
-      backgroundColor = '#f59e0b'; // yellow-500
-      borderColor = '#f59e0b';
-    } else if (status === 'posted') {
-      backgroundColor = '#10b981'; // green-500
-      borderColor = '#10b981';
-    }
+    const backgroundColor = statusColors[status as ContentStatus]?.hex ?? statusColors.draft.hex;
+    const borderColor = backgroundColor;
 
     // Platform border indicators
     let borderRight = '3px solid #6366f1'; // indigo-500 for social
@@ -174,11 +225,61 @@ export function ContentPlannerApp() {
     setIsModalOpen(true);
   }, []);
 
+  const handleEventDrop = useCallback(({ event, start, isAllDay }: EventInteractionArgs<CalendarEvent>) => {
+    const original = moment(event.start);
+    const target = moment(start);
+    // Month cells are whole days, so a drop there keeps the time of day
+    if (view === 'month' || isAllDay) {
+      target.set({ hour: original.hour(), minute: original.minute(), second: original.second() });
+    }
+    if (target.isSame(original)) return;
+    rescheduleMutation.mutate({ item: event.resource, scheduledDate: target.toDate() });
+  }, [view, rescheduleMutation]);
+
+  // Posted items already went out and can't be moved
+  const isDraggable = useCallback(
+    (event: CalendarEvent) => canEdit && event.resource.status !== 'posted',
+    [canEdit],
+  );
+
   const handleSelectSlot = useCallback(({ start }: { start: Date }) => {
     setEditingItem(null);
     setIsModalOpen(true);
   }, []);
 
+  // Show auth modal if not authenticated
+  if (!loading && !user) {
+    return (
+      <div className="flex h-screen items-center justify-center bg-background">
+        <div className="text-center space-y-6 p-8">
+          <h1 className="text-4xl font-bold text-foreground">Welcome to ContentPro</h1>
+          <p className="text-xl text-muted-foreground max-w-md mx-auto">
+            Please sign in to access your content planning dashboard
+          </p>
+          <Button 
+            onClick={() => setIsAuthModalOpen(true)}
+            size="lg"
+            className="transition-all duration-300 hover:scale-105"
+          >
+            Sign In to Continue
+          </Button>
+        </div>
+        <AuthModal open={isAuthModalOpen} onOpenChange={setIsAuthModalOpen} />
+      </div>
+    );
+  }
+
+  if (loading) {
+    return (
+      <div className="flex h-screen items-center justify-center bg-background">
+        <div className="text-center space-y-4">
+          <div className="w-8 h-8 border-4 border-primary border-t-transparent rounded-full animate-spin mx-auto"></div>
+          <p className="text-muted-foreground">Loading your dashboard...</p>
+        </div>
+      </div>
+    );
+  }
+
   const platformCounts = {
     social: contentItems.filter(item => item.platform === 'social').length,
     email: contentItems.filter(item => item.platform === 'email').length,
@@ -214,9 +315,22 @@ export function ContentPlannerApp() {
                 <DropdownMenuContent align="end" className="w-56">
                   <div className="px-2 py-1.5 text-sm">
                     <div className="font-medium">{user?.email}</div>
-                    <div className="text-muted-foreground text-xs">Content Creator</div>
+                    <div className="text-muted-foreground text-xs">
+                      {currentWorkspace ? `${currentWorkspace.name} · ${currentWorkspace.role}` : 'Content Creator'}
+                    </div>
                   </div>
                   <DropdownMenuSeparator />
+                  {workspaces.length > 1 && (
+                    <>
+                      {workspaces.map((workspace) => (
+                        <DropdownMenuItem key={workspace.id} onClick={() => switchWorkspace(workspace.id)}>
+                          <Check className={`h-4 w-4 mr-2 ${workspace.id === currentWorkspace?.id ? '' : 'invisible'}`} />
+                          {workspace.name}
+                        </DropdownMenuItem>
+                      ))}
+                      <DropdownMenuSeparator />
+                    </>
+                  )}
                   <DropdownMenuItem asChild>
                     <Link href="/settings" className="flex items-center">
                       <Settings className="h-4 w-4 mr-2" />
@@ -323,16 +437,16 @@ export function ContentPlannerApp() {
         <div className="p-6 border-b border-border">
           <h3 className="font-semibold mb-4 text-foreground">Filter by Status</h3>
           <div className="space-y-3">
-            {Object.entries({
-              draft: { label: 'Draft', color: 'bg-gray-400' },
-              scheduled: { label: 'Scheduled', color: 'bg-yellow-400' },
-              posted: { label: 'Posted', color: 'bg-green-400' },
-            }).map(([key, { label, color }]) => (
+            {contentStatuses.map((key) => ({
+              key,
+              label: statusLabels[key],
+              color: statusColors[key].dot,
+            })).map(({ key, label, color }) => (
               <div key={key} className="flex items-center justify-between">
                 <div className="flex items-center gap-3">
                   <Checkbox
                     id={`status-${key}`}
-                    checked={filters.statuses[key as keyof typeof filters.statuses]}
+                    checked={filters.statuses[key]}
                     onCheckedChange={(checked) => 
                       setFilters(prev => ({
                         ...prev,
@@ -353,30 +467,12 @@ export function ContentPlannerApp() {
 
         {/* AI Assistant */}
         <div className="p-6 border-b border-border">
-          <AIAssistant onSuggestionUse={handleSuggestionUse} />
+          <AIAssistant onSuggestionUse={handleSuggestionUse} onContentOpen={openSearchResult} />
         </div>
 
         {/* Subscription Integration */}
         <div className="p-6 mt-auto">
-          <Card className="bg-secondary border-border transition-all duration-300 hover:shadow-xl hover:scale-105 animate-pulse-gentle">
-            <CardContent className="p-4">
-              <h3 className="font-semibold mb-2 text-foreground">Upgrade to Premium</h3>
-              <p className="text-sm text-muted-foreground mb-4">
-                Get unlimited content scheduling and advanced analytics
-              </p>
-              
-              <Link href="/subscription">
-                <Button className="w-full transition-all duration-300 hover:scale-105" data-testid="upgrade-button">
-                  <Crown className="h-4 w-4 mr-2" />
-                  Upgrade Now
-                </Button>
-              </Link>
-              
-              <p className="text-xs text-muted-foreground mt-2 text-center">
-                $5.00/month • Cancel anytime
-              </p>
-            </CardContent>
-          </Card>
+          <UpgradePrompt />
         </div>
       </div>
 
@@ -387,9 +483,9 @@ export function ContentPlannerApp() {
           <div className="flex items-center justify-between">
             <div className="flex items-center gap-4">
               <h2 className="text-3xl font-bold text-foreground">
-                {moment(currentDate).format('MMMM YYYY')}
+                {view === 'board' ? 'Content Pipeline' : moment(currentDate).format('MMMM YYYY')}
               </h2>
-              <div className="flex items-center gap-2">
+              <div className={`flex items-center gap-2 ${view === 'board' ? 'hidden' : ''}`}>
                 <Button
                   variant="ghost"
                   size="icon"
@@ -412,16 +508,28 @@ export function ContentPlannerApp() {
             </div>
             
             <div className="flex items-center gap-3">
+              <Button
+                variant="outline"
+                onClick={() => setIsPaletteOpen(true)}
+                data-testid="button-search"
+                className="text-muted-foreground transition-all duration-300 hover:shadow-md"
+              >
+                <Search className="h-4 w-4 mr-2" />
+                Search
+                <kbd className="ml-3 rounded border border-border bg-muted px-1.5 text-xs">
+                  {navigator.platform.includes('Mac') ? '⌘K' : 'Ctrl K'}
+                </kbd>
+              </Button>
               <Button
                 variant="outline"
                 onClick={() => setCurrentDate(new Date())}
                 data-testid="button-today"
-                className="transition-all duration-300 hover:scale-105 hover:shadow-md"
+                className={`transition-all duration-300 hover:scale-105 hover:shadow-md ${view === 'board' ? 'hidden' : ''}`}
               >
                 Today
               </Button>
               <div className="flex bg-muted rounded-lg p-1">
-                {(['month', 'week', 'day'] as const).map((viewOption) => (
+                {(['month', 'week', 'day', 'board'] as const).map((viewOption) => (
                   <Button
                     key={viewOption}
                     variant={view === viewOption ? "default" : "ghost"}
@@ -453,8 +561,17 @@ export function ContentPlannerApp() {
                   </div>
                 </div>
               </div>
+            ) : view === 'board' ? (
+              <ContentBoard
+                items={filteredItems}
+                statuses={contentStatuses.filter((status) => filters.statuses[status])}
+                onSelectItem={(item) => {
+                  setEditingItem(item);
+                  setIsModalOpen(true);
+                }}
+              />
             ) : (
-              <Calendar
+              <DragAndDropCalendar
                 localizer={localizer}
                 events={events}
                 startAccessor="start"
@@ -470,6 +587,9 @@ export function ContentPlannerApp() {
                 onNavigate={setCurrentDate}
                 onSelectEvent={handleSelectEvent}
                 onSelectSlot={handleSelectSlot}
+                onEventDrop={handleEventDrop}
+                draggableAccessor={isDraggable}
+                resizable={false}
                 selectable
                 eventPropGetter={eventStyleGetter}
                 popup
@@ -494,6 +614,13 @@ export function ContentPlannerApp() {
         </div>
       </div>
 
+      <CommandPalette
+        open={isPaletteOpen}
+        onOpenChange={setIsPaletteOpen}
+        onOpenItem={openSearchResult}
+        actions={paletteActions}
+      />
+
       {/* Modal */}
       <ContentModal
         isOpen={isModalOpen}
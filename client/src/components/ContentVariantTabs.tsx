@@ -0,0 +1,136 @@
+import { useEffect, useState } from "react";
+import { useMutation, useQueryClient } from "@tanstack/react-query";
+import { Layers, Loader2, Plus } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Tabs, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest, errorMessage } from "@/lib/queryClient";
+import { statusColors } from "@/lib/content-status";
+import {
+  contentPlatforms,
+  type ContentItem,
+  type ContentPieceWithVariants,
+  type ContentPlatform,
+} from "@shared/schema";
+import type { ContentStatus } from "@shared/workflow";
+
+const platformLabels: Record<string, string> = {
+  social: "Social",
+  email: "Email",
+  blog: "Blog",
+};
+
+interface ContentVariantTabsProps {
+  // Undefined until the item has a second channel
+  piece: ContentPieceWithVariants | undefined;
+  activeItem: ContentItem;
+  // Variants with edits that haven't been saved yet
+  unsavedIds: string[];
+  canWrite: boolean;
+  isAdding: boolean;
+  onSelect: (id: string) => void;
+  onAdd: (platform: ContentPlatform) => void;
+}
+
+// One tab per channel the post goes out on, and a menu to add the channels
+// it doesn't have yet
+export function ContentVariantTabs({ piece, activeItem, unsavedIds, canWrite, isAdding, onSelect, onAdd }: ContentVariantTabsProps) {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [title, setTitle] = useState(piece?.title ?? "");
+
+  useEffect(() => {
+    setTitle(piece?.title ?? "");
+  }, [piece?.title]);
+
+  const renameMutation = useMutation({
+    mutationFn: (title: string) => apiRequest('PATCH', `/api/pieces/${piece!.id}`, { title }),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['/api/pieces', piece!.id] });
+    },
+    onError: (error: Error) => {
+      setTitle(piece?.title ?? "");
+      toast({
+        title: "Error",
+        description: errorMessage(error),
+        variant: "destructive",
+      });
+    },
+  });
+
+  const handleRename = () => {
+    const trimmed = title.trim();
+    if (!piece || trimmed === piece.title) return;
+    if (!trimmed) {
+      setTitle(piece.title);
+      return;
+    }
+    renameMutation.mutate(trimmed);
+  };
+
+  const variants = piece?.variants ?? [activeItem];
+  const missing = contentPlatforms.filter((platform) => !variants.some((variant) => variant.platform === platform));
+
+  return (
+    <div className="rounded-lg border border-border p-3 space-y-3" data-testid="content-variants">
+      {piece && (
+        <div className="flex items-center gap-2">
+          <Layers className="h-4 w-4 flex-shrink-0 text-muted-foreground" />
+          <Input
+            value={title}
+            onChange={(e) => setTitle(e.target.value)}
+            onBlur={handleRename}
+            onKeyDown={(e) => {
+              if (e.key === "Enter") {
+                e.preventDefault();
+                handleRename();
+              }
+            }}
+            disabled={!canWrite}
+            maxLength={200}
+            className="h-8"
+            aria-label="Post name"
+            data-testid="input-piece-title"
+          />
+        </div>
+      )}
+      <div className="flex flex-wrap items-center gap-2">
+        <Tabs value={activeItem.id} onValueChange={onSelect}>
+          <TabsList>
+            {variants.map((variant) => (
+              <TabsTrigger key={variant.id} value={variant.id} className="gap-2" data-testid={`tab-variant-${variant.platform}`}>
+                <span className={`h-2 w-2 rounded-full ${statusColors[variant.status as ContentStatus]?.dot ?? statusColors.draft.dot}`} />
+                {platformLabels[variant.platform] ?? variant.platform}
+                {unsavedIds.includes(variant.id) && <span className="text-muted-foreground">*</span>}
+              </TabsTrigger>
+            ))}
+          </TabsList>
+        </Tabs>
+        {canWrite && missing.length > 0 && (
+          <DropdownMenu>
+            <DropdownMenuTrigger asChild>
+              <Button type="button" variant="ghost" size="sm" disabled={isAdding} data-testid="button-add-variant">
+                {isAdding ? <Loader2 className="h-4 w-4 mr-1 animate-spin" /> : <Plus className="h-4 w-4 mr-1" />}
+                Add channel
+              </Button>
+            </DropdownMenuTrigger>
+            <DropdownMenuContent align="start">
+              {missing.map((platform) => (
+                <DropdownMenuItem key={platform} onClick={() => onAdd(platform)} data-testid={`add-variant-${platform}`}>
+                  {platformLabels[platform]} version
+                </DropdownMenuItem>
+              ))}
+            </DropdownMenuContent>
+          </DropdownMenu>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,160 @@
+import { useRef, useState } from "react";
+import { useMutation, useQueryClient } from "@tanstack/react-query";
+import { AlertCircle, Download, Upload } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogTrigger } from "@/components/ui/dialog";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest, errorMessage } from "@/lib/queryClient";
+import { downloadFile } from "@/lib/download";
+import type { MetricsImportResult } from "@shared/schema";
+
+// Upload of engagement numbers as CSV, with the same preview-then-import
+// flow as the content import
+export function MetricsImport() {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const [open, setOpen] = useState(false);
+  const [csvFile, setCsvFile] = useState<{ name: string; text: string } | null>(null);
+  const [preview, setPreview] = useState<MetricsImportResult | null>(null);
+
+  const reset = () => {
+    setCsvFile(null);
+    setPreview(null);
+  };
+
+  const importMutation = useMutation({
+    mutationFn: async ({ csv, dryRun }: { csv: string; dryRun: boolean }) => {
+      const response = await apiRequest('POST', '/api/metrics/import', { csv, dryRun });
+      return response.json() as Promise<MetricsImportResult>;
+    },
+    onSuccess: (result) => {
+      if (result.dryRun) {
+        setPreview(result);
+        return;
+      }
+      queryClient.invalidateQueries({ queryKey: ['/api/analytics'] });
+      queryClient.invalidateQueries({ queryKey: ['/api/posting-times'] });
+      queryClient.invalidateQueries({ queryKey: ['/api/content'] });
+      reset();
+      setOpen(false);
+      toast({ title: "Import Complete", description: `${result.created.length} metric snapshots recorded` });
+    },
+    onError: (error: Error) => {
+      setPreview(null);
+      toast({ title: "Import Failed", description: errorMessage(error), variant: "destructive" });
+    },
+  });
+
+  const handleFile = async (file: File | undefined) => {
+    if (!file) return;
+    const text = await file.text();
+    setCsvFile({ name: file.name, text });
+    importMutation.mutate({ csv: text, dryRun: true });
+  };
+
+  const handleDownloadTemplate = () => {
+    downloadFile('/api/metrics/import/template', 'metrics-import-template.csv').catch(() => {
+      toast({ title: "Error", description: "Failed to download the template", variant: "destructive" });
+    });
+  };
+
+  return (
+    <Dialog
+      open={open}
+      onOpenChange={(next) => {
+        setOpen(next);
+        if (!next) reset();
+      }}
+    >
+      <DialogTrigger asChild>
+        <Button variant="outline" size="sm" className="transition-all hover:scale-105">
+          <Upload className="h-4 w-4 mr-2" />
+          Import Metrics
+        </Button>
+      </DialogTrigger>
+      <DialogContent className="max-w-2xl">
+        <DialogHeader>
+          <DialogTitle>Import Engagement Metrics</DialogTitle>
+        </DialogHeader>
+        <p className="text-sm text-muted-foreground">
+          One row per posted item: its content_id plus running totals for impressions, clicks, likes, shares,
+          comments and opens. captured_at is optional and defaults to now.
+        </p>
+        <input
+          ref={fileInputRef}
+          type="file"
+          accept=".csv,text/csv"
+          className="hidden"
+          onChange={(e) => {
+            handleFile(e.target.files?.[0]);
+            e.target.value = "";
+          }}
+        />
+        <div className="flex items-center gap-2">
+          <Button variant="outline" size="sm" onClick={() => fileInputRef.current?.click()} disabled={importMutation.isPending}>
+            <Upload className="h-4 w-4 mr-2" />
+            {importMutation.isPending ? "Checking..." : csvFile ? csvFile.name : "Choose File"}
+          </Button>
+          <Button variant="ghost" size="sm" onClick={handleDownloadTemplate}>
+            <Download className="h-4 w-4 mr-2" />
+            Template
+          </Button>
+        </div>
+
+        {preview && csvFile && (
+          <div className="space-y-4">
+            <div className="flex items-center justify-between">
+              <div className="flex items-center gap-2 text-sm">
+                <Badge className="bg-green-100 text-green-800">{preview.valid} ready</Badge>
+                {preview.invalid > 0 && <Badge variant="destructive">{preview.invalid} with errors</Badge>}
+              </div>
+              <Button
+                size="sm"
+                disabled={preview.valid === 0 || importMutation.isPending}
+                onClick={() => importMutation.mutate({ csv: csvFile.text, dryRun: false })}
+              >
+                Import {preview.valid} rows
+              </Button>
+            </div>
+            <div className="max-h-80 overflow-auto rounded-md border border-border">
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead className="w-16">Row</TableHead>
+                    <TableHead>Content</TableHead>
+                    <TableHead>Impressions</TableHead>
+                    <TableHead>Interactions</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {preview.rows.map((row) => (
+                    <TableRow key={row.row} className={row.errors.length > 0 ? 'bg-destructive/5' : undefined}>
+                      <TableCell className="text-muted-foreground">{row.row}</TableCell>
+                      {row.data ? (
+                        <>
+                          <TableCell className="font-mono text-xs">{row.data.contentId}</TableCell>
+                          <TableCell>{row.data.impressions}</TableCell>
+                          <TableCell>{row.data.clicks + row.data.likes + row.data.shares + row.data.comments}</TableCell>
+                        </>
+                      ) : (
+                        <TableCell colSpan={3} className="text-destructive">
+                          <div className="flex items-start gap-2">
+                            <AlertCircle className="h-4 w-4 mt-0.5 flex-shrink-0" />
+                            <span>{row.errors.join("; ")}</span>
+                          </div>
+                        </TableCell>
+                      )}
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            </div>
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
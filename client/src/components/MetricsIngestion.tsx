@@ -0,0 +1,112 @@
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { Activity, Copy, KeyRound, RefreshCw, Trash2 } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { useToast } from "@/hooks/use-toast";
+import { useWorkspaces } from "@/hooks/use-workspaces";
+import { apiRequest } from "@/lib/queryClient";
+import { can } from "@shared/schema";
+
+interface MetricsKeyInfo {
+  token: string;
+  createdAt: string;
+}
+
+const examplePayload = `{"metrics": [{"contentId": "...", "impressions": 1200, "clicks": 45, "likes": 80}]}`;
+
+export function MetricsIngestion() {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const { currentWorkspace } = useWorkspaces();
+  const canManage = !!currentWorkspace && can(currentWorkspace.role, "workspace:manage");
+
+  const { data: key } = useQuery<MetricsKeyInfo | null>({
+    queryKey: ['/api/metrics-key'],
+    enabled: canManage,
+  });
+
+  const rotateMutation = useMutation({
+    mutationFn: () => apiRequest('POST', '/api/metrics-key/rotate'),
+    onSuccess: () => {
+      const replaced = !!key;
+      queryClient.invalidateQueries({ queryKey: ['/api/metrics-key'] });
+      toast({
+        title: replaced ? "Key Rotated" : "Key Created",
+        description: replaced
+          ? "The old key no longer works. Update your scripts."
+          : "Scripts can now push metrics with this key.",
+      });
+    },
+    onError: () => {
+      toast({ title: "Error", description: "Failed to update the metrics key", variant: "destructive" });
+    },
+  });
+
+  const revokeMutation = useMutation({
+    mutationFn: () => apiRequest('DELETE', '/api/metrics-key'),
+    onSuccess: () => queryClient.invalidateQueries({ queryKey: ['/api/metrics-key'] }),
+    onError: () => {
+      toast({ title: "Error", description: "Failed to revoke the metrics key", variant: "destructive" });
+    },
+  });
+
+  if (!canManage) return null;
+
+  const endpoint = `${window.location.origin}/ingest/metrics`;
+
+  const copy = async (text: string) => {
+    await navigator.clipboard.writeText(text);
+    toast({ title: "Copied", description: "Copied to the clipboard." });
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <Activity className="h-5 w-5" />
+          Metrics Ingestion
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <p className="text-sm text-muted-foreground">
+          Let your own scripts push engagement numbers for posted content. Send a POST to the endpoint below
+          with the key as a bearer token. Anyone with the key can add metrics to this workspace, so keep it secret.
+        </p>
+
+        {key ? (
+          <>
+            <div className="flex items-center gap-2">
+              <Input value={endpoint} readOnly className="font-mono text-xs" />
+              <Button variant="outline" size="icon" onClick={() => copy(endpoint)} title="Copy endpoint">
+                <Copy className="h-4 w-4" />
+              </Button>
+            </div>
+            <div className="flex items-center gap-2">
+              <Input value={key.token} readOnly className="font-mono text-xs" />
+              <Button variant="outline" size="icon" onClick={() => copy(key.token)} title="Copy key">
+                <Copy className="h-4 w-4" />
+              </Button>
+            </div>
+            <pre className="rounded-md bg-muted p-3 text-xs overflow-x-auto">{examplePayload}</pre>
+            <div className="flex items-center gap-2">
+              <Button variant="outline" size="sm" onClick={() => rotateMutation.mutate()} disabled={rotateMutation.isPending}>
+                <RefreshCw className="h-4 w-4 mr-2" />
+                Rotate Key
+              </Button>
+              <Button variant="ghost" size="sm" onClick={() => revokeMutation.mutate()} disabled={revokeMutation.isPending}>
+                <Trash2 className="h-4 w-4 mr-2" />
+                Revoke
+              </Button>
+            </div>
+          </>
+        ) : (
+          <Button onClick={() => rotateMutation.mutate()} disabled={rotateMutation.isPending}>
+            <KeyRound className="h-4 w-4 mr-2" />
+            Create Ingestion Key
+          </Button>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
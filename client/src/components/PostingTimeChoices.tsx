@@ -0,0 +1,54 @@
+import { Clock } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { usePostingTimes } from "@/hooks/use-posting-times";
+import { formatWindow, nextWindowStart } from "@/lib/posting-times";
+import type { ContentPlatform } from "@shared/schema";
+
+interface PostingTimeChoicesProps {
+  platform: string;
+  value: Date;
+  onSelect: (date: Date) => void;
+}
+
+// The platform's recommended windows as one-click times, each the window's
+// next start from the chosen day on
+export function PostingTimeChoices({ platform, value, onSelect }: PostingTimeChoicesProps) {
+  const { data: postingTimes } = usePostingTimes();
+  const times = postingTimes?.platforms[platform as ContentPlatform];
+  if (!times) return null;
+
+  const from = isNaN(value.getTime()) ? new Date() : value;
+
+  return (
+    <div className="space-y-1" data-testid="posting-time-choices">
+      <div className="flex flex-wrap gap-1">
+        {times.windows.map((window) => {
+          const start = nextWindowStart(window, from);
+          return (
+            <Button
+              key={`${window.dayOfWeek}-${window.startHour}`}
+              type="button"
+              size="sm"
+              variant={start.getTime() === value.getTime() ? "secondary" : "outline"}
+              className="h-7 text-xs"
+              title={start.toLocaleString()}
+              onClick={() => onSelect(start)}
+              data-testid={`button-posting-time-${window.dayOfWeek}-${window.startHour}`}
+            >
+              <Clock className="h-3 w-3 mr-1" />
+              {formatWindow(window)}
+              {window.lift !== null && window.lift > 0 && (
+                <span className="ml-1 text-green-600">+{window.lift}%</span>
+              )}
+            </Button>
+          );
+        })}
+      </div>
+      <p className="text-xs text-muted-foreground">
+        {times.source === "history"
+          ? `Your best times, from ${times.postsWithMetrics} posted items with engagement`
+          : `Suggested defaults until ${times.minimumPosts} posted items have engagement recorded (${times.postsWithMetrics} so far)`}
+      </p>
+    </div>
+  );
+}
@@ -0,0 +1,181 @@
+import { useState } from "react";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { Send, Trash2, Plus } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Badge } from "@/components/ui/badge";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { useToast } from "@/hooks/use-toast";
+import { useWorkspaces } from "@/hooks/use-workspaces";
+import { apiRequest } from "@/lib/queryClient";
+import { can, type DestinationType, type PublishDestination } from "@shared/schema";
+
+const typeLabels: Record<DestinationType, string> = {
+  webhook: "Webhook",
+  email: "Email (SMTP)",
+  blog: "Blog (Markdown files)",
+};
+
+const emptyForm = {
+  name: "",
+  type: "webhook" as DestinationType,
+  url: "",
+  secret: "",
+  host: "",
+  port: "587",
+  user: "",
+  password: "",
+  from: "",
+  to: "",
+  directory: "",
+};
+
+// Turns the flat form into the typed config the API expects
+function toPayload(form: typeof emptyForm) {
+  switch (form.type) {
+    case "webhook":
+      return { name: form.name, type: form.type, config: { url: form.url, secret: form.secret || undefined } };
+    case "email":
+      return {
+        name: form.name,
+        type: form.type,
+        config: {
+          host: form.host,
+          port: parseInt(form.port, 10),
+          secure: form.port === "465",
+          user: form.user || undefined,
+          password: form.password || undefined,
+          from: form.from,
+          to: form.to.split(",").map((address) => address.trim()).filter(Boolean),
+        },
+      };
+    case "blog":
+      return { name: form.name, type: form.type, config: { directory: form.directory } };
+  }
+}
+
+export function PublishDestinations() {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const { currentWorkspace } = useWorkspaces();
+  const [form, setForm] = useState(emptyForm);
+
+  const canManage = !!currentWorkspace && can(currentWorkspace.role, "workspace:manage");
+
+  const { data: destinations = [] } = useQuery<PublishDestination[]>({
+    queryKey: ['/api/destinations'],
+  });
+
+  const createMutation = useMutation({
+    mutationFn: () => apiRequest('POST', '/api/destinations', toPayload(form)),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['/api/destinations'] });
+      setForm(emptyForm);
+      toast({ title: "Destination Added", description: "Content can now be published here." });
+    },
+    onError: () => {
+      toast({ title: "Error", description: "Please check the destination settings", variant: "destructive" });
+    },
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: (id: string) => apiRequest('DELETE', `/api/destinations/${id}`),
+    onSuccess: () => queryClient.invalidateQueries({ queryKey: ['/api/destinations'] }),
+    onError: () => {
+      toast({ title: "Error", description: "Failed to delete destination", variant: "destructive" });
+    },
+  });
+
+  const field = (key: keyof typeof emptyForm, label: string, props: Record<string, string> = {}) => (
+    <div className="space-y-2">
+      <Label htmlFor={`destination-${key}`}>{label}</Label>
+      <Input
+        id={`destination-${key}`}
+        value={form[key]}
+        onChange={(e) => setForm({ ...form, [key]: e.target.value })}
+        {...props}
+      />
+    </div>
+  );
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <Send className="h-5 w-5" />
+          Publishing Destinations
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        {destinations.length === 0 ? (
+          <p className="text-sm text-muted-foreground">
+            No destinations yet. Scheduled content is marked as posted without being delivered anywhere.
+          </p>
+        ) : (
+          <div className="space-y-2">
+            {destinations.map((destination) => (
+              <div key={destination.id} className="flex items-center justify-between">
+                <div className="flex items-center gap-2 text-sm">
+                  <span className="font-medium">{destination.name}</span>
+                  <Badge variant="outline">{typeLabels[destination.type as DestinationType]}</Badge>
+                </div>
+                {canManage && (
+                  <Button variant="ghost" size="icon" onClick={() => deleteMutation.mutate(destination.id)} title="Delete">
+                    <Trash2 className="h-4 w-4" />
+                  </Button>
+                )}
+              </div>
+            ))}
+          </div>
+        )}
+
+        {canManage && (
+          <div className="space-y-4 border-t border-border pt-4">
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+              {field("name", "Name", { placeholder: "Company blog" })}
+              <div className="space-y-2">
+                <Label>Type</Label>
+                <Select value={form.type} onValueChange={(type) => setForm({ ...form, type: type as DestinationType })}>
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {Object.entries(typeLabels).map(([value, label]) => (
+                      <SelectItem key={value} value={value}>{label}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+
+              {form.type === "webhook" && (
+                <>
+                  {field("url", "URL", { placeholder: "https://example.com/hooks/content" })}
+                  {field("secret", "Signing secret (optional)", { type: "password" })}
+                </>
+              )}
+
+              {form.type === "email" && (
+                <>
+                  {field("host", "SMTP host", { placeholder: "smtp.example.com" })}
+                  {field("port", "Port", { type: "number" })}
+                  {field("user", "Username (optional)")}
+                  {field("password", "Password (optional)", { type: "password" })}
+                  {field("from", "From address", { type: "email" })}
+                  {field("to", "Recipients (comma separated)")}
+                </>
+              )}
+
+              {form.type === "blog" && field("directory", "Directory", { placeholder: "site/posts" })}
+            </div>
+            <Button onClick={() => createMutation.mutate()} disabled={!form.name.trim() || createMutation.isPending}>
+              <Plus className="h-4 w-4 mr-2" />
+              Add Destination
+            </Button>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
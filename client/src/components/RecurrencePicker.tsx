@@ -0,0 +1,190 @@
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { ToggleGroup, ToggleGroupItem } from "@/components/ui/toggle-group";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import {
+  describeRecurrence,
+  formatRecurrence,
+  parseRecurrence,
+  weekdayCodes,
+  type RecurrenceFrequency,
+  type RecurrenceRule,
+  type WeekdayCode,
+} from "@shared/recurrence";
+
+interface RecurrencePickerProps {
+  // RRULE, or null for a one-off item
+  value: string | null | undefined;
+  onChange: (value: string | null) => void;
+  // First occurrence; monthly rules repeat its day
+  startDate: Date;
+}
+
+const weekdayLabels: Record<WeekdayCode, string> = {
+  MO: "Mon", TU: "Tue", WE: "Wed", TH: "Thu", FR: "Fri", SA: "Sat", SU: "Sun",
+};
+
+const unitLabels: Record<RecurrenceFrequency, string> = {
+  DAILY: "day(s)",
+  WEEKLY: "week(s)",
+  MONTHLY: "month(s)",
+};
+
+const ordinalLabels = ["first", "second", "third", "fourth", "fifth"];
+
+function weekdayOf(date: Date): WeekdayCode {
+  return weekdayCodes[(date.getDay() + 6) % 7];
+}
+
+function readRule(value: string | null | undefined): RecurrenceRule | null {
+  if (!value) return null;
+  try {
+    return parseRecurrence(value);
+  } catch {
+    return null;
+  }
+}
+
+// Builds the RRULE subset the server understands: frequency, interval,
+// weekdays, a monthly day or weekday, and an end by date or count.
+export function RecurrencePicker({ value, onChange, startDate }: RecurrencePickerProps) {
+  const rule = readRule(value);
+  const update = (changes: Partial<RecurrenceRule>) => onChange(formatRecurrence({ ...rule!, ...changes }));
+
+  const startWeekday = weekdayOf(startDate);
+  // The start's weekday within its month, e.g. the third Monday
+  const startOrdinal = Math.ceil(startDate.getDate() / 7);
+  const monthlyMode = rule?.freq === "MONTHLY" && rule.byDay.length > 0 ? "weekday" : "day";
+  const endMode = rule?.count ? "count" : rule?.until ? "until" : "never";
+
+  const setFrequency = (freq: string) => {
+    if (freq === "none") return onChange(null);
+    onChange(formatRecurrence({
+      freq: freq as RecurrenceFrequency,
+      interval: rule?.interval ?? 1,
+      byDay: freq === "WEEKLY" ? [{ weekday: startWeekday }] : [],
+      until: rule?.until,
+      count: rule?.count,
+    }));
+  };
+
+  const setEnd = (mode: string) => {
+    if (mode === "count") update({ count: 10, until: undefined });
+    else if (mode === "until") {
+      const until = new Date(startDate);
+      until.setMonth(until.getMonth() + 3);
+      until.setHours(23, 59, 59, 0);
+      update({ until, count: undefined });
+    } else update({ until: undefined, count: undefined });
+  };
+
+  return (
+    <div className="space-y-3">
+      <div className="grid grid-cols-1 sm:grid-cols-2 gap-3">
+        <Select value={rule?.freq ?? "none"} onValueChange={setFrequency}>
+          <SelectTrigger data-testid="select-recurrence">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value="none">Does not repeat</SelectItem>
+            <SelectItem value="DAILY">Daily</SelectItem>
+            <SelectItem value="WEEKLY">Weekly</SelectItem>
+            <SelectItem value="MONTHLY">Monthly</SelectItem>
+          </SelectContent>
+        </Select>
+        {rule && (
+          <div className="flex items-center gap-2">
+            <Label className="whitespace-nowrap">Every</Label>
+            <Input
+              type="number"
+              min={1}
+              max={366}
+              value={rule.interval}
+              onChange={(e) => update({ interval: Math.max(1, Math.min(366, Number(e.target.value) || 1)) })}
+              className="w-20"
+            />
+            <span className="text-sm text-muted-foreground">{unitLabels[rule.freq]}</span>
+          </div>
+        )}
+      </div>
+
+      {rule?.freq === "WEEKLY" && (
+        <ToggleGroup
+          type="multiple"
+          variant="outline"
+          className="justify-start"
+          value={rule.byDay.map((day) => day.weekday)}
+          onValueChange={(days) => {
+            if (days.length === 0) return;
+            const selected = weekdayCodes.filter((code) => days.includes(code));
+            update({ byDay: selected.map((weekday) => ({ weekday })) });
+          }}
+        >
+          {weekdayCodes.map((code) => (
+            <ToggleGroupItem key={code} value={code} size="sm">{weekdayLabels[code]}</ToggleGroupItem>
+          ))}
+        </ToggleGroup>
+      )}
+
+      {rule?.freq === "MONTHLY" && (
+        <Select
+          value={monthlyMode}
+          onValueChange={(mode) =>
+            update({ byDay: mode === "weekday" ? [{ weekday: startWeekday, ordinal: Math.min(startOrdinal, 5) }] : [] })
+          }
+        >
+          <SelectTrigger>
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value="day">On day {startDate.getDate()}</SelectItem>
+            <SelectItem value="weekday">
+              On the {ordinalLabels[Math.min(startOrdinal, 5) - 1]} {weekdayLabels[startWeekday]}
+            </SelectItem>
+          </SelectContent>
+        </Select>
+      )}
+
+      {rule && (
+        <div className="grid grid-cols-1 sm:grid-cols-2 gap-3">
+          <Select value={endMode} onValueChange={setEnd}>
+            <SelectTrigger>
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="never">Never ends</SelectItem>
+              <SelectItem value="until">Ends on date</SelectItem>
+              <SelectItem value="count">Ends after</SelectItem>
+            </SelectContent>
+          </Select>
+          {endMode === "until" && (
+            <Input
+              type="date"
+              value={rule.until ? new Date(rule.until.getTime() - rule.until.getTimezoneOffset() * 60000).toISOString().slice(0, 10) : ""}
+              onChange={(e) => {
+                if (!e.target.value) return;
+                // The whole local day is included
+                update({ until: new Date(`${e.target.value}T23:59:59`) });
+              }}
+            />
+          )}
+          {endMode === "count" && (
+            <div className="flex items-center gap-2">
+              <Input
+                type="number"
+                min={1}
+                max={1000}
+                value={rule.count}
+                onChange={(e) => update({ count: Math.max(1, Math.min(1000, Number(e.target.value) || 1)) })}
+                className="w-24"
+              />
+              <span className="text-sm text-muted-foreground">occurrences</span>
+            </div>
+          )}
+        </div>
+      )}
+
+      {rule && <p className="text-xs text-muted-foreground">{describeRecurrence(rule)}</p>}
+    </div>
+  );
+}
@@ -0,0 +1,68 @@
+import { useQuery } from "@tanstack/react-query";
+import { Link } from "wouter";
+import { Crown } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent } from "@/components/ui/card";
+import { Progress } from "@/components/ui/progress";
+import type { UsageMeter } from "@shared/schema";
+
+const meters: { quota: keyof UsageMeter["usage"]; label: string }[] = [
+  { quota: "scheduledItemsPerMonth", label: "Scheduled this month" },
+  { quota: "platforms", label: "Platforms" },
+  { quota: "aiRequestsPerDay", label: "AI requests today" },
+];
+
+// Shows free users how much of their plan they've used, with a way out
+export function UpgradePrompt() {
+  const { data: meter } = useQuery<UsageMeter>({
+    queryKey: ['/api/me/usage'],
+  });
+
+  if (!meter || meter.plan !== 'free') return null;
+
+  const limited = meters.flatMap(({ quota, label }) => {
+    const limit = meter.limits[quota];
+    return limit === null ? [] : [{ quota, label, limit, used: meter.usage[quota] }];
+  });
+  const atLimit = limited.some(({ limit, used }) => used >= limit);
+
+  return (
+    <Card className="bg-secondary border-border transition-all duration-300 hover:shadow-xl" data-testid="upgrade-prompt">
+      <CardContent className="p-4">
+        <h3 className="font-semibold mb-2 text-foreground">
+          {atLimit ? "You've reached a Free plan limit" : "Upgrade to Premium"}
+        </h3>
+
+        <div className="space-y-3 mb-4">
+          {limited.map(({ quota, label, limit, used }) => (
+            <div key={quota} className="space-y-1" data-testid={`usage-${quota}`}>
+              <div className="flex justify-between text-xs text-muted-foreground">
+                <span>{label}</span>
+                <span className={used >= limit ? 'text-destructive font-medium' : undefined}>
+                  {Math.min(used, limit)} / {limit}
+                </span>
+              </div>
+              <Progress value={limit === 0 ? 100 : Math.min(100, (used / limit) * 100)} className="h-1.5" />
+            </div>
+          ))}
+          {meter.limits.exportItems === 0 ? (
+            <p className="text-xs text-muted-foreground">Exports need Premium</p>
+          ) : meter.limits.exportItems !== null && (
+            <p className="text-xs text-muted-foreground">Exports of up to {meter.limits.exportItems} items</p>
+          )}
+        </div>
+
+        <Link href="/subscription">
+          <Button className="w-full transition-all duration-300 hover:scale-105" data-testid="upgrade-button">
+            <Crown className="h-4 w-4 mr-2" />
+            Upgrade Now
+          </Button>
+        </Link>
+
+        <p className="text-xs text-muted-foreground mt-2 text-center">
+          $5.00/month • Cancel anytime
+        </p>
+      </CardContent>
+    </Card>
+  );
+}
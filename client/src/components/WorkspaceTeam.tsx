@@ -0,0 +1,250 @@
+import { useState } from "react";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { Users, Copy, Trash2, Plus, Crown } from "lucide-react";
+import { Link } from "wouter";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Badge } from "@/components/ui/badge";
+import { Separator } from "@/components/ui/separator";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { useToast } from "@/hooks/use-toast";
+import { useWorkspaces } from "@/hooks/use-workspaces";
+import { useSubscription } from "@/hooks/use-subscription";
+import { useAuth } from "@/contexts/AuthContext";
+import { apiRequest } from "@/lib/queryClient";
+import { type WorkspaceMember, type WorkspaceInvitation, type WorkspaceRole } from "@shared/schema";
+
+const roleLabels: Record<WorkspaceRole, string> = {
+  owner: "Owner",
+  editor: "Editor",
+  reviewer: "Reviewer",
+  viewer: "Viewer",
+};
+
+export function WorkspaceTeam() {
+  const { toast } = useToast();
+  const { user } = useAuth();
+  const { hasAccess } = useSubscription();
+  const queryClient = useQueryClient();
+  const { workspaces, currentWorkspace, switchWorkspace } = useWorkspaces();
+  const [newWorkspaceName, setNewWorkspaceName] = useState("");
+  const [invite, setInvite] = useState<{ email: string; role: WorkspaceRole }>({ email: "", role: "editor" });
+
+  const isOwner = currentWorkspace?.role === "owner";
+  const basePath = currentWorkspace ? `/api/workspaces/${currentWorkspace.id}` : "";
+
+  const { data: members = [] } = useQuery<WorkspaceMember[]>({
+    queryKey: [basePath, 'members'],
+    enabled: !!currentWorkspace,
+  });
+
+  const { data: invitations = [] } = useQuery<WorkspaceInvitation[]>({
+    queryKey: [basePath, 'invitations'],
+    enabled: !!currentWorkspace && isOwner,
+  });
+
+  const onError = (description: string) => () => {
+    toast({ title: "Error", description, variant: "destructive" });
+  };
+
+  const createWorkspaceMutation = useMutation({
+    mutationFn: async (name: string) => (await apiRequest('POST', '/api/workspaces', { name })).json(),
+    onSuccess: (workspace: { id: string }) => {
+      setNewWorkspaceName("");
+      switchWorkspace(workspace.id);
+      toast({ title: "Workspace Created", description: "You are now working in the new workspace." });
+    },
+    onError: onError("Failed to create workspace"),
+  });
+
+  const inviteMutation = useMutation({
+    mutationFn: () =>
+      apiRequest('POST', `${basePath}/invitations`, {
+        email: invite.email || undefined,
+        role: invite.role,
+      }),
+    onSuccess: () => {
+      setInvite({ email: "", role: invite.role });
+      queryClient.invalidateQueries({ queryKey: [basePath, 'invitations'] });
+      toast({ title: "Invitation Created", description: "Copy the link and share it with your teammate." });
+    },
+    onError: onError("Failed to create invitation"),
+  });
+
+  const revokeInvitationMutation = useMutation({
+    mutationFn: (id: string) => apiRequest('DELETE', `${basePath}/invitations/${id}`),
+    onSuccess: () => queryClient.invalidateQueries({ queryKey: [basePath, 'invitations'] }),
+    onError: onError("Failed to revoke invitation"),
+  });
+
+  const updateRoleMutation = useMutation({
+    mutationFn: ({ userId, role }: { userId: string; role: WorkspaceRole }) =>
+      apiRequest('PATCH', `${basePath}/members/${userId}`, { role }),
+    onSuccess: () => queryClient.invalidateQueries({ queryKey: [basePath, 'members'] }),
+    onError: onError("Failed to update role"),
+  });
+
+  const removeMemberMutation = useMutation({
+    mutationFn: (userId: string) => apiRequest('DELETE', `${basePath}/members/${userId}`),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: [basePath, 'members'] });
+      queryClient.invalidateQueries({ queryKey: ['/api/workspaces'] });
+    },
+    onError: onError("Failed to remove member"),
+  });
+
+  const copyInviteLink = async (token: string) => {
+    await navigator.clipboard.writeText(`${window.location.origin}/invite/${token}`);
+    toast({ title: "Link Copied", description: "The invitation link is on your clipboard." });
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <Users className="h-5 w-5" />
+          Workspace & Team
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        {/* Workspace selection */}
+        <div className="space-y-2">
+          <Label>Current Workspace</Label>
+          <Select value={currentWorkspace?.id} onValueChange={switchWorkspace}>
+            <SelectTrigger>
+              <SelectValue placeholder="Select workspace..." />
+            </SelectTrigger>
+            <SelectContent>
+              {workspaces.map((workspace) => (
+                <SelectItem key={workspace.id} value={workspace.id}>
+                  {workspace.name} ({roleLabels[workspace.role]})
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+
+        <div className="flex gap-2">
+          <Input
+            value={newWorkspaceName}
+            onChange={(e) => setNewWorkspaceName(e.target.value)}
+            placeholder="New workspace name"
+          />
+          <Button
+            variant="outline"
+            disabled={!newWorkspaceName.trim() || createWorkspaceMutation.isPending}
+            onClick={() => createWorkspaceMutation.mutate(newWorkspaceName.trim())}
+          >
+            <Plus className="h-4 w-4 mr-2" />
+            Create
+          </Button>
+        </div>
+
+        <Separator />
+
+        {/* Members */}
+        <div className="space-y-3">
+          <h3 className="font-semibold">Members</h3>
+          {members.map((member) => (
+            <div key={member.userId} className="flex items-center justify-between gap-3">
+              <div className="text-sm">
+                {member.email || member.userId}
+                {member.userId === user?.uid && <span className="text-muted-foreground"> (you)</span>}
+              </div>
+              <div className="flex items-center gap-2">
+                {isOwner ? (
+                  <Select
+                    value={member.role}
+                    onValueChange={(role) => updateRoleMutation.mutate({ userId: member.userId, role: role as WorkspaceRole })}
+                  >
+                    <SelectTrigger className="w-32">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {Object.entries(roleLabels).map(([value, label]) => (
+                        <SelectItem key={value} value={value}>{label}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                ) : (
+                  <Badge variant="secondary">{roleLabels[member.role as WorkspaceRole]}</Badge>
+                )}
+                {(isOwner || member.userId === user?.uid) && (
+                  <Button
+                    variant="ghost"
+                    size="icon"
+                    onClick={() => removeMemberMutation.mutate(member.userId)}
+                    title={member.userId === user?.uid ? "Leave workspace" : "Remove member"}
+                  >
+                    <Trash2 className="h-4 w-4" />
+                  </Button>
+                )}
+              </div>
+            </div>
+          ))}
+        </div>
+
+        {/* Invitations (owners only) */}
+        {isOwner && (
+          <>
+            <Separator />
+            <div className="space-y-3">
+              <h3 className="font-semibold">Invite Teammates</h3>
+              {hasAccess('team-collaboration') ? (
+                <>
+                  <div className="flex gap-2">
+                    <Input
+                      type="email"
+                      value={invite.email}
+                      onChange={(e) => setInvite({ ...invite, email: e.target.value })}
+                      placeholder="teammate@example.com (optional)"
+                    />
+                    <Select value={invite.role} onValueChange={(role) => setInvite({ ...invite, role: role as WorkspaceRole })}>
+                      <SelectTrigger className="w-32">
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        <SelectItem value="editor">Editor</SelectItem>
+                        <SelectItem value="reviewer">Reviewer</SelectItem>
+                        <SelectItem value="viewer">Viewer</SelectItem>
+                      </SelectContent>
+                    </Select>
+                    <Button onClick={() => inviteMutation.mutate()} disabled={inviteMutation.isPending}>
+                      Invite
+                    </Button>
+                  </div>
+                  {invitations.map((invitation) => (
+                    <div key={invitation.id} className="flex items-center justify-between text-sm">
+                      <div>
+                        {invitation.email || "Anyone with the link"}{" "}
+                        <Badge variant="outline">{roleLabels[invitation.role as WorkspaceRole]}</Badge>
+                      </div>
+                      <div className="flex items-center gap-1">
+                        <Button variant="ghost" size="icon" onClick={() => copyInviteLink(invitation.token)} title="Copy link">
+                          <Copy className="h-4 w-4" />
+                        </Button>
+                        <Button variant="ghost" size="icon" onClick={() => revokeInvitationMutation.mutate(invitation.id)} title="Revoke">
+                          <Trash2 className="h-4 w-4" />
+                        </Button>
+                      </div>
+                    </div>
+                  ))}
+                </>
+              ) : (
+                <div className="text-sm text-muted-foreground">
+                  Team collaboration is a premium feature.{" "}
+                  <Link href="/subscription" className="text-primary inline-flex items-center gap-1">
+                    <Crown className="h-3 w-3" />
+                    Upgrade to invite teammates
+                  </Link>
+                </div>
+              )}
+            </div>
+          </>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
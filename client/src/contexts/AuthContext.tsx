@@ -8,7 +8,7 @@ import {
   GoogleAuthProvider,
   signInWithPopup,
 } from "firebase/auth";
-import { auth } from "../firebase"; // import from firebase.js
+import { auth } from "@/lib/firebase";
 
 interface AuthContextType {
   user: User | null;
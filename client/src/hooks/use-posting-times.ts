@@ -0,0 +1,11 @@
+import { useQuery } from '@tanstack/react-query';
+import type { PostingTimes } from '@shared/schema';
+
+// Recommended in the browser's time zone, from the workspace's own history
+export function usePostingTimes(enabled = true) {
+  const timeZone = Intl.DateTimeFormat().resolvedOptions().timeZone;
+  return useQuery<PostingTimes>({
+    queryKey: ['/api/posting-times', { timeZone }],
+    enabled,
+  });
+}
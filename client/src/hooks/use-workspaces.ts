@@ -0,0 +1,28 @@
+import { useEffect } from 'react';
+import { useQuery } from '@tanstack/react-query';
+import { getCurrentWorkspaceId, setCurrentWorkspaceId } from '@/lib/queryClient';
+import { type WorkspaceWithRole } from '@shared/schema';
+
+export function useWorkspaces() {
+  const { data: workspaces = [], isLoading } = useQuery<WorkspaceWithRole[]>({
+    queryKey: ['/api/workspaces'],
+  });
+
+  const storedId = getCurrentWorkspaceId();
+  const currentWorkspace =
+    workspaces.find((workspace) => workspace.id === storedId) ?? workspaces[0] ?? null;
+
+  useEffect(() => {
+    // Drop a stale selection, e.g. after being removed from a workspace
+    if (currentWorkspace && currentWorkspace.id !== storedId) {
+      setCurrentWorkspaceId(currentWorkspace.id);
+    }
+  }, [currentWorkspace, storedId]);
+
+  return {
+    workspaces,
+    currentWorkspace,
+    isLoading,
+    switchWorkspace: setCurrentWorkspaceId,
+  };
+}
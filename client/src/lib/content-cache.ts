@@ -0,0 +1,26 @@
+import type { QueryClient } from "@tanstack/react-query";
+import type { ContentItem } from "@shared/schema";
+import { isSameEntry } from "./content-series";
+
+// Optimistically patches an item in every cached content list (each calendar
+// range is cached separately). Returns a function that restores the lists.
+// Without an occurrenceDate, every occurrence of a series is patched.
+export async function patchCachedContentItem(
+  queryClient: QueryClient,
+  id: string,
+  changes: Partial<ContentItem>,
+  occurrenceDate?: Date | string | null,
+): Promise<() => void> {
+  await queryClient.cancelQueries({ queryKey: ['/api/content'] });
+  const snapshot = queryClient.getQueriesData<ContentItem[]>({ queryKey: ['/api/content'] });
+
+  snapshot.forEach(([queryKey, items]) => {
+    if (!Array.isArray(items)) return;
+    queryClient.setQueryData<ContentItem[]>(
+      queryKey,
+      items.map((item) => (isSameEntry(item, id, occurrenceDate) ? { ...item, ...changes } : item)),
+    );
+  });
+
+  return () => snapshot.forEach(([queryKey, items]) => queryClient.setQueryData<ContentItem[]>(queryKey, items));
+}
@@ -0,0 +1,19 @@
+import type { ContentItem } from "@shared/schema";
+
+// Calendar ranges list a series as its occurrences: copies of the series
+// with its id, each with its own start in occurrenceDate
+export function isOccurrence(item: ContentItem): boolean {
+  return !!item.recurrence && !!item.occurrenceDate;
+}
+
+export function occurrencePath(item: ContentItem): string {
+  const date = new Date(item.occurrenceDate!).toISOString();
+  return `/api/content/${item.id}/occurrences/${encodeURIComponent(date)}`;
+}
+
+// Matches cached list entries: every occurrence of a series shares its id
+export function isSameEntry(item: ContentItem, id: string, occurrenceDate?: Date | string | null): boolean {
+  if (item.id !== id) return false;
+  if (!occurrenceDate) return true;
+  return !!item.occurrenceDate && new Date(item.occurrenceDate).getTime() === new Date(occurrenceDate).getTime();
+}
@@ -0,0 +1,24 @@
+import { type ContentStatus } from "@shared/workflow";
+
+// Tailwind dot colour and calendar event colour for each workflow status
+export const statusColors: Record<ContentStatus, { dot: string; hex: string }> = {
+  draft: { dot: "bg-gray-400", hex: "#6b7280" },
+  in_review: { dot: "bg-blue-400", hex: "#3b82f6" },
+  approved: { dot: "bg-teal-400", hex: "#14b8a6" },
+  rejected: { dot: "bg-red-400", hex: "#ef4444" },
+  scheduled: { dot: "bg-yellow-400", hex: "#f59e0b" },
+  posted: { dot: "bg-green-400", hex: "#10b981" },
+  failed: { dot: "bg-orange-500", hex: "#f97316" },
+  archived: { dot: "bg-slate-300", hex: "#94a3b8" },
+};
+
+export const statusDescriptions: Record<ContentStatus, string> = {
+  draft: "Not ready",
+  in_review: "Awaiting sign-off",
+  approved: "Signed off",
+  rejected: "Needs changes",
+  scheduled: "Ready to post",
+  posted: "Published",
+  failed: "Publishing failed",
+  archived: "Put away",
+};
@@ -0,0 +1,18 @@
+import { apiRequest } from "./queryClient";
+
+// API downloads need the auth headers, so a plain link won't do. Fetch the
+// file and hand it to the browser through a temporary object URL.
+export async function downloadFile(url: string, fallbackName: string) {
+  const res = await apiRequest("GET", url);
+  const disposition = res.headers.get("Content-Disposition") ?? "";
+  const filename = /filename="?([^";]+)"?/.exec(disposition)?.[1] ?? fallbackName;
+
+  const objectUrl = URL.createObjectURL(await res.blob());
+  const link = document.createElement("a");
+  link.href = objectUrl;
+  link.download = filename;
+  document.body.appendChild(link);
+  link.click();
+  link.remove();
+  URL.revokeObjectURL(objectUrl);
+}
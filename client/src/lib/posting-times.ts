@@ -0,0 +1,25 @@
+import type { PostingWindow } from "@shared/schema";
+
+const dayNames = ["Sun", "Mon", "Tue", "Wed", "Thu", "Fri", "Sat"];
+
+function formatHour(hour: number): string {
+  const suffix = hour % 24 < 12 ? "AM" : "PM";
+  return `${hour % 12 === 0 ? 12 : hour % 12} ${suffix}`;
+}
+
+// "Tue 2 PM – 4 PM"
+export function formatWindow(window: PostingWindow): string {
+  return `${dayNames[window.dayOfWeek]} ${formatHour(window.startHour)} – ${formatHour(window.endHour)}`;
+}
+
+// The first start of the window on or after the day of `from`, but not in
+// the past. Windows are in the browser's time zone, which is what the
+// recommendations are requested for.
+export function nextWindowStart(window: PostingWindow, from: Date): Date {
+  const now = new Date();
+  const start = new Date(Math.max(from.getTime(), now.getTime()));
+  start.setHours(window.startHour, 0, 0, 0);
+  start.setDate(start.getDate() + ((window.dayOfWeek - start.getDay() + 7) % 7));
+  if (start < now) start.setDate(start.getDate() + 7);
+  return start;
+}
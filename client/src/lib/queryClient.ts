@@ -1,4 +1,28 @@
 import { QueryClient, QueryFunction } from "@tanstack/react-query";
+import { auth } from "./firebase";
+
+const WORKSPACE_STORAGE_KEY = "current_workspace";
+
+export function getCurrentWorkspaceId(): string | null {
+  return localStorage.getItem(WORKSPACE_STORAGE_KEY);
+}
+
+export function setCurrentWorkspaceId(id: string) {
+  localStorage.setItem(WORKSPACE_STORAGE_KEY, id);
+  // Everything cached so far belongs to the previous workspace
+  queryClient.invalidateQueries();
+}
+
+// The server verifies the Firebase ID token on every /api request and scopes
+// content to the workspace header (or the user's first workspace without it).
+async function authHeaders(): Promise<Record<string, string>> {
+  const headers: Record<string, string> = {};
+  const token = await auth.currentUser?.getIdToken();
+  if (token) headers.Authorization = `Bearer ${token}`;
+  const workspaceId = getCurrentWorkspaceId();
+  if (workspaceId) headers["X-Workspace-Id"] = workspaceId;
+  return headers;
+}
 
 async function throwIfResNotOk(res: Response) {
   if (!res.ok) {
@@ -7,6 +31,16 @@ async function throwIfResNotOk(res: Response) {
   }
 }
 
+// The server's own message from an apiRequest error, which looks like
+// '400: {"message":"..."}', falling back to the raw text
+export function errorMessage(error: Error): string {
+  try {
+    return JSON.parse(error.message.replace(/^\d+: /, "")).message ?? error.message;
+  } catch {
+    return error.message;
+  }
+}
+
 export async function apiRequest(
   method: string,
   url: string,
@@ -14,7 +48,10 @@ export async function apiRequest(
 ): Promise<Response> {
   const res = await fetch(url, {
     method,
-    headers: data ? { "Content-Type": "application/json" } : {},
+    headers: {
+      ...(data ? { "Content-Type": "application/json" } : {}),
+      ...(await authHeaders()),
+    },
     body: data ? JSON.stringify(data) : undefined,
     credentials: "include",
   });
@@ -23,13 +60,32 @@ export async function apiRequest(
   return res;
 }
 
+// Path segments are joined with "/"; a trailing object becomes the query
+// string, e.g. ['/api/content', { from, to }]
+function queryKeyToUrl(queryKey: readonly unknown[]): string {
+  const last = queryKey[queryKey.length - 1];
+  if (queryKey.length < 2 || !last || typeof last !== "object") {
+    return queryKey.join("/");
+  }
+
+  const params = new URLSearchParams();
+  Object.entries(last).forEach(([key, value]) => {
+    if (value === undefined || value === null) return;
+    params.set(key, value instanceof Date ? value.toISOString() : String(value));
+  });
+  const path = queryKey.slice(0, -1).join("/");
+  const search = params.toString();
+  return search ? `${path}?${search}` : path;
+}
+
 type UnauthorizedBehavior = "returnNull" | "throw";
 export const getQueryFn: <T>(options: {
   on401: UnauthorizedBehavior;
 }) => QueryFunction<T> =
   ({ on401: unauthorizedBehavior }) =>
   async ({ queryKey }) => {
-    const res = await fetch(queryKey.join("/") as string, {
+    const res = await fetch(queryKeyToUrl(queryKey), {
+      headers: await authHeaders(),
       credentials: "include",
     });
 
@@ -1,87 +1,107 @@
 import { Link } from "wouter";
-import { ArrowLeft, TrendingUp, Users, Eye, Heart, Share2, BarChart3, Calendar, Download, Brain, Sparkles, Crown, Lock } from "lucide-react";
+import { ArrowLeft, TrendingUp, BarChart3, Calendar, Download, Brain, Sparkles, Crown, Lock, Clock, ListChecks, Eye, Activity } from "lucide-react";
+import { Bar, BarChart, CartesianGrid, XAxis, YAxis } from "recharts";
 import { Button } from "@/components/ui/button";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Badge } from "@/components/ui/badge";
 import { Progress } from "@/components/ui/progress";
+import { ChartContainer, ChartLegend, ChartLegendContent, ChartTooltip, ChartTooltipContent, type ChartConfig } from "@/components/ui/chart";
+import { DropdownMenu, DropdownMenuContent, DropdownMenuItem, DropdownMenuLabel, DropdownMenuSeparator, DropdownMenuTrigger } from "@/components/ui/dropdown-menu";
 import { useQuery } from "@tanstack/react-query";
 import { useSubscription } from "@/hooks/use-subscription";
-import type { ContentItem } from "@shared/schema";
+import { useToast } from "@/hooks/use-toast";
+import { downloadFile } from "@/lib/download";
+import { statusColors } from "@/lib/content-status";
+import { MetricsImport } from "@/components/MetricsImport";
+import { usePostingTimes } from "@/hooks/use-posting-times";
+import { formatWindow } from "@/lib/posting-times";
+import { contentPlatforms, type ContentAnalytics } from "@shared/schema";
+import { contentStatuses, statusLabels } from "@shared/workflow";
 
-export default function Analytics() {
-  const { data: contentItems = [] } = useQuery<ContentItem[]>({
-    queryKey: ["/api/content"],
-  });
-  const { isPremium, hasAccess } = useSubscription();
+const platformChartConfig = {
+  items: { label: "Items", color: "var(--chart-1)" },
+} satisfies ChartConfig;
 
-  // Calculate real metrics from content data
-  const totalPosts = contentItems.length;
-  const publishedPosts = contentItems.filter(item => item.status === 'published').length;
-  const scheduledPosts = contentItems.filter(item => item.status === 'scheduled').length;
-  const draftPosts = contentItems.filter(item => item.status === 'draft').length;
+const cadenceChartConfig = {
+  posted: { label: "Posted", color: "var(--chart-2)" },
+  planned: { label: "Planned", color: "var(--chart-1)" },
+} satisfies ChartConfig;
 
-  const platformCounts = contentItems.reduce((acc, item) => {
-    acc[item.platform] = (acc[item.platform] || 0) + 1;
-    return acc;
-  }, {} as Record<string, number>);
+const engagementChartConfig = {
+  interactions: { label: "Interactions", color: "var(--chart-3)" },
+} satisfies ChartConfig;
 
-  const thisMonth = new Date();
-  thisMonth.setDate(1);
-  const thisMonthPosts = contentItems.filter(item => 
-    new Date(item.scheduledDate) >= thisMonth
-  ).length;
+const platformLabels: Record<string, string> = {
+  social: "Social Media",
+  email: "Email",
+  blog: "Blog",
+};
 
-  const lastMonth = new Date();
-  lastMonth.setMonth(lastMonth.getMonth() - 1);
-  lastMonth.setDate(1);
-  const lastMonthEnd = new Date(thisMonth);
-  lastMonthEnd.setDate(0);
-  const lastMonthPosts = contentItems.filter(item => {
-    const itemDate = new Date(item.scheduledDate);
-    return itemDate >= lastMonth && itemDate <= lastMonthEnd;
-  }).length;
+function percent(part: number, whole: number): string {
+  return whole > 0 ? `${((part / whole) * 100).toFixed(1)}%` : "0%";
+}
 
-  const monthlyGrowth = lastMonthPosts > 0 ? ((thisMonthPosts - lastMonthPosts) / lastMonthPosts * 100).toFixed(1) : "0";
+export default function Analytics() {
+  const timeZone = Intl.DateTimeFormat().resolvedOptions().timeZone;
+  const { isPremium, hasAccess } = useSubscription();
+  const { data: analytics } = useQuery<ContentAnalytics>({
+    queryKey: ["/api/analytics", { timeZone }],
+    enabled: hasAccess('analytics'),
+  });
+  const { data: postingTimes } = usePostingTimes();
+  const { toast } = useToast();
 
-  const metrics = [
-    { label: "Total Posts", value: totalPosts.toString(), change: `+${monthlyGrowth}%`, trend: monthlyGrowth >= "0" ? "up" : "down" },
-    { label: "Published", value: publishedPosts.toString(), change: `${((publishedPosts/totalPosts)*100).toFixed(1)}%`, trend: "up" },
-    { label: "Scheduled", value: scheduledPosts.toString(), change: `${((scheduledPosts/totalPosts)*100).toFixed(1)}%`, trend: "up" },
-    { label: "This Month", value: thisMonthPosts.toString(), change: `${monthlyGrowth}%`, trend: monthlyGrowth >= "0" ? "up" : "down" }
-  ];
+  const handleExport = (format: "csv" | "json", range: "all" | "month") => {
+    const params = new URLSearchParams({ format });
+    if (range === "month") {
+      const start = new Date();
+      start.setDate(1);
+      start.setHours(0, 0, 0, 0);
+      params.set("from", start.toISOString());
+    }
+    downloadFile(`/api/content/export?${params}`, `content.${format}`).catch(() => {
+      toast({ title: "Error", description: "Failed to export content", variant: "destructive" });
+    });
+  };
 
-  const platformData = [
-    { 
-      platform: "Social Media", 
-      posts: platformCounts["social"] || 0, 
-      engagement: Math.floor(Math.random() * 20) + 80, 
-      reach: `${((platformCounts["social"] || 0) * 1.2).toFixed(1)}K`, 
-      color: "bg-blue-500" 
-    },
-    { 
-      platform: "Email", 
-      posts: platformCounts["email"] || 0, 
-      engagement: Math.floor(Math.random() * 15) + 75, 
-      reach: `${((platformCounts["email"] || 0) * 1.5).toFixed(1)}K`, 
-      color: "bg-green-500" 
+  const total = analytics?.total ?? 0;
+  const posted = analytics?.byStatus.posted ?? 0;
+  const scheduled = analytics?.byStatus.scheduled ?? 0;
+  const monthOverMonth = analytics?.monthOverMonth;
+  const change = monthOverMonth?.change ?? null;
+
+  const metrics = [
+    { label: "Total Items", value: total.toString(), detail: "across all platforms", trend: "up" },
+    { label: "Posted", value: posted.toString(), detail: `${percent(posted, total)} of all items`, trend: "up" },
+    { label: "Scheduled", value: scheduled.toString(), detail: `${percent(scheduled, total)} of all items`, trend: "up" },
+    {
+      label: "This Month",
+      value: (monthOverMonth?.thisMonth ?? 0).toString(),
+      detail: change === null
+        ? "nothing last month to compare"
+        : `${change >= 0 ? "+" : ""}${change}% from last month`,
+      trend: change !== null && change < 0 ? "down" : "up",
     },
-    { 
-      platform: "Blog", 
-      posts: platformCounts["blog"] || 0, 
-      engagement: Math.floor(Math.random() * 10) + 85, 
-      reach: `${((platformCounts["blog"] || 0) * 2.1).toFixed(1)}K`, 
-      color: "bg-purple-500" 
-    }
   ];
 
-  const topPosts = contentItems
-    .slice(0, 3)
-    .map(item => ({
-      title: item.title,
-      platform: item.platform.charAt(0).toUpperCase() + item.platform.slice(1),
-      engagement: Math.floor(Math.random() * 20) + 80,
-      views: `${(Math.random() * 3 + 1).toFixed(1)}K`
-    }));
+  const platformData = Object.entries(analytics?.byPlatform ?? {}).map(([platform, items]) => ({
+    platform: platformLabels[platform] ?? platform,
+    items,
+  }));
+
+  const cadenceData = (analytics?.cadence ?? []).map((week) => ({
+    ...week,
+    label: new Date(`${week.weekStart}T00:00:00`).toLocaleDateString(undefined, { month: "short", day: "numeric" }),
+  }));
+
+  const engagement = analytics?.engagement;
+  const timelineData = (engagement?.timeline ?? []).map((day) => ({
+    ...day,
+    label: new Date(`${day.date}T00:00:00`).toLocaleDateString(undefined, { month: "short", day: "numeric" }),
+  }));
+
+  const publishing = analytics?.publishing;
+  const publishedCount = (publishing?.onTime ?? 0) + (publishing?.late ?? 0);
 
   // Premium gate for non-subscribers
   if (!hasAccess('analytics')) {
@@ -183,14 +203,28 @@ export default function Analytics() {
               </div>
             </div>
             <div className="flex items-center space-x-2">
+              <MetricsImport />
               <Button variant="outline" size="sm" className="transition-all hover:scale-105">
                 <Brain className="h-4 w-4 mr-2" />
                 AI Insights
               </Button>
-              <Button variant="outline" size="sm" className="transition-all hover:scale-105">
-                <Download className="h-4 w-4 mr-2" />
-                Export
-              </Button>
+              <DropdownMenu>
+                <DropdownMenuTrigger asChild>
+                  <Button variant="outline" size="sm" className="transition-all hover:scale-105" disabled={!hasAccess('advanced-export')}>
+                    <Download className="h-4 w-4 mr-2" />
+                    Export
+                  </Button>
+                </DropdownMenuTrigger>
+                <DropdownMenuContent align="end">
+                  <DropdownMenuLabel>All content</DropdownMenuLabel>
+                  <DropdownMenuItem onClick={() => handleExport("csv", "all")}>CSV</DropdownMenuItem>
+                  <DropdownMenuItem onClick={() => handleExport("json", "all")}>JSON</DropdownMenuItem>
+                  <DropdownMenuSeparator />
+                  <DropdownMenuLabel>From this month on</DropdownMenuLabel>
+                  <DropdownMenuItem onClick={() => handleExport("csv", "month")}>CSV</DropdownMenuItem>
+                  <DropdownMenuItem onClick={() => handleExport("json", "month")}>JSON</DropdownMenuItem>
+                </DropdownMenuContent>
+              </DropdownMenu>
             </div>
           </div>
         </div>
@@ -209,7 +243,24 @@ export default function Analytics() {
             <div className="grid md:grid-cols-2 gap-4 text-sm">
               <div className="p-4 bg-background/50 rounded-lg">
                 <h4 className="font-medium text-foreground mb-2">📈 Optimal Posting Times</h4>
-                <p className="text-muted-foreground">Post social content at 2-4 PM for 23% higher engagement</p>
+                {postingTimes ? (
+                  <ul className="space-y-1 text-muted-foreground" data-testid="optimal-posting-times">
+                    {contentPlatforms.map((platform) => {
+                      const times = postingTimes.platforms[platform];
+                      const best = times.windows[0];
+                      return (
+                        <li key={platform}>
+                          <span className="text-foreground">{platformLabels[platform]}:</span> {formatWindow(best)}
+                          {times.source === "history"
+                            ? best.lift !== null && best.lift > 0 && <span className="text-green-600"> (+{best.lift}% interactions)</span>
+                            : <span> (default until {times.minimumPosts} posts have engagement)</span>}
+                        </li>
+                      );
+                    })}
+                  </ul>
+                ) : (
+                  <p className="text-muted-foreground">Loading posting times...</p>
+                )}
               </div>
               <div className="p-4 bg-background/50 rounded-lg">
                 <h4 className="font-medium text-foreground mb-2">🎯 Content Suggestions</h4>
@@ -234,7 +285,7 @@ export default function Analytics() {
                   </div>
                 </div>
                 <p className={`text-sm mt-2 ${metric.trend === 'up' ? 'text-green-600' : 'text-red-600'}`}>
-                  {metric.change} from last month
+                  {metric.detail}
                 </p>
               </CardContent>
             </Card>
@@ -242,38 +293,105 @@ export default function Analytics() {
         </div>
 
         <div className="grid lg:grid-cols-2 gap-8">
-          {/* Platform Performance */}
+          {/* Content by Platform */}
           <Card className="animate-fade-in">
             <CardHeader>
               <CardTitle className="flex items-center">
                 <BarChart3 className="h-5 w-5 mr-2" />
-                Platform Performance
+                Content by Platform
               </CardTitle>
             </CardHeader>
-            <CardContent className="space-y-6">
-              {platformData.map((platform, index) => (
-                <div key={platform.platform} className="space-y-2">
-                  <div className="flex items-center justify-between">
-                    <div className="flex items-center space-x-3">
-                      <div className={`w-3 h-3 rounded-full ${platform.color}`}></div>
-                      <span className="font-medium">{platform.platform}</span>
-                    </div>
-                    <div className="text-right">
-                      <p className="font-bold">{platform.reach}</p>
-                      <p className="text-sm text-muted-foreground">{platform.posts} posts</p>
+            <CardContent>
+              <ChartContainer config={platformChartConfig} className="h-64 w-full">
+                <BarChart data={platformData}>
+                  <CartesianGrid vertical={false} />
+                  <XAxis dataKey="platform" tickLine={false} axisLine={false} />
+                  <YAxis allowDecimals={false} tickLine={false} axisLine={false} width={32} />
+                  <ChartTooltip content={<ChartTooltipContent />} />
+                  <Bar dataKey="items" fill="var(--color-items)" radius={4} />
+                </BarChart>
+              </ChartContainer>
+            </CardContent>
+          </Card>
+
+          {/* Pipeline by Status */}
+          <Card className="animate-fade-in" style={{ animationDelay: '0.2s' }}>
+            <CardHeader>
+              <CardTitle className="flex items-center">
+                <ListChecks className="h-5 w-5 mr-2" />
+                Pipeline by Status
+              </CardTitle>
+            </CardHeader>
+            <CardContent className="space-y-3">
+              {contentStatuses.map((status) => {
+                const count = analytics?.byStatus[status] ?? 0;
+                return (
+                  <div key={status} className="space-y-1">
+                    <div className="flex items-center justify-between text-sm">
+                      <div className="flex items-center gap-2">
+                        <div className={`w-3 h-3 rounded-full ${statusColors[status].dot}`} />
+                        <span className="font-medium">{statusLabels[status]}</span>
+                      </div>
+                      <span className="text-muted-foreground">{count}</span>
                     </div>
+                    <Progress value={total > 0 ? (count / total) * 100 : 0} className="h-2" />
                   </div>
-                  <Progress value={platform.engagement} className="h-2" />
-                  <p className="text-sm text-muted-foreground">
-                    {platform.engagement}% engagement rate
-                  </p>
-                </div>
-              ))}
+                );
+              })}
+            </CardContent>
+          </Card>
+        </div>
+
+        {/* Posting Cadence */}
+        <Card className="mt-8 animate-fade-in" style={{ animationDelay: '0.4s' }}>
+          <CardHeader>
+            <CardTitle className="flex items-center">
+              <Calendar className="h-5 w-5 mr-2" />
+              Posting Cadence (Last {cadenceData.length} Weeks)
+            </CardTitle>
+          </CardHeader>
+          <CardContent>
+            <ChartContainer config={cadenceChartConfig} className="h-64 w-full">
+              <BarChart data={cadenceData}>
+                <CartesianGrid vertical={false} />
+                <XAxis dataKey="label" tickLine={false} axisLine={false} />
+                <YAxis allowDecimals={false} tickLine={false} axisLine={false} width={32} />
+                <ChartTooltip content={<ChartTooltipContent />} />
+                <ChartLegend content={<ChartLegendContent />} />
+                <Bar dataKey="posted" stackId="week" fill="var(--color-posted)" />
+                <Bar dataKey="planned" stackId="week" fill="var(--color-planned)" radius={[4, 4, 0, 0]} />
+              </BarChart>
+            </ChartContainer>
+          </CardContent>
+        </Card>
+
+        <div className="grid lg:grid-cols-2 gap-8 mt-8">
+          {/* Engagement Timeline */}
+          <Card className="animate-fade-in" style={{ animationDelay: '0.5s' }}>
+            <CardHeader>
+              <CardTitle className="flex items-center">
+                <Activity className="h-5 w-5 mr-2" />
+                Engagement Timeline (Last 30 Days)
+              </CardTitle>
+            </CardHeader>
+            <CardContent>
+              <ChartContainer config={engagementChartConfig} className="h-64 w-full">
+                <BarChart data={timelineData}>
+                  <CartesianGrid vertical={false} />
+                  <XAxis dataKey="label" tickLine={false} axisLine={false} minTickGap={24} />
+                  <YAxis allowDecimals={false} tickLine={false} axisLine={false} width={40} />
+                  <ChartTooltip content={<ChartTooltipContent />} />
+                  <Bar dataKey="interactions" fill="var(--color-interactions)" radius={[4, 4, 0, 0]} />
+                </BarChart>
+              </ChartContainer>
+              <p className="text-xs text-muted-foreground mt-2">
+                Clicks, likes, shares and comments gained each day, from recorded metrics
+              </p>
             </CardContent>
           </Card>
 
           {/* Top Performing Content */}
-          <Card className="animate-fade-in" style={{ animationDelay: '0.2s' }}>
+          <Card className="animate-fade-in" style={{ animationDelay: '0.5s' }}>
             <CardHeader>
               <CardTitle className="flex items-center">
                 <TrendingUp className="h-5 w-5 mr-2" />
@@ -281,50 +399,72 @@ export default function Analytics() {
               </CardTitle>
             </CardHeader>
             <CardContent className="space-y-4">
-              {topPosts.map((post, index) => (
-                <div key={post.title} className="flex items-center justify-between p-4 bg-muted/50 rounded-lg hover:bg-muted/70 transition-colors">
-                  <div>
-                    <h4 className="font-medium text-foreground">{post.title}</h4>
-                    <div className="flex items-center space-x-4 mt-1">
-                      <Badge variant="outline" className="text-xs">{post.platform}</Badge>
-                      <span className="text-sm text-muted-foreground flex items-center">
-                        <Eye className="h-3 w-3 mr-1" />
-                        {post.views}
-                      </span>
+              {(engagement?.topContent ?? []).length === 0 ? (
+                <p className="text-sm text-muted-foreground">
+                  No engagement metrics yet. Record them on posted items, import a CSV, or push them from a script.
+                </p>
+              ) : (
+                engagement!.topContent.map((post) => (
+                  <div key={post.id} className="flex items-center justify-between p-4 bg-muted/50 rounded-lg hover:bg-muted/70 transition-colors">
+                    <div>
+                      <h4 className="font-medium text-foreground">{post.title}</h4>
+                      <div className="flex items-center space-x-4 mt-1">
+                        <Badge variant="outline" className="text-xs">{platformLabels[post.platform] ?? post.platform}</Badge>
+                        <span className="text-sm text-muted-foreground flex items-center">
+                          <Eye className="h-3 w-3 mr-1" />
+                          {post.impressions.toLocaleString()}
+                        </span>
+                      </div>
+                    </div>
+                    <div className="text-right">
+                      <p className="font-bold text-green-600">{post.interactions.toLocaleString()}</p>
+                      <p className="text-xs text-muted-foreground">
+                        {post.rate !== null ? `${(post.rate * 100).toFixed(1)}% engagement` : "interactions"}
+                      </p>
                     </div>
                   </div>
-                  <div className="text-right">
-                    <p className="font-bold text-green-600">{post.engagement}%</p>
-                    <p className="text-xs text-muted-foreground">engagement</p>
-                  </div>
-                </div>
-              ))}
+                ))
+              )}
             </CardContent>
           </Card>
         </div>
 
-        {/* Engagement Timeline */}
-        <Card className="mt-8 animate-fade-in" style={{ animationDelay: '0.4s' }}>
+        {/* Publishing Reliability */}
+        <Card className="mt-8 animate-fade-in" style={{ animationDelay: '0.6s' }}>
           <CardHeader>
             <CardTitle className="flex items-center">
-              <Calendar className="h-5 w-5 mr-2" />
-              Engagement Timeline (Last 30 Days)
+              <Clock className="h-5 w-5 mr-2" />
+              Publishing Reliability
             </CardTitle>
           </CardHeader>
-          <CardContent>
-            <div className="h-64 flex items-end justify-between space-x-2 bg-muted/20 rounded-lg p-4">
-              {Array.from({ length: 30 }, (_, i) => (
-                <div
-                  key={i}
-                  className="bg-primary rounded-t-sm transition-all duration-300 hover:bg-primary/80 cursor-pointer min-w-[8px]"
-                  style={{ height: `${Math.random() * 100}%` }}
-                  title={`Day ${i + 1}: ${Math.floor(Math.random() * 1000)} engagements`}
-                />
-              ))}
+          <CardContent className="grid sm:grid-cols-3 gap-6">
+            <div className="space-y-2">
+              <p className="text-sm text-muted-foreground">On time</p>
+              <p className="text-2xl font-bold text-foreground">
+                {publishedCount > 0 ? percent(publishing!.onTime, publishedCount) : "—"}
+              </p>
+              <Progress value={publishedCount > 0 ? (publishing!.onTime / publishedCount) * 100 : 0} className="h-2" />
+              <p className="text-xs text-muted-foreground">
+                {publishing?.onTime ?? 0} on time, {publishing?.late ?? 0} late
+              </p>
+            </div>
+            <div className="space-y-2">
+              <p className="text-sm text-muted-foreground">Average publishing delay</p>
+              <p className="text-2xl font-bold text-foreground">
+                {publishing?.averageDelayMinutes != null ? `${publishing.averageDelayMinutes} min` : "—"}
+              </p>
+              <p className="text-xs text-muted-foreground">From scheduled time to posted</p>
             </div>
-            <div className="flex justify-between text-sm text-muted-foreground mt-2">
-              <span>30 days ago</span>
-              <span>Today</span>
+            <div className="space-y-2">
+              <p className="text-sm text-muted-foreground">Average lead time</p>
+              <p className="text-2xl font-bold text-foreground">
+                {analytics?.averageLeadTimeHours != null
+                  ? analytics.averageLeadTimeHours >= 48
+                    ? `${(analytics.averageLeadTimeHours / 24).toFixed(1)} days`
+                    : `${analytics.averageLeadTimeHours} h`
+                  : "—"}
+              </p>
+              <p className="text-xs text-muted-foreground">From creation to scheduled date</p>
             </div>
           </CardContent>
         </Card>
@@ -1,41 +1,128 @@
-import { useState } from "react";
+import { useRef, useState } from "react";
 import { Link } from "wouter";
+import { useMutation, useQueryClient } from "@tanstack/react-query";
 import { ArrowLeft, Upload, Calendar, CheckCircle, Clock, AlertCircle, Download, FileText, Crown, Lock } from "lucide-react";
 import { Button } from "@/components/ui/button";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Badge } from "@/components/ui/badge";
-import { Progress } from "@/components/ui/progress";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
 import { Textarea } from "@/components/ui/textarea";
+import { ToggleGroup, ToggleGroupItem } from "@/components/ui/toggle-group";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
 import { useToast } from "@/hooks/use-toast";
 import { useSubscription } from "@/hooks/use-subscription";
+import { useWorkspaces } from "@/hooks/use-workspaces";
+import { apiRequest, errorMessage } from "@/lib/queryClient";
+import { downloadFile } from "@/lib/download";
+import { statusLabels, type ContentStatus } from "@shared/workflow";
+import { can, type BulkScheduleResult, type ContentImportResult, type ScheduleFrequency } from "@shared/schema";
+
+const weekdayLabels = ["Sun", "Mon", "Tue", "Wed", "Thu", "Fri", "Sat"];
+
+function tomorrow(): string {
+  const date = new Date();
+  date.setDate(date.getDate() + 1);
+  return `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, "0")}-${String(date.getDate()).padStart(2, "0")}`;
+}
 
 export default function BulkScheduling() {
   const { toast } = useToast();
   const { hasAccess } = useSubscription();
-  const [isUploading, setIsUploading] = useState(false);
-  const [uploadProgress, setUploadProgress] = useState(0);
+  const { currentWorkspace } = useWorkspaces();
   const [bulkContent, setBulkContent] = useState("");
+  const [bulkOptions, setBulkOptions] = useState({
+    platform: "social",
+    frequency: "daily" as ScheduleFrequency,
+    weekdays: ["1", "3", "5"],
+    startDate: tomorrow(),
+    timeOfDay: "09:00",
+    status: "draft" as "draft" | "scheduled",
+  });
+  const [schedulePreview, setSchedulePreview] = useState<BulkScheduleResult | null>(null);
+  const queryClient = useQueryClient();
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const [csvFile, setCsvFile] = useState<{ name: string; text: string } | null>(null);
+  const [importPreview, setImportPreview] = useState<ContentImportResult | null>(null);
+  const [isDragging, setIsDragging] = useState(false);
 
-  const handleBulkUpload = async () => {
-    setIsUploading(true);
-    setUploadProgress(0);
+  const importMutation = useMutation({
+    mutationFn: async ({ csv, dryRun }: { csv: string; dryRun: boolean }) => {
+      const response = await apiRequest('POST', '/api/content/import', { csv, dryRun });
+      return response.json() as Promise<ContentImportResult>;
+    },
+    onSuccess: (result) => {
+      if (result.dryRun) {
+        setImportPreview(result);
+        return;
+      }
+      queryClient.invalidateQueries({ queryKey: ['/api/content'] });
+      queryClient.invalidateQueries({ queryKey: ['/api/me/usage'] });
+      setCsvFile(null);
+      setImportPreview(null);
+      toast({
+        title: "Import Complete",
+        description: `${result.created.length} posts added to your calendar`,
+      });
+    },
+    onError: (error: Error) => {
+      setImportPreview(null);
+      toast({ title: "Import Failed", description: errorMessage(error), variant: "destructive" });
+    },
+  });
+
+  const handleDownloadTemplate = () => {
+    downloadFile('/api/content/import/template', 'content-import-template.csv').catch(() => {
+      toast({ title: "Error", description: "Failed to download the template", variant: "destructive" });
+    });
+  };
 
-    // Simulate upload progress
-    const interval = setInterval(() => {
-      setUploadProgress(prev => {
-        if (prev >= 100) {
-          clearInterval(interval);
-          setIsUploading(false);
-          toast({
-            title: "Success!",
-            description: "24 posts scheduled successfully across all platforms",
-          });
-          return 100;
-        }
-        return prev + 10;
+  // Every file gets a dry run first so problems show up before anything is saved
+  const handleCsvFile = async (file: File | undefined) => {
+    if (!file) return;
+    const text = await file.text();
+    setCsvFile({ name: file.name, text });
+    importMutation.mutate({ csv: text, dryRun: true });
+  };
+
+  // Only reviewers may skip the review step and schedule straight away
+  const canSchedule = !!currentWorkspace && can(currentWorkspace.role, "content:review");
+
+  const scheduleMutation = useMutation({
+    mutationFn: async (dryRun: boolean) => {
+      const response = await apiRequest('POST', '/api/content/bulk-schedule', {
+        ...bulkOptions,
+        lines: bulkContent.split("\n"),
+        weekdays: bulkOptions.weekdays.map(Number),
+        timeZone: Intl.DateTimeFormat().resolvedOptions().timeZone,
+        dryRun,
+      });
+      return response.json() as Promise<BulkScheduleResult>;
+    },
+    onSuccess: (result) => {
+      if (result.dryRun) {
+        setSchedulePreview(result);
+        return;
+      }
+      queryClient.invalidateQueries({ queryKey: ['/api/content'] });
+      queryClient.invalidateQueries({ queryKey: ['/api/me/usage'] });
+      setBulkContent("");
+      setSchedulePreview(null);
+      toast({
+        title: "Content Created",
+        description: `${result.created.length} posts added to your calendar`,
       });
-    }, 200);
+    },
+    onError: (error: Error) => {
+      toast({ title: "Error", description: errorMessage(error), variant: "destructive" });
+    },
+  });
+
+  // Any change invalidates the preview
+  const updateBulkOptions = (changes: Partial<typeof bulkOptions>) => {
+    setBulkOptions({ ...bulkOptions, ...changes });
+    setSchedulePreview(null);
   };
 
   const scheduledPosts = [
@@ -165,7 +252,7 @@ export default function BulkScheduling() {
               <h1 className="text-2xl font-bold text-foreground">Bulk Scheduling</h1>
               <Badge variant="secondary">Premium Feature</Badge>
             </div>
-            <Button variant="outline" size="sm" className="transition-all hover:scale-105">
+            <Button variant="outline" size="sm" className="transition-all hover:scale-105" onClick={handleDownloadTemplate}>
               <Download className="h-4 w-4 mr-2" />
               Download Template
             </Button>
@@ -185,47 +272,154 @@ export default function BulkScheduling() {
                   Quick Bulk Input
                 </CardTitle>
                 <p className="text-sm text-muted-foreground">
-                  Paste multiple content ideas, one per line. We'll help you schedule them optimally.
+                  Paste multiple content ideas, one per line. We'll spread them over the calendar starting from the date you pick.
                 </p>
               </CardHeader>
               <CardContent className="space-y-4">
                 <Textarea
                   placeholder="Motivational Monday quote&#10;Product feature highlight&#10;Customer testimonial&#10;Industry news update&#10;Behind the scenes content"
                   value={bulkContent}
-                  onChange={(e) => setBulkContent(e.target.value)}
+                  onChange={(e) => {
+                    setBulkContent(e.target.value);
+                    setSchedulePreview(null);
+                  }}
                   rows={6}
                   className="resize-none"
                 />
-                <div className="flex items-center space-x-4">
-                  <Select>
-                    <SelectTrigger className="w-48">
-                      <SelectValue placeholder="Default platform" />
-                    </SelectTrigger>
-                    <SelectContent>
-                      <SelectItem value="social">Social Media</SelectItem>
-                      <SelectItem value="email">Email</SelectItem>
-                      <SelectItem value="blog">Blog</SelectItem>
-                    </SelectContent>
-                  </Select>
-                  <Select>
-                    <SelectTrigger className="w-48">
-                      <SelectValue placeholder="Posting frequency" />
+                <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+                  <div className="space-y-2">
+                    <Label>Platform</Label>
+                    <Select value={bulkOptions.platform} onValueChange={(platform) => updateBulkOptions({ platform })}>
+                      <SelectTrigger>
+                        <SelectValue placeholder="Default platform" />
+                      </SelectTrigger>
+                      <SelectContent>
+                        <SelectItem value="social">Social Media</SelectItem>
+                        <SelectItem value="email">Email</SelectItem>
+                        <SelectItem value="blog">Blog</SelectItem>
+                      </SelectContent>
+                    </Select>
+                  </div>
+                  <div className="space-y-2">
+                    <Label>Frequency</Label>
+                    <Select
+                      value={bulkOptions.frequency}
+                      onValueChange={(frequency) => updateBulkOptions({ frequency: frequency as ScheduleFrequency })}
+                    >
+                      <SelectTrigger>
+                        <SelectValue placeholder="Posting frequency" />
+                      </SelectTrigger>
+                      <SelectContent>
+                        <SelectItem value="daily">Daily</SelectItem>
+                        <SelectItem value="business-days">Business Days</SelectItem>
+                        <SelectItem value="custom">Custom Schedule</SelectItem>
+                      </SelectContent>
+                    </Select>
+                  </div>
+                  <div className="space-y-2">
+                    <Label htmlFor="bulk-start-date">Start date</Label>
+                    <Input
+                      id="bulk-start-date"
+                      type="date"
+                      value={bulkOptions.startDate}
+                      onChange={(e) => updateBulkOptions({ startDate: e.target.value })}
+                    />
+                  </div>
+                  <div className="space-y-2">
+                    <Label htmlFor="bulk-time">Time of day</Label>
+                    <Input
+                      id="bulk-time"
+                      type="time"
+                      value={bulkOptions.timeOfDay}
+                      onChange={(e) => updateBulkOptions({ timeOfDay: e.target.value })}
+                    />
+                  </div>
+                </div>
+                {bulkOptions.frequency === "custom" && (
+                  <div className="space-y-2">
+                    <Label>Post on</Label>
+                    <ToggleGroup
+                      type="multiple"
+                      variant="outline"
+                      className="justify-start"
+                      value={bulkOptions.weekdays}
+                      onValueChange={(weekdays) => updateBulkOptions({ weekdays })}
+                    >
+                      {weekdayLabels.map((label, day) => (
+                        <ToggleGroupItem key={label} value={String(day)} size="sm">{label}</ToggleGroupItem>
+                      ))}
+                    </ToggleGroup>
+                  </div>
+                )}
+                <div className="space-y-2">
+                  <Label>Create as</Label>
+                  <Select
+                    value={bulkOptions.status}
+                    onValueChange={(status) => updateBulkOptions({ status: status as "draft" | "scheduled" })}
+                  >
+                    <SelectTrigger className="sm:w-64">
+                      <SelectValue />
                     </SelectTrigger>
                     <SelectContent>
-                      <SelectItem value="daily">Daily</SelectItem>
-                      <SelectItem value="business-days">Business Days</SelectItem>
-                      <SelectItem value="custom">Custom Schedule</SelectItem>
+                      <SelectItem value="draft">Drafts</SelectItem>
+                      <SelectItem value="scheduled" disabled={!canSchedule}>Scheduled (skips review)</SelectItem>
                     </SelectContent>
                   </Select>
                 </div>
-                <Button 
-                  onClick={handleBulkUpload}
-                  disabled={isUploading || !bulkContent.trim()}
-                  className="transition-all hover:scale-105 hover:shadow-lg"
-                >
-                  {isUploading ? "Processing..." : "Schedule Content"}
-                  <Calendar className="h-4 w-4 ml-2" />
-                </Button>
+
+                {schedulePreview && (
+                  <div className="max-h-72 overflow-auto rounded-md border border-border">
+                    <Table>
+                      <TableHeader>
+                        <TableRow>
+                          <TableHead>Title</TableHead>
+                          <TableHead>Date</TableHead>
+                        </TableRow>
+                      </TableHeader>
+                      <TableBody>
+                        {schedulePreview.items.map((item, index) => (
+                          <TableRow key={index}>
+                            <TableCell className="font-medium">{item.title}</TableCell>
+                            <TableCell>
+                              {new Date(item.scheduledDate).toLocaleString(undefined, {
+                                weekday: "short",
+                                month: "short",
+                                day: "numeric",
+                                hour: "numeric",
+                                minute: "2-digit",
+                              })}
+                            </TableCell>
+                          </TableRow>
+                        ))}
+                      </TableBody>
+                    </Table>
+                  </div>
+                )}
+
+                {schedulePreview ? (
+                  <div className="flex items-center gap-2">
+                    <Button
+                      onClick={() => scheduleMutation.mutate(false)}
+                      disabled={scheduleMutation.isPending}
+                      className="transition-all hover:scale-105 hover:shadow-lg"
+                    >
+                      Create {schedulePreview.items.length} posts
+                      <Calendar className="h-4 w-4 ml-2" />
+                    </Button>
+                    <Button variant="ghost" onClick={() => setSchedulePreview(null)}>
+                      Cancel
+                    </Button>
+                  </div>
+                ) : (
+                  <Button
+                    onClick={() => scheduleMutation.mutate(true)}
+                    disabled={scheduleMutation.isPending || !bulkContent.trim()}
+                    className="transition-all hover:scale-105 hover:shadow-lg"
+                  >
+                    {scheduleMutation.isPending ? "Processing..." : "Preview Schedule"}
+                    <Calendar className="h-4 w-4 ml-2" />
+                  </Button>
+                )}
               </CardContent>
             </Card>
 
@@ -237,30 +431,115 @@ export default function BulkScheduling() {
                   CSV Upload
                 </CardTitle>
                 <p className="text-sm text-muted-foreground">
-                  Upload a CSV file with your content schedule. Supports title, description, platform, and date columns.
+                  Upload a CSV file with your content schedule. Supports title, description, platform, date, and optional status columns.
                 </p>
               </CardHeader>
               <CardContent>
-                <div className="border-2 border-dashed border-border rounded-lg p-8 text-center hover:border-primary/50 transition-colors cursor-pointer">
+                <input
+                  ref={fileInputRef}
+                  type="file"
+                  accept=".csv,text/csv"
+                  className="hidden"
+                  onChange={(e) => {
+                    handleCsvFile(e.target.files?.[0]);
+                    e.target.value = "";
+                  }}
+                />
+                <div
+                  className={`border-2 border-dashed rounded-lg p-8 text-center hover:border-primary/50 transition-colors cursor-pointer ${isDragging ? 'border-primary bg-primary/5' : 'border-border'}`}
+                  onClick={() => fileInputRef.current?.click()}
+                  onDragOver={(e) => {
+                    e.preventDefault();
+                    setIsDragging(true);
+                  }}
+                  onDragLeave={() => setIsDragging(false)}
+                  onDrop={(e) => {
+                    e.preventDefault();
+                    setIsDragging(false);
+                    handleCsvFile(e.dataTransfer.files[0]);
+                  }}
+                >
                   <Upload className="h-12 w-12 text-muted-foreground mx-auto mb-4" />
                   <h3 className="text-lg font-medium text-foreground mb-2">
-                    Drop your CSV file here
+                    {csvFile ? csvFile.name : "Drop your CSV file here"}
                   </h3>
                   <p className="text-sm text-muted-foreground mb-4">
                     or click to browse files
                   </p>
-                  <Button variant="outline" size="sm">
-                    Choose File
+                  <Button variant="outline" size="sm" disabled={importMutation.isPending}>
+                    {importMutation.isPending ? "Checking..." : "Choose File"}
                   </Button>
                 </div>
 
-                {isUploading && (
-                  <div className="mt-6 space-y-2">
-                    <div className="flex items-center justify-between text-sm">
-                      <span>Processing content...</span>
-                      <span>{uploadProgress}%</span>
+                {importPreview && csvFile && (
+                  <div className="mt-6 space-y-4">
+                    <div className="flex items-center justify-between">
+                      <div className="flex items-center gap-2 text-sm">
+                        <Badge className="bg-green-100 text-green-800">{importPreview.valid} ready</Badge>
+                        {importPreview.invalid > 0 && (
+                          <Badge variant="destructive">{importPreview.invalid} with errors</Badge>
+                        )}
+                      </div>
+                      <div className="flex items-center gap-2">
+                        <Button
+                          variant="ghost"
+                          size="sm"
+                          onClick={() => {
+                            setCsvFile(null);
+                            setImportPreview(null);
+                          }}
+                        >
+                          Cancel
+                        </Button>
+                        <Button
+                          size="sm"
+                          disabled={importPreview.valid === 0 || importMutation.isPending}
+                          onClick={() => importMutation.mutate({ csv: csvFile.text, dryRun: false })}
+                        >
+                          Import {importPreview.valid} posts
+                        </Button>
+                      </div>
+                    </div>
+                    {importPreview.invalid > 0 && (
+                      <p className="text-sm text-muted-foreground">
+                        Rows with errors are skipped. Fix them in the file and upload it again to include them.
+                      </p>
+                    )}
+                    <div className="max-h-96 overflow-auto rounded-md border border-border">
+                      <Table>
+                        <TableHeader>
+                          <TableRow>
+                            <TableHead className="w-16">Row</TableHead>
+                            <TableHead>Title</TableHead>
+                            <TableHead>Platform</TableHead>
+                            <TableHead>Date</TableHead>
+                            <TableHead>Status</TableHead>
+                          </TableRow>
+                        </TableHeader>
+                        <TableBody>
+                          {importPreview.rows.map((row) => (
+                            <TableRow key={row.row} className={row.errors.length > 0 ? 'bg-destructive/5' : undefined}>
+                              <TableCell className="text-muted-foreground">{row.row}</TableCell>
+                              {row.data ? (
+                                <>
+                                  <TableCell className="font-medium">{row.data.title}</TableCell>
+                                  <TableCell className="capitalize">{row.data.platform}</TableCell>
+                                  <TableCell>{new Date(row.data.scheduledDate).toLocaleDateString()}</TableCell>
+                                  <TableCell>{statusLabels[row.data.status as ContentStatus]}</TableCell>
+                                </>
+                              ) : (
+                                <TableCell colSpan={4} className="text-destructive">
+                                  <div className="flex items-start gap-2">
+                                    <AlertCircle className="h-4 w-4 mt-0.5 flex-shrink-0" />
+                                    <span>{row.errors.join("; ")}</span>
+                                  </div>
+                                </TableCell>
+                              )}
+                            </TableRow>
+                          ))}
+                        </TableBody>
+                      </Table>
                     </div>
-                    <Progress value={uploadProgress} className="h-2" />
                   </div>
                 )}
               </CardContent>
@@ -0,0 +1,65 @@
+import { useState } from "react";
+import { useLocation, useParams } from "wouter";
+import { Users } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent } from "@/components/ui/card";
+import { AuthModal } from "@/components/AuthModal";
+import { useAuth } from "@/contexts/AuthContext";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest, setCurrentWorkspaceId } from "@/lib/queryClient";
+import { type WorkspaceMember } from "@shared/schema";
+
+export default function Invite() {
+  const { token } = useParams<{ token: string }>();
+  const [, setLocation] = useLocation();
+  const { user } = useAuth();
+  const { toast } = useToast();
+  const [isAuthModalOpen, setIsAuthModalOpen] = useState(false);
+  const [isAccepting, setIsAccepting] = useState(false);
+
+  const handleAccept = async () => {
+    setIsAccepting(true);
+    try {
+      const res = await apiRequest('POST', `/api/invitations/${token}/accept`);
+      const member: WorkspaceMember = await res.json();
+      setCurrentWorkspaceId(member.workspaceId);
+      toast({
+        title: "Welcome to the team!",
+        description: "You now have access to the shared calendar.",
+      });
+      setLocation('/app');
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: "This invitation is invalid or has expired",
+        variant: "destructive",
+      });
+    } finally {
+      setIsAccepting(false);
+    }
+  };
+
+  return (
+    <div className="min-h-screen w-full flex items-center justify-center bg-background">
+      <Card className="w-full max-w-md mx-4">
+        <CardContent className="pt-6 space-y-4 text-center">
+          <Users className="h-12 w-12 text-primary mx-auto" />
+          <h1 className="text-2xl font-bold text-foreground">You've been invited</h1>
+          <p className="text-muted-foreground">
+            Join the workspace to plan and review content with your team.
+          </p>
+          {user ? (
+            <Button onClick={handleAccept} disabled={isAccepting} className="w-full">
+              {isAccepting ? "Joining..." : "Accept Invitation"}
+            </Button>
+          ) : (
+            <Button onClick={() => setIsAuthModalOpen(true)} className="w-full">
+              Sign In to Accept
+            </Button>
+          )}
+        </CardContent>
+      </Card>
+      <AuthModal open={isAuthModalOpen} onOpenChange={setIsAuthModalOpen} />
+    </div>
+  );
+}
@@ -1,5 +1,6 @@
 import { useState, useEffect } from "react";
 import { Link } from "wouter";
+import { useMutation, useQueryClient } from "@tanstack/react-query";
 import { ArrowLeft, User, Bell, Palette, Shield, Trash2, Crown, LogOut } from "lucide-react";
 import { Button } from "@/components/ui/button";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
@@ -10,17 +11,26 @@ import { Textarea } from "@/components/ui/textarea";
 import { Badge } from "@/components/ui/badge";
 import { Separator } from "@/components/ui/separator";
 import { useToast } from "@/hooks/use-toast";
+import { useSubscription } from "@/hooks/use-subscription";
+import { apiRequest, errorMessage } from "@/lib/queryClient";
 import { ThemeToggle } from "@/components/ui/theme-toggle";
+import { WorkspaceTeam } from "@/components/WorkspaceTeam";
+import { PublishDestinations } from "@/components/PublishDestinations";
+import { CalendarFeed } from "@/components/CalendarFeed";
+import { MetricsIngestion } from "@/components/MetricsIngestion";
 
-interface SubscriptionInfo {
-  id: string;
-  status: string;
-  startDate: string;
-  planId: string;
-}
+const subscriptionStatusLabels: Record<string, string> = {
+  pending: "pending",
+  active: "active",
+  past_due: "payment failed",
+  suspended: "suspended",
+  cancelled: "cancelled",
+  expired: "expired",
+};
 
 export default function Settings() {
-  const [subscription, setSubscription] = useState<SubscriptionInfo | null>(null);
+  const { subscription } = useSubscription();
+  const queryClient = useQueryClient();
   const [notifications, setNotifications] = useState({
     email: true,
     push: false,
@@ -34,12 +44,6 @@ export default function Settings() {
   const { toast } = useToast();
 
   useEffect(() => {
-    // Load subscription info from localStorage
-    const savedSubscription = localStorage.getItem('premium_subscription');
-    if (savedSubscription) {
-      setSubscription(JSON.parse(savedSubscription));
-    }
-
     // Load user preferences from localStorage
     const savedNotifications = localStorage.getItem('user_notifications');
     if (savedNotifications) {
@@ -68,6 +72,20 @@ export default function Settings() {
     });
   };
 
+  const cancelMutation = useMutation({
+    mutationFn: (id: string) => apiRequest('POST', `/api/subscriptions/${id}/cancel`, {}),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['/api/me/entitlements'] });
+      toast({
+        title: "Subscription Cancelled",
+        description: "Your subscription has been cancelled and will end with the current billing period.",
+      });
+    },
+    onError: (error: Error) => {
+      toast({ title: "Error", description: errorMessage(error), variant: "destructive" });
+    },
+  });
+
   const handleCancelSubscription = () => {
     if (subscription) {
       const confirmed = window.confirm(
@@ -75,20 +93,7 @@ export default function Settings() {
       );
       
       if (confirmed) {
-        // Update subscription status to cancelled
-        const updatedSubscription = {
-          ...subscription,
-          status: 'cancelled',
-          endDate: new Date(Date.now() + 30 * 24 * 60 * 60 * 1000).toISOString() // End in 30 days
-        };
-        
-        setSubscription(updatedSubscription);
-        localStorage.setItem('premium_subscription', JSON.stringify(updatedSubscription));
-        
-        toast({
-          title: "Subscription Cancelled",
-          description: "Your subscription has been cancelled and will end at the end of this month.",
-        });
+        cancelMutation.mutate(subscription.id);
       }
     }
   };
@@ -121,7 +126,7 @@ export default function Settings() {
     }
   };
 
-  const formatDate = (dateString: string) => {
+  const formatDate = (dateString: string | Date) => {
     return new Date(dateString).toLocaleDateString('en-US', {
       year: 'numeric',
       month: 'long',
@@ -197,6 +202,18 @@ export default function Settings() {
             </CardContent>
           </Card>
 
+          {/* Workspace & Team */}
+          <WorkspaceTeam />
+
+          {/* Publishing Destinations */}
+          <PublishDestinations />
+
+          {/* Calendar Feed */}
+          <CalendarFeed />
+
+          {/* Metrics Ingestion */}
+          <MetricsIngestion />
+
           {/* Subscription Management */}
           <Card>
             <CardHeader>
@@ -213,14 +230,14 @@ export default function Settings() {
                       <h3 className="font-semibold">Premium Plan</h3>
                       <p className="text-sm text-muted-foreground">
                         Status: <Badge variant={subscription.status === 'active' ? 'default' : 'destructive'}>
-                          {subscription.status}
+                          {subscriptionStatusLabels[subscription.status] ?? subscription.status}
                         </Badge>
                       </p>
                     </div>
                     <div className="text-right">
                       <div className="text-2xl font-bold text-primary">$5.00/month</div>
                       <p className="text-sm text-muted-foreground">
-                        Started: {formatDate(subscription.startDate)}
+                        Started: {formatDate(subscription.startedAt)}
                       </p>
                     </div>
                   </div>
@@ -234,18 +251,44 @@ export default function Settings() {
                       <Button 
                         variant="destructive" 
                         onClick={handleCancelSubscription}
+                        disabled={cancelMutation.isPending}
                         className="mt-4"
                       >
-                        Cancel Subscription
+                        {cancelMutation.isPending ? "Cancelling..." : "Cancel Subscription"}
                       </Button>
                     </div>
                   )}
+
+                  {subscription.status === 'past_due' && (
+                    <div className="bg-yellow-50 dark:bg-yellow-900/20 border border-yellow-200 dark:border-yellow-800 rounded-lg p-4">
+                      <p className="text-sm text-yellow-800 dark:text-yellow-200">
+                        Your last payment failed and PayPal is retrying it. Please check your payment method
+                        to keep premium features.
+                      </p>
+                    </div>
+                  )}
+
+                  {(subscription.status === 'suspended' || subscription.status === 'expired') && (
+                    <div className="bg-red-50 dark:bg-red-900/20 border border-red-200 dark:border-red-800 rounded-lg p-4">
+                      <p className="text-sm text-red-800 dark:text-red-200">
+                        {subscription.status === 'suspended'
+                          ? "Your subscription was suspended after repeated failed payments."
+                          : "Your subscription has expired."}
+                      </p>
+                      <Link href="/subscription">
+                        <Button className="mt-2" size="sm">
+                          Renew Subscription
+                        </Button>
+                      </Link>
+                    </div>
+                  )}
                   
                   {subscription.status === 'cancelled' && (
                     <div className="bg-yellow-50 dark:bg-yellow-900/20 border border-yellow-200 dark:border-yellow-800 rounded-lg p-4">
                       <p className="text-sm text-yellow-800 dark:text-yellow-200">
-                        Your subscription has been cancelled and will end on {formatDate((subscription as any).endDate)}.
-                        You can still use premium features until then.
+                        {subscription.currentPeriodEnd && new Date(subscription.currentPeriodEnd) > new Date()
+                          ? `Your subscription has been cancelled and will end on ${formatDate(subscription.currentPeriodEnd)}. You can still use premium features until then.`
+                          : "Your subscription has been cancelled."}
                       </p>
                       <Link href="/subscription">
                         <Button className="mt-2" size="sm">
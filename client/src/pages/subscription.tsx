@@ -1,14 +1,39 @@
 import { useState, useEffect } from "react";
 import { Link } from "wouter";
+import { useQuery } from "@tanstack/react-query";
 import { Check, ArrowLeft, Crown, Shield, Zap } from "lucide-react";
 import { Button } from "@/components/ui/button";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Badge } from "@/components/ui/badge";
 import { useToast } from "@/hooks/use-toast";
+import { useAuth } from "@/contexts/AuthContext";
+import { apiRequest, errorMessage, queryClient } from "@/lib/queryClient";
+import type { PremiumPlan } from "@shared/schema";
+
+// The parts of the PayPal JS SDK this page uses
+interface PayPalApproveData {
+  subscriptionID?: string | null;
+}
+
+interface PayPalSubscriptionActions {
+  subscription: {
+    create(options: { plan_id: string; custom_id?: string }): Promise<string>;
+  };
+}
+
+interface PayPalButtonsOptions {
+  style?: Record<string, string>;
+  createSubscription(data: Record<string, unknown>, actions: PayPalSubscriptionActions): Promise<string>;
+  onApprove(data: PayPalApproveData): Promise<void>;
+  onError(error: unknown): void;
+  onCancel(data: Record<string, unknown>): void;
+}
 
 declare global {
   interface Window {
-    paypal: any;
+    paypal?: {
+      Buttons(options: PayPalButtonsOptions): { render(container: string): Promise<void> };
+    };
   }
 }
 
@@ -16,6 +41,12 @@ export default function Subscription() {
   const [isLoading, setIsLoading] = useState(true);
   const [subscriptionActive, setSubscriptionActive] = useState(false);
   const { toast } = useToast();
+  const { user } = useAuth();
+  // The server knows which PayPal plan it accepts
+  const { data: plan } = useQuery<PremiumPlan>({
+    queryKey: ['/api/subscriptions/plan'],
+  });
+  const buttonContainerId = plan ? `paypal-button-container-${plan.planId}` : undefined;
 
   useEffect(() => {
     // Load PayPal script
@@ -25,7 +56,6 @@ export default function Subscription() {
     
     script.onload = () => {
       setIsLoading(false);
-      initializePayPalButton();
     };
     
     script.onerror = () => {
@@ -48,7 +78,14 @@ export default function Subscription() {
     };
   }, []);
 
-  const initializePayPalButton = () => {
+  // The button goes in once both the script and the plan are loaded
+  useEffect(() => {
+    if (!isLoading && plan && buttonContainerId) {
+      initializePayPalButton(plan.planId, buttonContainerId);
+    }
+  }, [isLoading, plan, buttonContainerId]);
+
+  const initializePayPalButton = (planId: string, containerId: string) => {
     if (window.paypal) {
       window.paypal.Buttons({
         style: {
@@ -57,40 +94,48 @@ export default function Subscription() {
           layout: 'vertical',
           label: 'subscribe'
         },
-        createSubscription: function(data: any, actions: any) {
+        createSubscription: function(data, actions) {
           return actions.subscription.create({
-            plan_id: 'P-8V897502VC4648024NDAUXGA'
+            plan_id: planId,
+            // Lets the server check the subscription is this user's
+            custom_id: user?.uid
           });
         },
-        onApprove: function(data: any, actions: any) {
-          setSubscriptionActive(true);
-          // Store subscription info in localStorage for demo purposes
-          localStorage.setItem('premium_subscription', JSON.stringify({
-            id: data.subscriptionID,
-            status: 'active',
-            startDate: new Date().toISOString(),
-            planId: 'P-8V897502VC4648024NDAUXGA'
-          }));
-          
-          toast({
-            title: "Success!",
-            description: `Subscription activated! ID: ${data.subscriptionID}`,
-          });
+        onApprove: async function(data) {
+          // The server confirms the subscription with PayPal before unlocking anything
+          try {
+            if (!data.subscriptionID) {
+              throw new Error("PayPal did not return a subscription");
+            }
+            await apiRequest('POST', '/api/subscriptions', { subscriptionId: data.subscriptionID });
+            queryClient.invalidateQueries({ queryKey: ['/api/me/entitlements'] });
+            setSubscriptionActive(true);
+            toast({
+              title: "Success!",
+              description: `Subscription activated! ID: ${data.subscriptionID}`,
+            });
+          } catch (error) {
+            toast({
+              title: "Error",
+              description: errorMessage(error as Error),
+              variant: "destructive",
+            });
+          }
         },
-        onError: function(err: any) {
+        onError: function() {
           toast({
             title: "Error",
             description: "There was an error processing your subscription. Please try again.",
             variant: "destructive",
           });
         },
-        onCancel: function(data: any) {
+        onCancel: function() {
           toast({
             title: "Cancelled",
             description: "Subscription was cancelled.",
           });
         }
-      }).render('#paypal-button-container-P-8V897502VC4648024NDAUXGA');
+      }).render(`#${containerId}`);
     }
   };
 
@@ -198,12 +243,12 @@ export default function Subscription() {
                 </p>
               </CardHeader>
               <CardContent className="space-y-6">
-                {isLoading ? (
+                {isLoading || !buttonContainerId ? (
                   <div className="flex items-center justify-center p-8">
                     <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-primary" />
                   </div>
                 ) : (
-                  <div id="paypal-button-container-P-8V897502VC4648024NDAUXGA" className="min-h-[50px]"></div>
+                  <div id={buttonContainerId} className="min-h-[50px]"></div>
                 )}
                 
                 {subscriptionActive && (
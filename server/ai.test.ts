@@ -0,0 +1,471 @@
+import express from "express";
+import http from "http";
+import type { AddressInfo } from "net";
+import { afterAll, beforeAll, describe, expect, it, vi } from "vitest";
+import type { AiChatMessage, AssistantEvent, ChatMessage, ChatThread, ChatThreadWithMessages, ContentItem, ContentSuggestion } from "@shared/schema";
+import {
+  AiProviderError,
+  OfflineAiProvider,
+  OpenAiCompatibleProvider,
+  type AiProvider,
+  type AssistantContext,
+  type ProviderEvent,
+} from "./ai";
+import { getUsageMeter } from "./quotas";
+import { registerRoutes } from "./routes";
+import { storage, type MemStorage } from "./storage";
+import { startTestApp, type TestApp } from "./test-app";
+
+const now = new Date("2030-01-07T08:00:00Z"); // a Monday
+
+function context(items: Partial<ContentItem>[] = []): AssistantContext {
+  const upcomingItems = items.map((item, index) => ({
+    id: `item-${index}`,
+    title: "Post",
+    platform: "social",
+    status: "draft",
+    tags: [],
+    recurrence: null,
+    ...item,
+  }) as ContentItem);
+  return { recentItems: upcomingItems, upcomingItems, now };
+}
+
+async function collect(events: AsyncIterable<ProviderEvent>): Promise<ProviderEvent[]> {
+  const collected: ProviderEvent[] = [];
+  for await (const event of events) collected.push(event);
+  return collected;
+}
+
+const ask = (content: string): AiChatMessage[] => [{ role: "user", content }];
+
+function listen(server: http.Server): Promise<string> {
+  return new Promise((resolve) => {
+    server.listen(0, "127.0.0.1", () => resolve(`http://127.0.0.1:${(server.address() as AddressInfo).port}`));
+  });
+}
+
+describe("OfflineAiProvider", () => {
+  const provider = new OfflineAiProvider();
+
+  it("proposes moving a day's posts, keeping their times", async () => {
+    const events = await collect(provider.streamChat(ask("Move Tuesday's posts to Thursday"), context([
+      { scheduledDate: new Date("2030-01-08T15:30:00Z") },
+      { scheduledDate: new Date("2030-01-09T15:30:00Z") },
+    ])));
+
+    expect(events.at(-1)).toEqual({
+      type: "proposal",
+      proposal: {
+        summary: "Move 1 item from Tuesday to Thursday",
+        changes: [{ type: "move", contentId: "item-0", scheduledDate: "2030-01-10T15:30:00.000Z" }],
+      },
+    });
+  });
+
+  it("fills only the empty days of next week", async () => {
+    const events = await collect(provider.streamChat(ask("Fill next week"), context([
+      { scheduledDate: new Date("2030-01-15T10:00:00Z") },
+    ])));
+    const proposal = events.find((event) => event.type === "proposal") as { proposal: { changes: { scheduledDate: string }[] } };
+
+    expect(proposal.proposal.changes.map((change) => change.scheduledDate.slice(0, 10))).toEqual([
+      "2030-01-14", "2030-01-16", "2030-01-17", "2030-01-18", "2030-01-19", "2030-01-20",
+    ]);
+  });
+
+  it("streams plain answers word by word", async () => {
+    const events = await collect(provider.streamChat(ask("Any gaps in my schedule?"), context()));
+    expect(events.every((event) => event.type === "text")).toBe(true);
+    expect(events.map((event) => (event as { text: string }).text).join("")).toMatch(/^Nothing is planned for the next 7 days yet\./);
+  });
+
+  it("suggests topics that aren't used yet, on the least used platforms", async () => {
+    const suggestions = await provider.suggestContent(context([{ title: "Customer success story", platform: "social" }]), 2);
+    expect(suggestions.map((suggestion: ContentSuggestion) => [suggestion.title, suggestion.platform])).toEqual([
+      ["Behind the scenes: how we work", "email"],
+      ["Quick tips for getting started", "blog"],
+    ]);
+  });
+});
+
+describe("OpenAiCompatibleProvider", () => {
+  let body = "";
+  let hang = false;
+  const pending: http.ServerResponse[] = [];
+  const server = http.createServer((req, res) => {
+    req.resume();
+    if (hang) {
+      pending.push(res);
+      return;
+    }
+    res.writeHead(200, { "Content-Type": "text/event-stream" }).end(body);
+  });
+  let baseUrl: string;
+
+  beforeAll(async () => {
+    baseUrl = await listen(server);
+  });
+
+  afterAll(() => {
+    pending.forEach((res) => res.end());
+    server.close();
+  });
+
+  const sse = (...chunks: object[]) => [...chunks.map((chunk) => `data: ${JSON.stringify(chunk)}\n\n`), "data: [DONE]\n\n"].join("");
+
+  it("streams text and assembles tool calls", async () => {
+    body = sse(
+      { choices: [{ delta: { content: "Sure" } }] },
+      { choices: [{ delta: { tool_calls: [{ index: 0, function: { name: "propose_changes", arguments: "{\"summary\":" } }] } }] },
+      { choices: [{ delta: { tool_calls: [{ index: 0, function: { arguments: "\"Done\",\"changes\":[]}" } }] } }] },
+    );
+    const events = await collect(new OpenAiCompatibleProvider("key", "model", baseUrl).streamChat(ask("Hi"), context()));
+    expect(events).toEqual([
+      { type: "text", text: "Sure" },
+      { type: "proposal", proposal: { summary: "Done", changes: [] } },
+    ]);
+  });
+
+  it("fails with a provider error on an unreadable chunk", async () => {
+    body = `data: {"choices":[{"delta":{"content":"Hi"}}]}\n\ndata: {not json\n\n`;
+    const events = new OpenAiCompatibleProvider("key", "model", baseUrl).streamChat(ask("Hi"), context());
+    await expect(collect(events)).rejects.toThrow(new AiProviderError("The AI provider sent an unreadable reply"));
+  });
+
+  it("gives up on a provider that doesn't answer", async () => {
+    hang = true;
+    const events = new OpenAiCompatibleProvider("key", "model", baseUrl, 50).streamChat(ask("Hi"), context());
+    await expect(collect(events)).rejects.toThrow(new AiProviderError("The AI provider took too long to answer"));
+    hang = false;
+  });
+});
+
+describe("POST /api/ai/threads/:id/messages", () => {
+  // Says a word, then fails
+  const failing: AiProvider = {
+    async *streamChat() {
+      yield { type: "text", text: "Hello" };
+      throw new AiProviderError("The AI provider sent an unreadable reply");
+    },
+    async suggestContent() {
+      throw new AiProviderError("The AI provider responded with 500");
+    },
+  };
+  let provider: AiProvider = new OfflineAiProvider();
+  let server: http.Server;
+  let baseUrl: string;
+
+  beforeAll(async () => {
+    const app = express();
+    app.use(express.json());
+    const verifier = { verifyIdToken: async (token: string) => ({ uid: token }) };
+    const delegate: AiProvider = {
+      streamChat: (messages, context) => provider.streamChat(messages, context),
+      suggestContent: (context, count) => provider.suggestContent(context, count),
+    };
+    const unused = async (): Promise<never> => {
+      throw new Error("Not used");
+    };
+    server = await registerRoutes(app, verifier, { getSubscription: unused, cancelSubscription: unused }, { verifyWebhook: unused }, delegate);
+    baseUrl = await listen(server);
+    vi.spyOn(console, "warn").mockImplementation(() => {});
+  });
+
+  afterAll(() => {
+    server.close();
+  });
+
+  async function send(user: string, content: string): Promise<{ status: number; events: AssistantEvent[] }> {
+    const headers = { Authorization: `Bearer ${user}`, "Content-Type": "application/json" };
+    const thread = await fetch(`${baseUrl}/api/ai/threads`, { method: "POST", headers, body: "{}" }).then((res) => res.json());
+    const res = await fetch(`${baseUrl}/api/ai/threads/${thread.id}/messages`, { method: "POST", headers, body: JSON.stringify({ content }) });
+    const text = await res.text();
+    return {
+      status: res.status,
+      events: res.headers.get("content-type")?.includes("ndjson") ? text.trim().split("\n").map((line) => JSON.parse(line)) : [],
+    };
+  }
+
+  const aiRequestsToday = async (user: string) => (await getUsageMeter(user)).usage.aiRequestsPerDay;
+
+  it("counts a completed reply against the allowance", async () => {
+    provider = new OfflineAiProvider();
+    const { status, events } = await send("chatter", "Any ideas?");
+
+    expect(status).toBe(200);
+    expect(events.at(-1)?.type).toBe("saved");
+    expect(await aiRequestsToday("chatter")).toBe(1);
+  });
+
+  it("ends a failed reply with an error line and doesn't count it", async () => {
+    provider = failing;
+    const { status, events } = await send("unlucky", "Any ideas?");
+
+    expect(status).toBe(200);
+    expect(events).toEqual([
+      { type: "text", text: "Hello" },
+      { type: "error", message: "The AI provider sent an unreadable reply" },
+    ]);
+    expect(await aiRequestsToday("unlucky")).toBe(0);
+    const threads = await storage.getChatThreads((await storage.getWorkspacesForUser("unlucky"))[0].id, "unlucky");
+    expect(await storage.getChatMessages(threads[0].id)).toEqual([]);
+  });
+
+  it("doesn't count suggestions that failed", async () => {
+    await storage.saveSubscription({
+      id: "I-AI",
+      userId: "subscriber",
+      planId: "P-1",
+      status: "active",
+      startedAt: now,
+      currentPeriodEnd: null,
+    });
+    provider = failing;
+    const res = await fetch(`${baseUrl}/api/ai/suggestions`, {
+      method: "POST",
+      headers: { Authorization: "Bearer subscriber", "Content-Type": "application/json" },
+      body: JSON.stringify({ count: 3 }),
+    });
+
+    expect(res.status).toBe(502);
+    expect(await aiRequestsToday("subscriber")).toBe(0);
+  });
+});
+
+async function readEvents(res: Response): Promise<AssistantEvent[]> {
+  const text = await res.text();
+  return text.trim().split("\n").map((line) => JSON.parse(line));
+}
+
+describe("chat thread routes", () => {
+  let app: TestApp;
+
+  beforeAll(async () => {
+    app = await startTestApp();
+  });
+
+  afterAll(() => {
+    app.close();
+  });
+
+  async function createThread(user: string, body: object = {}): Promise<ChatThread> {
+    const res = await app.request(user, "POST", "/api/ai/threads", body);
+    expect(res.status).toBe(201);
+    return res.json();
+  }
+
+  async function getThread(user: string, id: string): Promise<ChatThreadWithMessages> {
+    const res = await app.request(user, "GET", `/api/ai/threads/${id}`);
+    expect(res.status).toBe(200);
+    return res.json();
+  }
+
+  it("creates, lists, renames and deletes a user's threads", async () => {
+    const untitled = await createThread("threads");
+    const named = await createThread("threads", { title: "Launch plan" });
+    expect(untitled.title).toBeNull();
+
+    const renamed = await app.request("threads", "PATCH", `/api/ai/threads/${untitled.id}`, { title: "  Q1 ideas " });
+    expect(await renamed.json()).toMatchObject({ id: untitled.id, title: "Q1 ideas" });
+    expect((await app.request("threads", "PATCH", `/api/ai/threads/${untitled.id}`, { title: " " })).status).toBe(400);
+
+    // Most recently changed first
+    const listed: ChatThread[] = await (await app.request("threads", "GET", "/api/ai/threads")).json();
+    expect(listed.map((thread) => [thread.id, thread.title])).toEqual([[untitled.id, "Q1 ideas"], [named.id, "Launch plan"]]);
+
+    expect((await app.request("threads", "DELETE", `/api/ai/threads/${named.id}`)).status).toBe(204);
+    expect((await app.request("threads", "GET", `/api/ai/threads/${named.id}`)).status).toBe(404);
+    expect((await app.request("threads", "DELETE", `/api/ai/threads/${named.id}`)).status).toBe(404);
+  });
+
+  it("keeps threads private to their user", async () => {
+    const thread = await createThread("private");
+    const workspaceId = thread.workspaceId;
+    // A teammate in the same workspace
+    const invitation = await storage.createInvitation(workspaceId, "private", { role: "editor" });
+    await storage.acceptInvitation(invitation.token, "teammate", null);
+
+    expect(await (await app.request("teammate", "GET", "/api/ai/threads", undefined, workspaceId)).json()).toEqual([]);
+    expect((await app.request("teammate", "GET", `/api/ai/threads/${thread.id}`, undefined, workspaceId)).status).toBe(404);
+    expect((await app.request("teammate", "PATCH", `/api/ai/threads/${thread.id}`, { title: "Mine" }, workspaceId)).status).toBe(404);
+    expect((await app.request("teammate", "DELETE", `/api/ai/threads/${thread.id}`, undefined, workspaceId)).status).toBe(404);
+    expect((await app.request("teammate", "POST", `/api/ai/threads/${thread.id}/messages`, { content: "Hi" }, workspaceId)).status).toBe(404);
+  });
+
+  it("stores each exchange and names the thread after its first message", async () => {
+    const thread = await createThread("history");
+    await readEvents(await app.request("history", "POST", `/api/ai/threads/${thread.id}/messages`, { content: "Any gaps in my schedule?\nThanks" }));
+    await readEvents(await app.request("history", "POST", `/api/ai/threads/${thread.id}/messages`, { content: "And next month?" }));
+
+    const stored = await getThread("history", thread.id);
+    expect(stored.title).toBe("Any gaps in my schedule?");
+    expect(stored.messages.map((message) => [message.role, message.role === "user" ? message.content : "…"])).toEqual([
+      ["user", "Any gaps in my schedule?\nThanks"],
+      ["assistant", "…"],
+      ["user", "And next month?"],
+      ["assistant", "…"],
+    ]);
+  });
+
+  it("links content to a message and dismisses its proposal once", async () => {
+    const thread = await createThread("linker");
+    const events = await readEvents(await app.request("linker", "POST", `/api/ai/threads/${thread.id}/messages`, { content: "Fill next week" }));
+    const saved = events.at(-1) as Extract<AssistantEvent, { type: "saved" }>;
+    const reply = saved.messages[1];
+    expect(reply).toMatchObject({ role: "assistant", proposalStatus: "pending" });
+
+    const item = await storage.createContentItem(thread.workspaceId, "linker", {
+      title: "From the assistant",
+      platform: "social",
+      scheduledDate: new Date("2030-01-15T09:00:00Z"),
+      status: "draft",
+    } as Parameters<MemStorage["createContentItem"]>[2]);
+    const linkPath = `/api/ai/threads/${thread.id}/messages/${reply.id}/links`;
+    expect((await app.request("linker", "POST", linkPath, { contentIds: ["missing"] })).status).toBe(400);
+    expect((await app.request("linker", "POST", `/api/ai/threads/${thread.id}/messages/missing/links`, { contentIds: [item.id] })).status).toBe(404);
+    // Linking twice records the item once
+    await app.request("linker", "POST", linkPath, { contentIds: [item.id] });
+    const linked: ChatMessage = await (await app.request("linker", "POST", linkPath, { contentIds: [item.id] })).json();
+    expect(linked.contentIds).toEqual([item.id]);
+    expect((await getThread("linker", thread.id)).messages[1].contentIds).toEqual([item.id]);
+
+    const messagePath = `/api/ai/threads/${thread.id}/messages/${reply.id}`;
+    const dismissed = await app.request("linker", "PATCH", messagePath, { proposalStatus: "dismissed" });
+    expect(await dismissed.json()).toMatchObject({ proposalStatus: "dismissed" });
+    expect((await app.request("linker", "PATCH", messagePath, { proposalStatus: "dismissed" })).status).toBe(409);
+  });
+});
+
+describe("POST /api/ai/chat", () => {
+  let app: TestApp;
+
+  beforeAll(async () => {
+    app = await startTestApp();
+  });
+
+  afterAll(() => {
+    app.close();
+  });
+
+  it("saves a conversation sent whole as a new thread", async () => {
+    const messages = [
+      { role: "user", content: "Any gaps in my schedule?" },
+      { role: "assistant", content: "Nothing is planned yet." },
+      { role: "user", content: "What should I post first?" },
+    ];
+    const res = await app.request("legacy", "POST", "/api/ai/chat", { messages });
+    expect(res.status).toBe(200);
+    const saved = (await readEvents(res)).at(-1) as Extract<AssistantEvent, { type: "saved" }>;
+    expect(saved.type).toBe("saved");
+    expect(saved.thread.title).toBe("Any gaps in my schedule?");
+    expect(saved.messages.map((message) => message.role)).toEqual(["user", "assistant"]);
+
+    const stored = await storage.getChatMessages(saved.thread.id);
+    expect(stored.map((message) => message.content).slice(0, 3)).toEqual(messages.map((message) => message.content));
+    expect(stored).toHaveLength(4);
+  });
+
+  it("answers in an existing thread", async () => {
+    const thread: ChatThread = await (await app.request("legacy-thread", "POST", "/api/ai/threads", { title: "Ideas" })).json();
+    const res = await app.request("legacy-thread", "POST", "/api/ai/chat", {
+      threadId: thread.id,
+      messages: [{ role: "user", content: "Any gaps in my schedule?" }],
+    });
+    const saved = (await readEvents(res)).at(-1) as Extract<AssistantEvent, { type: "saved" }>;
+    expect(saved.thread).toMatchObject({ id: thread.id, title: "Ideas" });
+    expect(await storage.getChatMessages(thread.id)).toHaveLength(2);
+
+    const other = await app.request("legacy-other", "POST", "/api/ai/chat", {
+      threadId: thread.id,
+      messages: [{ role: "user", content: "Hi" }],
+    });
+    expect(other.status).toBe(404);
+  });
+
+  it("needs the conversation to end with the user", async () => {
+    const res = await app.request("legacy-invalid", "POST", "/api/ai/chat", {
+      messages: [{ role: "user", content: "Hi" }, { role: "assistant", content: "Hello" }],
+    });
+    expect(res.status).toBe(400);
+    expect((await app.request("legacy-invalid", "POST", "/api/ai/chat", { messages: [] })).status).toBe(400);
+  });
+});
+
+describe("POST /api/content/changes", () => {
+  let app: TestApp;
+
+  beforeAll(async () => {
+    app = await startTestApp();
+  });
+
+  afterAll(() => {
+    app.close();
+  });
+
+  // The statuses an item goes through to get to one
+  const steps = { draft: [], approved: ["in_review", "approved"], scheduled: ["in_review", "approved", "scheduled"] };
+
+  async function create(user: string, status: keyof typeof steps) {
+    const res = await app.request(user, "POST", "/api/content", {
+      title: "Launch",
+      platform: "social",
+      scheduledDate: "2030-01-08T09:00:00Z",
+      status: "draft",
+    });
+    let item: ContentItem = await res.json();
+    for (const next of steps[status]) {
+      item = await (await app.request(user, "POST", `/api/content/${item.id}/status`, { status: next })).json();
+    }
+    expect(item.status).toBe(status);
+    return item;
+  }
+
+  const move = (user: string, item: ContentItem, scheduledDate = "2030-01-10T09:00:00Z") =>
+    app.request(user, "POST", "/api/content/changes", { changes: [{ type: "move", contentId: item.id, scheduledDate }] });
+
+  it.each(["approved", "scheduled"] as const)("sends %s content it moves back to review", async (status) => {
+    const item = await create(`changes-${status}`, status);
+    const res = await move(`changes-${status}`, item);
+    expect(res.status).toBe(201);
+    const { moved }: { moved: ContentItem[] } = await res.json();
+    expect(moved).toEqual([expect.objectContaining({
+      scheduledDate: "2030-01-10T09:00:00.000Z",
+      status: "in_review",
+      approvedBy: null,
+      approvedAt: null,
+    })]);
+  });
+
+  it("leaves the status of drafts and of signed-off content kept at its time", async () => {
+    const draft = await create("changes-unchanged", "draft");
+    const approved = await create("changes-unchanged", "approved");
+    const res = await app.request("changes-unchanged", "POST", "/api/content/changes", {
+      changes: [
+        { type: "move", contentId: draft.id, scheduledDate: "2030-01-10T09:00:00Z" },
+        { type: "move", contentId: approved.id, scheduledDate: approved.scheduledDate },
+      ],
+    });
+    const { moved }: { moved: ContentItem[] } = await res.json();
+    expect(moved.map((item) => item.status)).toEqual(["draft", "approved"]);
+  });
+
+  it("turns the set away when a moved item changed status in the meantime", async () => {
+    const item = await create("changes-raced", "approved");
+    const getContentItem = storage.getContentItem.bind(storage);
+    // Someone schedules it between the route reading the item and applying
+    const spy = vi.spyOn(storage, "getContentItem").mockImplementationOnce(async (workspaceId, id) => {
+      const existing = await getContentItem(workspaceId, id);
+      await storage.updateContentStatus(workspaceId, id, "approved", { status: "scheduled" });
+      return existing;
+    });
+    try {
+      const res = await move("changes-raced", item);
+      expect(res.status).toBe(409);
+    } finally {
+      spy.mockRestore();
+    }
+    const [current] = (await storage.queryContentItems(item.workspaceId, {})).items;
+    expect(current).toMatchObject({ status: "scheduled", scheduledDate: new Date(item.scheduledDate) });
+  });
+});
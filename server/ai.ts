@@ -0,0 +1,451 @@
+import { z } from "zod";
+import {
+  contentPlatforms,
+  contentSuggestionSchema,
+  type AiChatMessage,
+  type ContentItem,
+  type ContentSuggestion,
+} from "@shared/schema";
+
+// What the assistant knows when it answers
+export interface AssistantContext {
+  // The workspace's content, most recently edited first
+  recentItems: ContentItem[];
+  // Stored items scheduled in the next two weeks, soonest first
+  upcomingItems: ContentItem[];
+  now: Date;
+}
+
+// Part of a reply. Proposals come straight from the model, so the caller
+// validates them.
+export type ProviderEvent =
+  | { type: "text"; text: string }
+  | { type: "proposal"; proposal: unknown };
+
+// The model behind the assistant. Production talks to an OpenAI-compatible
+// API; tests and setups without an API key use the offline provider.
+export interface AiProvider {
+  // The reply, in pieces as they are generated
+  streamChat(messages: AiChatMessage[], context: AssistantContext): AsyncIterable<ProviderEvent>;
+  suggestContent(context: AssistantContext, count: number): Promise<ContentSuggestion[]>;
+}
+
+export class AiProviderError extends Error {}
+
+function describeItem(item: ContentItem): string {
+  const fields = [item.id, item.scheduledDate.toISOString().slice(0, 16).replace("T", " "), item.platform, item.status, JSON.stringify(item.title)];
+  if (item.tags.length > 0) fields.push(`tags: ${item.tags.join(", ")}`);
+  if (item.recurrence) fields.push(`repeats: ${item.recurrence}`);
+  return `- ${fields.join(" | ")}`;
+}
+
+export function systemPrompt(context: AssistantContext): string {
+  const columns = "(id | scheduled UTC | platform | status | title)";
+  return [
+    "You are the assistant of a content planning app. You help plan social media posts, emails and blog articles: ideas, timing and a steady schedule.",
+    "Keep answers short and concrete, and base them on the user's content below.",
+    "When the user asks you to create, move or fill in content, call propose_changes. Nothing changes until the user applies the proposal. "
+      + "New items start as drafts, and only items listed below can be moved, by their id.",
+    `Today is ${context.now.toISOString().slice(0, 10)} (${context.now.toLocaleDateString("en-US", { weekday: "long", timeZone: "UTC" })}).`,
+    context.recentItems.length > 0
+      ? `The user's most recently edited content ${columns}:\n${context.recentItems.map(describeItem).join("\n")}`
+      : "The user has no content yet.",
+    context.upcomingItems.length > 0
+      ? `Scheduled for the next two weeks ${columns}:\n${context.upcomingItems.map(describeItem).join("\n")}`
+      : "Nothing is scheduled for the next two weeks.",
+  ].join("\n\n");
+}
+
+// Offered to OpenAI-compatible models; mirrors changeProposalSchema
+const proposeChangesTool = {
+  type: "function",
+  function: {
+    name: "propose_changes",
+    description: "Propose changes to the user's content calendar for them to review and apply.",
+    parameters: {
+      type: "object",
+      properties: {
+        summary: { type: "string", description: "One sentence on what the changes do" },
+        changes: {
+          type: "array",
+          items: {
+            type: "object",
+            properties: {
+              type: { type: "string", enum: ["create", "move"] },
+              contentId: { type: "string", description: "For move: the id of the item to move" },
+              title: { type: "string", description: "For create" },
+              description: { type: "string", description: "For create" },
+              platform: { type: "string", enum: [...contentPlatforms], description: "For create" },
+              scheduledDate: { type: "string", description: "ISO 8601 date and time in UTC" },
+            },
+            required: ["type", "scheduledDate"],
+          },
+        },
+      },
+      required: ["summary", "changes"],
+    },
+  },
+};
+
+export function suggestionsPrompt(count: number): string {
+  return `Suggest ${count} new content ideas that fit the user's content without repeating it. `
+    + `Answer with JSON only: {"suggestions":[{"title":"...","platform":"${contentPlatforms.join('"|"')}","reasoning":"..."}]}`;
+}
+
+const suggestionsResponseSchema = z.object({ suggestions: z.array(z.unknown()) });
+
+// Malformed suggestions are dropped; only an answer with none usable fails
+export function parseSuggestions(text: string, count: number): ContentSuggestion[] {
+  let suggestions: ContentSuggestion[] = [];
+  try {
+    suggestions = suggestionsResponseSchema.parse(JSON.parse(text)).suggestions.flatMap((suggestion) => {
+      const parsed = contentSuggestionSchema.safeParse(suggestion);
+      return parsed.success ? [parsed.data] : [];
+    });
+  } catch {
+    // Not JSON in the expected shape
+  }
+  if (suggestions.length === 0) {
+    throw new AiProviderError("The AI provider returned unusable suggestions");
+  }
+  return suggestions.slice(0, count);
+}
+
+interface StreamDelta {
+  content?: string;
+  tool_calls?: { index: number; function?: { name?: string; arguments?: string } }[];
+}
+
+// Lines of a response body as they arrive
+async function* readLines(body: ReadableStream<Uint8Array>): AsyncIterable<string> {
+  const reader = body.getReader();
+  const decoder = new TextDecoder();
+  let buffer = "";
+  for (;;) {
+    const { done, value } = await reader.read();
+    if (done) break;
+    buffer += decoder.decode(value, { stream: true });
+    const lines = buffer.split("\n");
+    buffer = lines.pop()!;
+    yield* lines;
+  }
+  if (buffer) yield buffer;
+}
+
+// Covers the whole reply, streamed ones included
+const DEFAULT_TIMEOUT_MS = 60_000;
+
+function providerError(error: unknown): AiProviderError {
+  if (error instanceof AiProviderError) return error;
+  if (error instanceof Error && error.name === "TimeoutError") {
+    return new AiProviderError("The AI provider took too long to answer");
+  }
+  return new AiProviderError("The AI provider could not be reached");
+}
+
+export class OpenAiCompatibleProvider implements AiProvider {
+  constructor(
+    private apiKey: string,
+    private model: string,
+    private baseUrl: string,
+    private timeoutMs = DEFAULT_TIMEOUT_MS,
+  ) {}
+
+  private async complete(messages: { role: string; content: string }[], options: { stream: boolean; json?: boolean; tools?: object[] }): Promise<Response> {
+    let res: Response;
+    try {
+      res = await fetch(`${this.baseUrl}/chat/completions`, {
+        method: "POST",
+        headers: {
+          Authorization: `Bearer ${this.apiKey}`,
+          "Content-Type": "application/json",
+        },
+        body: JSON.stringify({
+          model: this.model,
+          messages,
+          stream: options.stream,
+          ...(options.json ? { response_format: { type: "json_object" } } : {}),
+          ...(options.tools ? { tools: options.tools } : {}),
+        }),
+        signal: AbortSignal.timeout(this.timeoutMs),
+      });
+    } catch (error) {
+      throw providerError(error);
+    }
+    if (!res.ok || !res.body) {
+      throw new AiProviderError(`The AI provider responded with ${res.status}`);
+    }
+    return res;
+  }
+
+  // The stream is server-sent events: one JSON chunk per data line, then
+  // "[DONE]". Tool call arguments arrive in fragments and are only complete
+  // at the end.
+  async *streamChat(messages: AiChatMessage[], context: AssistantContext): AsyncIterable<ProviderEvent> {
+    const res = await this.complete(
+      [{ role: "system", content: systemPrompt(context) }, ...messages],
+      { stream: true, tools: [proposeChangesTool] },
+    );
+    const toolCalls: { name: string; arguments: string }[] = [];
+    const lines = readLines(res.body!)[Symbol.asyncIterator]();
+    for (;;) {
+      let line: IteratorResult<string>;
+      try {
+        line = await lines.next();
+      } catch (error) {
+        throw providerError(error);
+      }
+      if (line.done) break;
+      if (!line.value.startsWith("data:")) continue;
+      const data = line.value.slice("data:".length).trim();
+      if (data === "[DONE]") break;
+      let chunk: { choices?: { delta?: StreamDelta }[] };
+      try {
+        chunk = JSON.parse(data);
+      } catch {
+        throw new AiProviderError("The AI provider sent an unreadable reply");
+      }
+      const delta = chunk.choices?.[0]?.delta;
+      if (delta?.content) yield { type: "text", text: delta.content };
+      for (const call of delta?.tool_calls ?? []) {
+        const entry = toolCalls[call.index] ??= { name: "", arguments: "" };
+        entry.name += call.function?.name ?? "";
+        entry.arguments += call.function?.arguments ?? "";
+      }
+    }
+
+    for (const call of toolCalls) {
+      if (call?.name !== proposeChangesTool.function.name) continue;
+      let proposal: unknown;
+      try {
+        proposal = JSON.parse(call.arguments);
+      } catch {
+        // Left undefined, which fails validation like any bad proposal
+      }
+      yield { type: "proposal", proposal };
+    }
+  }
+
+  async suggestContent(context: AssistantContext, count: number): Promise<ContentSuggestion[]> {
+    const res = await this.complete([
+      { role: "system", content: systemPrompt(context) },
+      { role: "user", content: suggestionsPrompt(count) },
+    ], { stream: false, json: true });
+    let body: { choices?: { message?: { content?: string } }[] };
+    try {
+      body = await res.json();
+    } catch (error) {
+      throw error instanceof SyntaxError ? new AiProviderError("The AI provider sent an unreadable reply") : providerError(error);
+    }
+    const { choices } = body;
+    return parseSuggestions(choices?.[0]?.message?.content ?? "", count);
+  }
+}
+
+const offlineTopics = [
+  "Behind the scenes: how we work",
+  "Customer success story",
+  "Quick tips for getting started",
+  "Answers to our most asked questions",
+  "Monthly roundup of highlights",
+  "Industry trends worth watching",
+  "Product feature deep dive",
+  "Community spotlight",
+  "Lessons learned this quarter",
+  "Step-by-step tutorial",
+];
+
+// Platforms from least to most used in the recent content
+function platformsByUse(items: ContentItem[]): { platform: ContentSuggestion["platform"]; uses: number }[] {
+  return contentPlatforms
+    .map((platform) => ({ platform, uses: items.filter((item) => item.platform === platform).length }))
+    .sort((a, b) => a.uses - b.uses);
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+function offlineSuggestions(context: AssistantContext, count: number): ContentSuggestion[] {
+  const used = new Set(context.recentItems.map((item) => item.title.trim().toLowerCase()));
+  const platforms = platformsByUse(context.recentItems);
+  return offlineTopics
+    .filter((topic) => !used.has(topic.toLowerCase()))
+    .slice(0, count)
+    .map((title, index) => {
+      const { platform, uses } = platforms[index % platforms.length];
+      return {
+        title,
+        platform,
+        reasoning: uses === 0
+          ? `Nothing recent is planned for ${platform}`
+          : `Keeps your ${platform} content going after ${uses} recent ${uses === 1 ? "item" : "items"}`,
+      };
+    });
+}
+
+const weekdays = ["Sunday", "Monday", "Tuesday", "Wednesday", "Thursday", "Friday", "Saturday"];
+const numberWords = ["one", "two", "three", "four", "five", "six", "seven", "eight", "nine", "ten"];
+
+function utcDay(date: Date): string {
+  return date.toISOString().slice(0, 10);
+}
+
+function startOfUtcDay(date: Date): Date {
+  return new Date(Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), date.getUTCDate()));
+}
+
+// The days with nothing scheduled, out of `count` days from `from`
+function freeDays(context: AssistantContext, from: Date, count: number): Date[] {
+  const taken = new Set(context.upcomingItems.map((item) => utcDay(item.scheduledDate)));
+  return Array.from({ length: count }, (_, offset) => new Date(from.getTime() + offset * DAY_MS))
+    .filter((day) => !taken.has(utcDay(day)));
+}
+
+// A draft of a fresh idea for each day, at 10:00 UTC
+function draftChanges(context: AssistantContext, days: Date[]) {
+  return offlineSuggestions(context, days.length).map((idea, index) => ({
+    type: "create" as const,
+    title: idea.title,
+    platform: idea.platform,
+    scheduledDate: new Date(days[index].getTime() + 10 * 60 * 60 * 1000).toISOString(),
+  }));
+}
+
+interface OfflineAnswer {
+  text: string;
+  proposal?: { summary: string; changes: object[] };
+}
+
+// Requests to change the calendar: moving a day's posts, filling empty days
+// and creating drafts
+function offlineProposal(question: string, context: AssistantContext): OfflineAnswer | undefined {
+  const tomorrow = new Date(startOfUtcDay(context.now).getTime() + DAY_MS);
+  const weekday = `(${weekdays.join("|")})`;
+
+  const move = question.match(new RegExp(`\\bmove\\b.*?\\b${weekday}\\b.*?\\bto\\b.*?\\b${weekday}\\b`, "i"));
+  if (move) {
+    const [from, to] = [move[1], move[2]].map((day) => weekdays.findIndex((name) => name.toLowerCase() === day.toLowerCase()));
+    const shift = ((to - from + 7) % 7) * DAY_MS;
+    const items = context.upcomingItems.filter((item) =>
+      item.status !== "posted"
+      && item.scheduledDate.getUTCDay() === from
+      && item.scheduledDate.getTime() >= context.now.getTime()
+      && item.scheduledDate.getTime() < context.now.getTime() + 7 * DAY_MS);
+    if (items.length === 0 || shift === 0) {
+      return { text: `There's nothing to move from ${weekdays[from]} to ${weekdays[to]} in the next 7 days.` };
+    }
+    const summary = `Move ${items.length} ${items.length === 1 ? "item" : "items"} from ${weekdays[from]} to ${weekdays[to]}`;
+    return {
+      text: `${summary}, keeping their times. Review the changes below before applying them.`,
+      proposal: {
+        summary,
+        changes: items.map((item) => ({
+          type: "move",
+          contentId: item.id,
+          scheduledDate: new Date(item.scheduledDate.getTime() + shift).toISOString(),
+        })),
+      },
+    };
+  }
+
+  if (/\bfill\b/i.test(question)) {
+    const nextWeek = /next week/i.test(question);
+    // Weeks start on Monday
+    const from = nextWeek
+      ? new Date(startOfUtcDay(context.now).getTime() + (((8 - context.now.getUTCDay()) % 7) || 7) * DAY_MS)
+      : tomorrow;
+    const days = freeDays(context, from, 7);
+    const period = nextWeek ? "next week" : "the next 7 days";
+    if (days.length === 0) {
+      return { text: `Every day of ${period} already has something scheduled.` };
+    }
+    const changes = draftChanges(context, days);
+    if (changes.length === 0) {
+      return { text: "I've run out of fresh ideas for your calendar. Try asking about a specific topic." };
+    }
+    const summary = `Add ${changes.length} ${changes.length === 1 ? "draft" : "drafts"} on empty days ${period}`;
+    return {
+      text: `${summary}. Review the changes below before applying them.`,
+      proposal: { summary, changes },
+    };
+  }
+
+  const create = question.match(new RegExp(`\\b(?:create|add|draft|plan)\\b(?:.*?\\b(\\d+|${numberWords.join("|")})\\b)?.*?\\b(drafts?|posts?|ideas?|items?)\\b`, "i"));
+  if (create) {
+    const requested = !create[1] ? (create[2].endsWith("s") ? 3 : 1)
+      : /^\d+$/.test(create[1]) ? Number(create[1])
+      : numberWords.indexOf(create[1].toLowerCase()) + 1;
+    const days = freeDays(context, tomorrow, 14).slice(0, Math.min(Math.max(requested, 1), offlineTopics.length));
+    const changes = draftChanges(context, days);
+    if (changes.length === 0) {
+      return { text: "I've run out of fresh ideas for your calendar. Try asking about a specific topic." };
+    }
+    const summary = `Create ${changes.length} ${changes.length === 1 ? "draft" : "drafts"} on free days`;
+    return {
+      text: `${summary}. Review the changes below before applying them.`,
+      proposal: { summary, changes },
+    };
+  }
+  return undefined;
+}
+
+function offlineReply(question: string, context: AssistantContext): OfflineAnswer {
+  const proposal = offlineProposal(question, context);
+  if (proposal) return proposal;
+
+  const now = context.now.getTime();
+  const upcoming = context.upcomingItems.filter((item) =>
+    item.status !== "posted" && item.scheduledDate.getTime() >= now && item.scheduledDate.getTime() < now + 7 * DAY_MS);
+  const summary = upcoming.length > 0
+    ? `You have ${upcoming.length} ${upcoming.length === 1 ? "item" : "items"} planned for the next 7 days.`
+    : "Nothing is planned for the next 7 days yet.";
+
+  if (/idea|topic|write|suggest/i.test(question)) {
+    const ideas = offlineSuggestions(context, 3).map((idea) => `• ${idea.title} (${idea.platform})`);
+    return { text: `Here are some ideas that fit your calendar:\n${ideas.join("\n")}` };
+  }
+  if (/when|time|schedul|calendar|gap/i.test(question)) {
+    const freeDays = Array.from({ length: 7 }, (_, offset) => new Date(now + (offset + 1) * DAY_MS))
+      .filter((day) => !upcoming.some((item) => item.scheduledDate.toISOString().slice(0, 10) === day.toISOString().slice(0, 10)));
+    const gaps = freeDays.length > 0
+      ? ` These days have nothing scheduled: ${freeDays.map((day) => day.toLocaleDateString("en-US", { weekday: "long", timeZone: "UTC" })).join(", ")}.`
+      : "";
+    return { text: `${summary}${gaps}` };
+  }
+  const { platform } = platformsByUse(context.recentItems)[0];
+  return {
+    text: `${summary} Your least used platform lately is ${platform}. `
+      + "I can suggest content ideas, point out gaps in your schedule, or draft and move posts for you.",
+  };
+}
+
+// Answers from the content alone, without a model: deterministic and free,
+// but only as clever as a few rules
+export class OfflineAiProvider implements AiProvider {
+  async *streamChat(messages: AiChatMessage[], context: AssistantContext): AsyncIterable<ProviderEvent> {
+    const reply = offlineReply(messages[messages.length - 1].content, context);
+    for (const word of reply.text.match(/\S+\s*/g) ?? []) {
+      yield { type: "text", text: word };
+    }
+    if (reply.proposal) {
+      yield { type: "proposal", proposal: reply.proposal };
+    }
+  }
+
+  async suggestContent(context: AssistantContext, count: number): Promise<ContentSuggestion[]> {
+    return offlineSuggestions(context, count);
+  }
+}
+
+export function createDefaultAiProvider(): AiProvider {
+  const { AI_API_KEY, AI_BASE_URL, AI_MODEL } = process.env;
+
+  if (!AI_API_KEY) {
+    console.warn("AI_API_KEY not set. The AI assistant will answer offline.");
+    return new OfflineAiProvider();
+  }
+  return new OpenAiCompatibleProvider(
+    AI_API_KEY,
+    AI_MODEL || "gpt-4o-mini",
+    (AI_BASE_URL || "https://api.openai.com/v1").replace(/\/$/, ""),
+  );
+}
@@ -0,0 +1,188 @@
+import { describe, expect, it } from "vitest";
+import type { ContentItem, ContentMetrics, MetricTotals } from "@shared/schema";
+import { computeAnalytics, interactionsOf } from "./analytics";
+
+const now = new Date("2030-03-20T12:00:00Z"); // a Wednesday
+const options = { now, timeZone: "UTC", weeks: 4 };
+
+let ids = 0;
+function item(fields: Partial<ContentItem> = {}): ContentItem {
+  return {
+    id: `item-${++ids}`,
+    title: "Post",
+    platform: "social",
+    status: "draft",
+    recurrence: null,
+    scheduledDate: new Date("2030-03-19T09:00:00Z"),
+    createdAt: new Date("2030-03-18T09:00:00Z"),
+    publishedAt: null,
+    ...fields,
+  } as ContentItem;
+}
+
+function snapshot(contentItemId: string, capturedAt: string, counts: Partial<MetricTotals>): ContentMetrics {
+  return {
+    id: `${contentItemId}-${capturedAt}`,
+    workspaceId: "workspace",
+    contentItemId,
+    impressions: 0,
+    clicks: 0,
+    likes: 0,
+    shares: 0,
+    comments: 0,
+    opens: 0,
+    ...counts,
+    capturedAt: new Date(capturedAt),
+    source: "manual",
+    createdAt: new Date(capturedAt),
+  };
+}
+
+const zeros: MetricTotals = { impressions: 0, clicks: 0, likes: 0, shares: 0, comments: 0, opens: 0 };
+
+describe("interactionsOf", () => {
+  it.each([
+    { counts: {}, expected: 0 },
+    { counts: { clicks: 1, likes: 2, shares: 3, comments: 4 }, expected: 10 },
+    // Reach isn't interaction
+    { counts: { impressions: 1000, opens: 400 }, expected: 0 },
+  ])("counts $expected for $counts", ({ counts, expected }) => {
+    expect(interactionsOf({ ...zeros, ...counts })).toBe(expected);
+  });
+});
+
+describe("computeAnalytics", () => {
+  it("reports an empty workspace as zeros, without averages or change", () => {
+    const analytics = computeAnalytics([], [], options);
+
+    expect(analytics).toMatchObject({
+      total: 0,
+      byStatus: { draft: 0, in_review: 0, approved: 0, scheduled: 0, posted: 0, archived: 0 },
+      byPlatform: { social: 0, email: 0, blog: 0 },
+      monthOverMonth: { thisMonth: 0, lastMonth: 0, change: null },
+      publishing: { onTime: 0, late: 0, averageDelayMinutes: null },
+      averageLeadTimeHours: null,
+    });
+    expect(analytics.cadence).toEqual(["2030-02-25", "2030-03-04", "2030-03-11", "2030-03-18"].map((weekStart) => ({ weekStart, posted: 0, planned: 0 })));
+    expect(analytics.engagement.totals).toEqual(zeros);
+    expect(analytics.engagement.byPlatform).toEqual({ social: zeros, email: zeros, blog: zeros });
+    expect(analytics.engagement.timeline).toHaveLength(30);
+    expect(analytics.engagement.timeline.at(-1)).toEqual({ date: "2030-03-20", interactions: 0, impressions: 0 });
+    expect(analytics.engagement.timeline.every((day) => day.interactions === 0 && day.impressions === 0)).toBe(true);
+    expect(analytics.engagement.topContent).toEqual([]);
+  });
+
+  it("counts items by status and platform, leaving series out", () => {
+    const analytics = computeAnalytics([
+      item({ status: "draft", platform: "social" }),
+      item({ status: "posted", platform: "email" }),
+      item({ status: "archived", platform: "email" }),
+      item({ status: "scheduled", platform: "blog", recurrence: "FREQ=WEEKLY" }),
+    ], [], options);
+
+    expect(analytics.total).toBe(3);
+    expect(analytics.byStatus).toMatchObject({ draft: 1, posted: 1, archived: 1, scheduled: 0 });
+    expect(analytics.byPlatform).toEqual({ social: 1, email: 2, blog: 0 });
+  });
+
+  it("splits each week into posted and planned, on the zone's calendar", () => {
+    const items = [
+      item({ status: "posted", scheduledDate: new Date("2030-03-04T09:00:00Z") }),
+      item({ status: "scheduled", scheduledDate: new Date("2030-03-05T09:00:00Z") }),
+      item({ status: "draft", scheduledDate: new Date("2030-03-19T09:00:00Z") }),
+      // Sunday night in UTC, Monday morning in Berlin
+      item({ status: "posted", scheduledDate: new Date("2030-03-17T23:30:00Z") }),
+      item({ status: "archived", scheduledDate: new Date("2030-03-19T09:00:00Z") }),
+      // Before the first week
+      item({ status: "posted", scheduledDate: new Date("2030-02-20T09:00:00Z") }),
+    ];
+
+    expect(computeAnalytics(items, [], options).cadence).toEqual([
+      { weekStart: "2030-02-25", posted: 0, planned: 0 },
+      { weekStart: "2030-03-04", posted: 1, planned: 1 },
+      { weekStart: "2030-03-11", posted: 1, planned: 0 },
+      { weekStart: "2030-03-18", posted: 0, planned: 1 },
+    ]);
+    expect(computeAnalytics(items, [], { ...options, timeZone: "Europe/Berlin" }).cadence.slice(2)).toEqual([
+      { weekStart: "2030-03-11", posted: 0, planned: 0 },
+      { weekStart: "2030-03-18", posted: 1, planned: 1 },
+    ]);
+  });
+
+  it("compares this month with the last", () => {
+    const analytics = computeAnalytics([
+      ...["2030-02-03", "2030-02-10", "2030-02-17", "2030-02-24"].map((date) => item({ scheduledDate: new Date(`${date}T09:00:00Z`) })),
+      ...["2030-03-03", "2030-03-10", "2030-03-17", "2030-03-24", "2030-03-31"].map((date) => item({ scheduledDate: new Date(`${date}T09:00:00Z`) })),
+      item({ status: "archived", scheduledDate: new Date("2030-03-05T09:00:00Z") }),
+    ], [], options);
+
+    expect(analytics.monthOverMonth).toEqual({ thisMonth: 5, lastMonth: 4, change: 25 });
+  });
+
+  it("times publishing against the schedule and planning against creation", () => {
+    const scheduledDate = new Date("2030-03-19T09:00:00Z");
+    const analytics = computeAnalytics([
+      item({ status: "posted", scheduledDate, publishedAt: new Date("2030-03-19T09:00:30Z"), createdAt: new Date("2030-03-18T09:00:00Z") }),
+      item({ status: "posted", scheduledDate, publishedAt: new Date("2030-03-19T09:15:00Z"), createdAt: new Date("2030-03-17T09:00:00Z") }),
+      item({ status: "posted", scheduledDate, publishedAt: new Date("2030-03-19T10:00:00Z"), createdAt: new Date("2030-03-19T08:00:00Z") }),
+      // Imported after the fact: a negative lead time isn't counted
+      item({ status: "posted", scheduledDate, publishedAt: null, createdAt: new Date("2030-03-20T09:00:00Z") }),
+    ], [], options);
+
+    expect(analytics.publishing).toEqual({ onTime: 2, late: 1, averageDelayMinutes: 25.2 });
+    // 24, 48 and 1 hours
+    expect(analytics.averageLeadTimeHours).toBe(24.3);
+  });
+
+  describe("engagement", () => {
+    const post = item({ id: "post", title: "Launch", platform: "social", status: "posted" });
+    const newsletter = item({ id: "newsletter", title: "Newsletter", platform: "email", status: "posted" });
+    // Oldest first, as storage returns them
+    const metrics = [
+      snapshot("post", "2030-03-18T10:00:00Z", { likes: 10, impressions: 100 }),
+      snapshot("post", "2030-03-19T10:00:00Z", { likes: 25, clicks: 5, impressions: 300 }),
+      snapshot("newsletter", "2030-03-19T12:00:00Z", { opens: 50, clicks: 2 }),
+      // A correction downwards
+      snapshot("post", "2030-03-20T08:00:00Z", { likes: 20, clicks: 5, impressions: 310 }),
+      // Not an item of this workspace's analytics
+      snapshot("elsewhere", "2030-03-20T08:00:00Z", { likes: 1000 }),
+    ];
+
+    it("totals only each item's latest snapshot", () => {
+      const { engagement } = computeAnalytics([post, newsletter], metrics, options);
+
+      expect(engagement.totals).toEqual({ impressions: 310, clicks: 7, likes: 20, shares: 0, comments: 0, opens: 50 });
+      expect(engagement.byPlatform).toEqual({
+        social: { ...zeros, impressions: 310, clicks: 5, likes: 20 },
+        email: { ...zeros, clicks: 2, opens: 50 },
+        blog: zeros,
+      });
+    });
+
+    it("ranks content by interactions, with a rate only where there were impressions", () => {
+      const { engagement } = computeAnalytics([newsletter, post], metrics, options);
+
+      expect(engagement.topContent).toEqual([
+        { id: "post", title: "Launch", platform: "social", impressions: 310, interactions: 25, rate: 0.081 },
+        { id: "newsletter", title: "Newsletter", platform: "email", impressions: 0, interactions: 2, rate: null },
+      ]);
+    });
+
+    it("charts the growth between snapshots per day, never below zero", () => {
+      const { engagement } = computeAnalytics([post, newsletter], metrics, options);
+
+      expect(engagement.timeline.slice(-3)).toEqual([
+        { date: "2030-03-18", interactions: 10, impressions: 100 },
+        { date: "2030-03-19", interactions: 22, impressions: 200 },
+        { date: "2030-03-20", interactions: 0, impressions: 10 },
+      ]);
+    });
+
+    it("shows no more than five items", () => {
+      const items = Array.from({ length: 7 }, (_, index) => item({ id: `top-${index}`, status: "posted" }));
+      const { engagement } = computeAnalytics(items, items.map((entry, index) => snapshot(entry.id, "2030-03-19T10:00:00Z", { likes: index })), options);
+
+      expect(engagement.topContent.map((entry) => entry.id)).toEqual(["top-6", "top-5", "top-4", "top-3", "top-2"]);
+    });
+  });
+});
@@ -0,0 +1,181 @@
+import {
+  contentPlatforms,
+  metricFields,
+  type ContentAnalytics,
+  type ContentItem,
+  type ContentMetrics,
+  type ContentPlatform,
+  type EngagementAnalytics,
+  type MetricTotals,
+} from "@shared/schema";
+import { contentStatuses, type ContentStatus } from "@shared/workflow";
+import { wallClock } from "./time-zones";
+
+// Workspace-level aggregates for the analytics dashboard, computed from the
+// stored items and their engagement metrics. Archived items only show up in
+// the status counts and engagement.
+
+// The scheduler polls every 30 seconds, so anything published within this
+// long of its slot went out on time
+const ON_TIME_GRACE_MS = 15 * 60 * 1000;
+const DAY_MS = 24 * 60 * 60 * 1000;
+const TIMELINE_DAYS = 30;
+const TOP_CONTENT = 5;
+
+export interface AnalyticsOptions {
+  now: Date;
+  timeZone: string;
+  weeks: number;
+}
+
+// Monday of the local week, as a UTC midnight
+function weekStart(date: Date, timeZone: string): Date {
+  const { day } = wallClock(date, timeZone);
+  return new Date(day.getTime() - ((day.getUTCDay() + 6) % 7) * DAY_MS);
+}
+
+// YYYY-MM of the local month
+function monthKey(date: Date, timeZone: string): string {
+  return wallClock(date, timeZone).day.toISOString().slice(0, 7);
+}
+
+function previousMonthKey(key: string): string {
+  const [year, month] = key.split("-").map(Number);
+  return new Date(Date.UTC(year, month - 2, 1)).toISOString().slice(0, 7);
+}
+
+function average(values: number[]): number | null {
+  if (values.length === 0) return null;
+  return Math.round((values.reduce((sum, value) => sum + value, 0) / values.length) * 10) / 10;
+}
+
+function emptyTotals(): MetricTotals {
+  return Object.fromEntries(metricFields.map((field) => [field, 0])) as MetricTotals;
+}
+
+function addTotals(sum: MetricTotals, metrics: MetricTotals): void {
+  for (const field of metricFields) sum[field] += metrics[field];
+}
+
+// Opens and impressions measure reach; everything else is an interaction
+export function interactionsOf(metrics: MetricTotals): number {
+  return metrics.clicks + metrics.likes + metrics.shares + metrics.comments;
+}
+
+function computeEngagement(items: ContentItem[], metrics: ContentMetrics[], options: AnalyticsOptions): EngagementAnalytics {
+  const { now, timeZone } = options;
+  const itemsById = new Map(items.map((item) => [item.id, item]));
+
+  const today = wallClock(now, timeZone).day.getTime();
+  const timeline = Array.from({ length: TIMELINE_DAYS }, (_, index) => ({
+    date: new Date(today - (TIMELINE_DAYS - 1 - index) * DAY_MS).toISOString().slice(0, 10),
+    interactions: 0,
+    impressions: 0,
+  }));
+  const days = new Map(timeline.map((day) => [day.date, day]));
+
+  // Snapshots come oldest first, so each one's growth is measured against
+  // the previous snapshot of its item, and the last one is the total
+  const latest = new Map<string, ContentMetrics>();
+  for (const snapshot of metrics) {
+    if (!itemsById.has(snapshot.contentItemId)) continue;
+    const previous = latest.get(snapshot.contentItemId);
+    latest.set(snapshot.contentItemId, snapshot);
+
+    const day = days.get(wallClock(snapshot.capturedAt, timeZone).day.toISOString().slice(0, 10));
+    if (!day) continue;
+    // A correction downwards doesn't take engagement away from that day
+    day.interactions += Math.max(0, interactionsOf(snapshot) - (previous ? interactionsOf(previous) : 0));
+    day.impressions += Math.max(0, snapshot.impressions - (previous?.impressions ?? 0));
+  }
+
+  const totals = emptyTotals();
+  const byPlatform = Object.fromEntries(contentPlatforms.map((platform) => [platform, emptyTotals()])) as Record<ContentPlatform, MetricTotals>;
+  const ranked: EngagementAnalytics["topContent"] = [];
+  latest.forEach((snapshot, id) => {
+    const item = itemsById.get(id)!;
+    addTotals(totals, snapshot);
+    if (item.platform in byPlatform) addTotals(byPlatform[item.platform as ContentPlatform], snapshot);
+
+    const interactions = interactionsOf(snapshot);
+    ranked.push({
+      id,
+      title: item.title,
+      platform: item.platform,
+      impressions: snapshot.impressions,
+      interactions,
+      rate: snapshot.impressions > 0 ? Math.round((interactions / snapshot.impressions) * 1000) / 1000 : null,
+    });
+  });
+
+  return {
+    totals,
+    byPlatform,
+    timeline,
+    topContent: ranked.sort((a, b) => b.interactions - a.interactions).slice(0, TOP_CONTENT),
+  };
+}
+
+export function computeAnalytics(allItems: ContentItem[], metrics: ContentMetrics[], options: AnalyticsOptions): ContentAnalytics {
+  const { now, timeZone } = options;
+  // A series is a template; its published occurrences are items of their own
+  const items = allItems.filter((item) => !item.recurrence);
+  const active = items.filter((item) => item.status !== "archived");
+
+  const byStatus = Object.fromEntries(contentStatuses.map((status) => [status, 0])) as Record<ContentStatus, number>;
+  const byPlatform = Object.fromEntries(contentPlatforms.map((platform) => [platform, 0])) as Record<ContentPlatform, number>;
+  for (const item of items) {
+    byStatus[item.status as ContentStatus]++;
+    if (item.platform in byPlatform) byPlatform[item.platform as ContentPlatform]++;
+  }
+
+  const currentWeek = weekStart(now, timeZone).getTime();
+  const cadence = Array.from({ length: options.weeks }, (_, index) => ({
+    weekStart: new Date(currentWeek - (options.weeks - 1 - index) * 7 * DAY_MS).toISOString().slice(0, 10),
+    posted: 0,
+    planned: 0,
+  }));
+  const weeks = new Map(cadence.map((week) => [week.weekStart, week]));
+  for (const item of active) {
+    const week = weeks.get(weekStart(item.scheduledDate, timeZone).toISOString().slice(0, 10));
+    if (!week) continue;
+    if (item.status === "posted") week.posted++;
+    else week.planned++;
+  }
+
+  const thisMonthKey = monthKey(now, timeZone);
+  const lastMonthKey = previousMonthKey(thisMonthKey);
+  let thisMonth = 0;
+  let lastMonth = 0;
+  for (const item of active) {
+    const key = monthKey(item.scheduledDate, timeZone);
+    if (key === thisMonthKey) thisMonth++;
+    else if (key === lastMonthKey) lastMonth++;
+  }
+
+  const delays = items
+    .filter((item) => item.status === "posted" && item.publishedAt)
+    .map((item) => Math.max(0, item.publishedAt!.getTime() - item.scheduledDate.getTime()));
+  const leadTimes = active
+    .map((item) => item.scheduledDate.getTime() - item.createdAt.getTime())
+    .filter((lead) => lead >= 0);
+
+  return {
+    total: items.length,
+    byStatus,
+    byPlatform,
+    cadence,
+    monthOverMonth: {
+      thisMonth,
+      lastMonth,
+      change: lastMonth > 0 ? Math.round(((thisMonth - lastMonth) / lastMonth) * 1000) / 10 : null,
+    },
+    publishing: {
+      onTime: delays.filter((delay) => delay <= ON_TIME_GRACE_MS).length,
+      late: delays.filter((delay) => delay > ON_TIME_GRACE_MS).length,
+      averageDelayMinutes: average(delays.map((delay) => delay / 60_000)),
+    },
+    averageLeadTimeHours: average(leadTimes.map((lead) => lead / 3_600_000)),
+    engagement: computeEngagement(items, metrics, options),
+  };
+}
@@ -0,0 +1,108 @@
+import { createSign, generateKeyPairSync } from "crypto";
+import express from "express";
+import type { AddressInfo } from "net";
+import { afterAll, beforeAll, describe, expect, it, vi } from "vitest";
+import { FirebaseTokenVerifier, requireAuth, type TokenVerifier } from "./auth";
+
+const PROJECT_ID = "planner-test";
+const { privateKey, publicKey } = generateKeyPairSync("rsa", { modulusLength: 2048 });
+const keySet = { "key-1": publicKey.export({ type: "spki", format: "pem" }).toString() };
+
+function base64url(value: object): string {
+  return Buffer.from(JSON.stringify(value)).toString("base64url");
+}
+
+function signToken(claims: Record<string, unknown> = {}, kid = "key-1"): string {
+  const now = Math.floor(Date.now() / 1000);
+  const header = base64url({ alg: "RS256", typ: "JWT", kid });
+  const payload = base64url({
+    iss: `https://securetoken.google.com/${PROJECT_ID}`,
+    aud: PROJECT_ID,
+    sub: "user-1",
+    email: "user@example.com",
+    iat: now,
+    exp: now + 3600,
+    ...claims,
+  });
+  const signature = createSign("RSA-SHA256").update(`${header}.${payload}`).sign(privateKey, "base64url");
+  return `${header}.${payload}.${signature}`;
+}
+
+describe("FirebaseTokenVerifier", () => {
+  const verifier = new FirebaseTokenVerifier(PROJECT_ID, async () => keySet);
+
+  it("returns the user of a valid token", async () => {
+    await expect(verifier.verifyIdToken(signToken())).resolves.toEqual({ uid: "user-1", email: "user@example.com" });
+  });
+
+  it("rejects a token for another project", async () => {
+    await expect(verifier.verifyIdToken(signToken({ aud: "other-project" }))).rejects.toThrow();
+  });
+
+  it("rejects a token from another issuer", async () => {
+    await expect(verifier.verifyIdToken(signToken({ iss: "https://example.com" }))).rejects.toThrow();
+  });
+
+  it("rejects an expired token", async () => {
+    const past = Math.floor(Date.now() / 1000) - 7200;
+    await expect(verifier.verifyIdToken(signToken({ iat: past, exp: past + 600 }))).rejects.toThrow();
+  });
+
+  it("rejects a token signed with an unknown key", async () => {
+    await expect(verifier.verifyIdToken(signToken({}, "key-2"))).rejects.toThrow();
+  });
+
+  it("rejects a tampered token", async () => {
+    const [header, , signature] = signToken().split(".");
+    const forged = `${header}.${base64url({ sub: "someone-else" })}.${signature}`;
+    await expect(verifier.verifyIdToken(forged)).rejects.toThrow();
+  });
+
+  it("rejects a token without a subject", async () => {
+    await expect(verifier.verifyIdToken(signToken({ sub: undefined }))).rejects.toThrow();
+  });
+});
+
+describe("requireAuth", () => {
+  const verifier: TokenVerifier = {
+    verifyIdToken: async (token) => {
+      if (token !== "good") throw new Error("bad token");
+      return { uid: "user-1" };
+    },
+  };
+  let baseUrl: string;
+  let close: () => void;
+
+  beforeAll(async () => {
+    vi.spyOn(console, "error").mockImplementation(() => {});
+    const app = express();
+    app.get("/whoami", requireAuth(verifier), (req, res) => res.json(req.auth));
+    const server = app.listen(0);
+    await new Promise((resolve) => server.once("listening", resolve));
+    baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+    close = () => server.close();
+  });
+
+  afterAll(() => {
+    close();
+    vi.restoreAllMocks();
+  });
+
+  it("rejects a request without a bearer token", async () => {
+    const res = await fetch(`${baseUrl}/whoami`, { headers: { Authorization: "Basic abc" } });
+    expect(res.status).toBe(401);
+    expect(await res.json()).toEqual({ message: "Authentication required" });
+  });
+
+  it("rejects a token the verifier refuses", async () => {
+    const res = await fetch(`${baseUrl}/whoami`, { headers: { Authorization: "Bearer bad" } });
+    expect(res.status).toBe(401);
+    expect(await res.json()).toEqual({ message: "Invalid or expired token" });
+  });
+
+  it("sets the user for a verified token", async () => {
+    const res = await fetch(`${baseUrl}/whoami`, { headers: { Authorization: "Bearer good" } });
+    expect(res.status).toBe(200);
+    expect(await res.json()).toEqual({ uid: "user-1" });
+  });
+});
@@ -0,0 +1,104 @@
+import type { Request, Response, NextFunction, RequestHandler } from "express";
+import { OAuth2Client } from "google-auth-library";
+
+const FIREBASE_CERTS_URL =
+  "https://www.googleapis.com/robot/v1/metadata/x509/securetoken@system.gserviceaccount.com";
+
+export interface AuthUser {
+  uid: string;
+  email?: string;
+}
+
+declare global {
+  namespace Express {
+    interface Request {
+      auth?: AuthUser;
+    }
+  }
+}
+
+// Anything that can turn a bearer token into a user. Production uses
+// FirebaseTokenVerifier; tests can pass their own key set or a fake.
+export interface TokenVerifier {
+  verifyIdToken(token: string): Promise<AuthUser>;
+}
+
+// Map of key id -> PEM certificate, as published by Google.
+export type CertificateSource = () => Promise<Record<string, string>>;
+
+let cachedCerts: { certs: Record<string, string>; expiresAt: number } | null = null;
+
+export async function fetchFirebaseCertificates(): Promise<Record<string, string>> {
+  if (cachedCerts && cachedCerts.expiresAt > Date.now()) {
+    return cachedCerts.certs;
+  }
+
+  const res = await fetch(FIREBASE_CERTS_URL);
+  if (!res.ok) {
+    throw new Error(`Failed to fetch Firebase certificates: ${res.status}`);
+  }
+
+  const certs = (await res.json()) as Record<string, string>;
+  const maxAge = /max-age=(\d+)/.exec(res.headers.get("cache-control") || "");
+  cachedCerts = {
+    certs,
+    expiresAt: Date.now() + (maxAge ? parseInt(maxAge[1], 10) * 1000 : 0),
+  };
+  return certs;
+}
+
+export class FirebaseTokenVerifier implements TokenVerifier {
+  private client = new OAuth2Client();
+
+  constructor(
+    private projectId: string,
+    private getCertificates: CertificateSource = fetchFirebaseCertificates,
+  ) {}
+
+  async verifyIdToken(token: string): Promise<AuthUser> {
+    const certs = await this.getCertificates();
+    const ticket = await this.client.verifySignedJwtWithCertsAsync(
+      token,
+      certs,
+      this.projectId,
+      [`https://securetoken.google.com/${this.projectId}`],
+    );
+
+    const payload = ticket.getPayload();
+    if (!payload?.sub) {
+      throw new Error("Token has no subject");
+    }
+    return { uid: payload.sub, email: payload.email };
+  }
+}
+
+export function createDefaultVerifier(): TokenVerifier {
+  const projectId = process.env.FIREBASE_PROJECT_ID || process.env.VITE_FIREBASE_PROJECT_ID;
+
+  if (!projectId) {
+    console.warn("Firebase project ID not found. All API requests will be rejected as unauthenticated.");
+    return {
+      verifyIdToken: async () => {
+        throw new Error("Firebase project ID not configured");
+      },
+    };
+  }
+  return new FirebaseTokenVerifier(projectId);
+}
+
+export function requireAuth(verifier: TokenVerifier): RequestHandler {
+  return async (req: Request, res: Response, next: NextFunction) => {
+    const header = req.headers.authorization;
+    if (!header?.startsWith("Bearer ")) {
+      return res.status(401).json({ message: "Authentication required" });
+    }
+
+    try {
+      req.auth = await verifier.verifyIdToken(header.slice("Bearer ".length));
+      next();
+    } catch (error) {
+      console.error("Error verifying ID token:", error);
+      res.status(401).json({ message: "Invalid or expired token" });
+    }
+  };
+}
@@ -0,0 +1,132 @@
+import { afterAll, afterEach, beforeAll, describe, expect, it } from "vitest";
+import express from "express";
+import http from "http";
+import type { AddressInfo } from "net";
+import { PaypalBillingGateway } from "./billing";
+import { registerRoutes } from "./routes";
+
+// A PayPal webhook event as delivered, with the fields the handler never
+// reads but PayPal still signs
+const deliveredEvent = {
+  id: "WH-58D329510W468432D-8HN650336L201105X",
+  create_time: "2030-01-01T00:00:00.000Z",
+  resource_type: "subscription",
+  event_type: "BILLING.SUBSCRIPTION.ACTIVATED",
+  event_version: "1.0",
+  resource_version: "2.0",
+  summary: "Subscription activated",
+  resource: { id: "I-SUB1", plan_id: "P-PLAN", status: "ACTIVE", custom_id: "user-1" },
+  links: [
+    { href: "https://api-m.paypal.com/v1/notifications/webhooks-events/WH-58D3", rel: "self", method: "GET" },
+  ],
+};
+
+const transmissionHeaders = {
+  "paypal-auth-algo": "SHA256withRSA",
+  "paypal-cert-url": "https://api-m.paypal.com/v1/notifications/certs/CERT-1",
+  "paypal-transmission-id": "TX-1",
+  "paypal-transmission-sig": "c2lnbmF0dXJl",
+  "paypal-transmission-time": "2030-01-01T00:00:01Z",
+};
+
+describe("PaypalBillingGateway.verifyWebhook", () => {
+  const verifications: unknown[] = [];
+  let verificationStatus = "SUCCESS";
+  let baseUrl: string;
+
+  // Stands in for PayPal's REST API
+  const server = http.createServer((req, res) => {
+    let body = "";
+    req.on("data", (chunk) => (body += chunk));
+    req.on("end", () => {
+      res.setHeader("Content-Type", "application/json");
+      if (req.url === "/v1/oauth2/token") {
+        return res.end(JSON.stringify({ access_token: "token-1", expires_in: 3600 }));
+      }
+      if (req.url === "/v1/notifications/verify-webhook-signature") {
+        verifications.push(JSON.parse(body));
+        return res.end(JSON.stringify({ verification_status: verificationStatus }));
+      }
+      res.writeHead(404).end();
+    });
+  });
+
+  beforeAll(async () => {
+    await new Promise<void>((resolve) => server.listen(0, "127.0.0.1", resolve));
+    baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+  });
+
+  afterEach(() => {
+    verifications.length = 0;
+    verificationStatus = "SUCCESS";
+  });
+
+  afterAll(() => {
+    server.close();
+  });
+
+  const gateway = () => new PaypalBillingGateway("client", "secret", baseUrl, "WEBHOOK-1");
+
+  it("sends PayPal the event exactly as delivered", async () => {
+    expect(await gateway().verifyWebhook(transmissionHeaders, deliveredEvent)).toBe(true);
+
+    expect(verifications).toEqual([{
+      auth_algo: "SHA256withRSA",
+      cert_url: "https://api-m.paypal.com/v1/notifications/certs/CERT-1",
+      transmission_id: "TX-1",
+      transmission_sig: "c2lnbmF0dXJl",
+      transmission_time: "2030-01-01T00:00:01Z",
+      webhook_id: "WEBHOOK-1",
+      webhook_event: deliveredEvent,
+    }]);
+  });
+
+  it("rejects events PayPal fails to verify", async () => {
+    verificationStatus = "FAILURE";
+    expect(await gateway().verifyWebhook(transmissionHeaders, deliveredEvent)).toBe(false);
+  });
+
+  it("rejects requests missing transmission headers without asking PayPal", async () => {
+    const { "paypal-transmission-sig": _, ...headers } = transmissionHeaders;
+    expect(await gateway().verifyWebhook(headers, deliveredEvent)).toBe(false);
+    expect(verifications).toEqual([]);
+  });
+});
+
+describe("POST /paypal/webhook", () => {
+  const verified: unknown[] = [];
+  let server: http.Server;
+  let baseUrl: string;
+
+  beforeAll(async () => {
+    const app = express();
+    app.use(express.json());
+    const unused = async (): Promise<never> => {
+      throw new Error("Not used");
+    };
+    const webhooks = {
+      verifyWebhook: async (_headers: unknown, body: unknown) => {
+        verified.push(body);
+        return false;
+      },
+    };
+    server = await registerRoutes(app, { verifyIdToken: unused }, { getSubscription: unused, cancelSubscription: unused }, webhooks);
+    await new Promise<void>((resolve) => server.listen(0, "127.0.0.1", resolve));
+    baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+  });
+
+  afterAll(() => {
+    server.close();
+  });
+
+  it("verifies the body as delivered rather than the parsed event", async () => {
+    const res = await fetch(`${baseUrl}/paypal/webhook`, {
+      method: "POST",
+      headers: { ...transmissionHeaders, "Content-Type": "application/json" },
+      body: JSON.stringify(deliveredEvent),
+    });
+
+    expect(res.status).toBe(400);
+    expect(verified).toEqual([deliveredEvent]);
+  });
+});
@@ -0,0 +1,208 @@
+import type { IncomingHttpHeaders } from "http";
+import { z } from "zod";
+import type { SubscriptionStatus } from "@shared/schema";
+
+// The PayPal billing plan behind the Premium tier
+export const PREMIUM_PLAN_ID = process.env.PAYPAL_PLAN_ID || "P-8V897502VC4648024NDAUXGA";
+
+// A subscription as PayPal reports it
+export interface RemoteSubscription {
+  id: string;
+  planId: string;
+  status: SubscriptionStatus;
+  // Set at checkout to the subscriber's Firebase UID
+  customId: string | null;
+  startedAt: Date;
+  currentPeriodEnd: Date | null;
+}
+
+// Anything that can look up and cancel subscriptions. Production asks
+// PayPal's REST API; tests can pass a fake.
+export interface BillingGateway {
+  // undefined if PayPal doesn't know the subscription
+  getSubscription(id: string): Promise<RemoteSubscription | undefined>;
+  cancelSubscription(id: string, reason: string): Promise<void>;
+}
+
+// A webhook notification from PayPal. resource is whatever the event is
+// about; for BILLING.SUBSCRIPTION.* events it's the subscription.
+export const paypalWebhookEventSchema = z.object({
+  id: z.string().min(1).max(64),
+  event_type: z.string().min(1).max(100),
+  create_time: z.string().optional(),
+  resource: z.record(z.unknown()),
+});
+
+export type PaypalWebhookEvent = z.infer<typeof paypalWebhookEventSchema>;
+
+// Decides whether a webhook request really came from PayPal. body is the
+// event exactly as received: PayPal signs every field, including ones
+// paypalWebhookEventSchema drops. Tests can pass a fake and replay recorded
+// events.
+export interface WebhookVerifier {
+  verifyWebhook(headers: IncomingHttpHeaders, body: unknown): Promise<boolean>;
+}
+
+export class BillingNotConfiguredError extends Error {}
+
+const paypalStatuses: Record<string, SubscriptionStatus> = {
+  APPROVAL_PENDING: "pending",
+  APPROVED: "pending",
+  ACTIVE: "active",
+  SUSPENDED: "suspended",
+  CANCELLED: "cancelled",
+  EXPIRED: "expired",
+};
+
+export function toSubscriptionStatus(paypalStatus: string): SubscriptionStatus {
+  const status = paypalStatuses[paypalStatus.toUpperCase()];
+  if (!status) throw new Error(`Unknown PayPal subscription status "${paypalStatus}"`);
+  return status;
+}
+
+// The subscription resource of PayPal's REST API, as far as it's used here
+export interface PaypalSubscriptionResource {
+  id: string;
+  plan_id: string;
+  status: string;
+  custom_id?: string;
+  start_time?: string;
+  billing_info?: { next_billing_time?: string };
+}
+
+export function fromPaypalSubscription(resource: PaypalSubscriptionResource): RemoteSubscription {
+  return {
+    id: resource.id,
+    planId: resource.plan_id,
+    status: toSubscriptionStatus(resource.status),
+    customId: resource.custom_id ?? null,
+    startedAt: resource.start_time ? new Date(resource.start_time) : new Date(),
+    currentPeriodEnd: resource.billing_info?.next_billing_time ? new Date(resource.billing_info.next_billing_time) : null,
+  };
+}
+
+export class PaypalBillingGateway implements BillingGateway, WebhookVerifier {
+  private token: { value: string; expiresAt: number } | null = null;
+
+  constructor(
+    private clientId: string,
+    private clientSecret: string,
+    private baseUrl: string,
+    // The id PayPal assigned the webhook; only needed to verify its events
+    private webhookId?: string,
+  ) {}
+
+  private async accessToken(): Promise<string> {
+    if (this.token && this.token.expiresAt > Date.now()) {
+      return this.token.value;
+    }
+
+    const res = await fetch(`${this.baseUrl}/v1/oauth2/token`, {
+      method: "POST",
+      headers: {
+        Authorization: `Basic ${Buffer.from(`${this.clientId}:${this.clientSecret}`).toString("base64")}`,
+        "Content-Type": "application/x-www-form-urlencoded",
+      },
+      body: "grant_type=client_credentials",
+    });
+    if (!res.ok) {
+      throw new Error(`Failed to get a PayPal access token: ${res.status}`);
+    }
+
+    const { access_token, expires_in } = (await res.json()) as { access_token: string; expires_in: number };
+    // Renew a minute early so a token never expires mid-request
+    this.token = { value: access_token, expiresAt: Date.now() + (expires_in - 60) * 1000 };
+    return access_token;
+  }
+
+  async getSubscription(id: string): Promise<RemoteSubscription | undefined> {
+    const res = await fetch(`${this.baseUrl}/v1/billing/subscriptions/${encodeURIComponent(id)}`, {
+      headers: { Authorization: `Bearer ${await this.accessToken()}` },
+    });
+    if (res.status === 404) return undefined;
+    if (!res.ok) {
+      throw new Error(`Failed to fetch PayPal subscription: ${res.status}`);
+    }
+    return fromPaypalSubscription((await res.json()) as PaypalSubscriptionResource);
+  }
+
+  async cancelSubscription(id: string, reason: string): Promise<void> {
+    const res = await fetch(`${this.baseUrl}/v1/billing/subscriptions/${encodeURIComponent(id)}/cancel`, {
+      method: "POST",
+      headers: {
+        Authorization: `Bearer ${await this.accessToken()}`,
+        "Content-Type": "application/json",
+      },
+      body: JSON.stringify({ reason }),
+    });
+    if (!res.ok) {
+      throw new Error(`Failed to cancel PayPal subscription: ${res.status}`);
+    }
+  }
+
+  // PayPal checks the transmission signature itself, which spares us
+  // fetching and pinning its signing certificates
+  async verifyWebhook(headers: IncomingHttpHeaders, body: unknown): Promise<boolean> {
+    if (!this.webhookId) {
+      throw new BillingNotConfiguredError("PayPal webhook id not configured");
+    }
+    const header = (name: string) => {
+      const value = headers[name];
+      return Array.isArray(value) ? value[0] : value;
+    };
+    const transmission = {
+      auth_algo: header("paypal-auth-algo"),
+      cert_url: header("paypal-cert-url"),
+      transmission_id: header("paypal-transmission-id"),
+      transmission_sig: header("paypal-transmission-sig"),
+      transmission_time: header("paypal-transmission-time"),
+    };
+    if (Object.values(transmission).some((value) => !value)) return false;
+
+    const res = await fetch(`${this.baseUrl}/v1/notifications/verify-webhook-signature`, {
+      method: "POST",
+      headers: {
+        Authorization: `Bearer ${await this.accessToken()}`,
+        "Content-Type": "application/json",
+      },
+      body: JSON.stringify({ ...transmission, webhook_id: this.webhookId, webhook_event: body }),
+    });
+    if (!res.ok) {
+      throw new Error(`Failed to verify PayPal webhook: ${res.status}`);
+    }
+    const { verification_status } = (await res.json()) as { verification_status: string };
+    return verification_status === "SUCCESS";
+  }
+}
+
+function paypalBaseUrl(): string {
+  return process.env.NODE_ENV === "production"
+    ? "https://api-m.paypal.com"
+    : "https://api-m.sandbox.paypal.com";
+}
+
+export function createDefaultBillingGateway(): BillingGateway {
+  const { PAYPAL_CLIENT_ID, PAYPAL_CLIENT_SECRET } = process.env;
+
+  // server/paypal.ts already warns about the missing credentials
+  if (!PAYPAL_CLIENT_ID || !PAYPAL_CLIENT_SECRET) {
+    const notConfigured = async (): Promise<never> => {
+      throw new BillingNotConfiguredError("PayPal credentials not configured");
+    };
+    return { getSubscription: notConfigured, cancelSubscription: notConfigured };
+  }
+  return new PaypalBillingGateway(PAYPAL_CLIENT_ID, PAYPAL_CLIENT_SECRET, paypalBaseUrl());
+}
+
+export function createDefaultWebhookVerifier(): WebhookVerifier {
+  const { PAYPAL_CLIENT_ID, PAYPAL_CLIENT_SECRET, PAYPAL_WEBHOOK_ID } = process.env;
+
+  if (!PAYPAL_CLIENT_ID || !PAYPAL_CLIENT_SECRET || !PAYPAL_WEBHOOK_ID) {
+    return {
+      verifyWebhook: async () => {
+        throw new BillingNotConfiguredError("PayPal webhook not configured");
+      },
+    };
+  }
+  return new PaypalBillingGateway(PAYPAL_CLIENT_ID, PAYPAL_CLIENT_SECRET, paypalBaseUrl(), PAYPAL_WEBHOOK_ID);
+}
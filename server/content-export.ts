@@ -0,0 +1,29 @@
+import type { ContentItem } from "@shared/schema";
+import { toCsv } from "./csv";
+import { exportColumns, importColumns } from "./content-import";
+
+// Exports start with the importer's columns so a file can be edited and
+// imported again as new drafts; the extra columns are ignored on import.
+export function contentItemsToCsv(items: ContentItem[]): string {
+  const header = [...exportColumns];
+  const rows = items.map((item) => [
+    item.title,
+    item.description ?? "",
+    item.platform,
+    item.scheduledDate.toISOString(),
+    item.status,
+    item.id,
+    item.createdAt.toISOString(),
+  ]);
+  return toCsv([header, ...rows]);
+}
+
+export function importTemplateCsv(): string {
+  const example = new Date();
+  example.setDate(example.getDate() + 7);
+  example.setHours(9, 0, 0, 0);
+  return toCsv([
+    [...importColumns],
+    ["Product launch announcement", "Share the new feature with a short demo", "social", example.toISOString(), "draft"],
+  ]);
+}
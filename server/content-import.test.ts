@@ -0,0 +1,65 @@
+import { describe, expect, it } from "vitest";
+import type { ContentItem } from "@shared/schema";
+import { parseCsv, toCsv, unescapeFormula } from "./csv";
+import { contentItemsToCsv } from "./content-export";
+import { parseContentImport } from "./content-import";
+
+function exportedItem(fields: Partial<ContentItem>): ContentItem {
+  return {
+    id: "item-1",
+    title: "Post",
+    description: null,
+    platform: "social",
+    scheduledDate: new Date("2030-01-15T09:00:00Z"),
+    status: "draft",
+    createdAt: new Date("2030-01-01T00:00:00Z"),
+    ...fields,
+  } as ContentItem;
+}
+
+describe("CSV formulas", () => {
+  it.each(["=HYPERLINK(\"http://evil\")", "+1", "-1", "@SUM(A1)"])("neutralises %s", (value) => {
+    const csv = toCsv([[value]]);
+    expect(csv.startsWith("'") || csv.startsWith("\"'")).toBe(true);
+    const [[cell]] = parseCsv(csv);
+    expect(cell).toBe(`'${value}`);
+    expect(unescapeFormula(cell)).toBe(value);
+  });
+
+  it("leaves other cells alone", () => {
+    expect(toCsv([["Launch", "it's live"]])).toBe("Launch,it's live\r\n");
+    expect(unescapeFormula("'quoted")).toBe("'quoted");
+  });
+
+  it("reads apostrophes as they are", () => {
+    expect(parseCsv("'-5% off,'@handle,'=1\r\n")).toEqual([["'-5% off", "'@handle", "'=1"]]);
+  });
+});
+
+describe("exported content", () => {
+  it("imports again, with content past review as drafts", () => {
+    const csv = contentItemsToCsv([
+      exportedItem({ title: "-10% this week", status: "approved" }),
+      exportedItem({ title: "Sent", status: "posted", description: "=cmd" }),
+      exportedItem({ title: "Pending", status: "in_review" }),
+    ]);
+
+    const rows = parseContentImport(csv);
+    expect(rows.map((row) => row.errors)).toEqual([[], [], []]);
+    expect(rows.map((row) => row.data)).toMatchObject([
+      { title: "-10% this week", status: "draft" },
+      { title: "Sent", description: "=cmd", status: "draft" },
+      { title: "Pending", status: "in_review" },
+    ]);
+  });
+
+  it("keeps apostrophes in files from elsewhere", () => {
+    const rows = parseContentImport("title,platform,date,description\r\n'-5% off,social,2030-01-15T09:00:00Z,'@handle\r\n");
+    expect(rows.map((row) => row.data)).toMatchObject([{ title: "'-5% off", description: "'@handle" }]);
+  });
+
+  it("still rejects unknown statuses", () => {
+    const [row] = parseContentImport("title,platform,date,status\r\nPost,social,2030-01-15T09:00:00Z,published\r\n");
+    expect(row.errors).toEqual([expect.stringContaining("status")]);
+  });
+});
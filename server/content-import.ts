@@ -0,0 +1,72 @@
+import type { ZodIssue } from "zod";
+import { createContentItemSchema, type ContentImportRow } from "@shared/schema";
+import { contentStatuses, initialStatuses } from "@shared/workflow";
+import { parseCsv, unescapeFormula } from "./csv";
+
+// Column layout of the CSV template; the importer accepts exactly these
+// (case-insensitive, in any order). Status is optional and defaults to draft.
+// Imported copies start over in the workflow: any status past review (as
+// found in an export) comes back in as draft.
+export const importColumns = ["title", "description", "platform", "date", "status"] as const;
+// Exports add these, which tells their files apart from others
+export const exportColumns = [...importColumns, "id", "created_at"] as const;
+const requiredColumns = ["title", "platform", "date"];
+
+export const MAX_IMPORT_ROWS = 1000;
+
+export class ImportError extends Error {}
+
+function importedStatus(value: string): string {
+  const status = value.toLowerCase();
+  if (!status) return "draft";
+  const known = (contentStatuses as readonly string[]).includes(status);
+  const initial = (initialStatuses as readonly string[]).includes(status);
+  return known && !initial ? "draft" : status;
+}
+
+function formatIssue(issue: ZodIssue): string {
+  const field = issue.path[0] === "scheduledDate" ? "date" : issue.path.join(".");
+  return `${field}: ${issue.message}`;
+}
+
+// Parses and validates a CSV upload. Row numbers match a spreadsheet view of
+// the file: the header is row 1 and the first item is row 2.
+export function parseContentImport(text: string): ContentImportRow[] {
+  const [header, ...lines] = parseCsv(text);
+  if (!header) {
+    throw new ImportError("The file is empty");
+  }
+
+  const columns = header.map((name) => name.trim().toLowerCase());
+  const missing = requiredColumns.filter((name) => !columns.includes(name));
+  if (missing.length > 0) {
+    throw new ImportError(`Missing required column(s): ${missing.join(", ")}`);
+  }
+  if (lines.length > MAX_IMPORT_ROWS) {
+    throw new ImportError(`A single import can contain at most ${MAX_IMPORT_ROWS} rows`);
+  }
+
+  // Our own exports guard formula-like cells with an apostrophe; anyone
+  // else's file is taken as it is
+  const exported = columns.join(",") === exportColumns.join(",");
+
+  return lines.map((line, index) => {
+    const value = (name: string) => {
+      const position = columns.indexOf(name);
+      const cell = position === -1 ? "" : (line[position] ?? "");
+      return (exported ? unescapeFormula(cell) : cell).trim();
+    };
+
+    const result = createContentItemSchema.safeParse({
+      title: value("title"),
+      description: value("description") || null,
+      platform: value("platform").toLowerCase(),
+      scheduledDate: value("date"),
+      status: importedStatus(value("status")),
+    });
+
+    return result.success
+      ? { row: index + 2, data: result.data, errors: [] }
+      : { row: index + 2, errors: result.error.issues.map(formatIssue) };
+  });
+}
@@ -0,0 +1,155 @@
+import { afterAll, beforeAll, describe, expect, it } from "vitest";
+import type { ContentItem, ContentPieceWithVariants } from "@shared/schema";
+import { startTestApp, type TestApp } from "./test-app";
+
+describe("content variants", () => {
+  let app: TestApp;
+
+  beforeAll(async () => {
+    app = await startTestApp();
+  });
+
+  afterAll(() => {
+    app.close();
+  });
+
+  async function create(user: string, fields: object = {}): Promise<ContentItem> {
+    const res = await app.request(user, "POST", "/api/content", {
+      title: "Launch announcement",
+      platform: "social",
+      scheduledDate: "2030-01-15T09:00:00Z",
+      status: "draft",
+      ...fields,
+    });
+    expect(res.status).toBe(201);
+    return res.json();
+  }
+
+  const addVariant = (user: string, item: ContentItem, fields: object, workspaceId?: string) =>
+    app.request(user, "POST", `/api/content/${item.id}/variants`, {
+      title: "We launched",
+      scheduledDate: "2030-01-15T12:00:00Z",
+      status: "draft",
+      ...fields,
+    }, workspaceId);
+
+  async function piece(user: string, id: string): Promise<ContentPieceWithVariants> {
+    const res = await app.request(user, "GET", `/api/pieces/${id}`);
+    expect(res.status).toBe(200);
+    return res.json();
+  }
+
+  it("makes the first variant and its source one piece, named after the source", async () => {
+    const source = await create("variants-create");
+    const res = await addVariant("variants-create", source, { platform: "email", description: "Read all about it" });
+    expect(res.status).toBe(201);
+    const variant: ContentItem = await res.json();
+    expect(variant).toMatchObject({ platform: "email", title: "We launched", status: "draft" });
+    expect(variant.pieceId).toBeTruthy();
+
+    // A variant of a variant joins the same piece
+    const blog: ContentItem = await (await addVariant("variants-create", variant, { platform: "blog" })).json();
+    expect(blog.pieceId).toBe(variant.pieceId);
+
+    const created = await piece("variants-create", variant.pieceId!);
+    expect(created.title).toBe("Launch announcement");
+    expect(created.variants.map((item) => [item.platform, item.id])).toEqual([
+      ["social", source.id],
+      ["email", variant.id],
+      ["blog", blog.id],
+    ]);
+  });
+
+  it.each([
+    { name: "the source's platform", platform: "social", status: 409 },
+    { name: "an unknown platform", platform: "fax", status: 400 },
+  ])("refuses a variant for $name", async ({ platform, status }) => {
+    const source = await create("variants-refused");
+    expect((await addVariant("variants-refused", source, { platform })).status).toBe(status);
+  });
+
+  it("allows one variant per platform", async () => {
+    const source = await create("variants-taken");
+    expect((await addVariant("variants-taken", source, { platform: "email" })).status).toBe(201);
+    const res = await addVariant("variants-taken", source, { platform: "email" });
+    expect(res.status).toBe(409);
+    expect(await res.json()).toEqual({ message: "This post already has a variant for email" });
+  });
+
+  it("refuses variants of recurring content", async () => {
+    const series = await create("variants-series", { recurrence: "FREQ=WEEKLY", timeZone: "UTC" });
+    expect((await addVariant("variants-series", series, { platform: "email" })).status).toBe(400);
+  });
+
+  it("edits a variant's copy, time and status on their own", async () => {
+    const source = await create("variants-update");
+    const variant: ContentItem = await (await addVariant("variants-update", source, { platform: "email" })).json();
+
+    const res = await app.request("variants-update", "PUT", `/api/content/${variant.id}`, {
+      title: "Newsletter: we launched",
+      scheduledDate: "2030-01-16T08:00:00Z",
+    });
+    expect(res.status).toBe(200);
+    expect(await res.json()).toMatchObject({ title: "Newsletter: we launched", scheduledDate: "2030-01-16T08:00:00.000Z" });
+    const status = await app.request("variants-update", "POST", `/api/content/${variant.id}/status`, { status: "in_review" });
+    expect(status.status).toBe(200);
+
+    const { variants } = await piece("variants-update", variant.pieceId!);
+    expect(variants.map((item) => [item.title, item.status, item.scheduledDate])).toEqual([
+      ["Launch announcement", "draft", "2030-01-15T09:00:00.000Z"],
+      ["Newsletter: we launched", "in_review", "2030-01-16T08:00:00.000Z"],
+    ]);
+  });
+
+  it("keeps a variant off a platform its piece already covers", async () => {
+    const source = await create("variants-platform");
+    const variant: ContentItem = await (await addVariant("variants-platform", source, { platform: "email" })).json();
+
+    const res = await app.request("variants-platform", "PUT", `/api/content/${variant.id}`, { platform: "social" });
+    expect(res.status).toBe(409);
+    expect((await app.request("variants-platform", "PUT", `/api/content/${variant.id}`, { platform: "blog" })).status).toBe(200);
+  });
+
+  it("renames a piece", async () => {
+    const source = await create("variants-rename");
+    const variant: ContentItem = await (await addVariant("variants-rename", source, { platform: "email" })).json();
+
+    const res = await app.request("variants-rename", "PATCH", `/api/pieces/${variant.pieceId}`, { title: "Spring launch" });
+    expect(res.status).toBe(200);
+    expect((await piece("variants-rename", variant.pieceId!)).title).toBe("Spring launch");
+    expect((await app.request("variants-rename", "PATCH", `/api/pieces/${variant.pieceId}`, { title: " " })).status).toBe(400);
+  });
+
+  it("deletes variants one at a time, and the piece with the last one", async () => {
+    const source = await create("variants-delete");
+    const variant: ContentItem = await (await addVariant("variants-delete", source, { platform: "email" })).json();
+
+    expect((await app.request("variants-delete", "DELETE", `/api/content/${variant.id}`)).status).toBe(204);
+    expect((await piece("variants-delete", variant.pieceId!)).variants.map((item) => item.id)).toEqual([source.id]);
+
+    expect((await app.request("variants-delete", "DELETE", `/api/content/${source.id}`)).status).toBe(204);
+    expect((await app.request("variants-delete", "GET", `/api/pieces/${variant.pieceId}`)).status).toBe(404);
+  });
+
+  it("keeps pieces and their variants to their workspace", async () => {
+    const source = await create("variants-owner");
+    const variant: ContentItem = await (await addVariant("variants-owner", source, { platform: "email" })).json();
+    // Signs the outsider up, with a workspace of their own
+    await create("variants-outsider");
+
+    expect((await app.request("variants-outsider", "GET", `/api/pieces/${variant.pieceId}`)).status).toBe(404);
+    expect((await app.request("variants-outsider", "PATCH", `/api/pieces/${variant.pieceId}`, { title: "Mine now" })).status).toBe(404);
+    expect((await addVariant("variants-outsider", source, { platform: "blog" })).status).toBe(404);
+    expect((await app.request("variants-outsider", "PUT", `/api/content/${variant.id}`, { title: "Mine now" })).status).toBe(404);
+    expect((await app.request("variants-outsider", "DELETE", `/api/content/${variant.id}`)).status).toBe(404);
+    // Naming the other workspace doesn't get them in either
+    expect((await addVariant("variants-outsider", source, { platform: "blog" }, source.workspaceId)).status).toBe(404);
+
+    const untouched = await piece("variants-owner", variant.pieceId!);
+    expect(untouched.title).toBe("Launch announcement");
+    expect(untouched.variants.map((item) => [item.platform, item.title])).toEqual([
+      ["social", "Launch announcement"],
+      ["email", "We launched"],
+    ]);
+  });
+});
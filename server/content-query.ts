@@ -0,0 +1,64 @@
+import type { ContentFilter, ContentItem, ContentSort } from "@shared/schema";
+
+export type SortField = "scheduledDate" | "createdAt" | "updatedAt" | "title";
+
+export class InvalidCursorError extends Error {
+  constructor() {
+    super("Invalid cursor");
+  }
+}
+
+export function parseSort(sort: ContentSort = "scheduledDate"): { field: SortField; descending: boolean } {
+  return sort.startsWith("-")
+    ? { field: sort.slice(1) as SortField, descending: true }
+    : { field: sort as SortField, descending: false };
+}
+
+// Keyset pagination: the cursor holds the sort value and id of the last item
+// on the page, so inserts and deletes never shift later pages.
+export interface Cursor {
+  value: Date | string;
+  id: string;
+}
+
+export function encodeCursor(item: ContentItem, field: SortField): string {
+  const value = item[field];
+  return Buffer.from(JSON.stringify([value instanceof Date ? value.toISOString() : value, item.id])).toString("base64url");
+}
+
+export function decodeCursor(cursor: string, field: SortField): Cursor {
+  try {
+    const [value, id] = JSON.parse(Buffer.from(cursor, "base64url").toString("utf8"));
+    if (typeof value !== "string" || typeof id !== "string") throw new InvalidCursorError();
+    if (field === "title") return { value, id };
+
+    const date = new Date(value);
+    if (isNaN(date.getTime())) throw new InvalidCursorError();
+    return { value: date, id };
+  } catch {
+    throw new InvalidCursorError();
+  }
+}
+
+// In-memory equivalent of the SQL filters, for MemStorage
+export function matchesFilter(item: ContentItem, filter: ContentFilter): boolean {
+  const search = filter.q?.toLowerCase();
+  return (!filter.from || item.scheduledDate >= filter.from) &&
+    (!filter.to || item.scheduledDate <= filter.to) &&
+    (!filter.platform || (filter.platform as string[]).includes(item.platform)) &&
+    (!filter.status || (filter.status as string[]).includes(item.status)) &&
+    (!search ||
+      item.title.toLowerCase().includes(search) ||
+      (item.description?.toLowerCase().includes(search) ?? false) ||
+      item.tags.some((tag) => tag.toLowerCase().includes(search)));
+}
+
+// Orders by the sort field, then id so ties have a stable order
+export function compareItems(a: ContentItem, b: ContentItem | Cursor, field: SortField): number {
+  const left = a[field];
+  const right = "value" in b ? b.value : b[field];
+  const byField = left instanceof Date && right instanceof Date
+    ? left.getTime() - right.getTime()
+    : String(left).localeCompare(String(right));
+  return byField !== 0 ? byField : a.id.localeCompare(b.id);
+}
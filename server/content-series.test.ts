@@ -0,0 +1,218 @@
+import { afterAll, beforeAll, beforeEach, describe, expect, it } from "vitest";
+import { parseRecurrence } from "@shared/recurrence";
+import type { ContentItem } from "@shared/schema";
+import { MemStorage, storage as appStorage } from "./storage";
+import { startTestApp, type TestApp } from "./test-app";
+import { expandOccurrences } from "./recurrence";
+import {
+  dueOccurrences,
+  expandSeries,
+  inheritedStatus,
+  isPendingOccurrence,
+  occurrenceItem,
+  splitRecurrence,
+} from "./content-series";
+
+const DAY = 24 * 60 * 60 * 1000;
+const start = new Date("2030-01-07T09:00:00Z"); // a Monday
+const year = { from: start, to: new Date("2030-12-31T00:00:00Z") };
+
+let storage: MemStorage;
+let workspaceId: string;
+
+beforeEach(async () => {
+  storage = new MemStorage();
+  workspaceId = (await storage.createWorkspace("owner", null, { name: "Team" })).id;
+});
+
+function createSeries(recurrence: string, timeZone = "UTC") {
+  return storage.createContentItem(workspaceId, "owner", {
+    title: "Motivation Monday",
+    platform: "social",
+    scheduledDate: start,
+    status: "scheduled",
+    recurrence,
+    timeZone,
+  } as Parameters<MemStorage["createContentItem"]>[2]);
+}
+
+const dates = (items: ContentItem[]) => items.map((item) => item.scheduledDate.toISOString());
+
+describe("splitRecurrence", () => {
+  // Splitting at the third occurrence of each
+  it.each([
+    { rule: "FREQ=WEEKLY;COUNT=5", before: "FREQ=WEEKLY;COUNT=2", after: "FREQ=WEEKLY;COUNT=3" },
+    { rule: "FREQ=WEEKLY;BYDAY=MO,TH;COUNT=6", before: "FREQ=WEEKLY;BYDAY=MO,TH;COUNT=2", after: "FREQ=WEEKLY;BYDAY=MO,TH;COUNT=4" },
+    { rule: "FREQ=WEEKLY;UNTIL=20300204", before: "FREQ=WEEKLY;UNTIL=20300121T085959Z", after: "FREQ=WEEKLY;UNTIL=20300204T235959Z" },
+  ])("splits $rule without losing or repeating an occurrence", async ({ rule, before, after }) => {
+    const series = await createSeries(rule);
+    const [, , third] = expandOccurrences(parseRecurrence(rule), start, "UTC", year);
+    const rules = splitRecurrence(series, third);
+    expect(rules).toEqual({ before, after });
+
+    const all = expandOccurrences(parseRecurrence(rule), start, "UTC", year);
+    const split = [
+      ...expandOccurrences(parseRecurrence(rules.before), start, "UTC", year),
+      ...expandOccurrences(parseRecurrence(rules.after), third, "UTC", year),
+    ];
+    expect(split).toEqual(all);
+  });
+});
+
+describe("occurrence exceptions", () => {
+  it("leaves detached and cancelled occurrences out of the series", async () => {
+    const series = await createSeries("FREQ=WEEKLY;COUNT=4");
+    const second = new Date(start.getTime() + 7 * DAY);
+    const third = new Date(start.getTime() + 14 * DAY);
+
+    const detached = await storage.detachOccurrence(
+      workspaceId,
+      "owner",
+      series.id,
+      second,
+      { ...occurrenceItem(series, second), title: "Special edition" },
+      inheritedStatus(series),
+    );
+    expect(detached).toMatchObject({ seriesId: series.id, occurrenceDate: second, title: "Special edition", status: "scheduled", recurrence: null });
+    expect(await storage.cancelOccurrence(workspaceId, series.id, third)).toBe(true);
+
+    const occurrences = await expandSeries(storage, workspaceId, year);
+    expect(dates(occurrences)).toEqual([start.toISOString(), new Date(start.getTime() + 21 * DAY).toISOString()]);
+    expect(await isPendingOccurrence(storage, series, second)).toBe(false);
+    expect(await isPendingOccurrence(storage, series, third)).toBe(false);
+    // Not an occurrence of the rule at all
+    expect(await isPendingOccurrence(storage, series, new Date(start.getTime() + DAY))).toBe(false);
+  });
+
+  it("moves later exceptions to the new series when splitting", async () => {
+    const series = await createSeries("FREQ=WEEKLY;COUNT=4");
+    const third = new Date(start.getTime() + 14 * DAY);
+    const fourth = new Date(start.getTime() + 21 * DAY);
+    await storage.cancelOccurrence(workspaceId, series.id, fourth);
+
+    const rules = splitRecurrence(series, third);
+    const next = await storage.splitSeries(workspaceId, "owner", series.id, third, rules.before, {
+      ...occurrenceItem(series, third),
+      title: "New format",
+      recurrence: rules.after,
+      timeZone: "UTC",
+    });
+
+    const occurrences = await expandSeries(storage, workspaceId, year);
+    expect(occurrences.map((item) => [item.id, item.title, item.scheduledDate.toISOString()])).toEqual([
+      [series.id, "Motivation Monday", start.toISOString()],
+      [series.id, "Motivation Monday", new Date(start.getTime() + 7 * DAY).toISOString()],
+      [next!.id, "New format", third.toISOString()],
+    ]);
+    expect(await storage.getContentExceptions([next!.id])).toEqual([expect.objectContaining({ occurrenceDate: fourth })]);
+  });
+});
+
+describe("dueOccurrences", () => {
+  it("lists occurrences due since the last check, minus exceptions", async () => {
+    const series = await createSeries("FREQ=DAILY");
+    await storage.updateContentStatus(workspaceId, series.id, "scheduled", { status: "scheduled", materializedUntil: start });
+    await storage.cancelOccurrence(workspaceId, series.id, new Date(start.getTime() + 2 * DAY));
+
+    const due = await dueOccurrences(storage, (await storage.getContentItem(workspaceId, series.id))!, new Date(start.getTime() + 3 * DAY));
+    // The start itself was already checked
+    expect(due).toEqual([new Date(start.getTime() + DAY), new Date(start.getTime() + 3 * DAY)]);
+  });
+
+  it("lists nothing for a series that was never scheduled", async () => {
+    const series = await createSeries("FREQ=DAILY");
+    expect(await dueOccurrences(storage, series, new Date(start.getTime() + 3 * DAY))).toEqual([]);
+  });
+});
+
+describe("occurrence routes", () => {
+  // Weekly at 9:00 in Berlin, starting Monday 2030-03-18: the third
+  // occurrence comes after the change to summer time
+  const first = "2030-03-18T08:00:00.000Z";
+  const second = "2030-03-25T08:00:00.000Z";
+  const third = "2030-04-01T07:00:00.000Z";
+  const fourth = "2030-04-08T07:00:00.000Z";
+  let app: TestApp;
+
+  beforeAll(async () => {
+    app = await startTestApp();
+  });
+
+  afterAll(() => {
+    app.close();
+  });
+
+  async function createSeriesAs(user: string): Promise<ContentItem> {
+    // Premium, so a year of occurrences isn't over the free quota
+    await appStorage.saveSubscription({
+      id: `I-${user}`,
+      userId: user,
+      planId: "P-1",
+      status: "active",
+      startedAt: new Date(first),
+      currentPeriodEnd: null,
+    });
+    const res = await app.request(user, "POST", "/api/content", {
+      title: "Motivation Monday",
+      platform: "social",
+      scheduledDate: first,
+      status: "draft",
+      recurrence: "FREQ=WEEKLY;COUNT=4",
+      timeZone: "Europe/Berlin",
+    });
+    expect(res.status).toBe(201);
+    return res.json();
+  }
+
+  async function calendar(user: string): Promise<Array<{ title: string; scheduledDate: string }>> {
+    const res = await app.request(user, "GET", "/api/content?from=2030-03-01T00:00:00Z&to=2030-05-01T00:00:00Z");
+    const items = await res.json();
+    return items.map(({ title, scheduledDate }: ContentItem) => ({ title, scheduledDate }));
+  }
+
+  it("lists occurrences at the same local time across DST", async () => {
+    await createSeriesAs("dst");
+    expect((await calendar("dst")).map((item) => item.scheduledDate)).toEqual([first, second, third, fourth]);
+  });
+
+  it("detaches one occurrence and cancels another", async () => {
+    const series = await createSeriesAs("editor");
+
+    const detached = await app.request("editor", "PUT", `/api/content/${series.id}/occurrences/${second}`, { scope: "this", title: "Special edition" });
+    expect(detached.status).toBe(200);
+    expect(await detached.json()).toMatchObject({ seriesId: series.id, occurrenceDate: second, title: "Special edition" });
+    // It isn't an occurrence of the series any more
+    expect((await app.request("editor", "PUT", `/api/content/${series.id}/occurrences/${second}`, { scope: "this", title: "Again" })).status).toBe(404);
+
+    expect((await app.request("editor", "DELETE", `/api/content/${series.id}/occurrences/${third}?scope=this`)).status).toBe(204);
+
+    expect(await calendar("editor")).toEqual([
+      { title: "Motivation Monday", scheduledDate: first },
+      { title: "Special edition", scheduledDate: second },
+      { title: "Motivation Monday", scheduledDate: fourth },
+    ]);
+  });
+
+  it("splits a counted series at this and following", async () => {
+    const series = await createSeriesAs("splitter");
+
+    const res = await app.request("splitter", "PUT", `/api/content/${series.id}/occurrences/${third}`, { scope: "following", title: "New format" });
+    expect(res.status).toBe(200);
+    expect(await res.json()).toMatchObject({ recurrence: "FREQ=WEEKLY;COUNT=2", scheduledDate: third, timeZone: "Europe/Berlin" });
+    expect((await appStorage.getContentItem(series.workspaceId, series.id))?.recurrence).toBe("FREQ=WEEKLY;COUNT=2");
+
+    expect(await calendar("splitter")).toEqual([
+      { title: "Motivation Monday", scheduledDate: first },
+      { title: "Motivation Monday", scheduledDate: second },
+      { title: "New format", scheduledDate: third },
+      { title: "New format", scheduledDate: fourth },
+    ]);
+  });
+
+  it("ends a series at a deleted occurrence and the ones after it", async () => {
+    const series = await createSeriesAs("trimmer");
+
+    expect((await app.request("trimmer", "DELETE", `/api/content/${series.id}/occurrences/${third}?scope=following`)).status).toBe(204);
+    expect((await calendar("trimmer")).map((item) => item.scheduledDate)).toEqual([first, second]);
+  });
+});
@@ -0,0 +1,134 @@
+import { formatRecurrence, parseRecurrence } from "@shared/recurrence";
+import type { ContentException, ContentFilter, ContentItem, ContentQuery, InsertContentItem } from "@shared/schema";
+import type { ContentStatus } from "@shared/workflow";
+import type { ContentStatusChange, IStorage } from "./storage";
+import { compareItems, parseSort } from "./content-query";
+import { countOccurrencesBefore, expandOccurrences } from "./recurrence";
+
+// A series is stored once, as an item with a recurrence rule. Its
+// occurrences are computed on read: they carry the series' id, with
+// occurrenceDate set to their own start. An occurrence that is edited or
+// published becomes an item of its own and an exception on the series.
+
+type DateRange = { from: Date; to: Date };
+
+function timeZoneOf(series: ContentItem): string {
+  return series.timeZone ?? "UTC";
+}
+
+function exceptionKey(seriesId: string, date: Date): string {
+  return `${seriesId}@${date.getTime()}`;
+}
+
+export function occurrenceOf(series: ContentItem, date: Date): ContentItem {
+  return { ...series, scheduledDate: date, occurrenceDate: date };
+}
+
+// Occurrences of the matching series inside the range, minus exceptions
+export async function expandSeries(storage: IStorage, workspaceId: string, filter: ContentFilter & DateRange): Promise<ContentItem[]> {
+  const series = await storage.getContentSeries(workspaceId, filter);
+  const exceptions = await storage.getContentExceptions(series.map((item) => item.id));
+  const skipped = new Set(exceptions.map((exception) => exceptionKey(exception.seriesId, exception.occurrenceDate)));
+
+  return series.flatMap((item) =>
+    expandOccurrences(parseRecurrence(item.recurrence!), item.scheduledDate, timeZoneOf(item), filter)
+      .filter((date) => !skipped.has(exceptionKey(item.id, date)))
+      .map((date) => occurrenceOf(item, date)),
+  );
+}
+
+// How many occurrences of the series fall inside the range, minus their
+// exceptions and any `skipped` besides
+export async function countOccurrences(
+  storage: IStorage,
+  series: ContentItem[],
+  range: DateRange,
+  skipped: Pick<ContentException, "seriesId" | "occurrenceDate">[] = [],
+): Promise<number> {
+  if (series.length === 0) return 0;
+  const exceptions = await storage.getContentExceptions(series.map((item) => item.id));
+  const skip = new Set([...exceptions, ...skipped].map((exception) => exceptionKey(exception.seriesId, exception.occurrenceDate)));
+
+  return series.reduce(
+    (count, item) =>
+      count +
+      expandOccurrences(parseRecurrence(item.recurrence!), item.scheduledDate, timeZoneOf(item), range)
+        .filter((date) => !skip.has(exceptionKey(item.id, date))).length,
+    0,
+  );
+}
+
+// A page of stored items with every series swapped for its occurrences in
+// the range, re-sorted as the query asked
+export async function withOccurrences(
+  storage: IStorage,
+  workspaceId: string,
+  items: ContentItem[],
+  query: Partial<ContentQuery> & DateRange,
+): Promise<ContentItem[]> {
+  const occurrences = await expandSeries(storage, workspaceId, query);
+  const { field, descending } = parseSort(query.sort);
+  return [...items.filter((item) => !item.recurrence), ...occurrences]
+    .sort((a, b) => compareItems(a, b, field) * (descending ? -1 : 1));
+}
+
+// True if the series has an occurrence starting at `date` that still
+// follows the rule
+export async function isPendingOccurrence(storage: IStorage, series: ContentItem, date: Date): Promise<boolean> {
+  const [match] = expandOccurrences(parseRecurrence(series.recurrence!), series.scheduledDate, timeZoneOf(series), { from: date, to: date });
+  if (!match) return false;
+  const exceptions = await storage.getContentExceptions([series.id]);
+  return !exceptions.some((exception) => exception.occurrenceDate.getTime() === date.getTime());
+}
+
+// The fields an occurrence takes from its series
+export function occurrenceItem(series: ContentItem, date: Date): InsertContentItem {
+  return {
+    title: series.title,
+    description: series.description,
+    platform: series.platform as InsertContentItem["platform"],
+    scheduledDate: date,
+    status: series.status as ContentStatus,
+    destinationId: series.destinationId,
+    tags: series.tags,
+  };
+}
+
+// Occurrences share their series' place in the workflow, sign-off included
+export function inheritedStatus(series: ContentItem): ContentStatusChange {
+  return {
+    status: series.status as ContentStatus,
+    approvedBy: series.approvedBy,
+    approvedAt: series.approvedAt,
+    reviewNote: series.reviewNote,
+    materializedUntil: series.materializedUntil,
+  };
+}
+
+// Rules for a series cut off before `date`, and for its continuation from
+// there. Counted series share their count between the two.
+export function splitRecurrence(series: ContentItem, date: Date): { before: string; after: string } {
+  const rule = parseRecurrence(series.recurrence!);
+  if (rule.count) {
+    const done = countOccurrencesBefore(rule, series.scheduledDate, timeZoneOf(series), date);
+    return {
+      before: formatRecurrence({ ...rule, count: done }),
+      after: formatRecurrence({ ...rule, count: rule.count - done }),
+    };
+  }
+  return {
+    before: formatRecurrence({ ...rule, until: new Date(date.getTime() - 1000) }),
+    after: formatRecurrence(rule),
+  };
+}
+
+// Occurrences of a scheduled series that came due since it was last
+// checked, ready to be detached and published
+export async function dueOccurrences(storage: IStorage, series: ContentItem, now: Date): Promise<Date[]> {
+  if (!series.materializedUntil) return [];
+  const from = new Date(series.materializedUntil.getTime() + 1);
+  const exceptions = await storage.getContentExceptions([series.id]);
+  const skipped = new Set(exceptions.map((exception) => exception.occurrenceDate.getTime()));
+  return expandOccurrences(parseRecurrence(series.recurrence!), series.scheduledDate, timeZoneOf(series), { from, to: now })
+    .filter((date) => !skipped.has(date.getTime()));
+}
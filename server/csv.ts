@@ -0,0 +1,70 @@
+// Minimal RFC 4180 CSV reading and writing: quoted fields, escaped quotes,
+// embedded commas and newlines, CRLF or LF line endings.
+
+// Spreadsheets run cells starting with these as formulas, so written cells
+// get a leading apostrophe. The reader leaves it: in a file from elsewhere,
+// "'@handle" may well be meant.
+const formulaStart = /^[=+\-@\t\r]/;
+
+export function parseCsv(text: string): string[][] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = "";
+  let inQuotes = false;
+
+  // Excel likes to prepend a byte order mark
+  const input = text.charCodeAt(0) === 0xfeff ? text.slice(1) : text;
+
+  for (let i = 0; i < input.length; i++) {
+    const char = input[i];
+
+    if (inQuotes) {
+      if (char === '"') {
+        if (input[i + 1] === '"') {
+          field += '"';
+          i++;
+        } else {
+          inQuotes = false;
+        }
+      } else {
+        field += char;
+      }
+    } else if (char === '"') {
+      inQuotes = true;
+    } else if (char === ",") {
+      row.push(field);
+      field = "";
+    } else if (char === "\n" || char === "\r") {
+      if (char === "\r" && input[i + 1] === "\n") i++;
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = "";
+    } else {
+      field += char;
+    }
+  }
+
+  if (field !== "" || row.length > 0) {
+    row.push(field);
+    rows.push(row);
+  }
+
+  // Blank lines carry no data
+  return rows.filter((r) => r.some((value) => value.trim() !== ""));
+}
+
+// Takes off the apostrophe toCsv put in front of a formula-like cell. Only
+// for files known to come from toCsv.
+export function unescapeFormula(value: string): string {
+  return value.startsWith("'") && formulaStart.test(value.slice(1)) ? value.slice(1) : value;
+}
+
+function escapeField(field: string): string {
+  const value = formulaStart.test(field) ? `'${field}` : field;
+  return /[",\r\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+}
+
+export function toCsv(rows: string[][]): string {
+  return rows.map((row) => row.map(escapeField).join(",")).join("\r\n") + "\r\n";
+}
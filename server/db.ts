@@ -0,0 +1,19 @@
+import { Pool, neonConfig } from "@neondatabase/serverless";
+import { drizzle } from "drizzle-orm/neon-serverless";
+import type { PgDatabase, PgQueryResultHKT } from "drizzle-orm/pg-core";
+import ws from "ws";
+import * as schema from "@shared/schema";
+
+neonConfig.webSocketConstructor = ws;
+
+// Only connect when a database is provisioned; storage falls back to
+// MemStorage otherwise.
+export const pool = process.env.DATABASE_URL
+  ? new Pool({ connectionString: process.env.DATABASE_URL })
+  : null;
+
+export const db = pool ? drizzle({ client: pool, schema }) : null;
+
+// Any Drizzle Postgres driver (neon, node-postgres, pglite) satisfies this,
+// so DbStorage can run against an in-process database as well.
+export type Database = PgDatabase<PgQueryResultHKT, typeof schema>;
@@ -0,0 +1,106 @@
+import express from "express";
+import type { AddressInfo } from "net";
+import { afterAll, beforeAll, describe, expect, it } from "vitest";
+import { premiumFeatures, type PremiumPlan, type SubscriptionStatus } from "@shared/schema";
+import { PREMIUM_PLAN_ID } from "./billing";
+import { getEntitlements, requireFeature } from "./entitlements";
+import { MemStorage, storage } from "./storage";
+import { startTestApp } from "./test-app";
+
+const now = new Date("2030-01-15T12:00:00Z");
+const before = new Date("2030-01-10T00:00:00Z");
+const after = new Date("2030-02-10T00:00:00Z");
+
+function subscribe(source: MemStorage, userId: string, status: SubscriptionStatus, currentPeriodEnd: Date | null = null, id = `I-${userId}`) {
+  return source.saveSubscription({ id, userId, planId: PREMIUM_PLAN_ID, status, startedAt: new Date("2029-12-01T00:00:00Z"), currentPeriodEnd });
+}
+
+describe("getEntitlements", () => {
+  it.each([
+    { name: "no subscription", status: undefined, periodEnd: null, plan: "free" },
+    { name: "an active subscription", status: "active", periodEnd: after, plan: "premium" },
+    // PayPal is still retrying the payment
+    { name: "a past-due subscription", status: "past_due", periodEnd: before, plan: "premium" },
+    { name: "a cancelled subscription in its paid period", status: "cancelled", periodEnd: after, plan: "premium" },
+    { name: "a cancelled subscription after its paid period", status: "cancelled", periodEnd: before, plan: "free" },
+    { name: "a cancelled subscription without a period end", status: "cancelled", periodEnd: null, plan: "free" },
+    { name: "a suspended subscription", status: "suspended", periodEnd: after, plan: "free" },
+    { name: "a pending subscription", status: "pending", periodEnd: null, plan: "free" },
+    { name: "an expired subscription", status: "expired", periodEnd: before, plan: "free" },
+  ] as const)("gives $plan for $name", async ({ status, periodEnd, plan }) => {
+    const source = new MemStorage();
+    if (status) await subscribe(source, "user", status, periodEnd);
+
+    const entitlements = await getEntitlements("user", now, source);
+    expect(entitlements.plan).toBe(plan);
+    expect(entitlements.features).toEqual(plan === "premium" ? [...premiumFeatures] : []);
+    expect(entitlements.subscription?.status).toBe(status);
+  });
+
+  it("takes Premium from whichever subscription grants it", async () => {
+    const source = new MemStorage();
+    await subscribe(source, "user", "suspended", null, "I-old");
+    await subscribe(source, "user", "active", after, "I-new");
+
+    const entitlements = await getEntitlements("user", now, source);
+    expect(entitlements.plan).toBe("premium");
+    expect(entitlements.subscription?.id).toBe("I-new");
+  });
+});
+
+describe("requireFeature", () => {
+  let baseUrl: string;
+  let close: () => void;
+
+  // The caller is named in a header, standing in for requireAuth
+  beforeAll(async () => {
+    const app = express();
+    app.use((req, _res, next) => {
+      req.auth = { uid: req.header("x-user")! };
+      next();
+    });
+    app.get("/analytics", requireFeature("analytics"), (_req, res) => res.json({ ok: true }));
+    const server = app.listen(0);
+    await new Promise((resolve) => server.once("listening", resolve));
+    baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+    close = () => server.close();
+
+    const periodEnd = new Date(Date.now() + 30 * 24 * 60 * 60 * 1000);
+    const ended = new Date(Date.now() - 24 * 60 * 60 * 1000);
+    await subscribe(storage, "feature-premium", "active", periodEnd);
+    await subscribe(storage, "feature-past-due", "past_due", ended);
+    await subscribe(storage, "feature-cancelled", "cancelled", periodEnd);
+    await subscribe(storage, "feature-lapsed", "cancelled", ended);
+    await subscribe(storage, "feature-suspended", "suspended", periodEnd);
+  });
+
+  afterAll(() => close());
+
+  it.each([
+    { user: "feature-free", status: 402 },
+    { user: "feature-premium", status: 200 },
+    { user: "feature-past-due", status: 200 },
+    { user: "feature-cancelled", status: 200 },
+    { user: "feature-lapsed", status: 402 },
+    { user: "feature-suspended", status: 402 },
+  ])("answers $status to $user", async ({ user, status }) => {
+    const res = await fetch(`${baseUrl}/analytics`, { headers: { "x-user": user } });
+    expect(res.status).toBe(status);
+    if (status === 402) {
+      expect(await res.json()).toEqual({ message: "This feature requires a Premium subscription", feature: "analytics" });
+    }
+  });
+});
+
+describe("premium plan route", () => {
+  it("tells the checkout which PayPal plan to use", async () => {
+    const app = await startTestApp();
+    try {
+      const res = await app.request("buyer", "GET", "/api/subscriptions/plan");
+      const plan: PremiumPlan = await res.json();
+      expect(plan).toEqual({ planId: PREMIUM_PLAN_ID });
+    } finally {
+      app.close();
+    }
+  });
+});
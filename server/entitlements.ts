@@ -0,0 +1,37 @@
+import type { Request, Response, NextFunction, RequestHandler } from "express";
+import { premiumFeatures, type Entitlements, type PremiumFeature, type Subscription } from "@shared/schema";
+import { storage, type IStorage } from "./storage";
+
+// A subscription grants Premium while it's active or PayPal is still retrying
+// a failed payment, and after cancellation until the end of the period that
+// was paid for. Suspended subscriptions (retries exhausted) grant nothing.
+export function grantsPremium(subscription: Subscription, now: Date): boolean {
+  if (subscription.status === "active" || subscription.status === "past_due") return true;
+  return subscription.status === "cancelled" && !!subscription.currentPeriodEnd && subscription.currentPeriodEnd > now;
+}
+
+export async function getEntitlements(userId: string, now: Date = new Date(), source: IStorage = storage): Promise<Entitlements> {
+  const subscriptions = await source.getSubscriptionsForUser(userId);
+  const current = subscriptions.find((subscription) => grantsPremium(subscription, now));
+  return {
+    plan: current ? "premium" : "free",
+    subscription: current ?? subscriptions[0] ?? null,
+    features: current ? [...premiumFeatures] : [],
+  };
+}
+
+// Rejects the request unless the caller's own plan includes the feature
+export function requireFeature(feature: PremiumFeature): RequestHandler {
+  return async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const { features } = await getEntitlements(req.auth!.uid);
+      if (!features.includes(feature)) {
+        return res.status(402).json({ message: "This feature requires a Premium subscription", feature });
+      }
+      next();
+    } catch (error) {
+      console.error("Error checking entitlements:", error);
+      res.status(500).json({ message: "Failed to check entitlements" });
+    }
+  };
+}
@@ -0,0 +1,160 @@
+import { describe, expect, it } from "vitest";
+import type { ContentItem } from "@shared/schema";
+import { inheritedStatus, occurrenceItem, withOccurrences } from "./content-series";
+import { toICalendar } from "./ics";
+import { MemStorage } from "./storage";
+
+const options = { name: "Team calendar", uidDomain: "planner.example" };
+
+function item(fields: Partial<ContentItem> = {}): ContentItem {
+  return {
+    id: "item-1",
+    title: "Launch",
+    description: null,
+    platform: "social",
+    scheduledDate: new Date("2030-01-15T09:00:00.250Z"),
+    status: "scheduled",
+    occurrenceDate: null,
+    seriesId: null,
+    updatedAt: new Date("2030-01-10T12:00:00Z"),
+    ...fields,
+  } as ContentItem;
+}
+
+// The feed's lines with folding undone
+function unfold(feed: string): string[] {
+  return feed.replace(/\r\n /g, "").split("\r\n").slice(0, -1);
+}
+
+function property(feed: string, name: string): string[] {
+  return unfold(feed).filter((line) => line.startsWith(`${name}:`)).map((line) => line.slice(name.length + 1));
+}
+
+describe("toICalendar", () => {
+  it("ends every line with CRLF", () => {
+    const feed = toICalendar([item({ description: "First line\nsecond line\r\nthird" })], options);
+    expect(feed.endsWith("END:VCALENDAR\r\n")).toBe(true);
+    expect(feed.replace(/\r\n/g, "")).not.toMatch(/[\r\n]/);
+  });
+
+  it("writes an event per item, in UTC without milliseconds", () => {
+    const feed = toICalendar([item()], options);
+    expect(unfold(feed)).toEqual([
+      "BEGIN:VCALENDAR",
+      "VERSION:2.0",
+      "PRODID:-//Content Planner//Content Calendar//EN",
+      "CALSCALE:GREGORIAN",
+      "METHOD:PUBLISH",
+      "X-WR-CALNAME:Team calendar",
+      "BEGIN:VEVENT",
+      "UID:item-1@planner.example",
+      "DTSTAMP:20300110T120000Z",
+      "DTSTART:20300115T090000Z",
+      "DTEND:20300115T093000Z",
+      "LAST-MODIFIED:20300110T120000Z",
+      "SUMMARY:[Social] Launch",
+      "DESCRIPTION:Status: Scheduled\\nPlatform: Social",
+      "CATEGORIES:Social,Scheduled",
+      "STATUS:CONFIRMED",
+      "END:VEVENT",
+      "END:VCALENDAR",
+    ]);
+  });
+
+  it.each([
+    { name: "backslashes", text: "C:\\drafts", escaped: "C:\\\\drafts" },
+    { name: "semicolons", text: "Plan; then post", escaped: "Plan\\; then post" },
+    { name: "commas", text: "Tips, tricks", escaped: "Tips\\, tricks" },
+    { name: "newlines", text: "One\nTwo\r\nThree", escaped: "One\\nTwo\\nThree" },
+    { name: "an escape sequence typed as text", text: "\\n is a newline", escaped: "\\\\n is a newline" },
+  ])("escapes $name", ({ text, escaped }) => {
+    const feed = toICalendar([item({ title: text, description: text })], { ...options, name: text });
+    expect(property(feed, "SUMMARY")).toEqual([`[Social] ${escaped}`]);
+    expect(property(feed, "DESCRIPTION")).toEqual([`Status: Scheduled\\nPlatform: Social\\n\\n${escaped}`]);
+    expect(property(feed, "X-WR-CALNAME")).toEqual([escaped]);
+  });
+
+  it.each([
+    { name: "ASCII", title: "a".repeat(200) },
+    // Two, three and four octets a character, none lining up with the limit
+    { name: "accented letters", title: "é".repeat(120) },
+    { name: "CJK", title: `x${"日".repeat(90)}` },
+    { name: "emoji", title: `xy${"🚀".repeat(60)}` },
+  ])("folds $name at 75 octets without splitting a character", ({ title }) => {
+    const feed = toICalendar([item({ title })], options);
+    const lines = feed.split("\r\n").slice(0, -1);
+
+    for (const line of lines) {
+      expect(Buffer.byteLength(line)).toBeLessThanOrEqual(75);
+      expect(line).not.toContain("\uFFFD");
+    }
+    const summary = lines.findIndex((line) => line.startsWith("SUMMARY:"));
+    // Continuation lines start with a space and are filled to the limit
+    // unless the next character doesn't fit
+    expect(Buffer.byteLength(lines[summary])).toBeGreaterThan(71);
+    expect(lines[summary + 1].startsWith(" ")).toBe(true);
+    expect(property(feed, "SUMMARY")).toEqual([`[Social] ${title}`]);
+  });
+
+  it("leaves lines of exactly 75 octets alone", () => {
+    // "SUMMARY:[Social] " is 17 octets
+    const feed = toICalendar([item({ title: "a".repeat(58) })], options);
+    expect(feed).toContain(`SUMMARY:[Social] ${"a".repeat(58)}\r\nDESCRIPTION`);
+  });
+
+  it.each([
+    { status: "draft", expected: "TENTATIVE" },
+    { status: "in_review", expected: "TENTATIVE" },
+    { status: "approved", expected: "TENTATIVE" },
+    { status: "scheduled", expected: "CONFIRMED" },
+    { status: "posted", expected: "CONFIRMED" },
+    { status: "archived", expected: "CANCELLED" },
+  ])("marks $status events $expected", ({ status, expected }) => {
+    expect(property(toICalendar([item({ status })], options), "STATUS")).toEqual([expected]);
+  });
+});
+
+describe("occurrence UIDs", () => {
+  const start = new Date("2030-01-07T09:00:00Z");
+  const week = 7 * 24 * 60 * 60 * 1000;
+  const range = { from: start, to: new Date("2030-02-01T00:00:00Z") };
+
+  async function seriesFeed() {
+    const storage = new MemStorage();
+    const workspaceId = (await storage.createWorkspace("owner", null, { name: "Team" })).id;
+    const series = await storage.createContentItem(workspaceId, "owner", {
+      title: "Motivation Monday",
+      platform: "social",
+      scheduledDate: start,
+      status: "scheduled",
+      recurrence: "FREQ=WEEKLY;COUNT=3",
+      timeZone: "UTC",
+    } as Parameters<MemStorage["createContentItem"]>[2]);
+    const feed = async () => {
+      const { items } = await storage.queryContentItems(workspaceId, range);
+      return property(toICalendar(await withOccurrences(storage, workspaceId, items, range), options), "UID").sort();
+    };
+    return { storage, workspaceId, series, feed };
+  }
+
+  it("are keyed by series and start, the same on every fetch", async () => {
+    const { series, feed } = await seriesFeed();
+    const expected = ["20300107T090000Z", "20300114T090000Z", "20300121T090000Z"].map((date) => `${series.id}-${date}@planner.example`);
+    expect(await feed()).toEqual(expected);
+    expect(await feed()).toEqual(expected);
+  });
+
+  it("stay the same when an occurrence is edited into an item of its own", async () => {
+    const { storage, workspaceId, series, feed } = await seriesFeed();
+    const before = await feed();
+
+    const second = new Date(start.getTime() + week);
+    const detached = await storage.detachOccurrence(workspaceId, "owner", series.id, second, {
+      ...occurrenceItem(series, second),
+      title: "Special edition",
+      scheduledDate: new Date(second.getTime() + 60 * 60 * 1000),
+    }, inheritedStatus(series));
+    expect(detached?.id).not.toBe(series.id);
+    expect(await feed()).toEqual(before);
+  });
+});
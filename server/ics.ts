@@ -0,0 +1,104 @@
+import type { ContentItem } from "@shared/schema";
+import { statusLabels, type ContentStatus } from "@shared/workflow";
+
+// Serializes content items as an RFC 5545 iCalendar feed. Items only have a
+// start time, so each event gets a fixed length to show up in calendar apps.
+
+const EVENT_DURATION_MS = 30 * 60 * 1000;
+
+export interface CalendarOptions {
+  name: string;
+  // Domain part of the event UIDs, so they stay unique across feeds
+  uidDomain: string;
+}
+
+function formatDate(date: Date): string {
+  return date.toISOString().replace(/[-:]/g, "").replace(/\.\d{3}/, "");
+}
+
+function escapeText(value: string): string {
+  return value
+    .replace(/\\/g, "\\\\")
+    .replace(/;/g, "\\;")
+    .replace(/,/g, "\\,")
+    .replace(/\r?\n/g, "\\n");
+}
+
+// Lines longer than 75 octets are folded onto continuation lines starting
+// with a space. Never splits a multi-byte character.
+function foldLine(line: string): string {
+  const parts: string[] = [];
+  let current = "";
+  let octets = 0;
+  for (const char of line) {
+    const size = Buffer.byteLength(char);
+    const limit = parts.length === 0 ? 75 : 74;
+    if (octets + size > limit) {
+      parts.push(current);
+      current = "";
+      octets = 0;
+    }
+    current += char;
+    octets += size;
+  }
+  parts.push(current);
+  return parts.join("\r\n ");
+}
+
+// Calendar apps only know tentative, confirmed and cancelled
+function eventStatus(status: string): string {
+  switch (status) {
+    case "scheduled":
+    case "posted":
+      return "CONFIRMED";
+    case "archived":
+      return "CANCELLED";
+    default:
+      return "TENTATIVE";
+  }
+}
+
+function platformLabel(platform: string): string {
+  return platform.charAt(0).toUpperCase() + platform.slice(1);
+}
+
+// Occurrences are keyed by series and start, so an occurrence keeps its UID
+// when it is edited into an item of its own
+function eventUid(item: ContentItem): string {
+  if (!item.occurrenceDate) return item.id;
+  return `${item.seriesId ?? item.id}-${formatDate(item.occurrenceDate)}`;
+}
+
+function eventLines(item: ContentItem, options: CalendarOptions): string[] {
+  const statusLabel = statusLabels[item.status as ContentStatus] ?? item.status;
+  const details = [`Status: ${statusLabel}`, `Platform: ${platformLabel(item.platform)}`];
+  if (item.description) details.push("", item.description);
+
+  return [
+    "BEGIN:VEVENT",
+    `UID:${eventUid(item)}@${options.uidDomain}`,
+    `DTSTAMP:${formatDate(item.updatedAt)}`,
+    `DTSTART:${formatDate(item.scheduledDate)}`,
+    `DTEND:${formatDate(new Date(item.scheduledDate.getTime() + EVENT_DURATION_MS))}`,
+    `LAST-MODIFIED:${formatDate(item.updatedAt)}`,
+    `SUMMARY:${escapeText(`[${platformLabel(item.platform)}] ${item.title}`)}`,
+    `DESCRIPTION:${escapeText(details.join("\n"))}`,
+    `CATEGORIES:${escapeText(platformLabel(item.platform))},${escapeText(statusLabel)}`,
+    `STATUS:${eventStatus(item.status)}`,
+    "END:VEVENT",
+  ];
+}
+
+export function toICalendar(items: ContentItem[], options: CalendarOptions): string {
+  const lines = [
+    "BEGIN:VCALENDAR",
+    "VERSION:2.0",
+    "PRODID:-//Content Planner//Content Calendar//EN",
+    "CALSCALE:GREGORIAN",
+    "METHOD:PUBLISH",
+    `X-WR-CALNAME:${escapeText(options.name)}`,
+    ...items.flatMap((item) => eventLines(item, options)),
+    "END:VCALENDAR",
+  ];
+  return lines.map(foldLine).join("\r\n") + "\r\n";
+}
@@ -1,9 +1,13 @@
 import express, { type Request, Response, NextFunction } from "express";
 import { registerRoutes } from "./routes";
 import { setupVite, serveStatic, log } from "./vite";
+import { storage } from "./storage";
+import { PublishScheduler } from "./scheduler";
+import { createDestinationPublisher } from "./publishers";
 
 const app = express();
-app.use(express.json());
+// CSV imports arrive as JSON strings, so allow more than the 100kb default
+app.use(express.json({ limit: "5mb" }));
 app.use(express.urlencoded({ extended: false }));
 
 app.use((req, res, next) => {
@@ -68,4 +72,7 @@ app.use((req, res, next) => {
   }, () => {
     log(`serving on port ${port}`);
   });
+
+  // Publish scheduled content once its time comes
+  new PublishScheduler({ storage, publisher: createDestinationPublisher(storage) }).start();
 })();
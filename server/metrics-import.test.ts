@@ -0,0 +1,141 @@
+import { afterAll, beforeAll, describe, expect, it } from "vitest";
+import type { ContentItem, MetricsImportResult } from "@shared/schema";
+import { ImportError } from "./content-import";
+import { metricsTemplateCsv, parseMetricsImport } from "./metrics-import";
+import { storage, type MemStorage } from "./storage";
+import { startTestApp, type TestApp } from "./test-app";
+
+describe("parseMetricsImport", () => {
+  it("reads counters by column name, in any order and case", () => {
+    const rows = parseMetricsImport("Clicks,CONTENT_ID,captured_at,impressions\r\n45,item-1,2030-01-16T09:00:00Z,1200\r\n");
+    expect(rows).toEqual([
+      {
+        row: 2,
+        data: {
+          contentId: "item-1",
+          capturedAt: new Date("2030-01-16T09:00:00Z"),
+          impressions: 1200,
+          clicks: 45,
+          likes: 0,
+          shares: 0,
+          comments: 0,
+          opens: 0,
+        },
+        errors: [],
+      },
+    ]);
+  });
+
+  it("leaves captured_at to the time of the import when it's blank", () => {
+    const [row] = parseMetricsImport("content_id,captured_at,likes\r\nitem-1,,3\r\n");
+    expect(row.data).toMatchObject({ contentId: "item-1", likes: 3 });
+    expect(row.data?.capturedAt).toBeUndefined();
+  });
+
+  it("accepts its own template", () => {
+    const [row] = parseMetricsImport(metricsTemplateCsv());
+    expect(row.errors).toEqual([]);
+  });
+
+  it.each([
+    { name: "a missing content id", line: ",2030-01-16T09:00:00Z,10", error: "content_id: Required" },
+    { name: "a negative count", line: "item-1,2030-01-16T09:00:00Z,-1", error: "impressions:" },
+    { name: "a fractional count", line: "item-1,2030-01-16T09:00:00Z,1.5", error: "impressions:" },
+    { name: "a count that isn't a number", line: "item-1,2030-01-16T09:00:00Z,lots", error: "impressions:" },
+    { name: "an unreadable date", line: "item-1,yesterday,10", error: "captured_at:" },
+  ])("reports $name on its row", ({ line, error }) => {
+    const [valid, invalid] = parseMetricsImport(`content_id,captured_at,impressions\r\nitem-1,2030-01-16T09:00:00Z,10\r\n${line}\r\n`);
+    expect(valid.errors).toEqual([]);
+    expect(invalid).toEqual({ row: 3, errors: [expect.stringContaining(error)] });
+  });
+
+  it("rejects a row repeating an earlier row's item and time", () => {
+    const rows = parseMetricsImport(
+      [
+        "content_id,captured_at,likes",
+        "item-1,2030-01-16T09:00:00Z,3",
+        "item-1,2030-01-16T09:00:00.000Z,4",
+        "item-2,2030-01-16T09:00:00Z,5",
+        "item-1,,6",
+        "item-1,,7",
+      ].join("\r\n"),
+    );
+    expect(rows.map((row) => row.errors)).toEqual([
+      [],
+      ["Same item and captured_at as row 2"],
+      [],
+      [],
+      ["Same item and captured_at as row 5"],
+    ]);
+    expect(rows.filter((row) => row.data)).toHaveLength(3);
+  });
+
+  it.each([
+    { name: "an empty file", csv: "", message: "The file is empty" },
+    { name: "a file without content_id", csv: "impressions\r\n10\r\n", message: "Missing required column(s): content_id" },
+  ])("refuses $name", ({ csv, message }) => {
+    expect(() => parseMetricsImport(csv)).toThrow(new ImportError(message));
+  });
+});
+
+describe("duplicate snapshots", () => {
+  const capturedAt = "2030-01-16T09:00:00.000Z";
+  let app: TestApp;
+  let workspaceId: string;
+  let item: ContentItem;
+  let token: string;
+
+  beforeAll(async () => {
+    app = await startTestApp();
+    workspaceId = (await storage.createWorkspace("analyst", null, { name: "Metrics" })).id;
+    item = await storage.createContentItem(workspaceId, "analyst", {
+      title: "Launch post",
+      platform: "social",
+      scheduledDate: new Date("2030-01-15T09:00:00Z"),
+      status: "posted",
+    } as Parameters<MemStorage["createContentItem"]>[2]);
+    token = (await storage.rotateMetricsKey(workspaceId, "analyst")).token;
+  });
+
+  afterAll(() => {
+    app.close();
+  });
+
+  const snapshots = async () => (await storage.getContentMetrics(workspaceId, item.id)).length;
+
+  it("records a manual snapshot once", async () => {
+    const snapshot = { capturedAt, likes: 3 };
+    expect((await app.request("analyst", "POST", `/api/content/${item.id}/metrics`, snapshot, workspaceId)).status).toBe(201);
+    const res = await app.request("analyst", "POST", `/api/content/${item.id}/metrics`, snapshot, workspaceId);
+    expect(res.status).toBe(409);
+    expect(await snapshots()).toBe(1);
+  });
+
+  it("flags rows already recorded when previewing and importing a CSV", async () => {
+    const csv = `content_id,captured_at,likes\r\n${item.id},${capturedAt},5\r\n${item.id},2030-01-17T09:00:00Z,8\r\n`;
+    const preview = await app.request("analyst", "POST", "/api/metrics/import", { csv, dryRun: true }, workspaceId);
+    const expectedRows = [
+      { row: 2, errors: ["captured_at: A snapshot of this item at this time was already recorded"] },
+      expect.objectContaining({ row: 3, errors: [] }),
+    ];
+    expect(await preview.json()).toMatchObject({ valid: 1, invalid: 1, rows: expectedRows });
+
+    const imported = await app.request("analyst", "POST", "/api/metrics/import", { csv, dryRun: false }, workspaceId);
+    expect(imported.status).toBe(201);
+    const result: MetricsImportResult = await imported.json();
+    expect(result.created).toEqual([expect.objectContaining({ likes: 8, source: "csv" })]);
+    expect(await snapshots()).toBe(2);
+  });
+
+  it("turns away an ingested batch that repeats a snapshot, saving none of it", async () => {
+    // The metrics key goes in the bearer token
+    const res = await app.request(token, "POST", "/ingest/metrics", {
+      metrics: [
+        { contentId: item.id, capturedAt: "2030-01-18T09:00:00Z", likes: 13 },
+        { contentId: item.id, capturedAt, likes: 21 },
+      ],
+    });
+    expect(res.status).toBe(409);
+    expect(await snapshots()).toBe(2);
+  });
+});
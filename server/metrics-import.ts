@@ -0,0 +1,71 @@
+import type { ZodIssue } from "zod";
+import { insertContentMetricsSchema, metricFields, type MetricsImportRow } from "@shared/schema";
+import { parseCsv, toCsv } from "./csv";
+import { ImportError, MAX_IMPORT_ROWS } from "./content-import";
+
+// Column layout of the metrics CSV. Only content_id is required; missing
+// counters are 0 and a missing captured_at means the time of the import.
+export const metricsImportColumns = ["content_id", "captured_at", ...metricFields] as const;
+
+function formatIssue(issue: ZodIssue): string {
+  const field = issue.path[0] === "capturedAt" ? "captured_at" : issue.path.join(".");
+  return `${field}: ${issue.message}`;
+}
+
+// Identifies a snapshot. Rows without captured_at are all recorded at the
+// time of the import, so they share one.
+export function snapshotKey(contentId: string, capturedAt?: Date): string {
+  return `${contentId}@${capturedAt?.getTime() ?? "import"}`;
+}
+
+// Parses and validates a metrics upload, numbering rows like
+// parseContentImport. A row repeating an earlier row's item and time is an
+// error. Whether the items exist is checked by the caller.
+export function parseMetricsImport(text: string): MetricsImportRow[] {
+  const [header, ...lines] = parseCsv(text);
+  if (!header) {
+    throw new ImportError("The file is empty");
+  }
+
+  const columns = header.map((name) => name.trim().toLowerCase());
+  if (!columns.includes("content_id")) {
+    throw new ImportError("Missing required column(s): content_id");
+  }
+  if (lines.length > MAX_IMPORT_ROWS) {
+    throw new ImportError(`A single import can contain at most ${MAX_IMPORT_ROWS} rows`);
+  }
+
+  const seen = new Map<string, number>();
+  return lines.map((line, index) => {
+    const value = (name: string) => {
+      const position = columns.indexOf(name);
+      const cell = position === -1 ? "" : (line[position] ?? "").trim();
+      return cell === "" ? undefined : cell;
+    };
+
+    const contentId = value("content_id");
+    const result = insertContentMetricsSchema.safeParse({
+      capturedAt: value("captured_at"),
+      ...Object.fromEntries(metricFields.map((field) => [field, value(field)])),
+    });
+
+    const errors = result.success ? [] : result.error.issues.map(formatIssue);
+    if (!contentId) errors.unshift("content_id: Required");
+    if (result.success && contentId) {
+      const key = snapshotKey(contentId, result.data.capturedAt);
+      const earlier = seen.get(key);
+      if (earlier === undefined) seen.set(key, index + 2);
+      else errors.push(`Same item and captured_at as row ${earlier}`);
+    }
+    return result.success && contentId && errors.length === 0
+      ? { row: index + 2, data: { ...result.data, contentId }, errors }
+      : { row: index + 2, errors };
+  });
+}
+
+export function metricsTemplateCsv(): string {
+  return toCsv([
+    [...metricsImportColumns],
+    ["<content id>", new Date().toISOString(), "1200", "45", "80", "12", "9", "0"],
+  ]);
+}
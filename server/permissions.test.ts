@@ -0,0 +1,134 @@
+import express from "express";
+import type { AddressInfo } from "net";
+import { afterAll, beforeAll, describe, expect, it } from "vitest";
+import { can, workspaceRoles, type Permission } from "@shared/schema";
+import { requirePermission, resolveWorkspace } from "./permissions";
+import { storage } from "./storage";
+import { startTestApp, type TestApp } from "./test-app";
+
+describe("can", () => {
+  const expected: Record<string, Permission[]> = {
+    owner: ["content:read", "content:write", "content:review", "workspace:manage"],
+    editor: ["content:read", "content:write"],
+    reviewer: ["content:read", "content:review"],
+    viewer: ["content:read"],
+  };
+  const permissions: Permission[] = ["content:read", "content:write", "content:review", "workspace:manage"];
+
+  for (const role of workspaceRoles) {
+    it(`gives ${role} only its own permissions`, () => {
+      const granted = permissions.filter((permission) => can(role, permission));
+      expect(granted).toEqual(expected[role]);
+    });
+  }
+});
+
+describe("workspace middleware", () => {
+  let baseUrl: string;
+  let close: () => void;
+  let workspaceId: string;
+
+  // The caller is named in a header, standing in for requireAuth
+  beforeAll(async () => {
+    const workspace = await storage.createWorkspace("owner", null, { name: "Team" });
+    workspaceId = workspace.id;
+    const invitation = await storage.createInvitation(workspace.id, "owner", { role: "viewer" });
+    await storage.acceptInvitation(invitation.token, "viewer", null);
+
+    const app = express();
+    app.use((req, _res, next) => {
+      req.auth = { uid: req.header("x-user")! };
+      next();
+    });
+    app.get("/read", resolveWorkspace, requirePermission("content:read"), (req, res) => res.json(req.workspace));
+    app.get("/write", resolveWorkspace, requirePermission("content:write"), (req, res) => res.json(req.workspace));
+    const server = app.listen(0);
+    await new Promise((resolve) => server.once("listening", resolve));
+    baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+    close = () => server.close();
+  });
+
+  afterAll(() => close());
+
+  const get = (path: string, user: string, workspace?: string) =>
+    fetch(`${baseUrl}${path}`, { headers: { "x-user": user, ...(workspace ? { "x-workspace-id": workspace } : {}) } });
+
+  it("resolves the member's role in the requested workspace", async () => {
+    const res = await get("/read", "viewer", workspaceId);
+    expect(res.status).toBe(200);
+    expect(await res.json()).toEqual({ id: workspaceId, role: "viewer" });
+  });
+
+  it("refuses an action the role doesn't allow", async () => {
+    const res = await get("/write", "viewer", workspaceId);
+    expect(res.status).toBe(403);
+  });
+
+  it("allows it for a role that has the permission", async () => {
+    const res = await get("/write", "owner", workspaceId);
+    expect(res.status).toBe(200);
+  });
+
+  it("hides workspaces the caller isn't a member of", async () => {
+    const res = await get("/read", "stranger", workspaceId);
+    expect(res.status).toBe(404);
+  });
+
+  it("creates a personal workspace once for a new user", async () => {
+    const [first, second] = await Promise.all([get("/write", "newcomer"), get("/write", "newcomer")]);
+    const [a, b] = await Promise.all([first.json(), second.json()]);
+    expect(a.role).toBe("owner");
+    expect(b.id).toBe(a.id);
+    expect(await storage.getWorkspacesForUser("newcomer")).toHaveLength(1);
+  });
+});
+
+describe("workspace routes", () => {
+  let app: TestApp;
+  let workspaceId: string;
+
+  beforeAll(async () => {
+    app = await startTestApp();
+    workspaceId = (await (await app.request("agency", "POST", "/api/workspaces", { name: "Agency" })).json()).id;
+  });
+
+  afterAll(() => app.close());
+
+  async function invite(role: string): Promise<string> {
+    const res = await app.request("agency", "POST", `/api/workspaces/${workspaceId}/invitations`, { role });
+    expect(res.status).toBe(201);
+    return (await res.json()).token;
+  }
+
+  it("shares the workspace's content with invited members", async () => {
+    const token = await invite("editor");
+    expect(await (await app.request("staff", "POST", `/api/invitations/${token}/accept`)).json()).toMatchObject({ workspaceId, role: "editor" });
+
+    const post = { title: "Client launch", platform: "social", scheduledDate: "2030-01-15T09:00:00Z", status: "draft" };
+    const created = await app.request("staff", "POST", "/api/content", post, workspaceId);
+    expect(created.status).toBe(201);
+
+    const listed = await (await app.request("agency", "GET", "/api/content", undefined, workspaceId)).json();
+    expect(listed.map((item: { title: string }) => item.title)).toContain("Client launch");
+    expect((await app.request("outsider", "GET", "/api/content", undefined, workspaceId)).status).toBe(404);
+  });
+
+  it("lets only owners manage members", async () => {
+    await app.request("client", "POST", `/api/invitations/${await invite("viewer")}/accept`);
+
+    expect((await app.request("client", "POST", `/api/workspaces/${workspaceId}/invitations`, { role: "viewer" })).status).toBe(403);
+    expect((await app.request("client", "PATCH", `/api/workspaces/${workspaceId}/members/agency`, { role: "viewer" })).status).toBe(403);
+    expect((await app.request("client", "POST", "/api/content", {}, workspaceId)).status).toBe(403);
+  });
+
+  it("keeps the last owner", async () => {
+    expect((await app.request("agency", "PATCH", `/api/workspaces/${workspaceId}/members/agency`, { role: "editor" })).status).toBe(400);
+    expect((await app.request("agency", "DELETE", `/api/workspaces/${workspaceId}/members/agency`)).status).toBe(400);
+  });
+
+  it("accepts an invitation only once", async () => {
+    const token = await invite("reviewer");
+    expect((await app.request("first", "POST", `/api/invitations/${token}/accept`)).status).toBe(200);
+    expect((await app.request("second", "POST", `/api/invitations/${token}/accept`)).status).toBe(404);
+  });
+});
@@ -0,0 +1,69 @@
+import type { Request, Response, NextFunction, RequestHandler } from "express";
+import { can, type Permission, type WorkspaceRole, type WorkspaceWithRole } from "@shared/schema";
+import { storage } from "./storage";
+
+export interface WorkspaceContext {
+  id: string;
+  role: WorkspaceRole;
+}
+
+declare global {
+  namespace Express {
+    interface Request {
+      workspace?: WorkspaceContext;
+    }
+  }
+}
+
+const pendingPersonalWorkspaces = new Map<string, Promise<WorkspaceWithRole>>();
+
+// Returns the user's first workspace, creating a personal one on first
+// sign-in. Concurrent first requests share the same creation.
+export async function getDefaultWorkspace(uid: string, email: string | null): Promise<WorkspaceWithRole> {
+  const [existing] = await storage.getWorkspacesForUser(uid);
+  if (existing) return existing;
+
+  let pending = pendingPersonalWorkspaces.get(uid);
+  if (!pending) {
+    pending = storage
+      .createWorkspace(uid, email, { name: "My Workspace" })
+      .then((workspace) => ({ ...workspace, role: "owner" as const }))
+      .finally(() => pendingPersonalWorkspaces.delete(uid));
+    pendingPersonalWorkspaces.set(uid, pending);
+  }
+  return pending;
+}
+
+// Resolves the workspace a request acts on, from the :workspaceId route param
+// or the X-Workspace-Id header, falling back to the caller's default workspace.
+export const resolveWorkspace: RequestHandler = async (req: Request, res: Response, next: NextFunction) => {
+  const { uid, email } = req.auth!;
+  const requestedId = req.params.workspaceId || req.header("x-workspace-id");
+
+  try {
+    if (requestedId) {
+      const membership = await storage.getMembership(requestedId, uid);
+      if (!membership) {
+        return res.status(404).json({ message: "Workspace not found" });
+      }
+      req.workspace = { id: requestedId, role: membership.role as WorkspaceRole };
+      return next();
+    }
+
+    const workspace = await getDefaultWorkspace(uid, email ?? null);
+    req.workspace = { id: workspace.id, role: workspace.role };
+    next();
+  } catch (error) {
+    console.error("Error resolving workspace:", error);
+    res.status(500).json({ message: "Failed to resolve workspace" });
+  }
+};
+
+export function requirePermission(permission: Permission): RequestHandler {
+  return (req: Request, res: Response, next: NextFunction) => {
+    if (!req.workspace || !can(req.workspace.role, permission)) {
+      return res.status(403).json({ message: "You do not have permission to perform this action" });
+    }
+    next();
+  };
+}
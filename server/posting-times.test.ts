@@ -0,0 +1,72 @@
+import { describe, expect, it } from "vitest";
+import type { ContentItem, ContentMetrics } from "@shared/schema";
+import { defaultPostingTimes, recommendPostingTimes } from "./posting-times";
+
+// Posts on social at the given UTC times, each with `likes` interactions
+function history(posts: [string, number][]) {
+  const items = posts.map(([publishedAt], index) => ({
+    id: `item-${index}`,
+    platform: "social",
+    status: "posted",
+    recurrence: null,
+    scheduledDate: new Date(publishedAt),
+    publishedAt: new Date(publishedAt),
+  }) as ContentItem);
+  const metrics = posts.map(([, likes], index) => ({
+    contentItemId: `item-${index}`,
+    clicks: 0,
+    likes,
+    shares: 0,
+    comments: 0,
+  }) as ContentMetrics);
+  return { items, metrics };
+}
+
+// 2030-01-01 is a Tuesday
+const tuesdayMorning = (week: number) => `2030-01-${String(1 + week * 7).padStart(2, "0")}T09:00:00Z`;
+const thursdayEvening = (week: number) => `2030-01-${String(3 + week * 7).padStart(2, "0")}T19:00:00Z`;
+
+describe("recommendPostingTimes", () => {
+  it("recommends only the windows that beat the average", () => {
+    const { items, metrics } = history([
+      ...[0, 1, 2, 3].map((week): [string, number] => [tuesdayMorning(week), 30]),
+      ...[0, 1, 2, 3].map((week): [string, number] => [thursdayEvening(week), 10]),
+    ]);
+
+    const { platforms } = recommendPostingTimes(items, metrics, "UTC");
+    expect(platforms.social).toMatchObject({
+      source: "history",
+      postsWithMetrics: 8,
+      windows: [{ dayOfWeek: 2, startHour: 8, endHour: 10, posts: 4, lift: 50 }],
+    });
+  });
+
+  it("falls back to the defaults when no window beats the average", () => {
+    const { items, metrics } = history([
+      ...[0, 1, 2, 3].map((week): [string, number] => [tuesdayMorning(week), 20]),
+      ...[0, 1, 2, 3].map((week): [string, number] => [thursdayEvening(week), 20]),
+    ]);
+
+    expect(recommendPostingTimes(items, metrics, "UTC").platforms.social).toMatchObject({
+      source: "default",
+      windows: defaultPostingTimes.social,
+    });
+  });
+
+  it("uses the defaults until a platform has enough posts", () => {
+    const { items, metrics } = history([0, 1, 2].map((week): [string, number] => [tuesdayMorning(week), 30]));
+    expect(recommendPostingTimes(items, metrics, "UTC").platforms.social.source).toBe("default");
+  });
+
+  it("places windows in the user's time zone", () => {
+    const { items, metrics } = history([
+      ...[0, 1, 2, 3].map((week): [string, number] => [tuesdayMorning(week), 30]),
+      ...[0, 1, 2, 3].map((week): [string, number] => [thursdayEvening(week), 10]),
+    ]);
+
+    // 09:00 UTC is 18:00 in Tokyo
+    expect(recommendPostingTimes(items, metrics, "Asia/Tokyo").platforms.social.windows).toEqual([
+      { dayOfWeek: 2, startHour: 18, endHour: 20, posts: 4, lift: 50 },
+    ]);
+  });
+});
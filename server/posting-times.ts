@@ -0,0 +1,106 @@
+import {
+  contentPlatforms,
+  type ContentItem,
+  type ContentMetrics,
+  type ContentPlatform,
+  type PlatformPostingTimes,
+  type PostingTimes,
+  type PostingWindow,
+} from "@shared/schema";
+import { interactionsOf } from "./analytics";
+import { wallClock } from "./time-zones";
+
+// When to post, per platform: the weekly windows in which past posts got
+// more interactions than the platform's average, or defaults until there's
+// enough history to tell.
+
+const WINDOW_HOURS = 2;
+// Posted items with metrics a platform needs before its history is used
+const MIN_PLATFORM_POSTS = 8;
+// One lucky post doesn't make a window
+const MIN_WINDOW_POSTS = 2;
+const MAX_WINDOWS = 3;
+
+const dayNames = ["sun", "mon", "tue", "wed", "thu", "fri", "sat"];
+
+const builtInDefaults: Record<ContentPlatform, string> = {
+  social: "tue 14-16, wed 14-16, thu 14-16",
+  email: "tue 9-11, wed 9-11, thu 9-11",
+  blog: "mon 19-21, tue 19-21, thu 19-21",
+};
+
+// A comma-separated list of a weekday and hours in the user's time zone
+function parseWindows(name: string, value: string): PostingWindow[] {
+  return value.split(",").map((entry) => {
+    const match = entry.trim().toLowerCase().match(/^(sun|mon|tue|wed|thu|fri|sat)\s+(\d{1,2})-(\d{1,2})$/);
+    const startHour = Number(match?.[2]);
+    const endHour = Number(match?.[3]);
+    if (!match || startHour >= endHour || endHour > 24) {
+      throw new Error(`${name} must list windows like "tue 14-16, thu 9-11"`);
+    }
+    return { dayOfWeek: dayNames.indexOf(match[1]), startHour, endHour, posts: 0, lift: null };
+  });
+}
+
+// Each platform's defaults can be changed with an environment variable, e.g.
+// POSTING_TIMES_EMAIL="mon 8-10, thu 8-10"
+export const defaultPostingTimes = Object.fromEntries(contentPlatforms.map((platform) => {
+  const name = `POSTING_TIMES_${platform.toUpperCase()}`;
+  return [platform, parseWindows(name, process.env[name] || builtInDefaults[platform])];
+})) as Record<ContentPlatform, PostingWindow[]>;
+
+interface Post {
+  dayOfWeek: number;
+  startHour: number;
+  interactions: number;
+}
+
+function postingTimesFor(platform: ContentPlatform, posts: Post[]): PlatformPostingTimes {
+  const counts = { postsWithMetrics: posts.length, minimumPosts: MIN_PLATFORM_POSTS };
+  const fallback: PlatformPostingTimes = { ...counts, source: "default", windows: defaultPostingTimes[platform] };
+  const average = posts.reduce((sum, post) => sum + post.interactions, 0) / posts.length;
+  if (posts.length < MIN_PLATFORM_POSTS || average === 0) return fallback;
+
+  const windows = new Map<string, { dayOfWeek: number; startHour: number; posts: number; interactions: number }>();
+  for (const post of posts) {
+    const key = `${post.dayOfWeek}:${post.startHour}`;
+    const window = windows.get(key) ?? { dayOfWeek: post.dayOfWeek, startHour: post.startHour, posts: 0, interactions: 0 };
+    window.posts++;
+    window.interactions += post.interactions;
+    windows.set(key, window);
+  }
+
+  const ranked = Array.from(windows.values())
+    .filter((window) => window.posts >= MIN_WINDOW_POSTS)
+    .map((window): PostingWindow => ({
+      dayOfWeek: window.dayOfWeek,
+      startHour: window.startHour,
+      endHour: window.startHour + WINDOW_HOURS,
+      posts: window.posts,
+      lift: Math.round((window.interactions / window.posts / average - 1) * 100),
+    }))
+    // An average window is no better than posting at any other time
+    .filter((window) => window.lift! > 0)
+    .sort((a, b) => b.lift! - a.lift! || b.posts - a.posts)
+    .slice(0, MAX_WINDOWS);
+  return ranked.length > 0 ? { ...counts, source: "history", windows: ranked } : fallback;
+}
+
+// Posts count in the window they went out in, by the latest snapshot of
+// their metrics (snapshots come oldest first)
+export function recommendPostingTimes(items: ContentItem[], metrics: ContentMetrics[], timeZone: string): PostingTimes {
+  const latest = new Map<string, ContentMetrics>();
+  for (const snapshot of metrics) latest.set(snapshot.contentItemId, snapshot);
+
+  const platforms = {} as Record<ContentPlatform, PlatformPostingTimes>;
+  for (const platform of contentPlatforms) {
+    const posts = items.flatMap((item): Post[] => {
+      const snapshot = latest.get(item.id);
+      if (item.platform !== platform || item.status !== "posted" || item.recurrence || !snapshot) return [];
+      const { day, hours } = wallClock(item.publishedAt ?? item.scheduledDate, timeZone);
+      return [{ dayOfWeek: day.getUTCDay(), startHour: hours - (hours % WINDOW_HOURS), interactions: interactionsOf(snapshot) }];
+    });
+    platforms[platform] = postingTimesFor(platform, posts);
+  }
+  return { timeZone, platforms };
+}
@@ -0,0 +1,240 @@
+import { afterAll, afterEach, beforeAll, describe, expect, it } from "vitest";
+import { createHmac } from "crypto";
+import fs from "fs/promises";
+import http from "http";
+import net from "net";
+import os from "os";
+import path from "path";
+import type { AddressInfo } from "net";
+import type { ContentItem } from "@shared/schema";
+import { MemStorage } from "../storage";
+import { createWebhookAdapter, isPublicAddress, webhookAdapter } from "./webhook";
+import { emailAdapter } from "./email";
+import { createBlogAdapter } from "./blog";
+import { createDestinationPublisher, createDefaultAdapters } from "./index";
+
+let storage: MemStorage;
+let workspaceId: string;
+let item: ContentItem;
+
+beforeAll(async () => {
+  storage = new MemStorage();
+  workspaceId = (await storage.createWorkspace("owner", null, { name: "Team" })).id;
+  item = await storage.createContentItem(workspaceId, "owner", {
+    title: "Launch day: what's new?",
+    description: "Everything we shipped this week.",
+    platform: "blog",
+    scheduledDate: new Date("2030-01-15T09:00:00Z"),
+    status: "draft",
+  } as Parameters<MemStorage["createContentItem"]>[2]);
+});
+
+function listen(server: http.Server | net.Server): Promise<number> {
+  return new Promise((resolve) => {
+    server.listen(0, "127.0.0.1", () => resolve((server.address() as AddressInfo).port));
+  });
+}
+
+describe("webhook adapter", () => {
+  interface Received {
+    headers: http.IncomingHttpHeaders;
+    body: string;
+  }
+
+  // The receiver runs on loopback, which the default adapter refuses
+  const localAdapter = createWebhookAdapter({ allowPrivateAddresses: true });
+  const received: Received[] = [];
+  let status = 200;
+  let url: string;
+  const server = http.createServer((req, res) => {
+    let body = "";
+    req.on("data", (chunk) => (body += chunk));
+    req.on("end", () => {
+      received.push({ headers: req.headers, body });
+      res.writeHead(status).end();
+    });
+  });
+
+  beforeAll(async () => {
+    url = `http://127.0.0.1:${await listen(server)}/hook`;
+  });
+
+  afterEach(() => {
+    received.length = 0;
+    status = 200;
+  });
+
+  afterAll(() => {
+    server.close();
+  });
+
+  it("signs the body with the destination secret", async () => {
+    await localAdapter.publish(item, { url, secret: "s3cret" });
+
+    const [{ headers, body }] = received;
+    const expected = createHmac("sha256", "s3cret").update(body).digest("hex");
+    expect(headers["x-signature-256"]).toBe(`sha256=${expected}`);
+    expect(JSON.parse(body)).toMatchObject({ event: "content.published", item: { id: item.id } });
+  });
+
+  it("sends no signature without a secret", async () => {
+    await localAdapter.publish(item, { url });
+    expect(received[0].headers["x-signature-256"]).toBeUndefined();
+  });
+
+  it("fails when the receiver does not accept the delivery", async () => {
+    status = 502;
+    await expect(localAdapter.publish(item, { url })).rejects.toThrow("Webhook responded with 502");
+  });
+
+  it("does not follow redirects", async () => {
+    status = 302;
+    await expect(localAdapter.publish(item, { url })).rejects.toThrow("Webhook responded with 302");
+    expect(received).toHaveLength(1);
+  });
+
+  it.each([
+    ["the loopback address", () => url],
+    ["a loopback host name", () => url.replace("127.0.0.1", "localhost")],
+    ["the cloud metadata service", () => "http://169.254.169.254/latest/meta-data/"],
+    ["a private network", () => "http://10.0.0.1/hook"],
+    ["IPv6 loopback", () => "http://[::1]/hook"],
+    ["an IPv4-mapped IPv6 address", () => "http://[::ffff:127.0.0.1]/hook"],
+  ])("refuses to deliver to %s", async (_, target) => {
+    await expect(webhookAdapter.publish(item, { url: target() })).rejects.toThrow("Webhook URL must point to a public address");
+    expect(received).toEqual([]);
+  });
+
+  it("refuses schemes other than http and https", async () => {
+    await expect(webhookAdapter.publish(item, { url: "file:///etc/passwd" })).rejects.toThrow("Webhook URL must use http or https");
+  });
+
+  it.each([
+    ["127.0.0.1", false],
+    ["10.1.2.3", false],
+    ["172.16.0.1", false],
+    ["192.168.1.1", false],
+    ["100.64.0.1", false],
+    ["169.254.169.254", false],
+    ["0.0.0.0", false],
+    ["::1", false],
+    ["fd00::1", false],
+    ["fe80::1", false],
+    ["8.8.8.8", true],
+    ["172.32.0.1", true],
+    ["2606:4700::1111", true],
+  ])("treats %s as public: %s", (address, expected) => {
+    expect(isPublicAddress(address)).toBe(expected);
+  });
+});
+
+describe("blog adapter", () => {
+  let root: string;
+
+  beforeAll(async () => {
+    root = await fs.mkdtemp(path.join(os.tmpdir(), "blog-"));
+  });
+
+  afterAll(async () => {
+    await fs.rm(root, { recursive: true, force: true });
+  });
+
+  it("writes the item as markdown under the root", async () => {
+    await createBlogAdapter(root).publish(item, { directory: "news" });
+
+    const file = await fs.readFile(path.join(root, "news", "2030-01-15-launch-day-what-s-new.md"), "utf8");
+    expect(file).toContain(`title: "Launch day: what's new?"`);
+    expect(file).toContain("Everything we shipped this week.");
+  });
+
+  it.each(["..", "../outside", "/etc"])("rejects the directory %s outside the root", async (directory) => {
+    await expect(createBlogAdapter(root).publish(item, { directory })).rejects.toThrow(
+      "Blog directory must be inside the publish root",
+    );
+  });
+});
+
+describe("email adapter", () => {
+  // Just enough SMTP to accept one message at a time
+  const messages: string[] = [];
+  let port: number;
+  const server = net.createServer((socket) => {
+    let buffer = "";
+    let message: string[] | null = null;
+    socket.write("220 sink ESMTP\r\n");
+    socket.on("data", (chunk) => {
+      buffer += chunk.toString();
+      let end: number;
+      while ((end = buffer.indexOf("\r\n")) >= 0) {
+        const line = buffer.slice(0, end);
+        buffer = buffer.slice(end + 2);
+        if (message) {
+          if (line === ".") {
+            messages.push(message.join("\n"));
+            message = null;
+            socket.write("250 Queued\r\n");
+          } else {
+            message.push(line);
+          }
+        } else if (/^DATA/i.test(line)) {
+          message = [];
+          socket.write("354 Go ahead\r\n");
+        } else if (/^QUIT/i.test(line)) {
+          socket.end("221 Bye\r\n");
+        } else {
+          socket.write("250 OK\r\n");
+        }
+      }
+    });
+  });
+
+  beforeAll(async () => {
+    port = await listen(server);
+  });
+
+  afterAll(() => {
+    server.close();
+  });
+
+  it("sends the item with the title as subject", async () => {
+    await emailAdapter.publish(item, {
+      host: "127.0.0.1",
+      port,
+      secure: false,
+      from: "planner@example.com",
+      to: ["list@example.com"],
+    });
+
+    expect(messages).toHaveLength(1);
+    expect(messages[0]).toContain("To: list@example.com");
+    expect(messages[0]).toContain("Subject: Launch day: what's new?");
+    expect(messages[0]).toContain("Everything we shipped this week.");
+  });
+});
+
+describe("createDestinationPublisher", () => {
+  it("skips items without a destination", async () => {
+    const publisher = createDestinationPublisher(storage, createDefaultAdapters("/nonexistent"));
+    await expect(publisher.publish(item)).resolves.toBeUndefined();
+  });
+
+  it("fails when the destination was deleted", async () => {
+    const publisher = createDestinationPublisher(storage, createDefaultAdapters("/nonexistent"));
+    await expect(publisher.publish({ ...item, destinationId: "missing" })).rejects.toThrow(
+      "Publish destination no longer exists",
+    );
+  });
+
+  it("validates the stored config before publishing", async () => {
+    const root = await fs.mkdtemp(path.join(os.tmpdir(), "blog-"));
+    const destination = await storage.createDestination(workspaceId, { name: "Blog", type: "blog", config: { directory: "posts" } });
+    const publisher = createDestinationPublisher(storage, createDefaultAdapters(root));
+
+    await publisher.publish({ ...item, destinationId: destination.id });
+    expect(await fs.readdir(path.join(root, "posts"))).toHaveLength(1);
+
+    await storage.updateDestination(workspaceId, destination.id, { name: "Blog", type: "blog", config: { directory: "" } });
+    await expect(publisher.publish({ ...item, destinationId: destination.id })).rejects.toThrow();
+    await fs.rm(root, { recursive: true, force: true });
+  });
+});
@@ -0,0 +1,55 @@
+import fs from "fs/promises";
+import path from "path";
+import { blogConfigSchema, type BlogConfig, type ContentItem } from "@shared/schema";
+import type { PublisherAdapter } from "./index";
+
+export function defaultBlogRoot(): string {
+  return path.resolve(process.env.BLOG_PUBLISH_ROOT || "published");
+}
+
+function slugify(title: string): string {
+  return (
+    title
+      .toLowerCase()
+      .normalize("NFKD")
+      .replace(/[^a-z0-9]+/g, "-")
+      .replace(/^-+|-+$/g, "")
+      .slice(0, 80) || "post"
+  );
+}
+
+// JSON strings are valid double-quoted YAML scalars
+function frontMatter(item: ContentItem): string {
+  const fields: Record<string, string> = {
+    id: item.id,
+    title: item.title,
+    date: item.scheduledDate.toISOString(),
+    platform: item.platform,
+  };
+  const lines = Object.entries(fields).map(([key, value]) => `${key}: ${JSON.stringify(value)}`);
+  return `---\n${lines.join("\n")}\n---\n`;
+}
+
+// Writes each item as <date>-<slug>.md under the destination's directory.
+// Directories are confined to `rootDir` so a destination cannot write
+// anywhere else on the server. Republishing overwrites the same file.
+export function createBlogAdapter(rootDir: string): PublisherAdapter<BlogConfig> {
+  return {
+    type: "blog",
+    configSchema: blogConfigSchema,
+
+    async publish(item, config) {
+      const root = path.resolve(rootDir);
+      const directory = path.resolve(root, config.directory);
+      if (directory !== root && !directory.startsWith(root + path.sep)) {
+        throw new Error("Blog directory must be inside the publish root");
+      }
+
+      const date = item.scheduledDate.toISOString().slice(0, 10);
+      const file = path.join(directory, `${date}-${slugify(item.title)}.md`);
+
+      await fs.mkdir(directory, { recursive: true });
+      await fs.writeFile(file, `${frontMatter(item)}\n${item.description ?? ""}\n`, "utf8");
+    },
+  };
+}
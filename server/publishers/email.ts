@@ -0,0 +1,29 @@
+import nodemailer from "nodemailer";
+import { emailConfigSchema, type EmailConfig } from "@shared/schema";
+import type { PublisherAdapter } from "./index";
+
+// Sends the item as a plain-text email: title as subject, description as body.
+export const emailAdapter: PublisherAdapter<EmailConfig> = {
+  type: "email",
+  configSchema: emailConfigSchema,
+
+  async publish(item, config) {
+    const transport = nodemailer.createTransport({
+      host: config.host,
+      port: config.port,
+      secure: config.secure,
+      auth: config.user ? { user: config.user, pass: config.password } : undefined,
+    });
+
+    try {
+      await transport.sendMail({
+        from: config.from,
+        to: config.to,
+        subject: item.title,
+        text: item.description || item.title,
+      });
+    } finally {
+      transport.close();
+    }
+  },
+};
@@ -0,0 +1,86 @@
+import type { z } from "zod";
+import type { BlogConfig, ContentItem, DestinationType, EmailConfig, WebhookConfig } from "@shared/schema";
+import type { IStorage } from "../storage";
+import type { Publisher } from "../scheduler";
+import { webhookAdapter } from "./webhook";
+import { emailAdapter } from "./email";
+import { createBlogAdapter, defaultBlogRoot } from "./blog";
+
+export interface PublisherAdapter<TConfig = unknown> {
+  type: DestinationType;
+  configSchema: z.ZodType<TConfig, z.ZodTypeDef, unknown>;
+  publish(item: ContentItem, config: TConfig): Promise<void>;
+}
+
+interface DestinationConfigs {
+  webhook: WebhookConfig;
+  email: EmailConfig;
+  blog: BlogConfig;
+}
+
+export type AdapterRegistry = {
+  [T in DestinationType]: PublisherAdapter<DestinationConfigs[T]>;
+};
+
+// Stored config is only handed to an adapter after passing its own schema
+function publishWith<T extends DestinationType>(adapter: AdapterRegistry[T], item: ContentItem, config: unknown) {
+  const typed: PublisherAdapter<DestinationConfigs[T]> = adapter;
+  return typed.publish(item, typed.configSchema.parse(config));
+}
+
+export function createDefaultAdapters(blogRoot = defaultBlogRoot()): AdapterRegistry {
+  return {
+    webhook: webhookAdapter,
+    email: emailAdapter,
+    blog: createBlogAdapter(blogRoot),
+  };
+}
+
+// Publishes each item through the adapter of its configured destination.
+// Items without a destination are marked posted without being delivered.
+export function createDestinationPublisher(
+  storage: IStorage,
+  adapters: AdapterRegistry = createDefaultAdapters(),
+): Publisher {
+  return {
+    async publish(item) {
+      if (!item.destinationId) return;
+
+      const destination = await storage.getDestination(item.workspaceId, item.destinationId);
+      if (!destination) {
+        throw new Error("Publish destination no longer exists");
+      }
+
+      const adapter = adapters[destination.type as DestinationType];
+      if (!adapter) {
+        throw new Error(`No publisher for destination type "${destination.type}"`);
+      }
+      await publishWith(adapter, item, destination.config);
+    },
+  };
+}
+
+// Sensitive config keys are write-only: never returned by the API
+const secretKeys = ["secret", "password"];
+
+export function redactConfig(config: Record<string, unknown>): Record<string, unknown> {
+  return Object.fromEntries(
+    Object.entries(config).map(([key, value]) =>
+      secretKeys.includes(key) && value ? [key, "********"] : [key, value],
+    ),
+  );
+}
+
+// Keeps stored secrets when an update leaves them out or echoes the mask back
+export function mergeSecrets(
+  previous: Record<string, unknown>,
+  next: Record<string, unknown>,
+): Record<string, unknown> {
+  const merged = { ...next };
+  for (const key of secretKeys) {
+    if ((merged[key] === undefined || merged[key] === "********") && previous[key] !== undefined) {
+      merged[key] = previous[key];
+    }
+  }
+  return merged;
+}
@@ -0,0 +1,114 @@
+import { createHmac } from "crypto";
+import dns from "dns";
+import http from "http";
+import https from "https";
+import net, { type LookupFunction } from "net";
+import { webhookConfigSchema, type WebhookConfig } from "@shared/schema";
+import type { PublisherAdapter } from "./index";
+
+const TIMEOUT_MS = 10_000;
+
+// Webhook URLs come from users, so deliveries must not reach the server's
+// own network: loopback, private, link-local (cloud metadata services),
+// shared, multicast and reserved addresses are refused.
+const blockedAddresses = new net.BlockList();
+for (const [network, prefix] of [
+  ["0.0.0.0", 8],
+  ["10.0.0.0", 8],
+  ["100.64.0.0", 10],
+  ["127.0.0.0", 8],
+  ["169.254.0.0", 16],
+  ["172.16.0.0", 12],
+  ["192.0.0.0", 24],
+  ["192.168.0.0", 16],
+  ["198.18.0.0", 15],
+  ["224.0.0.0", 3],
+] as const) {
+  blockedAddresses.addSubnet(network, prefix, "ipv4");
+}
+for (const [network, prefix] of [
+  ["::", 128],
+  ["::1", 128],
+  // NAT64 could reach any IPv4 address. IPv4-mapped addresses are already
+  // matched against the IPv4 ranges.
+  ["64:ff9b::", 96],
+  ["fc00::", 7],
+  ["fe80::", 10],
+  ["ff00::", 8],
+] as const) {
+  blockedAddresses.addSubnet(network, prefix, "ipv6");
+}
+
+export function isPublicAddress(address: string): boolean {
+  return !blockedAddresses.check(address, net.isIPv6(address) ? "ipv6" : "ipv4");
+}
+
+class BlockedAddressError extends Error {
+  constructor(host: string) {
+    super(`Webhook URL must point to a public address, not ${host}`);
+  }
+}
+
+// Resolves like dns.lookup but refuses non-public addresses. The request
+// connects to the address checked here, so a host can't pass the check and
+// then resolve somewhere else.
+const publicLookup: LookupFunction = (hostname, options, callback) => {
+  dns.lookup(hostname, { ...options, all: true }, (error, addresses) => {
+    if (error) return callback(error, "");
+    if (addresses.some(({ address }) => !isPublicAddress(address))) {
+      return callback(new BlockedAddressError(hostname), "");
+    }
+    if (options.all) callback(null, addresses);
+    else callback(null, addresses[0].address, addresses[0].family);
+  });
+};
+
+// Redirects aren't followed, since they could lead anywhere
+function post(url: URL, headers: Record<string, string>, body: string, lookup?: LookupFunction): Promise<number> {
+  const send = url.protocol === "https:" ? https.request : http.request;
+  return new Promise((resolve, reject) => {
+    const req = send(url, { method: "POST", headers, lookup, timeout: TIMEOUT_MS }, (res) => {
+      res.resume();
+      resolve(res.statusCode ?? 0);
+    });
+    req.on("timeout", () => req.destroy(new Error("Webhook timed out")));
+    req.on("error", reject);
+    req.end(body);
+  });
+}
+
+// POSTs the item as JSON. With a secret, the body is signed so the receiver
+// can check it came from us: X-Signature-256: sha256=<hex hmac>. Private
+// addresses are only for tests and local development.
+export function createWebhookAdapter(options: { allowPrivateAddresses?: boolean } = {}): PublisherAdapter<WebhookConfig> {
+  return {
+    type: "webhook",
+    configSchema: webhookConfigSchema,
+
+    async publish(item, config) {
+      const url = new URL(config.url);
+      if (url.protocol !== "http:" && url.protocol !== "https:") {
+        throw new Error("Webhook URL must use http or https");
+      }
+      // IP literals are connected to without a lookup
+      const host = url.hostname.replace(/^\[(.*)\]$/, "$1");
+      if (!options.allowPrivateAddresses && net.isIP(host) && !isPublicAddress(host)) {
+        throw new BlockedAddressError(host);
+      }
+
+      const body = JSON.stringify({ event: "content.published", item });
+      const headers: Record<string, string> = { "Content-Type": "application/json" };
+      if (config.secret) {
+        const signature = createHmac("sha256", config.secret).update(body).digest("hex");
+        headers["X-Signature-256"] = `sha256=${signature}`;
+      }
+
+      const status = await post(url, headers, body, options.allowPrivateAddresses ? undefined : publicLookup);
+      if (status < 200 || status >= 300) {
+        throw new Error(`Webhook responded with ${status}`);
+      }
+    },
+  };
+}
+
+export const webhookAdapter = createWebhookAdapter();
@@ -0,0 +1,149 @@
+import { describe, expect, it } from "vitest";
+import type { ContentItem, InsertContentItem } from "@shared/schema";
+import { splitRecurrence } from "./content-series";
+import {
+  checkContentQuota,
+  checkContentUpdateQuota,
+  checkOccurrenceQuota,
+  checkSplitQuota,
+  getUsageMeter,
+  planLimits,
+  QuotaExceededError,
+} from "./quotas";
+import { storage } from "./storage";
+
+// Free plan defaults: 10 scheduled items a month on at most 3 platforms.
+// Each test uses its own user, so their usage doesn't add up.
+
+const march = (day: number) => new Date(Date.UTC(2030, 2, day, 9));
+
+async function createItems(ownerId: string, items: Partial<InsertContentItem>[]): Promise<ContentItem[]> {
+  const workspace = await storage.createWorkspace(ownerId, null, { name: "Team" });
+  return Promise.all(
+    items.map((item) =>
+      storage.createContentItem(workspace.id, ownerId, {
+        title: "Post",
+        platform: "social",
+        scheduledDate: march(1),
+        status: "draft",
+        ...item,
+      } as InsertContentItem),
+    ),
+  );
+}
+
+function quotaError(promise: Promise<void>) {
+  return promise.then(
+    () => undefined,
+    (error: unknown) => (error instanceof QuotaExceededError ? error.toJSON() : error),
+  );
+}
+
+describe("content quotas", () => {
+  it("counts each occurrence of a new series in its month", async () => {
+    // Every weekday from March 1st is 21 occurrences in March
+    expect(await quotaError(checkContentQuota(storage, "series-new", [
+      { platform: "social", scheduledDate: march(1), recurrence: "FREQ=WEEKLY;BYDAY=MO,TU,WE,TH,FR", timeZone: "UTC" },
+    ]))).toMatchObject({ quota: "scheduledItemsPerMonth", limit: 10, used: 0 });
+
+    await expect(checkContentQuota(storage, "series-new", [
+      { platform: "social", scheduledDate: march(1), recurrence: "FREQ=WEEKLY;COUNT=4", timeZone: "UTC" },
+    ])).resolves.toBeUndefined();
+  });
+
+  it("counts the occurrences of stored series as usage", async () => {
+    await createItems("series-stored", [
+      { scheduledDate: march(4), recurrence: "FREQ=WEEKLY", timeZone: "UTC" },
+      { scheduledDate: march(20) },
+    ]);
+
+    // Mondays from March 4th: 4, 11, 18, 25
+    expect((await getUsageMeter("series-stored", march(15))).usage.scheduledItemsPerMonth).toBe(5);
+    await expect(checkContentQuota(storage, "series-stored", Array(5).fill({ platform: "social", scheduledDate: march(2) }))).resolves.toBeUndefined();
+    expect(await quotaError(checkContentQuota(storage, "series-stored", Array(6).fill({ platform: "social", scheduledDate: march(2) }))))
+      .toMatchObject({ quota: "scheduledItemsPerMonth", used: 5 });
+  });
+
+  it("limits the platforms in use", async () => {
+    // As with FREE_PLATFORMS=2; the default allows all three
+    const { platforms } = planLimits.free;
+    planLimits.free.platforms = 2;
+    try {
+      await createItems("platforms", [{ platform: "social" }, { platform: "email" }]);
+
+      await expect(checkContentQuota(storage, "platforms", [{ platform: "email", scheduledDate: march(2) }])).resolves.toBeUndefined();
+      expect(await quotaError(checkContentQuota(storage, "platforms", [{ platform: "blog", scheduledDate: march(2) }])))
+        .toMatchObject({ quota: "platforms", limit: 2, used: 2 });
+    } finally {
+      planLimits.free.platforms = platforms;
+    }
+  });
+
+  it("checks an edit that makes an item repeat", async () => {
+    const [item] = await createItems("repeat", [{ scheduledDate: march(1) }]);
+
+    await expect(checkContentUpdateQuota(storage, item, { title: "Renamed" } as Partial<ContentItem>)).resolves.toBeUndefined();
+    expect(await quotaError(checkContentUpdateQuota(storage, item, { recurrence: "FREQ=DAILY", timeZone: "UTC" })))
+      .toMatchObject({ quota: "scheduledItemsPerMonth" });
+  });
+
+  it("checks an occurrence moved to another month on its own", async () => {
+    // Ten daily occurrences fill March
+    const [series] = await createItems("detach", [
+      { scheduledDate: march(1), recurrence: "FREQ=DAILY;COUNT=10", timeZone: "UTC" },
+    ]);
+    await createItems("detach", Array(10).fill({ scheduledDate: new Date(Date.UTC(2030, 3, 1, 9)) }));
+
+    // Within the month it only swaps places with the occurrence
+    await expect(checkOccurrenceQuota(storage, series, march(2), { platform: "social", scheduledDate: march(20) })).resolves.toBeUndefined();
+    await expect(checkOccurrenceQuota(storage, series, march(2), { platform: "email", scheduledDate: march(2) })).resolves.toBeUndefined();
+    // April is full already
+    expect(await quotaError(checkOccurrenceQuota(storage, series, march(2), { platform: "social", scheduledDate: new Date(Date.UTC(2030, 3, 2, 9)) })))
+      .toMatchObject({ quota: "scheduledItemsPerMonth", used: 10 });
+  });
+
+  it("checks a series split onto a busier rule", async () => {
+    const [series] = await createItems("split", [
+      { scheduledDate: march(4), recurrence: "FREQ=WEEKLY", timeZone: "UTC" },
+    ]);
+    const rules = splitRecurrence(series, march(18));
+
+    // Carrying on as before adds nothing
+    await expect(checkSplitQuota(storage, series, march(18), rules, {
+      platform: "social",
+      scheduledDate: march(18),
+      recurrence: rules.after,
+      timeZone: "UTC",
+    })).resolves.toBeUndefined();
+    // Twice a week from the 18th: 4th and 11th, then 18, 21, 25, 28
+    await expect(checkSplitQuota(storage, series, march(18), rules, {
+      platform: "social",
+      scheduledDate: march(18),
+      recurrence: "FREQ=WEEKLY;BYDAY=MO,TH",
+      timeZone: "UTC",
+    })).resolves.toBeUndefined();
+    expect(await quotaError(checkSplitQuota(storage, series, march(18), rules, {
+      platform: "social",
+      scheduledDate: march(18),
+      recurrence: "FREQ=DAILY",
+      timeZone: "UTC",
+    }))).toMatchObject({ quota: "scheduledItemsPerMonth", used: 2 });
+  });
+});
+
+describe("withQuotaLock", () => {
+  it("makes concurrent checks and writes for an owner take turns", async () => {
+    const [{ workspaceId }] = await createItems("racer", Array(9).fill({ scheduledDate: march(1) }));
+    const item = { title: "Post", platform: "social", scheduledDate: march(2), status: "draft" } as InsertContentItem;
+    const create = () => storage.withQuotaLock(["racer"], async (locked) => {
+      await checkContentQuota(locked, "racer", [item]);
+      // A slow write, which another request could overtake without the lock
+      await new Promise((resolve) => setTimeout(resolve, 10));
+      return locked.createContentItem(workspaceId, "racer", item);
+    });
+
+    const results = await Promise.allSettled([create(), create(), create()]);
+    expect(results.map((result) => result.status)).toEqual(["fulfilled", "rejected", "rejected"]);
+    expect((await getUsageMeter("racer", march(15))).usage.scheduledItemsPerMonth).toBe(10);
+  });
+});
@@ -0,0 +1,248 @@
+import { parseRecurrence } from "@shared/recurrence";
+import type { ContentException, ContentItem, Plan, PlanLimits, QuotaExceeded, QuotaName, UsageMeter } from "@shared/schema";
+import { countOccurrences } from "./content-series";
+import { getEntitlements } from "./entitlements";
+import { expandOccurrences } from "./recurrence";
+import { storage, type IStorage } from "./storage";
+
+const AI_REQUESTS = "ai-requests";
+
+const quotaMessages: Record<QuotaName, string> = {
+  scheduledItemsPerMonth: "You've scheduled as many items this month as your plan allows",
+  platforms: "Your plan doesn't allow content on more platforms",
+  aiRequestsPerDay: "You've used all of today's AI requests",
+  exportItems: "This export has more items than your plan allows",
+};
+
+// "unlimited" lifts a limit; anything else must be a whole number
+function limitsFromEnv(prefix: string, defaults: PlanLimits): PlanLimits {
+  const limits = { ...defaults };
+  for (const quota of Object.keys(defaults) as QuotaName[]) {
+    const name = `${prefix}_${quota.replace(/[A-Z]/g, (letter) => `_${letter}`).toUpperCase()}`;
+    const value = process.env[name];
+    if (!value) continue;
+    if (value === "unlimited") {
+      limits[quota] = null;
+    } else if (/^\d+$/.test(value)) {
+      limits[quota] = Number(value);
+    } else {
+      throw new Error(`${name} must be a whole number or "unlimited"`);
+    }
+  }
+  return limits;
+}
+
+// The free tier matches what the landing page promises. Exporting is a
+// Premium feature, so free exports are never allowed. Each limit can be
+// changed with an environment variable, e.g. FREE_PLATFORMS=2 or
+// PREMIUM_AI_REQUESTS_PER_DAY=unlimited.
+export const planLimits: Record<Plan, PlanLimits> = {
+  free: limitsFromEnv("FREE", { scheduledItemsPerMonth: 10, platforms: 3, aiRequestsPerDay: 10, exportItems: 0 }),
+  premium: limitsFromEnv("PREMIUM", { scheduledItemsPerMonth: null, platforms: null, aiRequestsPerDay: 200, exportItems: null }),
+};
+
+export class QuotaExceededError extends Error {
+  constructor(
+    readonly quota: QuotaName,
+    readonly plan: Plan,
+    readonly limit: number,
+    readonly used: number,
+  ) {
+    super(quotaMessages[quota]);
+  }
+
+  // 402 when Premium would allow it, 403 when no plan does
+  get status(): number {
+    const premiumLimit = planLimits.premium[this.quota];
+    return this.plan === "free" && (premiumLimit === null || premiumLimit > this.limit) ? 402 : 403;
+  }
+
+  toJSON(): QuotaExceeded {
+    return { message: this.message, quota: this.quota, plan: this.plan, limit: this.limit, used: this.used };
+  }
+}
+
+async function getPlan(userId: string, source: IStorage = storage): Promise<Plan> {
+  return (await getEntitlements(userId, new Date(), source)).plan;
+}
+
+// Calendar months and days are counted in UTC
+function monthOf(date: Date): { from: Date; to: Date } {
+  return {
+    from: new Date(Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), 1)),
+    to: new Date(Date.UTC(date.getUTCFullYear(), date.getUTCMonth() + 1, 1)),
+  };
+}
+
+function dayOf(date: Date): string {
+  return date.toISOString().slice(0, 10);
+}
+
+// An item as the content quotas see it. A series counts once for every
+// occurrence.
+export type QuotaItem = Pick<ContentItem, "platform" | "scheduledDate"> &
+  Partial<Pick<ContentItem, "recurrence" | "timeZone">>;
+
+// What a change replaces, which isn't counted against it
+export interface ReplacedContent {
+  // A stored item or series
+  id?: string;
+  // Series as they will be once the change is saved
+  series?: ContentItem[];
+  // Single occurrences of stored series
+  occurrences?: Pick<ContentException, "seriesId" | "occurrenceDate">[];
+}
+
+// New series are counted for the year after they start
+const SERIES_HORIZON_MS = 365 * 24 * 60 * 60 * 1000;
+
+function occurrenceDates(item: QuotaItem): Date[] {
+  if (!item.recurrence) return [item.scheduledDate];
+  return expandOccurrences(parseRecurrence(item.recurrence), item.scheduledDate, item.timeZone ?? "UTC", {
+    from: item.scheduledDate,
+    to: new Date(item.scheduledDate.getTime() + SERIES_HORIZON_MS),
+  });
+}
+
+// The owner's one-off items and series occurrences in the month
+async function monthlyUsage(storage: IStorage, ownerId: string, from: Date, to: Date, replaced: ReplacedContent = {}) {
+  const usage = await storage.getContentUsage(ownerId, from, to, replaced.id);
+  const series = [...usage.series, ...(replaced.series ?? []).filter((item) => item.scheduledDate < to)];
+  const occurrences = await countOccurrences(storage, series, { from, to: new Date(to.getTime() - 1) }, replaced.occurrences);
+  return { scheduled: usage.scheduled + occurrences, platforms: usage.platforms };
+}
+
+// Throws QuotaExceededError unless the owner's plan has room for the items
+// in every month they fall in. Run it on the storage withQuotaLock passes,
+// and save the items there, so concurrent requests can't both pass.
+export async function checkContentQuota(
+  storage: IStorage,
+  ownerId: string,
+  items: QuotaItem[],
+  replaced?: ReplacedContent,
+): Promise<void> {
+  const plan = await getPlan(ownerId, storage);
+  const limits = planLimits[plan];
+  if (items.length === 0 || (limits.scheduledItemsPerMonth === null && limits.platforms === null)) return;
+
+  const months = new Map<number, { from: Date; to: Date; count: number }>();
+  for (const date of items.flatMap(occurrenceDates)) {
+    const month = monthOf(date);
+    const entry = months.get(month.from.getTime()) ?? { ...month, count: 0 };
+    entry.count += 1;
+    months.set(month.from.getTime(), entry);
+  }
+
+  let platforms: string[] = [];
+  for (const { from, to, count } of Array.from(months.values())) {
+    const usage = await monthlyUsage(storage, ownerId, from, to, replaced);
+    platforms = usage.platforms;
+    const limit = limits.scheduledItemsPerMonth;
+    if (limit !== null && usage.scheduled + count > limit) {
+      throw new QuotaExceededError("scheduledItemsPerMonth", plan, limit, usage.scheduled);
+    }
+  }
+
+  // Platforms already in use stay usable even if the plan allows fewer now
+  const limit = limits.platforms;
+  const added = new Set(items.map((item) => item.platform).filter((platform) => !platforms.includes(platform)));
+  if (limit !== null && added.size > 0 && platforms.length + added.size > limit) {
+    throw new QuotaExceededError("platforms", plan, limit, platforms.length);
+  }
+}
+
+function sameMonth(a: Date, b: Date): boolean {
+  return monthOf(a).from.getTime() === monthOf(b).from.getTime();
+}
+
+// Edits only count when they move an item to another month or platform, or
+// change how it repeats, so items over a limit (say, after a downgrade) can
+// still be edited
+export async function checkContentUpdateQuota(
+  storage: IStorage,
+  existing: ContentItem,
+  changes: Partial<QuotaItem>,
+): Promise<void> {
+  const next: QuotaItem = {
+    platform: changes.platform ?? existing.platform,
+    scheduledDate: changes.scheduledDate ?? existing.scheduledDate,
+    recurrence: changes.recurrence === undefined ? existing.recurrence : changes.recurrence,
+    timeZone: changes.timeZone === undefined ? existing.timeZone : changes.timeZone,
+  };
+  if (
+    sameMonth(next.scheduledDate, existing.scheduledDate) &&
+    next.platform === existing.platform &&
+    (next.recurrence ?? null) === existing.recurrence &&
+    (next.timeZone ?? null) === existing.timeZone
+  ) {
+    return;
+  }
+  await checkContentQuota(storage, existing.ownerId, [next], { id: existing.id });
+}
+
+// Detaching an occurrence swaps it for an item of its own
+export async function checkOccurrenceQuota(storage: IStorage, series: ContentItem, occurrenceDate: Date, next: QuotaItem): Promise<void> {
+  if (sameMonth(next.scheduledDate, occurrenceDate) && next.platform === series.platform) return;
+  await checkContentQuota(storage, series.ownerId, [next], { occurrences: [{ seriesId: series.id, occurrenceDate }] });
+}
+
+// Splitting a series cuts it short with `before` and continues it as `next`.
+// Continuing on the same rule, time and platform changes nothing.
+export async function checkSplitQuota(
+  storage: IStorage,
+  series: ContentItem,
+  occurrenceDate: Date,
+  rules: { before: string; after: string },
+  next: QuotaItem,
+): Promise<void> {
+  if (
+    next.recurrence === rules.after &&
+    next.scheduledDate.getTime() === occurrenceDate.getTime() &&
+    next.platform === series.platform &&
+    (next.timeZone ?? null) === series.timeZone
+  ) {
+    return;
+  }
+  await checkContentQuota(storage, series.ownerId, [next], {
+    id: series.id,
+    series: [{ ...series, recurrence: rules.before }],
+  });
+}
+
+export async function checkExportQuota(userId: string, itemCount: number): Promise<void> {
+  const plan = await getPlan(userId);
+  const limit = planLimits[plan].exportItems;
+  if (limit !== null && itemCount > limit) {
+    throw new QuotaExceededError("exportItems", plan, limit, itemCount);
+  }
+}
+
+// Counts an AI request against today's allowance, or throws if it's used up
+export async function consumeAiRequest(userId: string, now: Date = new Date()): Promise<void> {
+  const plan = await getPlan(userId);
+  const limit = planLimits[plan].aiRequestsPerDay;
+  const count = await storage.incrementUsage(userId, AI_REQUESTS, dayOf(now), limit);
+  if (count === undefined) {
+    throw new QuotaExceededError("aiRequestsPerDay", plan, limit!, limit!);
+  }
+}
+
+// Gives back a request counted by consumeAiRequest at `now` that failed
+export async function refundAiRequest(userId: string, now: Date): Promise<void> {
+  await storage.decrementUsage(userId, AI_REQUESTS, dayOf(now));
+}
+
+export async function getUsageMeter(userId: string, now: Date = new Date()): Promise<UsageMeter> {
+  const plan = await getPlan(userId);
+  const { from, to } = monthOf(now);
+  const content = await monthlyUsage(storage, userId, from, to);
+  return {
+    plan,
+    limits: planLimits[plan],
+    usage: {
+      scheduledItemsPerMonth: content.scheduled,
+      platforms: content.platforms.length,
+      aiRequestsPerDay: await storage.getUsageCount(userId, AI_REQUESTS, dayOf(now)),
+    },
+  };
+}
@@ -0,0 +1,122 @@
+import { describe, expect, it } from "vitest";
+import { parseRecurrence } from "@shared/recurrence";
+import { countOccurrencesBefore, expandOccurrences } from "./recurrence";
+import { zonedTime } from "./time-zones";
+
+const iso = (dates: Date[]) => dates.map((date) => date.toISOString());
+
+function expand(rule: string, start: string, timeZone: string, to: string, from = start): string[] {
+  return iso(expandOccurrences(parseRecurrence(rule), new Date(start), timeZone, { from: new Date(from), to: new Date(to) }));
+}
+
+describe("expandOccurrences", () => {
+  it.each([
+    {
+      name: "keeps a weekly New York post at 9:00 as DST starts",
+      rule: "FREQ=WEEKLY;BYDAY=MO",
+      start: "2030-03-04T14:00:00Z", // Monday 9:00 EST
+      timeZone: "America/New_York",
+      to: "2030-03-19T00:00:00Z",
+      expected: ["2030-03-04T14:00:00.000Z", "2030-03-11T13:00:00.000Z", "2030-03-18T13:00:00.000Z"],
+    },
+    {
+      name: "keeps a weekly New York post at 9:00 as DST ends",
+      rule: "FREQ=WEEKLY",
+      start: "2030-10-28T13:00:00Z", // Monday 9:00 EDT
+      timeZone: "America/New_York",
+      to: "2030-11-05T00:00:00Z",
+      expected: ["2030-10-28T13:00:00.000Z", "2030-11-04T14:00:00.000Z"],
+    },
+    {
+      name: "keeps a daily Berlin post at 8:00 across the change to summer time",
+      rule: "FREQ=DAILY",
+      start: "2030-03-30T07:00:00Z", // Saturday 8:00 CET
+      timeZone: "Europe/Berlin",
+      to: "2030-04-01T12:00:00Z",
+      expected: ["2030-03-30T07:00:00.000Z", "2030-03-31T06:00:00.000Z", "2030-04-01T06:00:00.000Z"],
+    },
+    {
+      name: "finds the second Tuesday of each month",
+      rule: "FREQ=MONTHLY;BYDAY=2TU",
+      start: "2030-01-08T10:00:00Z",
+      timeZone: "UTC",
+      to: "2030-04-30T00:00:00Z",
+      expected: ["2030-01-08T10:00:00.000Z", "2030-02-12T10:00:00.000Z", "2030-03-12T10:00:00.000Z", "2030-04-09T10:00:00.000Z"],
+    },
+    {
+      name: "finds the last Friday of each month",
+      rule: "FREQ=MONTHLY;BYDAY=-1FR",
+      start: "2030-01-25T16:00:00Z",
+      timeZone: "UTC",
+      to: "2030-04-30T00:00:00Z",
+      expected: ["2030-01-25T16:00:00.000Z", "2030-02-22T16:00:00.000Z", "2030-03-29T16:00:00.000Z", "2030-04-26T16:00:00.000Z"],
+    },
+    {
+      name: "finds last Fridays on the local calendar of the series",
+      rule: "FREQ=MONTHLY;BYDAY=-1FR",
+      start: "2030-01-25T23:30:00Z", // Saturday 8:30 in Tokyo
+      timeZone: "Asia/Tokyo",
+      to: "2030-03-01T00:00:00Z",
+      // The start counts even though it isn't a Friday in Tokyo
+      expected: ["2030-01-25T23:30:00.000Z", "2030-02-21T23:30:00.000Z"],
+    },
+    {
+      name: "skips months too short for the start day",
+      rule: "FREQ=MONTHLY",
+      start: "2030-01-31T09:00:00Z",
+      timeZone: "UTC",
+      to: "2030-05-01T00:00:00Z",
+      expected: ["2030-01-31T09:00:00.000Z", "2030-03-31T09:00:00.000Z"],
+    },
+    {
+      name: "stops after COUNT occurrences",
+      rule: "FREQ=WEEKLY;BYDAY=MO,WE,FR;COUNT=4",
+      start: "2030-01-07T09:00:00Z",
+      timeZone: "UTC",
+      to: "2030-12-31T00:00:00Z",
+      expected: ["2030-01-07T09:00:00.000Z", "2030-01-09T09:00:00.000Z", "2030-01-11T09:00:00.000Z", "2030-01-14T09:00:00.000Z"],
+    },
+    {
+      name: "counts occurrences before the range towards COUNT",
+      rule: "FREQ=DAILY;COUNT=5",
+      start: "2030-01-01T09:00:00Z",
+      from: "2030-01-04T00:00:00Z",
+      timeZone: "UTC",
+      to: "2030-12-31T00:00:00Z",
+      expected: ["2030-01-04T09:00:00.000Z", "2030-01-05T09:00:00.000Z"],
+    },
+    {
+      name: "includes the whole day of a date-only UNTIL",
+      rule: "FREQ=DAILY;INTERVAL=2;UNTIL=20300105",
+      start: "2030-01-01T09:00:00Z",
+      timeZone: "UTC",
+      to: "2030-12-31T00:00:00Z",
+      expected: ["2030-01-01T09:00:00.000Z", "2030-01-03T09:00:00.000Z", "2030-01-05T09:00:00.000Z"],
+    },
+  ])("$name", ({ rule, start, from, timeZone, to, expected }) => {
+    expect(expand(rule, start, timeZone, to, from)).toEqual(expected);
+  });
+
+  it("counts the occurrences before a date", () => {
+    const rule = parseRecurrence("FREQ=WEEKLY;BYDAY=TU,TH");
+    const start = new Date("2030-01-01T09:00:00Z");
+    expect(countOccurrencesBefore(rule, start, "UTC", start)).toBe(0);
+    expect(countOccurrencesBefore(rule, start, "UTC", new Date("2030-01-08T09:00:00Z"))).toBe(2);
+  });
+});
+
+describe("zonedTime", () => {
+  const day = (date: string) => new Date(`${date}T00:00:00Z`);
+
+  it.each([
+    { name: "an ordinary winter time", date: "2030-01-15", hours: 9, minutes: 0, expected: "2030-01-15T14:00:00.000Z" },
+    { name: "a time on the day DST starts", date: "2030-03-10", hours: 9, minutes: 0, expected: "2030-03-10T13:00:00.000Z" },
+    // 2:30 never happens that night; read it as 2:30 EST, which is 3:30 EDT
+    { name: "a time skipped when DST starts", date: "2030-03-10", hours: 2, minutes: 30, expected: "2030-03-10T07:30:00.000Z" },
+    // 1:30 happens twice that night; the first is EDT
+    { name: "a time repeated when DST ends", date: "2030-11-03", hours: 1, minutes: 30, expected: "2030-11-03T05:30:00.000Z" },
+    { name: "a time after DST ends", date: "2030-11-03", hours: 9, minutes: 0, expected: "2030-11-03T14:00:00.000Z" },
+  ])("finds $name in New York", ({ date, hours, minutes, expected }) => {
+    expect(zonedTime(day(date), hours, minutes, "America/New_York").toISOString()).toBe(expected);
+  });
+});
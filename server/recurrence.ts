@@ -0,0 +1,105 @@
+import { weekdayCodes, type RecurrenceDay, type RecurrenceRule } from "@shared/recurrence";
+import { wallClock, zonedTime } from "./time-zones";
+
+// Expands recurrence rules into occurrence start times. Rules are evaluated
+// on the series' local calendar, so "every Monday at 9:00" stays at 9:00
+// across DST changes.
+
+// Stops runaway expansion of long-lived daily series over huge ranges
+const MAX_PERIODS = 20_000;
+const MAX_OCCURRENCES = 1000;
+
+export interface OccurrenceRange {
+  from: Date;
+  to: Date;
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+function addDays(day: Date, days: number): Date {
+  return new Date(day.getTime() + days * DAY_MS);
+}
+
+// 0 = Monday, to match weekdayCodes
+function weekdayIndex(day: Date): number {
+  return (day.getUTCDay() + 6) % 7;
+}
+
+function daysInMonth(year: number, month: number): number {
+  return new Date(Date.UTC(year, month + 1, 0)).getUTCDate();
+}
+
+function monthDays(year: number, month: number, byDay: RecurrenceDay[], startDay: number): Date[] {
+  const length = daysInMonth(year, month);
+  // Months too short for the start day are skipped, as in RFC 5545
+  if (byDay.length === 0) {
+    return startDay <= length ? [new Date(Date.UTC(year, month, startDay))] : [];
+  }
+
+  const days = new Set<number>();
+  for (const { weekday, ordinal } of byDay) {
+    const target = weekdayCodes.indexOf(weekday);
+    const first = ((target - weekdayIndex(new Date(Date.UTC(year, month, 1))) + 7) % 7) + 1;
+    const matches: number[] = [];
+    for (let day = first; day <= length; day += 7) matches.push(day);
+
+    if (ordinal === undefined) matches.forEach((day) => days.add(day));
+    else {
+      const day = ordinal > 0 ? matches[ordinal - 1] : matches[matches.length + ordinal];
+      if (day !== undefined) days.add(day);
+    }
+  }
+  return Array.from(days).sort((a, b) => a - b).map((day) => new Date(Date.UTC(year, month, day)));
+}
+
+// Candidate local days of the nth period after the start
+function periodDays(rule: RecurrenceRule, start: Date, period: number): Date[] {
+  switch (rule.freq) {
+    case "DAILY":
+      return [addDays(start, period * rule.interval)];
+    case "WEEKLY": {
+      const weekStart = addDays(start, period * rule.interval * 7 - weekdayIndex(start));
+      const weekdays = rule.byDay.length > 0
+        ? rule.byDay.map((day) => weekdayCodes.indexOf(day.weekday))
+        : [weekdayIndex(start)];
+      return Array.from(new Set(weekdays)).sort((a, b) => a - b).map((index) => addDays(weekStart, index));
+    }
+    case "MONTHLY": {
+      const month = start.getUTCMonth() + period * rule.interval;
+      return monthDays(start.getUTCFullYear() + Math.floor(month / 12), month % 12, rule.byDay, start.getUTCDate());
+    }
+  }
+}
+
+// Occurrences of a series starting at `start` that fall inside the range.
+// The start itself is always the first occurrence; COUNT includes
+// occurrences before the range.
+export function expandOccurrences(rule: RecurrenceRule, start: Date, timeZone: string, range: OccurrenceRange): Date[] {
+  const local = wallClock(start, timeZone);
+  const occurrences: Date[] = [];
+  let seen = 0;
+
+  const add = (instant: Date): boolean => {
+    seen++;
+    if ((rule.count && seen > rule.count) || (rule.until && instant > rule.until) || instant > range.to) {
+      return false;
+    }
+    if (instant >= range.from) occurrences.push(instant);
+    return occurrences.length < MAX_OCCURRENCES;
+  };
+
+  // The start counts even when it doesn't match BYDAY, as in RFC 5545
+  if (!add(start)) return occurrences;
+  for (let period = 0; period < MAX_PERIODS; period++) {
+    for (const day of periodDays(rule, local.day, period)) {
+      if (day <= local.day) continue;
+      if (!add(zonedTime(day, local.hours, local.minutes, timeZone, local.seconds))) return occurrences;
+    }
+  }
+  return occurrences;
+}
+
+// How many occurrences come before `date`, for splitting counted series
+export function countOccurrencesBefore(rule: RecurrenceRule, start: Date, timeZone: string, date: Date): number {
+  return expandOccurrences(rule, start, timeZone, { from: start, to: new Date(date.getTime() - 1) }).length;
+}
@@ -1,37 +1,1081 @@
-import type { Express } from "express";
+import type { Express, Request, Response } from "express";
 import { createServer, type Server } from "http";
 import { storage } from "./storage";
-import { insertContentItemSchema } from "@shared/schema";
+import {
+  aiChatSchema,
+  aiSuggestionsSchema,
+  analyticsQuerySchema,
+  bulkScheduleSchema,
+  calendarFeedQuerySchema,
+  can,
+  changeProposalSchema,
+  chatMessageCreateSchema,
+  chatMessageLinkSchema,
+  chatMessageUpdateSchema,
+  chatThreadCreateSchema,
+  chatThreadUpdateSchema,
+  contentChangeSchema,
+  contentChangeSetSchema,
+  contentExportQuerySchema,
+  contentImportSchema,
+  contentPieceUpdateSchema,
+  contentQuerySchema,
+  contentStatusChangeSchema,
+  contentVariantCreateSchema,
+  createContentItemSchema,
+  insertContentItemSchema,
+  insertContentMetricsSchema,
+  insertDestinationSchema,
+  insertInvitationSchema,
+  insertWorkspaceSchema,
+  metricsIngestSchema,
+  occurrenceDeleteQuerySchema,
+  occurrenceUpdateSchema,
+  postingTimesQuerySchema,
+  subscriptionActivationSchema,
+  subscriptionCancelSchema,
+  updateMemberSchema,
+  type AiChatMessage,
+  type AssistantEvent,
+  type BulkScheduleResult,
+  type CalendarFeed,
+  type ChangeProposal,
+  type ChatThread,
+  type ChatThreadWithMessages,
+  type ContentChangeResult,
+  type ContentItem,
+  type ContentImportResult,
+  type InsertContentItem,
+  type MetricsImportResult,
+  type MetricsKey,
+  type PremiumPlan,
+  type PublishDestination,
+  type WorkspaceRole,
+} from "@shared/schema";
+import type { ContentStatus } from "@shared/workflow";
 import { createPaypalOrder, capturePaypalOrder, loadPaypalDefault } from "./paypal";
+import { createDefaultVerifier, requireAuth, type TokenVerifier } from "./auth";
+import { getDefaultWorkspace, requirePermission, resolveWorkspace } from "./permissions";
+import {
+  BillingNotConfiguredError,
+  PREMIUM_PLAN_ID,
+  createDefaultBillingGateway,
+  createDefaultWebhookVerifier,
+  paypalWebhookEventSchema,
+  type BillingGateway,
+  type WebhookVerifier,
+} from "./billing";
+import { handleBillingEvent } from "./subscription-events";
+import { getEntitlements, requireFeature } from "./entitlements";
+import {
+  QuotaExceededError,
+  checkContentQuota,
+  checkContentUpdateQuota,
+  checkOccurrenceQuota,
+  checkSplitQuota,
+  checkExportQuota,
+  consumeAiRequest,
+  refundAiRequest,
+  getUsageMeter,
+} from "./quotas";
+import { AiProviderError, createDefaultAiProvider, type AiProvider, type AssistantContext } from "./ai";
+import { checkTransition, editStatusChange, moveStatusChange, statusChange, type TransitionError } from "./workflow";
+import { mergeSecrets, redactConfig } from "./publishers";
+import { ImportError, parseContentImport } from "./content-import";
+import { contentItemsToCsv, importTemplateCsv } from "./content-export";
+import { metricsTemplateCsv, parseMetricsImport, snapshotKey } from "./metrics-import";
+import { InvalidCursorError } from "./content-query";
+import { toICalendar } from "./ics";
+import { generateSchedule } from "./schedule-generator";
+import { computeAnalytics } from "./analytics";
+import { recommendPostingTimes } from "./posting-times";
+import {
+  inheritedStatus,
+  isPendingOccurrence,
+  occurrenceItem,
+  splitRecurrence,
+  withOccurrences,
+} from "./content-series";
 
-export async function registerRoutes(app: Express): Promise<Server> {
+// How far around today calendar feeds list the occurrences of a series
+const FEED_PAST_MS = 90 * 24 * 60 * 60 * 1000;
+const FEED_FUTURE_MS = 365 * 24 * 60 * 60 * 1000;
+// How much of the workspace's content goes into AI prompts
+const ASSISTANT_CONTEXT_ITEMS = 20;
+const ASSISTANT_UPCOMING_MS = 14 * 24 * 60 * 60 * 1000;
+// How much of a thread the model is sent
+const ASSISTANT_HISTORY_MESSAGES = 40;
+
+function toDestinationResponse(destination: PublishDestination) {
+  return { ...destination, config: redactConfig(destination.config) };
+}
+
+// A content item may only point at a destination of its own workspace
+async function isValidDestination(workspaceId: string, destinationId: string | null | undefined): Promise<boolean> {
+  if (!destinationId) return true;
+  return !!(await storage.getDestination(workspaceId, destinationId));
+}
+
+// A workspace must always keep at least one owner
+async function isLastOwner(workspaceId: string, userId: string): Promise<boolean> {
+  const members = await storage.getMembers(workspaceId);
+  const owners = members.filter((member) => member.role === "owner");
+  return owners.length === 1 && owners[0].userId === userId;
+}
+
+// Field edits plus an optional status change, with the same checks wherever
+// an item is edited
+async function applyContentUpdate(
+  workspaceId: string,
+  role: WorkspaceRole,
+  userId: string,
+  existing: ContentItem,
+  status: ContentStatus | undefined,
+  changes: Partial<InsertContentItem>,
+): Promise<{ item: ContentItem } | { error: TransitionError }> {
+  if (!await isValidDestination(workspaceId, changes.destinationId)) {
+    return { error: { status: 400, message: "Unknown publish destination" } };
+  }
+
+  // Posted content already went out at its scheduled time
+  if (existing.status === "posted" && changes.scheduledDate &&
+      changes.scheduledDate.getTime() !== existing.scheduledDate.getTime()) {
+    return { error: { status: 409, message: "Posted content cannot be rescheduled" } };
+  }
+
+  if (existing.seriesId && changes.recurrence) {
+    return { error: { status: 400, message: "An occurrence of a series cannot repeat on its own" } };
+  }
+
+  if (existing.pieceId && changes.recurrence) {
+    return { error: { status: 400, message: "A variant cannot repeat" } };
+  }
+
+  // A piece has one variant per channel
+  if (existing.pieceId && changes.platform && changes.platform !== existing.platform) {
+    const piece = await storage.getContentPiece(workspaceId, existing.pieceId);
+    if (piece?.variants.some((variant) => variant.platform === changes.platform)) {
+      return { error: { status: 409, message: `This post already has a variant for ${changes.platform}` } };
+    }
+  }
+
+  // Changing signed-off copy sends the item back to review
+  const result = editStatusChange(role, userId, existing, status, changes);
+  if ("error" in result) return result;
+
+  // Checked against the status the edit was judged on, so a concurrent
+  // approval can't sign off copy nobody reviewed
+  const item = await storage.withQuotaLock([existing.ownerId], async (locked) => {
+    await checkContentUpdateQuota(locked, existing, changes);
+    return locked.updateContentItem(workspaceId, existing.id, changes, existing.status, result.change ?? undefined);
+  });
+  if (!item) {
+    return await storage.getContentItem(workspaceId, existing.id)
+      ? { error: { status: 409, message: "Content status was changed by someone else" } }
+      : { error: { status: 404, message: "Content item not found" } };
+  }
+  return { item };
+}
+
+function parseOccurrenceDate(value: string): Date | undefined {
+  const date = new Date(value);
+  return isNaN(date.getTime()) ? undefined : date;
+}
+
+// The feed URL is the credential, so it's only ever shown to its owner
+function toCalendarFeedResponse(feed: CalendarFeed) {
+  return { path: `/feeds/${feed.token}.ics`, createdAt: feed.createdAt };
+}
+
+function toMetricsKeyResponse(key: MetricsKey) {
+  return { token: key.token, createdAt: key.createdAt };
+}
+
+// The assistant sees the workspace's most recently edited content and what
+// is coming up
+async function assistantContext(workspaceId: string): Promise<AssistantContext> {
+  const now = new Date();
+  const { items: recentItems } = await storage.queryContentItems(workspaceId, { sort: "-updatedAt", limit: ASSISTANT_CONTEXT_ITEMS });
+  const { items: upcomingItems } = await storage.queryContentItems(workspaceId, {
+    from: now,
+    to: new Date(now.getTime() + ASSISTANT_UPCOMING_MS),
+  });
+  return { recentItems, upcomingItems, now };
+}
+
+// A thread is named after its first message until it is renamed
+function threadTitle(content: string): string {
+  const line = content.split("\n")[0].trim();
+  return line.length > 60 ? `${line.slice(0, 59)}…` : line;
+}
+
+// Turns what the model proposed into something the user can review. Invalid
+// changes and moves of posted items or items outside the workspace are
+// dropped; moves show the item as it is now. Undefined if nothing is left.
+async function reviewProposal(workspaceId: string, proposal: unknown): Promise<ChangeProposal | undefined> {
+  const parsed = changeProposalSchema.safeParse(proposal);
+  if (!parsed.success) return undefined;
+
+  const changes: ChangeProposal["changes"] = [];
+  for (const raw of parsed.data.changes) {
+    const change = contentChangeSchema.safeParse(raw);
+    if (!change.success) continue;
+    if (change.data.type === "create") {
+      changes.push(change.data);
+      continue;
+    }
+    const item = await storage.getContentItem(workspaceId, change.data.contentId);
+    if (item && item.status !== "posted") {
+      changes.push({ ...change.data, current: { title: item.title, platform: item.platform, scheduledDate: item.scheduledDate } });
+    }
+  }
+  return changes.length > 0 ? { summary: parsed.data.summary, changes } : undefined;
+}
+
+// Where a chat reply is saved: a stored thread, or a new one that starts
+// with the earlier messages a client sent
+type ChatTarget = { thread: ChatThread } | { earlier: AiChatMessage[] };
+
+// Answers the user's message, streaming the reply as newline-delimited JSON,
+// one AssistantEvent per line. The message and the reply are only stored once
+// the reply is complete, and a reply that fails doesn't count against the AI
+// allowance.
+async function answerChat(ai: AiProvider, req: Request, res: Response, target: ChatTarget, content: string): Promise<void> {
+  const workspaceId = req.workspace!.id;
+  const userId = req.auth!.uid;
+  let chargedAt: Date | undefined;
+  try {
+    const requestedAt = new Date();
+    await consumeAiRequest(userId, requestedAt);
+    chargedAt = requestedAt;
+
+    // A reply can be just a proposal, which the model knows by its summary
+    const earlier = "thread" in target
+      ? (await storage.getChatMessages(target.thread.id))
+          .map((message) => ({ role: message.role, content: message.content.trim() || message.proposal?.summary || "" }))
+          .filter((message) => message.content)
+      : target.earlier;
+    const history: AiChatMessage[] = [...earlier.slice(-ASSISTANT_HISTORY_MESSAGES), { role: "user", content }];
+    const reply = ai.streamChat(history, await assistantContext(workspaceId))[Symbol.asyncIterator]();
+    // Waiting for the first piece lets a failing provider still get an
+    // error status
+    let piece = await reply.next();
+    res.type("application/x-ndjson");
+    res.set("Cache-Control", "no-cache");
+    const send = (event: AssistantEvent) => res.write(`${JSON.stringify(event)}\n`);
+    let text = "";
+    let proposal: ChangeProposal | undefined;
+    while (!piece.done) {
+      if (piece.value.type === "text") {
+        text += piece.value.text;
+        send(piece.value);
+      } else {
+        const reviewed = await reviewProposal(workspaceId, piece.value.proposal);
+        if (reviewed) {
+          proposal = reviewed;
+          send({ type: "proposal", proposal });
+        } else {
+          const note = "\n\n(The proposed changes couldn't be used.)";
+          text += note;
+          send({ type: "text", text: note });
+        }
+      }
+      piece = await reply.next();
+    }
+
+    let thread = "thread" in target
+      ? target.thread
+      : await storage.createChatThread(workspaceId, userId, null);
+    const stored = await storage.addChatMessages(thread.id, [
+      ...("thread" in target ? [] : target.earlier),
+      { role: "user", content },
+      { role: "assistant", content: text.trim(), proposal: proposal ?? null, proposalStatus: proposal ? "pending" : null },
+    ]);
+    if (thread.title === null) {
+      const first = stored.find((message) => message.role === "user")!;
+      thread = await storage.renameChatThread(workspaceId, userId, thread.id, threadTitle(first.content)) ?? thread;
+    }
+    chargedAt = undefined;
+    send({ type: "saved", thread, messages: stored.slice(-2) });
+    res.end();
+  } catch (error) {
+    if (chargedAt) {
+      await refundAiRequest(userId, chargedAt)
+        .catch((refundError) => console.error("Error refunding AI request:", refundError));
+    }
+    if (res.headersSent) {
+      if (!(error instanceof AiProviderError)) console.error("Error streaming AI reply:", error);
+      const message = error instanceof AiProviderError ? error.message : "Failed to answer";
+      res.write(`${JSON.stringify({ type: "error", message } satisfies AssistantEvent)}\n`);
+      res.end();
+      return;
+    }
+    if (error instanceof QuotaExceededError) {
+      res.status(error.status).json(error);
+      return;
+    }
+    if (error instanceof AiProviderError) {
+      res.status(502).json({ message: error.message });
+      return;
+    }
+    console.error("Error answering AI chat:", error);
+    res.status(500).json({ message: "Failed to answer" });
+  }
+}
+
+// Metrics are only recorded for content that has gone out
+async function postedContentIds(workspaceId: string): Promise<Set<string>> {
+  const { items } = await storage.queryContentItems(workspaceId, { status: ["posted"] });
+  return new Set(items.map((item) => item.id));
+}
+
+export async function registerRoutes(
+  app: Express,
+  verifier: TokenVerifier = createDefaultVerifier(),
+  billing: BillingGateway = createDefaultBillingGateway(),
+  webhooks: WebhookVerifier = createDefaultWebhookVerifier(),
+  ai: AiProvider = createDefaultAiProvider(),
+): Promise<Server> {
   // PayPal routes (matching blueprint requirements)
   app.get("/paypal/setup", async (req, res) => {
     await loadPaypalDefault(req, res);
   });
 
-  app.post("/paypal/order", async (req, res) => {
-    await createPaypalOrder(req, res);
+  app.post("/paypal/order", async (req, res) => {
+    await createPaypalOrder(req, res);
+  });
+
+  app.post("/paypal/order/:orderID/capture", async (req, res) => {
+    await capturePaypalOrder(req, res);
+  });
+
+  // PayPal reports subscription changes here. Events can arrive more than
+  // once, so each is applied only the first time its id is seen, and late
+  // ones older than the last applied are skipped.
+  app.post("/paypal/webhook", async (req, res) => {
+    try {
+      // Verify the body as sent; parsing drops fields PayPal signed
+      if (!(await webhooks.verifyWebhook(req.headers, req.body))) {
+        return res.status(400).json({ message: "Invalid webhook signature" });
+      }
+      const event = paypalWebhookEventSchema.parse(req.body);
+
+      const processed = await handleBillingEvent(storage, billing, event);
+      res.json({ processed });
+    } catch (error) {
+      if (error instanceof BillingNotConfiguredError) {
+        return res.status(503).json({ message: "Billing is not configured" });
+      }
+      if (error instanceof Error && error.name === "ZodError") {
+        return res.status(400).json({ message: "Invalid data", errors: error });
+      }
+      console.error("Error handling PayPal webhook:", error);
+      res.status(500).json({ message: "Failed to handle PayPal webhook" });
+    }
+  });
+
+  // Calendar apps can't send a bearer token, so the feed is authorized by
+  // the secret in its URL. It stops working if the user leaves the workspace.
+  app.get("/feeds/:token.ics", async (req, res) => {
+    try {
+      const query = calendarFeedQuerySchema.parse(req.query);
+      const feed = await storage.getCalendarFeedByToken(req.params.token);
+      const membership = feed && await storage.getMembership(feed.workspaceId, feed.userId);
+      const workspace = membership && await storage.getWorkspace(membership.workspaceId);
+      if (!workspace) {
+        return res.status(404).json({ message: "Calendar feed not found" });
+      }
+
+      const { items: stored } = await storage.queryContentItems(workspace.id, query);
+      const now = Date.now();
+      const items = await withOccurrences(storage, workspace.id, stored, {
+        ...query,
+        from: new Date(now - FEED_PAST_MS),
+        to: new Date(now + FEED_FUTURE_MS),
+      });
+      res.set("Cache-Control", "private, max-age=300");
+      res.type("text/calendar").send(toICalendar(items, { name: workspace.name, uidDomain: req.hostname }));
+    } catch (error) {
+      if (error instanceof Error && error.name === "ZodError") {
+        return res.status(400).json({ message: "Invalid data", errors: error });
+      }
+      console.error("Error serving calendar feed:", error);
+      res.status(500).json({ message: "Failed to serve calendar feed" });
+    }
+  });
+
+  // Outside scripts push engagement metrics with the workspace's metrics key
+  // as a bearer token. The whole batch is rejected if any entry is invalid.
+  app.post("/ingest/metrics", async (req, res) => {
+    try {
+      const header = req.headers.authorization;
+      const key = header?.startsWith("Bearer ") && await storage.getMetricsKeyByToken(header.slice("Bearer ".length));
+      if (!key) {
+        return res.status(401).json({ message: "Invalid metrics key" });
+      }
+
+      const { metrics } = metricsIngestSchema.parse(req.body);
+      const posted = await postedContentIds(key.workspaceId);
+      const unknown = metrics.filter((entry) => !posted.has(entry.contentId)).map((entry) => entry.contentId);
+      if (unknown.length > 0) {
+        return res.status(400).json({ message: "Metrics can only be recorded for posted content", contentIds: unknown });
+      }
+
+      const created = await storage.addContentMetrics(
+        key.workspaceId,
+        "api",
+        metrics.map(({ contentId, ...entry }) => ({ ...entry, contentItemId: contentId })),
+      );
+      if (!created) {
+        return res.status(409).json({ message: "The batch repeats a snapshot that was already recorded" });
+      }
+      res.status(201).json(created);
+    } catch (error) {
+      if (error instanceof Error && error.name === "ZodError") {
+        return res.status(400).json({ message: "Invalid data", errors: error });
+      }
+      console.error("Error ingesting metrics:", error);
+      res.status(500).json({ message: "Failed to ingest metrics" });
+    }
+  });
+
+  // Everything under /api requires a verified Firebase ID token
+  app.use("/api", requireAuth(verifier));
+
+  // Account routes
+  app.get("/api/me/entitlements", async (req, res) => {
+    try {
+      res.json(await getEntitlements(req.auth!.uid));
+    } catch (error) {
+      console.error("Error fetching entitlements:", error);
+      res.status(500).json({ message: "Failed to fetch entitlements" });
+    }
+  });
+
+  app.get("/api/me/usage", async (req, res) => {
+    try {
+      res.json(await getUsageMeter(req.auth!.uid));
+    } catch (error) {
+      console.error("Error fetching usage:", error);
+      res.status(500).json({ message: "Failed to fetch usage" });
+    }
+  });
+
+  // The plan the checkout subscribes to, which POST /api/subscriptions accepts
+  app.get("/api/subscriptions/plan", (req, res) => {
+    const plan: PremiumPlan = { planId: PREMIUM_PLAN_ID };
+    res.json(plan);
+  });
+
+  // Called after PayPal's checkout approves a subscription. Nothing is taken
+  // from the client but the id; the rest comes from PayPal.
+  app.post("/api/subscriptions", async (req, res) => {
+    try {
+      const { subscriptionId } = subscriptionActivationSchema.parse(req.body);
+      const remote = await billing.getSubscription(subscriptionId);
+      if (!remote) {
+        return res.status(404).json({ message: "Subscription not found" });
+      }
+      const stored = await storage.getSubscription(remote.id);
+      if (remote.customId !== req.auth!.uid || (stored && stored.userId !== req.auth!.uid)) {
+        return res.status(403).json({ message: "This subscription belongs to another account" });
+      }
+      if (remote.planId !== PREMIUM_PLAN_ID) {
+        return res.status(400).json({ message: "Unknown subscription plan" });
+      }
+
+      await storage.saveSubscription({
+        id: remote.id,
+        userId: req.auth!.uid,
+        planId: remote.planId,
+        status: remote.status,
+        startedAt: remote.startedAt,
+        currentPeriodEnd: remote.currentPeriodEnd,
+      });
+      res.status(201).json(await getEntitlements(req.auth!.uid));
+    } catch (error) {
+      if (error instanceof BillingNotConfiguredError) {
+        return res.status(503).json({ message: "Billing is not configured" });
+      }
+      if (error instanceof Error && error.name === "ZodError") {
+        return res.status(400).json({ message: "Invalid data", errors: error });
+      }
+      console.error("Error activating subscription:", error);
+      res.status(500).json({ message: "Failed to activate subscription" });
+    }
+  });
+
+  // Cancels at PayPal right away. Premium stays until the end of the period
+  // that was paid for; the webhook confirms the cancellation later.
+  app.post("/api/subscriptions/:id/cancel", async (req, res) => {
+    try {
+      const { reason } = subscriptionCancelSchema.parse(req.body ?? {});
+      const stored = await storage.getSubscription(req.params.id);
+      if (!stored || stored.userId !== req.auth!.uid) {
+        return res.status(404).json({ message: "Subscription not found" });
+      }
+      if (stored.status === "cancelled" || stored.status === "expired") {
+        return res.status(409).json({ message: "Subscription is already cancelled" });
+      }
+
+      await billing.cancelSubscription(stored.id, reason);
+      const { createdAt, updatedAt, ...subscription } = stored;
+      await storage.saveSubscription({ ...subscription, status: "cancelled" });
+      res.json(await getEntitlements(req.auth!.uid));
+    } catch (error) {
+      if (error instanceof BillingNotConfiguredError) {
+        return res.status(503).json({ message: "Billing is not configured" });
+      }
+      if (error instanceof Error && error.name === "ZodError") {
+        return res.status(400).json({ message: "Invalid data", errors: error });
+      }
+      console.error("Error cancelling subscription:", error);
+      res.status(500).json({ message: "Failed to cancel subscription" });
+    }
+  });
+
+  // Workspace routes
+  app.get("/api/workspaces", async (req, res) => {
+    try {
+      await getDefaultWorkspace(req.auth!.uid, req.auth!.email ?? null);
+      const workspaces = await storage.getWorkspacesForUser(req.auth!.uid);
+      res.json(workspaces);
+    } catch (error) {
+      console.error("Error fetching workspaces:", error);
+      res.status(500).json({ message: "Failed to fetch workspaces" });
+    }
+  });
+
+  app.post("/api/workspaces", async (req, res) => {
+    try {
+      const validatedData = insertWorkspaceSchema.parse(req.body);
+      const workspace = await storage.createWorkspace(req.auth!.uid, req.auth!.email ?? null, validatedData);
+      res.status(201).json({ ...workspace, role: "owner" });
+    } catch (error) {
+      if (error instanceof Error && error.name === "ZodError") {
+        return res.status(400).json({ message: "Invalid data", errors: error });
+      }
+      console.error("Error creating workspace:", error);
+      res.status(500).json({ message: "Failed to create workspace" });
+    }
+  });
+
+  app.get("/api/workspaces/:workspaceId/members", resolveWorkspace, requirePermission("content:read"), async (req, res) => {
+    try {
+      const members = await storage.getMembers(req.workspace!.id);
+      res.json(members);
+    } catch (error) {
+      console.error("Error fetching members:", error);
+      res.status(500).json({ message: "Failed to fetch members" });
+    }
+  });
+
+  app.patch("/api/workspaces/:workspaceId/members/:userId", resolveWorkspace, requirePermission("workspace:manage"), async (req, res) => {
+    try {
+      const { role } = updateMemberSchema.parse(req.body);
+      if (role !== "owner" && await isLastOwner(req.workspace!.id, req.params.userId)) {
+        return res.status(400).json({ message: "A workspace must have at least one owner" });
+      }
+      const member = await storage.updateMemberRole(req.workspace!.id, req.params.userId, role);
+      if (!member) {
+        return res.status(404).json({ message: "Member not found" });
+      }
+      res.json(member);
+    } catch (error) {
+      if (error instanceof Error && error.name === "ZodError") {
+        return res.status(400).json({ message: "Invalid data", errors: error });
+      }
+      console.error("Error updating member:", error);
+      res.status(500).json({ message: "Failed to update member" });
+    }
+  });
+
+  app.delete("/api/workspaces/:workspaceId/members/:userId", resolveWorkspace, async (req, res) => {
+    try {
+      // Anyone may leave; only owners may remove others
+      const isSelf = req.params.userId === req.auth!.uid;
+      if (!isSelf && !can(req.workspace!.role, "workspace:manage")) {
+        return res.status(403).json({ message: "You do not have permission to perform this action" });
+      }
+      if (await isLastOwner(req.workspace!.id, req.params.userId)) {
+        return res.status(400).json({ message: "A workspace must have at least one owner" });
+      }
+      const removed = await storage.removeMember(req.workspace!.id, req.params.userId);
+      if (!removed) {
+        return res.status(404).json({ message: "Member not found" });
+      }
+      res.status(204).send();
+    } catch (error) {
+      console.error("Error removing member:", error);
+      res.status(500).json({ message: "Failed to remove member" });
+    }
+  });
+
+  app.get("/api/workspaces/:workspaceId/invitations", resolveWorkspace, requirePermission("workspace:manage"), async (req, res) => {
+    try {
+      const invitations = await storage.getPendingInvitations(req.workspace!.id);
+      res.json(invitations);
+    } catch (error) {
+      console.error("Error fetching invitations:", error);
+      res.status(500).json({ message: "Failed to fetch invitations" });
+    }
+  });
+
+  app.post("/api/workspaces/:workspaceId/invitations", resolveWorkspace, requirePermission("workspace:manage"), async (req, res) => {
+    try {
+      const validatedData = insertInvitationSchema.parse(req.body);
+      const invitation = await storage.createInvitation(req.workspace!.id, req.auth!.uid, validatedData);
+      res.status(201).json(invitation);
+    } catch (error) {
+      if (error instanceof Error && error.name === "ZodError") {
+        return res.status(400).json({ message: "Invalid data", errors: error });
+      }
+      console.error("Error creating invitation:", error);
+      res.status(500).json({ message: "Failed to create invitation" });
+    }
+  });
+
+  app.delete("/api/workspaces/:workspaceId/invitations/:id", resolveWorkspace, requirePermission("workspace:manage"), async (req, res) => {
+    try {
+      const deleted = await storage.deleteInvitation(req.workspace!.id, req.params.id);
+      if (!deleted) {
+        return res.status(404).json({ message: "Invitation not found" });
+      }
+      res.status(204).send();
+    } catch (error) {
+      console.error("Error deleting invitation:", error);
+      res.status(500).json({ message: "Failed to delete invitation" });
+    }
+  });
+
+  app.post("/api/invitations/:token/accept", async (req, res) => {
+    try {
+      const member = await storage.acceptInvitation(req.params.token, req.auth!.uid, req.auth!.email ?? null);
+      if (!member) {
+        return res.status(404).json({ message: "Invitation is invalid or has expired" });
+      }
+      res.json(member);
+    } catch (error) {
+      console.error("Error accepting invitation:", error);
+      res.status(500).json({ message: "Failed to accept invitation" });
+    }
+  });
+
+  // Publish destination routes
+  app.get("/api/destinations", resolveWorkspace, requirePermission("content:read"), async (req, res) => {
+    try {
+      const destinations = await storage.getDestinations(req.workspace!.id);
+      res.json(destinations.map(toDestinationResponse));
+    } catch (error) {
+      console.error("Error fetching destinations:", error);
+      res.status(500).json({ message: "Failed to fetch destinations" });
+    }
+  });
+
+  app.post("/api/destinations", resolveWorkspace, requirePermission("workspace:manage"), async (req, res) => {
+    try {
+      const validatedData = insertDestinationSchema.parse(req.body);
+      const destination = await storage.createDestination(req.workspace!.id, validatedData);
+      res.status(201).json(toDestinationResponse(destination));
+    } catch (error) {
+      if (error instanceof Error && error.name === "ZodError") {
+        return res.status(400).json({ message: "Invalid data", errors: error });
+      }
+      console.error("Error creating destination:", error);
+      res.status(500).json({ message: "Failed to create destination" });
+    }
+  });
+
+  app.put("/api/destinations/:id", resolveWorkspace, requirePermission("workspace:manage"), async (req, res) => {
+    try {
+      const existing = await storage.getDestination(req.workspace!.id, req.params.id);
+      if (!existing) {
+        return res.status(404).json({ message: "Destination not found" });
+      }
+      const body = req.body?.config && typeof req.body.config === "object"
+        ? { ...req.body, config: mergeSecrets(existing.config, req.body.config) }
+        : req.body;
+      const validatedData = insertDestinationSchema.parse(body);
+      const destination = await storage.updateDestination(req.workspace!.id, req.params.id, validatedData);
+      if (!destination) {
+        return res.status(404).json({ message: "Destination not found" });
+      }
+      res.json(toDestinationResponse(destination));
+    } catch (error) {
+      if (error instanceof Error && error.name === "ZodError") {
+        return res.status(400).json({ message: "Invalid data", errors: error });
+      }
+      console.error("Error updating destination:", error);
+      res.status(500).json({ message: "Failed to update destination" });
+    }
+  });
+
+  app.delete("/api/destinations/:id", resolveWorkspace, requirePermission("workspace:manage"), async (req, res) => {
+    try {
+      const deleted = await storage.deleteDestination(req.workspace!.id, req.params.id);
+      if (!deleted) {
+        return res.status(404).json({ message: "Destination not found" });
+      }
+      res.status(204).send();
+    } catch (error) {
+      console.error("Error deleting destination:", error);
+      res.status(500).json({ message: "Failed to delete destination" });
+    }
+  });
+
+  // Calendar feed routes; each user manages their own feed per workspace
+  app.get("/api/calendar-feed", resolveWorkspace, requirePermission("content:read"), async (req, res) => {
+    try {
+      const feed = await storage.getCalendarFeed(req.workspace!.id, req.auth!.uid);
+      res.json(feed ? toCalendarFeedResponse(feed) : null);
+    } catch (error) {
+      console.error("Error fetching calendar feed:", error);
+      res.status(500).json({ message: "Failed to fetch calendar feed" });
+    }
+  });
+
+  // Creates the feed, or invalidates the old URL and issues a new one
+  app.post("/api/calendar-feed/rotate", resolveWorkspace, requirePermission("content:read"), async (req, res) => {
+    try {
+      const feed = await storage.rotateCalendarFeed(req.workspace!.id, req.auth!.uid);
+      res.status(201).json(toCalendarFeedResponse(feed));
+    } catch (error) {
+      console.error("Error rotating calendar feed:", error);
+      res.status(500).json({ message: "Failed to rotate calendar feed" });
+    }
+  });
+
+  app.delete("/api/calendar-feed", resolveWorkspace, requirePermission("content:read"), async (req, res) => {
+    try {
+      const deleted = await storage.deleteCalendarFeed(req.workspace!.id, req.auth!.uid);
+      if (!deleted) {
+        return res.status(404).json({ message: "Calendar feed not found" });
+      }
+      res.status(204).send();
+    } catch (error) {
+      console.error("Error revoking calendar feed:", error);
+      res.status(500).json({ message: "Failed to revoke calendar feed" });
+    }
+  });
+
+  // Metrics key routes; the key works for the whole workspace, so only
+  // owners see and manage it
+  app.get("/api/metrics-key", resolveWorkspace, requirePermission("workspace:manage"), async (req, res) => {
+    try {
+      const key = await storage.getMetricsKey(req.workspace!.id);
+      res.json(key ? toMetricsKeyResponse(key) : null);
+    } catch (error) {
+      console.error("Error fetching metrics key:", error);
+      res.status(500).json({ message: "Failed to fetch metrics key" });
+    }
+  });
+
+  app.post("/api/metrics-key/rotate", resolveWorkspace, requirePermission("workspace:manage"), async (req, res) => {
+    try {
+      const key = await storage.rotateMetricsKey(req.workspace!.id, req.auth!.uid);
+      res.status(201).json(toMetricsKeyResponse(key));
+    } catch (error) {
+      console.error("Error rotating metrics key:", error);
+      res.status(500).json({ message: "Failed to rotate metrics key" });
+    }
+  });
+
+  app.delete("/api/metrics-key", resolveWorkspace, requirePermission("workspace:manage"), async (req, res) => {
+    try {
+      const deleted = await storage.deleteMetricsKey(req.workspace!.id);
+      if (!deleted) {
+        return res.status(404).json({ message: "Metrics key not found" });
+      }
+      res.status(204).send();
+    } catch (error) {
+      console.error("Error revoking metrics key:", error);
+      res.status(500).json({ message: "Failed to revoke metrics key" });
+    }
+  });
+
+  // CSV import of metrics, previewed like the content import
+  app.post("/api/metrics/import", resolveWorkspace, requirePermission("content:write"), async (req, res) => {
+    try {
+      const { csv, dryRun } = contentImportSchema.parse(req.body);
+      const posted = await postedContentIds(req.workspace!.id);
+      const recorded = new Set(
+        (await storage.getContentMetrics(req.workspace!.id)).map((metrics) => snapshotKey(metrics.contentItemId, metrics.capturedAt)),
+      );
+      const rows = parseMetricsImport(csv).map((row) => {
+        if (row.data && !posted.has(row.data.contentId)) {
+          return { row: row.row, errors: ["content_id: Not a posted item in this workspace"] };
+        }
+        if (row.data && recorded.has(snapshotKey(row.data.contentId, row.data.capturedAt))) {
+          return { row: row.row, errors: ["captured_at: A snapshot of this item at this time was already recorded"] };
+        }
+        return row;
+      });
+      const validMetrics = rows.flatMap((row) => (row.data ? [row.data] : []));
+
+      const created = dryRun
+        ? []
+        : await storage.addContentMetrics(
+            req.workspace!.id,
+            "csv",
+            validMetrics.map(({ contentId, ...entry }) => ({ ...entry, contentItemId: contentId })),
+          );
+      // Recorded by someone else since the check above
+      if (!created) {
+        return res.status(409).json({ message: "Some of these snapshots were recorded in the meantime; import again to review" });
+      }
+
+      const result: MetricsImportResult = {
+        dryRun,
+        rows,
+        valid: validMetrics.length,
+        invalid: rows.length - validMetrics.length,
+        created,
+      };
+      res.status(dryRun ? 200 : 201).json(result);
+    } catch (error) {
+      if (error instanceof ImportError) {
+        return res.status(400).json({ message: error.message });
+      }
+      if (error instanceof Error && error.name === "ZodError") {
+        return res.status(400).json({ message: "Invalid data", errors: error });
+      }
+      console.error("Error importing metrics:", error);
+      res.status(500).json({ message: "Failed to import metrics" });
+    }
+  });
+
+  app.get("/api/metrics/import/template", (req, res) => {
+    res.attachment("metrics-import-template.csv");
+    res.type("text/csv").send(metricsTemplateCsv());
+  });
+
+  // Content Items routes
+  // Filters, search and sort come from the query string. With a limit, the
+  // cursor for the next page is sent in the X-Next-Cursor header. Unpaginated
+  // queries for a from-to range list each series as its occurrences.
+  app.get("/api/content", resolveWorkspace, requirePermission("content:read"), async (req, res) => {
+    try {
+      const query = contentQuerySchema.parse(req.query);
+      const { items, nextCursor } = await storage.queryContentItems(req.workspace!.id, query);
+      if (nextCursor) res.set("X-Next-Cursor", nextCursor);
+      const { from, to } = query;
+      res.json(from && to && !query.limit
+        ? await withOccurrences(storage, req.workspace!.id, items, { ...query, from, to })
+        : items);
+    } catch (error) {
+      if (error instanceof InvalidCursorError) {
+        return res.status(400).json({ message: error.message });
+      }
+      if (error instanceof Error && error.name === "ZodError") {
+        return res.status(400).json({ message: "Invalid data", errors: error });
+      }
+      console.error("Error fetching content items:", error);
+      res.status(500).json({ message: "Failed to fetch content items" });
+    }
+  });
+
+  // CSV import: validates every row, and unless it's a dry run, creates all
+  // valid rows in one batch
+  app.post("/api/content/import", resolveWorkspace, requirePermission("content:write"), requireFeature("bulk-scheduling"), async (req, res) => {
+    try {
+      const { csv, dryRun } = contentImportSchema.parse(req.body);
+      const rows = parseContentImport(csv);
+      const validItems = rows.flatMap((row) => (row.data ? [row.data] : []));
+
+      const created = await storage.withQuotaLock([req.auth!.uid], async (locked) => {
+        await checkContentQuota(locked, req.auth!.uid, validItems);
+        return dryRun ? [] : locked.createContentItems(req.workspace!.id, req.auth!.uid, validItems);
+      });
+
+      const result: ContentImportResult = {
+        dryRun,
+        rows,
+        valid: validItems.length,
+        invalid: rows.length - validItems.length,
+        created,
+      };
+      res.status(dryRun ? 200 : 201).json(result);
+    } catch (error) {
+      if (error instanceof ImportError) {
+        return res.status(400).json({ message: error.message });
+      }
+      if (error instanceof QuotaExceededError) {
+        return res.status(error.status).json(error);
+      }
+      if (error instanceof Error && error.name === "ZodError") {
+        return res.status(400).json({ message: "Invalid data", errors: error });
+      }
+      console.error("Error importing content:", error);
+      res.status(500).json({ message: "Failed to import content" });
+    }
+  });
+
+  // Quick bulk input: one item per line, spread over the calendar
+  app.post("/api/content/bulk-schedule", resolveWorkspace, requirePermission("content:write"), requireFeature("bulk-scheduling"), async (req, res) => {
+    try {
+      const request = bulkScheduleSchema.parse(req.body);
+      if (request.status === "scheduled" && !can(req.workspace!.role, "content:review")) {
+        return res.status(403).json({ message: "Only reviewers can schedule content without review" });
+      }
+
+      const dates = generateSchedule(request);
+      const items = request.lines.map((title, index) => ({ title, scheduledDate: dates[index] }));
+      // Scheduling directly counts as the creator's own approval
+      const change = request.status === "scheduled"
+        ? { ...statusChange("approved", req.auth!.uid), ...statusChange("scheduled", req.auth!.uid) }
+        : undefined;
+      const created = await storage.withQuotaLock([req.auth!.uid], async (locked) => {
+        await checkContentQuota(locked, req.auth!.uid, items.map((item) => ({ ...item, platform: request.platform })));
+        if (request.dryRun) return [];
+        return locked.createContentItems(
+          req.workspace!.id,
+          req.auth!.uid,
+          items.map((item) => ({ ...item, platform: request.platform, status: "draft" })),
+          change,
+        );
+      });
+
+      const result: BulkScheduleResult = { dryRun: request.dryRun, items, created };
+      res.status(request.dryRun ? 200 : 201).json(result);
+    } catch (error) {
+      if (error instanceof QuotaExceededError) {
+        return res.status(error.status).json(error);
+      }
+      if (error instanceof Error && error.name === "ZodError") {
+        return res.status(400).json({ message: "Invalid data", errors: error });
+      }
+      console.error("Error bulk scheduling content:", error);
+      res.status(500).json({ message: "Failed to schedule content" });
+    }
   });
 
-  app.post("/paypal/order/:orderID/capture", async (req, res) => {
-    await capturePaypalOrder(req, res);
+  // Applies a reviewed change set, such as one the assistant proposed, all at
+  // once. New items start as drafts.
+  app.post("/api/content/changes", resolveWorkspace, requirePermission("content:write"), async (req, res) => {
+    try {
+      const { changes, source } = contentChangeSetSchema.parse(req.body);
+      if (source) {
+        const thread = await storage.getChatThread(req.workspace!.id, req.auth!.uid, source.threadId);
+        const message = thread && await storage.getChatMessage(thread.id, source.messageId);
+        if (!message?.proposal) {
+          return res.status(404).json({ message: "Proposal not found" });
+        }
+        if (message.proposalStatus !== "pending") {
+          return res.status(409).json({ message: "The proposal was already applied or dismissed" });
+        }
+      }
+
+      const items: InsertContentItem[] = [];
+      const moves: { existing: ContentItem; scheduledDate: Date }[] = [];
+      for (const change of changes) {
+        if (change.type === "create") {
+          const { type, ...item } = change;
+          items.push({ ...item, status: "draft" });
+          continue;
+        }
+        const existing = await storage.getContentItem(req.workspace!.id, change.contentId);
+        if (!existing) {
+          return res.status(404).json({ message: "Content item not found", contentId: change.contentId });
+        }
+        if (existing.status === "posted") {
+          return res.status(409).json({ message: "Posted content cannot be rescheduled", contentId: existing.id });
+        }
+        moves.push({ existing, scheduledDate: change.scheduledDate });
+      }
+
+      const owners = [req.auth!.uid, ...moves.map(({ existing }) => existing.ownerId)];
+      const result = await storage.withQuotaLock(owners, async (locked): Promise<ContentChangeResult | "claimed" | undefined> => {
+        await checkContentQuota(locked, req.auth!.uid, items);
+        for (const { existing, scheduledDate } of moves) {
+          await checkContentUpdateQuota(locked, existing, { scheduledDate });
+        }
+
+        // Claimed before applying, so the same proposal can't be applied twice
+        if (source && !await locked.updateProposalStatus(source.threadId, source.messageId, "pending", "applied")) {
+          return "claimed";
+        }
+        let applied: ContentChangeResult | undefined;
+        try {
+          applied = await locked.applyContentChanges(
+            req.workspace!.id,
+            req.auth!.uid,
+            items,
+            moves.map(({ existing, scheduledDate }) => ({
+              id: existing.id,
+              scheduledDate,
+              fromStatus: existing.status,
+              change: moveStatusChange(req.auth!.uid, existing, scheduledDate) ?? undefined,
+            })),
+          );
+        } finally {
+          if (source && !applied) {
+            await locked.updateProposalStatus(source.threadId, source.messageId, "applied", "pending");
+          }
+        }
+        return applied;
+      });
+      if (result === "claimed") {
+        return res.status(409).json({ message: "The proposal was already applied or dismissed" });
+      }
+      if (!result) {
+        // An item was deleted or changed status while the changes were being
+        // checked
+        return res.status(409).json({ message: "The content changed; review the changes again" });
+      }
+      if (source) {
+        const ids = [...result.created, ...result.moved].map((item) => item.id);
+        await storage.linkChatMessage(source.threadId, source.messageId, ids);
+      }
+      res.status(201).json(result);
+    } catch (error) {
+      if (error instanceof QuotaExceededError) {
+        return res.status(error.status).json(error);
+      }
+      if (error instanceof Error && error.name === "ZodError") {
+        return res.status(400).json({ message: "Invalid data", errors: error });
+      }
+      console.error("Error applying content changes:", error);
+      res.status(500).json({ message: "Failed to apply changes" });
+    }
   });
 
-  // Content Items routes
-  app.get("/api/content", async (req, res) => {
+  app.get("/api/content/import/template", (req, res) => {
+    res.attachment("content-import-template.csv");
+    res.type("text/csv").send(importTemplateCsv());
+  });
+
+  app.get("/api/content/export", resolveWorkspace, requirePermission("content:read"), requireFeature("advanced-export"), async (req, res) => {
     try {
-      const items = await storage.getContentItems();
-      res.json(items);
+      const { format, ...filter } = contentExportQuerySchema.parse(req.query);
+      const { items: stored } = await storage.queryContentItems(req.workspace!.id, filter);
+      const { from, to } = filter;
+      const items = from && to
+        ? await withOccurrences(storage, req.workspace!.id, stored, { ...filter, from, to })
+        : stored;
+      await checkExportQuota(req.auth!.uid, items.length);
+
+      const filename = `content-${new Date().toISOString().slice(0, 10)}.${format}`;
+      res.attachment(filename);
+      if (format === "json") {
+        res.json(items);
+      } else {
+        res.type("text/csv").send(contentItemsToCsv(items));
+      }
     } catch (error) {
-      console.error("Error fetching content items:", error);
-      res.status(500).json({ message: "Failed to fetch content items" });
+      if (error instanceof QuotaExceededError) {
+        return res.status(error.status).json(error);
+      }
+      if (error instanceof Error && error.name === "ZodError") {
+        return res.status(400).json({ message: "Invalid data", errors: error });
+      }
+      console.error("Error exporting content:", error);
+      res.status(500).json({ message: "Failed to export content" });
     }
   });
 
-  app.get("/api/content/:id", async (req, res) => {
+  app.get("/api/content/:id", resolveWorkspace, requirePermission("content:read"), async (req, res) => {
     try {
-      const item = await storage.getContentItem(req.params.id);
+      const item = await storage.getContentItem(req.workspace!.id, req.params.id);
       if (!item) {
         return res.status(404).json({ message: "Content item not found" });
       }
@@ -42,12 +1086,21 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.post("/api/content", async (req, res) => {
+  app.post("/api/content", resolveWorkspace, requirePermission("content:write"), async (req, res) => {
     try {
-      const validatedData = insertContentItemSchema.parse(req.body);
-      const item = await storage.createContentItem(validatedData);
+      const validatedData = createContentItemSchema.parse(req.body);
+      if (!await isValidDestination(req.workspace!.id, validatedData.destinationId)) {
+        return res.status(400).json({ message: "Unknown publish destination" });
+      }
+      const item = await storage.withQuotaLock([req.auth!.uid], async (locked) => {
+        await checkContentQuota(locked, req.auth!.uid, [validatedData]);
+        return locked.createContentItem(req.workspace!.id, req.auth!.uid, validatedData);
+      });
       res.status(201).json(item);
     } catch (error) {
+      if (error instanceof QuotaExceededError) {
+        return res.status(error.status).json(error);
+      }
       if (error instanceof Error && error.name === "ZodError") {
         return res.status(400).json({ message: "Invalid data", errors: error });
       }
@@ -56,15 +1109,23 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.put("/api/content/:id", async (req, res) => {
+  app.put("/api/content/:id", resolveWorkspace, requirePermission("content:write"), async (req, res) => {
     try {
-      const validatedData = insertContentItemSchema.partial().parse(req.body);
-      const item = await storage.updateContentItem(req.params.id, validatedData);
-      if (!item) {
+      const { status, ...changes } = insertContentItemSchema.partial().parse(req.body);
+      const existing = await storage.getContentItem(req.workspace!.id, req.params.id);
+      if (!existing) {
         return res.status(404).json({ message: "Content item not found" });
       }
-      res.json(item);
+
+      const result = await applyContentUpdate(req.workspace!.id, req.workspace!.role, req.auth!.uid, existing, status, changes);
+      if ("error" in result) {
+        return res.status(result.error.status).json({ message: result.error.message });
+      }
+      res.json(result.item);
     } catch (error) {
+      if (error instanceof QuotaExceededError) {
+        return res.status(error.status).json(error);
+      }
       if (error instanceof Error && error.name === "ZodError") {
         return res.status(400).json({ message: "Invalid data", errors: error });
       }
@@ -73,9 +1134,200 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.delete("/api/content/:id", async (req, res) => {
+  // Edits one occurrence of a series: on its own ("this"), by splitting the
+  // series there ("following"), or across the whole series ("all")
+  app.put("/api/content/:id/occurrences/:date", resolveWorkspace, requirePermission("content:write"), async (req, res) => {
+    try {
+      const { scope, status, ...changes } = occurrenceUpdateSchema.parse(req.body);
+      const occurrenceDate = parseOccurrenceDate(req.params.date);
+      const series = await storage.getContentItem(req.workspace!.id, req.params.id);
+      if (!series?.recurrence) {
+        return res.status(404).json({ message: "Content series not found" });
+      }
+      if (!occurrenceDate || !await isPendingOccurrence(storage, series, occurrenceDate)) {
+        return res.status(404).json({ message: "Occurrence not found" });
+      }
+
+      // Changing the first occurrence onwards is changing all of them
+      if (scope === "all" || (scope === "following" && occurrenceDate.getTime() === series.scheduledDate.getTime())) {
+        // Moving one occurrence moves the series start by the same amount
+        if (changes.scheduledDate) {
+          changes.scheduledDate = new Date(series.scheduledDate.getTime() + changes.scheduledDate.getTime() - occurrenceDate.getTime());
+        }
+        const result = await applyContentUpdate(req.workspace!.id, req.workspace!.role, req.auth!.uid, series, status, changes);
+        if ("error" in result) {
+          return res.status(result.error.status).json({ message: result.error.message });
+        }
+        return res.json(result.item);
+      }
+
+      if (!await isValidDestination(req.workspace!.id, changes.destinationId)) {
+        return res.status(400).json({ message: "Unknown publish destination" });
+      }
+      const result = editStatusChange(req.workspace!.role, req.auth!.uid, series, status, changes);
+      if ("error" in result) {
+        return res.status(result.error.status).json({ message: result.error.message });
+      }
+      const change = result.change ?? inheritedStatus(series);
+
+      if (scope === "this") {
+        if (changes.recurrence) {
+          return res.status(400).json({ message: "An occurrence of a series cannot repeat on its own" });
+        }
+        const detached = { ...occurrenceItem(series, occurrenceDate), ...changes, recurrence: null, timeZone: null };
+        const item = await storage.withQuotaLock([series.ownerId], async (locked) => {
+          await checkOccurrenceQuota(locked, series, occurrenceDate, detached);
+          return locked.detachOccurrence(
+            req.workspace!.id,
+            series.ownerId,
+            series.id,
+            occurrenceDate,
+            detached,
+            change,
+          );
+        });
+        return res.json(item);
+      }
+
+      const rules = splitRecurrence(series, occurrenceDate);
+      // An unchanged rule continues where the old series stops
+      const recurrence = changes.recurrence === undefined || changes.recurrence === series.recurrence
+        ? rules.after
+        : changes.recurrence;
+      const next = { ...occurrenceItem(series, occurrenceDate), timeZone: series.timeZone, ...changes, recurrence };
+      const item = await storage.withQuotaLock([series.ownerId], async (locked) => {
+        await checkSplitQuota(locked, series, occurrenceDate, rules, next);
+        return locked.splitSeries(
+          req.workspace!.id,
+          series.ownerId,
+          series.id,
+          occurrenceDate,
+          rules.before,
+          next,
+          change,
+        );
+      });
+      if (!item) {
+        return res.status(404).json({ message: "Content series not found" });
+      }
+      res.json(item);
+    } catch (error) {
+      if (error instanceof QuotaExceededError) {
+        return res.status(error.status).json(error);
+      }
+      if (error instanceof Error && error.name === "ZodError") {
+        return res.status(400).json({ message: "Invalid data", errors: error });
+      }
+      console.error("Error updating occurrence:", error);
+      res.status(500).json({ message: "Failed to update occurrence" });
+    }
+  });
+
+  app.delete("/api/content/:id/occurrences/:date", resolveWorkspace, requirePermission("content:write"), async (req, res) => {
+    try {
+      const { scope } = occurrenceDeleteQuerySchema.parse(req.query);
+      const occurrenceDate = parseOccurrenceDate(req.params.date);
+      const series = await storage.getContentItem(req.workspace!.id, req.params.id);
+      if (!series?.recurrence) {
+        return res.status(404).json({ message: "Content series not found" });
+      }
+      if (!occurrenceDate || !await isPendingOccurrence(storage, series, occurrenceDate)) {
+        return res.status(404).json({ message: "Occurrence not found" });
+      }
+
+      const isFirst = occurrenceDate.getTime() === series.scheduledDate.getTime();
+      if (scope === "this") {
+        await storage.cancelOccurrence(req.workspace!.id, series.id, occurrenceDate);
+      } else if (scope === "following" && !isFirst) {
+        await storage.updateContentItem(req.workspace!.id, series.id, {
+          recurrence: splitRecurrence(series, occurrenceDate).before,
+        });
+      } else {
+        // Occurrences that became items of their own are kept
+        await storage.deleteContentItem(req.workspace!.id, series.id);
+      }
+      res.status(204).send();
+    } catch (error) {
+      if (error instanceof Error && error.name === "ZodError") {
+        return res.status(400).json({ message: "Invalid data", errors: error });
+      }
+      console.error("Error deleting occurrence:", error);
+      res.status(500).json({ message: "Failed to delete occurrence" });
+    }
+  });
+
+  app.get("/api/content/:id/metrics", resolveWorkspace, requirePermission("content:read"), async (req, res) => {
+    try {
+      const item = await storage.getContentItem(req.workspace!.id, req.params.id);
+      if (!item) {
+        return res.status(404).json({ message: "Content item not found" });
+      }
+      res.json(await storage.getContentMetrics(req.workspace!.id, item.id));
+    } catch (error) {
+      console.error("Error fetching content metrics:", error);
+      res.status(500).json({ message: "Failed to fetch content metrics" });
+    }
+  });
+
+  // Manual entry of one snapshot
+  app.post("/api/content/:id/metrics", resolveWorkspace, requirePermission("content:write"), async (req, res) => {
+    try {
+      const validatedData = insertContentMetricsSchema.parse(req.body);
+      const item = await storage.getContentItem(req.workspace!.id, req.params.id);
+      if (!item) {
+        return res.status(404).json({ message: "Content item not found" });
+      }
+      if (item.status !== "posted") {
+        return res.status(400).json({ message: "Metrics can only be recorded for posted content" });
+      }
+      const created = await storage.addContentMetrics(req.workspace!.id, "manual", [
+        { ...validatedData, contentItemId: item.id },
+      ]);
+      if (!created) {
+        return res.status(409).json({ message: "A snapshot of this item at this time was already recorded" });
+      }
+      res.status(201).json(created[0]);
+    } catch (error) {
+      if (error instanceof Error && error.name === "ZodError") {
+        return res.status(400).json({ message: "Invalid data", errors: error });
+      }
+      console.error("Error recording content metrics:", error);
+      res.status(500).json({ message: "Failed to record content metrics" });
+    }
+  });
+
+  // Workflow transitions, including reviewer sign-off. Permission depends on
+  // the transition, so only read access is required up front.
+  app.post("/api/content/:id/status", resolveWorkspace, requirePermission("content:read"), async (req, res) => {
+    try {
+      const { status, note } = contentStatusChangeSchema.parse(req.body);
+      const existing = await storage.getContentItem(req.workspace!.id, req.params.id);
+      if (!existing) {
+        return res.status(404).json({ message: "Content item not found" });
+      }
+
+      const transitionError = checkTransition(req.workspace!.role, existing.status, status);
+      if (transitionError) {
+        return res.status(transitionError.status).json({ message: transitionError.message });
+      }
+
+      const item = await storage.updateContentStatus(req.workspace!.id, req.params.id, existing.status, statusChange(status, req.auth!.uid, note));
+      if (!item) {
+        return res.status(409).json({ message: "Content status was changed by someone else" });
+      }
+      res.json(item);
+    } catch (error) {
+      if (error instanceof Error && error.name === "ZodError") {
+        return res.status(400).json({ message: "Invalid data", errors: error });
+      }
+      console.error("Error changing content status:", error);
+      res.status(500).json({ message: "Failed to change content status" });
+    }
+  });
+
+  app.delete("/api/content/:id", resolveWorkspace, requirePermission("content:write"), async (req, res) => {
     try {
-      const deleted = await storage.deleteContentItem(req.params.id);
+      const deleted = await storage.deleteContentItem(req.workspace!.id, req.params.id);
       if (!deleted) {
         return res.status(404).json({ message: "Content item not found" });
       }
@@ -86,6 +1338,298 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  // Content pieces: one post's versions for several channels, each a content
+  // item of its own
+  app.get("/api/pieces/:id", resolveWorkspace, requirePermission("content:read"), async (req, res) => {
+    try {
+      const piece = await storage.getContentPiece(req.workspace!.id, req.params.id);
+      if (!piece) {
+        return res.status(404).json({ message: "Content piece not found" });
+      }
+      res.json(piece);
+    } catch (error) {
+      console.error("Error fetching content piece:", error);
+      res.status(500).json({ message: "Failed to fetch content piece" });
+    }
+  });
+
+  app.patch("/api/pieces/:id", resolveWorkspace, requirePermission("content:write"), async (req, res) => {
+    try {
+      const { title } = contentPieceUpdateSchema.parse(req.body);
+      const piece = await storage.renameContentPiece(req.workspace!.id, req.params.id, title);
+      if (!piece) {
+        return res.status(404).json({ message: "Content piece not found" });
+      }
+      res.json(piece);
+    } catch (error) {
+      if (error instanceof Error && error.name === "ZodError") {
+        return res.status(400).json({ message: "Invalid data", errors: error });
+      }
+      console.error("Error renaming content piece:", error);
+      res.status(500).json({ message: "Failed to rename content piece" });
+    }
+  });
+
+  // Adds another channel's version of an item. The first one makes the item
+  // a variant of a new piece, named after it.
+  app.post("/api/content/:id/variants", resolveWorkspace, requirePermission("content:write"), async (req, res) => {
+    try {
+      const validatedData = contentVariantCreateSchema.parse(req.body);
+      const source = await storage.getContentItem(req.workspace!.id, req.params.id);
+      if (!source) {
+        return res.status(404).json({ message: "Content item not found" });
+      }
+      if (source.recurrence || source.seriesId) {
+        return res.status(400).json({ message: "Recurring content cannot have variants" });
+      }
+      if (!await isValidDestination(req.workspace!.id, validatedData.destinationId)) {
+        return res.status(400).json({ message: "Unknown publish destination" });
+      }
+      const item = await storage.withQuotaLock([req.auth!.uid], async (locked) => {
+        await checkContentQuota(locked, req.auth!.uid, [validatedData]);
+        return locked.addContentVariant(req.workspace!.id, req.auth!.uid, source.id, validatedData);
+      });
+      if (!item) {
+        return res.status(409).json({ message: `This post already has a variant for ${validatedData.platform}` });
+      }
+      res.status(201).json(item);
+    } catch (error) {
+      if (error instanceof QuotaExceededError) {
+        return res.status(error.status).json(error);
+      }
+      if (error instanceof Error && error.name === "ZodError") {
+        return res.status(400).json({ message: "Invalid data", errors: error });
+      }
+      console.error("Error creating content variant:", error);
+      res.status(500).json({ message: "Failed to create content variant" });
+    }
+  });
+
+  // Analytics routes
+  app.get("/api/analytics", resolveWorkspace, requirePermission("content:read"), requireFeature("analytics"), async (req, res) => {
+    try {
+      const { timeZone, weeks } = analyticsQuerySchema.parse(req.query);
+      const { items } = await storage.queryContentItems(req.workspace!.id);
+      const metrics = await storage.getContentMetrics(req.workspace!.id);
+      res.json(computeAnalytics(items, metrics, { now: new Date(), timeZone, weeks }));
+    } catch (error) {
+      if (error instanceof Error && error.name === "ZodError") {
+        return res.status(400).json({ message: "Invalid data", errors: error });
+      }
+      console.error("Error computing analytics:", error);
+      res.status(500).json({ message: "Failed to compute analytics" });
+    }
+  });
+
+  // Unlike the rest of analytics, posting times are for every plan
+  app.get("/api/posting-times", resolveWorkspace, requirePermission("content:read"), async (req, res) => {
+    try {
+      const { timeZone } = postingTimesQuerySchema.parse(req.query);
+      const { items } = await storage.queryContentItems(req.workspace!.id, { status: ["posted"] });
+      const metrics = await storage.getContentMetrics(req.workspace!.id);
+      res.json(recommendPostingTimes(items, metrics, timeZone));
+    } catch (error) {
+      if (error instanceof Error && error.name === "ZodError") {
+        return res.status(400).json({ message: "Invalid data", errors: error });
+      }
+      console.error("Error recommending posting times:", error);
+      res.status(500).json({ message: "Failed to recommend posting times" });
+    }
+  });
+
+  // AI assistant routes. Conversations are kept per user as threads. Each
+  // message counts against the plan's daily AI allowance; the reply is
+  // streamed as newline-delimited JSON, one AssistantEvent per line.
+  // Proposed changes are only applied once the user sends them to
+  // /api/content/changes.
+  app.get("/api/ai/threads", resolveWorkspace, requirePermission("content:read"), async (req, res) => {
+    try {
+      res.json(await storage.getChatThreads(req.workspace!.id, req.auth!.uid));
+    } catch (error) {
+      console.error("Error fetching chat threads:", error);
+      res.status(500).json({ message: "Failed to fetch chat threads" });
+    }
+  });
+
+  app.post("/api/ai/threads", resolveWorkspace, requirePermission("content:read"), async (req, res) => {
+    try {
+      const { title } = chatThreadCreateSchema.parse(req.body ?? {});
+      res.status(201).json(await storage.createChatThread(req.workspace!.id, req.auth!.uid, title ?? null));
+    } catch (error) {
+      if (error instanceof Error && error.name === "ZodError") {
+        return res.status(400).json({ message: "Invalid data", errors: error });
+      }
+      console.error("Error creating chat thread:", error);
+      res.status(500).json({ message: "Failed to create chat thread" });
+    }
+  });
+
+  app.get("/api/ai/threads/:id", resolveWorkspace, requirePermission("content:read"), async (req, res) => {
+    try {
+      const thread = await storage.getChatThread(req.workspace!.id, req.auth!.uid, req.params.id);
+      if (!thread) {
+        return res.status(404).json({ message: "Chat thread not found" });
+      }
+      const result: ChatThreadWithMessages = { ...thread, messages: await storage.getChatMessages(thread.id) };
+      res.json(result);
+    } catch (error) {
+      console.error("Error fetching chat thread:", error);
+      res.status(500).json({ message: "Failed to fetch chat thread" });
+    }
+  });
+
+  app.patch("/api/ai/threads/:id", resolveWorkspace, requirePermission("content:read"), async (req, res) => {
+    try {
+      const { title } = chatThreadUpdateSchema.parse(req.body);
+      const thread = await storage.renameChatThread(req.workspace!.id, req.auth!.uid, req.params.id, title);
+      if (!thread) {
+        return res.status(404).json({ message: "Chat thread not found" });
+      }
+      res.json(thread);
+    } catch (error) {
+      if (error instanceof Error && error.name === "ZodError") {
+        return res.status(400).json({ message: "Invalid data", errors: error });
+      }
+      console.error("Error renaming chat thread:", error);
+      res.status(500).json({ message: "Failed to rename chat thread" });
+    }
+  });
+
+  app.delete("/api/ai/threads/:id", resolveWorkspace, requirePermission("content:read"), async (req, res) => {
+    try {
+      const deleted = await storage.deleteChatThread(req.workspace!.id, req.auth!.uid, req.params.id);
+      if (!deleted) {
+        return res.status(404).json({ message: "Chat thread not found" });
+      }
+      res.status(204).send();
+    } catch (error) {
+      console.error("Error deleting chat thread:", error);
+      res.status(500).json({ message: "Failed to delete chat thread" });
+    }
+  });
+
+  app.post("/api/ai/threads/:id/messages", resolveWorkspace, requirePermission("content:read"), async (req, res) => {
+    try {
+      const { content } = chatMessageCreateSchema.parse(req.body);
+      const thread = await storage.getChatThread(req.workspace!.id, req.auth!.uid, req.params.id);
+      if (!thread) {
+        return res.status(404).json({ message: "Chat thread not found" });
+      }
+      await answerChat(ai, req, res, { thread }, content);
+    } catch (error) {
+      if (error instanceof Error && error.name === "ZodError") {
+        return res.status(400).json({ message: "Invalid data", errors: error });
+      }
+      console.error("Error answering AI chat:", error);
+      res.status(500).json({ message: "Failed to answer" });
+    }
+  });
+
+  // The assistant's endpoint from before threads were stored, kept for
+  // clients that send the whole conversation. The reply goes in `threadId`,
+  // or in a new thread that also keeps the earlier messages.
+  app.post("/api/ai/chat", resolveWorkspace, requirePermission("content:read"), async (req, res) => {
+    try {
+      const { messages, threadId } = aiChatSchema.parse(req.body);
+      const last = messages[messages.length - 1];
+      if (last.role !== "user") {
+        return res.status(400).json({ message: "The last message must be from the user" });
+      }
+      if (!threadId) {
+        return await answerChat(ai, req, res, { earlier: messages.slice(0, -1) }, last.content);
+      }
+      const thread = await storage.getChatThread(req.workspace!.id, req.auth!.uid, threadId);
+      if (!thread) {
+        return res.status(404).json({ message: "Chat thread not found" });
+      }
+      await answerChat(ai, req, res, { thread }, last.content);
+    } catch (error) {
+      if (error instanceof Error && error.name === "ZodError") {
+        return res.status(400).json({ message: "Invalid data", errors: error });
+      }
+      console.error("Error answering AI chat:", error);
+      res.status(500).json({ message: "Failed to answer" });
+    }
+  });
+
+  app.patch("/api/ai/threads/:id/messages/:messageId", resolveWorkspace, requirePermission("content:read"), async (req, res) => {
+    try {
+      const { proposalStatus } = chatMessageUpdateSchema.parse(req.body);
+      const thread = await storage.getChatThread(req.workspace!.id, req.auth!.uid, req.params.id);
+      const message = thread && await storage.getChatMessage(thread.id, req.params.messageId);
+      if (!message) {
+        return res.status(404).json({ message: "Chat message not found" });
+      }
+      const updated = await storage.updateProposalStatus(message.threadId, message.id, "pending", proposalStatus);
+      if (!updated) {
+        return res.status(409).json({ message: "The proposal was already applied or dismissed" });
+      }
+      res.json(updated);
+    } catch (error) {
+      if (error instanceof Error && error.name === "ZodError") {
+        return res.status(400).json({ message: "Invalid data", errors: error });
+      }
+      console.error("Error updating chat message:", error);
+      res.status(500).json({ message: "Failed to update chat message" });
+    }
+  });
+
+  // Records which content came out of a message
+  app.post("/api/ai/threads/:id/messages/:messageId/links", resolveWorkspace, requirePermission("content:read"), async (req, res) => {
+    try {
+      const { contentIds } = chatMessageLinkSchema.parse(req.body);
+      const thread = await storage.getChatThread(req.workspace!.id, req.auth!.uid, req.params.id);
+      if (!thread) {
+        return res.status(404).json({ message: "Chat thread not found" });
+      }
+      for (const contentId of contentIds) {
+        if (!await storage.getContentItem(req.workspace!.id, contentId)) {
+          return res.status(400).json({ message: "Unknown content item", contentId });
+        }
+      }
+      const message = await storage.linkChatMessage(thread.id, req.params.messageId, contentIds);
+      if (!message) {
+        return res.status(404).json({ message: "Chat message not found" });
+      }
+      res.json(message);
+    } catch (error) {
+      if (error instanceof Error && error.name === "ZodError") {
+        return res.status(400).json({ message: "Invalid data", errors: error });
+      }
+      console.error("Error linking chat message:", error);
+      res.status(500).json({ message: "Failed to link content" });
+    }
+  });
+
+  app.post("/api/ai/suggestions", resolveWorkspace, requirePermission("content:read"), requireFeature("ai-suggestions"), async (req, res) => {
+    let chargedAt: Date | undefined;
+    try {
+      const { count } = aiSuggestionsSchema.parse(req.body ?? {});
+      const requestedAt = new Date();
+      await consumeAiRequest(req.auth!.uid, requestedAt);
+      chargedAt = requestedAt;
+      const suggestions = await ai.suggestContent(await assistantContext(req.workspace!.id), count);
+      chargedAt = undefined;
+      res.json(suggestions);
+    } catch (error) {
+      if (chargedAt) {
+        await refundAiRequest(req.auth!.uid, chargedAt)
+          .catch((refundError) => console.error("Error refunding AI request:", refundError));
+      }
+      if (error instanceof QuotaExceededError) {
+        return res.status(error.status).json(error);
+      }
+      if (error instanceof AiProviderError) {
+        return res.status(502).json({ message: error.message });
+      }
+      if (error instanceof Error && error.name === "ZodError") {
+        return res.status(400).json({ message: "Invalid data", errors: error });
+      }
+      console.error("Error suggesting content:", error);
+      res.status(500).json({ message: "Failed to suggest content" });
+    }
+  });
+
   const httpServer = createServer(app);
   return httpServer;
 }
@@ -0,0 +1,169 @@
+import { afterAll, beforeAll, describe, expect, it } from "vitest";
+import { bulkScheduleSchema, type BulkScheduleResult, type ContentItem } from "@shared/schema";
+import { planLimits } from "./quotas";
+import { generateSchedule } from "./schedule-generator";
+import { storage } from "./storage";
+import { startTestApp, type TestApp } from "./test-app";
+
+const lines = (count: number) => Array.from({ length: count }, (_, index) => `Post ${index + 1}`);
+
+describe("generateSchedule", () => {
+  it.each([
+    {
+      name: "uses every day for a daily schedule",
+      request: { frequency: "daily", startDate: "2030-01-04", timeOfDay: "09:30" },
+      expected: ["2030-01-04T09:30:00.000Z", "2030-01-05T09:30:00.000Z", "2030-01-06T09:30:00.000Z"],
+    },
+    {
+      name: "skips the weekend for business days",
+      request: { frequency: "business-days", startDate: "2030-01-04", timeOfDay: "09:00" }, // a Friday
+      expected: ["2030-01-04T09:00:00.000Z", "2030-01-07T09:00:00.000Z", "2030-01-08T09:00:00.000Z"],
+    },
+    {
+      name: "starts at the first chosen weekday on or after the start date",
+      request: { frequency: "custom", weekdays: [1, 3], startDate: "2030-01-03", timeOfDay: "12:00" }, // a Thursday
+      expected: ["2030-01-07T12:00:00.000Z", "2030-01-09T12:00:00.000Z", "2030-01-14T12:00:00.000Z"],
+    },
+    {
+      name: "keeps the local time as New York starts DST",
+      request: { frequency: "daily", startDate: "2030-03-09", timeOfDay: "09:00", timeZone: "America/New_York" },
+      expected: ["2030-03-09T14:00:00.000Z", "2030-03-10T13:00:00.000Z", "2030-03-11T13:00:00.000Z"],
+    },
+    {
+      name: "reads the start date on the zone's calendar",
+      request: { frequency: "daily", startDate: "2030-01-01", timeOfDay: "08:00", timeZone: "Asia/Tokyo" },
+      expected: ["2029-12-31T23:00:00.000Z", "2030-01-01T23:00:00.000Z", "2030-01-02T23:00:00.000Z"],
+    },
+  ])("$name", ({ request, expected }) => {
+    const dates = generateSchedule(bulkScheduleSchema.parse({ ...request, lines: lines(3), platform: "social" }));
+    expect(dates.map((date) => date.toISOString())).toEqual(expected);
+  });
+
+  it("gives each line its own day, in order", () => {
+    const dates = generateSchedule(bulkScheduleSchema.parse({
+      lines: lines(12),
+      platform: "email",
+      frequency: "business-days",
+      startDate: "2030-01-01",
+      timeOfDay: "10:00",
+    }));
+    expect(dates).toHaveLength(12);
+    expect(dates.every((date) => date.getUTCDay() !== 0 && date.getUTCDay() !== 6)).toBe(true);
+    expect(new Set(dates.map((date) => date.toISOString().slice(0, 10))).size).toBe(12);
+    expect(dates.slice().sort((a, b) => a.getTime() - b.getTime())).toEqual(dates);
+  });
+});
+
+describe("POST /api/content/bulk-schedule", () => {
+  let app: TestApp;
+
+  beforeAll(async () => {
+    app = await startTestApp();
+  });
+
+  afterAll(() => {
+    app.close();
+  });
+
+  async function subscribe(user: string) {
+    await storage.saveSubscription({
+      id: `I-${user}`,
+      userId: user,
+      planId: "P-1",
+      status: "active",
+      startedAt: new Date("2030-01-01T00:00:00Z"),
+      currentPeriodEnd: null,
+    });
+  }
+
+  async function post(user: string, scheduledDate: string, platform = "social") {
+    const res = await app.request(user, "POST", "/api/content", { title: "Existing", platform, scheduledDate, status: "draft" });
+    expect(res.status).toBe(201);
+  }
+
+  const schedule = (user: string, body: object) =>
+    app.request(user, "POST", "/api/content/bulk-schedule", {
+      lines: lines(3),
+      platform: "social",
+      frequency: "daily",
+      timeOfDay: "09:00",
+      dryRun: false,
+      ...body,
+    });
+
+  async function titles(user: string): Promise<string[]> {
+    const items: ContentItem[] = await (await app.request(user, "GET", "/api/content")).json();
+    return items.map((item) => item.title);
+  }
+
+  // Lowers a Premium limit for one test; Premium has none by default
+  async function withPremiumLimit(quota: "scheduledItemsPerMonth" | "platforms", limit: number, test: () => Promise<void>) {
+    const previous = planLimits.premium[quota];
+    planLimits.premium[quota] = limit;
+    try {
+      await test();
+    } finally {
+      planLimits.premium[quota] = previous;
+    }
+  }
+
+  it("is a Premium feature", async () => {
+    const res = await schedule("bulk-free", { startDate: "2030-01-07" });
+    expect(res.status).toBe(402);
+  });
+
+  it("creates a draft per line on the chosen platform", async () => {
+    await subscribe("bulk");
+    const res = await schedule("bulk", { startDate: "2030-01-07", platform: "blog", frequency: "custom", weekdays: [2, 4] });
+    expect(res.status).toBe(201);
+
+    const result: BulkScheduleResult = await res.json();
+    expect(result.created.map((item) => [item.title, item.platform, item.status, item.scheduledDate])).toEqual([
+      ["Post 1", "blog", "draft", "2030-01-08T09:00:00.000Z"],
+      ["Post 2", "blog", "draft", "2030-01-10T09:00:00.000Z"],
+      ["Post 3", "blog", "draft", "2030-01-15T09:00:00.000Z"],
+    ]);
+  });
+
+  it("previews the dates without saving anything", async () => {
+    await subscribe("bulk-preview");
+    const res = await schedule("bulk-preview", { startDate: "2030-01-07", dryRun: true });
+    expect(res.status).toBe(200);
+    const result: BulkScheduleResult = await res.json();
+    expect(result.items.map((item) => item.title)).toEqual(lines(3));
+    expect(result.created).toEqual([]);
+    expect(await titles("bulk-preview")).toEqual([]);
+  });
+
+  it("counts the lines against the month each one lands in", async () => {
+    await subscribe("bulk-monthly");
+    await post("bulk-monthly", "2030-01-02T09:00:00Z");
+    await post("bulk-monthly", "2030-01-03T09:00:00Z");
+
+    await withPremiumLimit("scheduledItemsPerMonth", 4, async () => {
+      // Two in January, one in February
+      expect((await schedule("bulk-monthly", { startDate: "2030-01-30" })).status).toBe(201);
+
+      // Would be a fifth item in January, so none of them is saved, and a
+      // preview says so too
+      for (const dryRun of [true, false]) {
+        const res = await schedule("bulk-monthly", { startDate: "2030-01-20", dryRun });
+        expect(res.status).toBe(403);
+        expect(await res.json()).toMatchObject({ quota: "scheduledItemsPerMonth", plan: "premium", limit: 4, used: 4 });
+      }
+    });
+    expect(await titles("bulk-monthly")).toHaveLength(5);
+  });
+
+  it("counts the platform against the plan's platforms", async () => {
+    await subscribe("bulk-platforms");
+    await post("bulk-platforms", "2030-01-02T09:00:00Z", "social");
+
+    await withPremiumLimit("platforms", 1, async () => {
+      expect((await schedule("bulk-platforms", { startDate: "2030-01-07", platform: "social" })).status).toBe(201);
+      const res = await schedule("bulk-platforms", { startDate: "2030-01-07", platform: "email" });
+      expect(res.status).toBe(403);
+      expect(await res.json()).toMatchObject({ quota: "platforms", limit: 1, used: 1 });
+    });
+  });
+});
@@ -0,0 +1,30 @@
+import type { BulkScheduleRequest } from "@shared/schema";
+import { zonedTime } from "./time-zones";
+
+function includesDay(request: BulkScheduleRequest, weekday: number): boolean {
+  switch (request.frequency) {
+    case "daily":
+      return true;
+    case "business-days":
+      return weekday !== 0 && weekday !== 6;
+    case "custom":
+      return request.weekdays.includes(weekday);
+  }
+}
+
+// One date per line: consecutive matching days from the start date, each at
+// the requested time of day.
+export function generateSchedule(request: BulkScheduleRequest): Date[] {
+  const [hours, minutes] = request.timeOfDay.split(":").map(Number);
+  // Calendar days are tracked as UTC midnights so no zone shifts them
+  const day = new Date(`${request.startDate}T00:00:00Z`);
+  const dates: Date[] = [];
+
+  while (dates.length < request.lines.length) {
+    if (includesDay(request, day.getUTCDay())) {
+      dates.push(zonedTime(day, hours, minutes, request.timeZone));
+    }
+    day.setUTCDate(day.getUTCDate() + 1);
+  }
+  return dates;
+}
@@ -0,0 +1,185 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import type { ContentItem } from "@shared/schema";
+import { MemStorage } from "./storage";
+import { PublishScheduler, type Clock, type Publisher } from "./scheduler";
+
+const MINUTE = 60_000;
+
+class FakeClock implements Clock {
+  constructor(private time: Date) {}
+
+  now(): Date {
+    return new Date(this.time);
+  }
+
+  advance(ms: number) {
+    this.time = new Date(this.time.getTime() + ms);
+  }
+}
+
+// Fails the first `failures` attempts, then succeeds
+class FlakyPublisher implements Publisher {
+  published: ContentItem[] = [];
+
+  constructor(private failures = 0) {}
+
+  async publish(item: ContentItem) {
+    if (this.failures > 0) {
+      this.failures--;
+      throw new Error("Destination unavailable");
+    }
+    this.published.push(item);
+  }
+}
+
+const start = new Date("2030-01-01T09:00:00Z");
+let storage: MemStorage;
+let clock: FakeClock;
+let workspaceId: string;
+
+beforeEach(async () => {
+  storage = new MemStorage();
+  clock = new FakeClock(start);
+  vi.spyOn(console, "warn").mockImplementation(() => {});
+  workspaceId = (await storage.createWorkspace("owner", null, { name: "Team" })).id;
+});
+
+function schedule(scheduledDate: Date, fields: Partial<ContentItem> = {}) {
+  return storage.createContentItem(workspaceId, "owner", {
+    title: "Post",
+    platform: "social",
+    scheduledDate,
+    status: "scheduled",
+    ...fields,
+  } as Parameters<MemStorage["createContentItem"]>[2]);
+}
+
+function createScheduler(publisher: Publisher) {
+  return new PublishScheduler({ storage, publisher, clock, maxAttempts: 3, baseBackoffMs: MINUTE, maxBackoffMs: 3 * MINUTE });
+}
+
+describe("PublishScheduler", () => {
+  it("publishes items once they are due", async () => {
+    const item = await schedule(new Date(start.getTime() + MINUTE));
+    const publisher = new FlakyPublisher();
+    const scheduler = createScheduler(publisher);
+
+    expect(await scheduler.tick()).toEqual({ posted: 0, retried: 0, failed: 0 });
+    clock.advance(MINUTE);
+    expect(await scheduler.tick()).toEqual({ posted: 1, retried: 0, failed: 0 });
+
+    const posted = await storage.getContentItem(workspaceId, item.id);
+    expect(posted).toMatchObject({ status: "posted", publishAttempts: 1, publishedAt: clock.now() });
+    expect(publisher.published.map((published) => published.id)).toEqual([item.id]);
+  });
+
+  it("retries with backoff, then succeeds", async () => {
+    const item = await schedule(start);
+    const scheduler = createScheduler(new FlakyPublisher(1));
+
+    expect(await scheduler.tick()).toEqual({ posted: 0, retried: 1, failed: 0 });
+    expect(await storage.getContentItem(workspaceId, item.id)).toMatchObject({
+      status: "scheduled",
+      publishAttempts: 1,
+      lastPublishError: "Destination unavailable",
+      nextPublishAttemptAt: new Date(start.getTime() + MINUTE),
+    });
+
+    // Not before the backoff is over
+    clock.advance(MINUTE - 1);
+    expect((await scheduler.tick()).posted).toBe(0);
+    clock.advance(1);
+    expect((await scheduler.tick()).posted).toBe(1);
+    expect(await storage.getContentItem(workspaceId, item.id)).toMatchObject({ status: "posted", publishAttempts: 2, lastPublishError: null });
+  });
+
+  it("marks an item failed after the last attempt", async () => {
+    const item = await schedule(start);
+    const scheduler = createScheduler(new FlakyPublisher(3));
+
+    expect((await scheduler.tick()).retried).toBe(1);
+    clock.advance(MINUTE);
+    expect((await scheduler.tick()).retried).toBe(1);
+    clock.advance(2 * MINUTE);
+    expect((await scheduler.tick()).failed).toBe(1);
+
+    expect(await storage.getContentItem(workspaceId, item.id)).toMatchObject({
+      status: "failed",
+      publishAttempts: 3,
+      nextPublishAttemptAt: null,
+    });
+  });
+
+  it("doubles the backoff up to the maximum", () => {
+    const scheduler = createScheduler(new FlakyPublisher());
+    expect([1, 2, 3, 4].map((attempt) => scheduler.backoffFor(attempt))).toEqual([MINUTE, 2 * MINUTE, 3 * MINUTE, 3 * MINUTE]);
+  });
+
+  it("leaves items that were unscheduled while publishing", async () => {
+    const item = await schedule(start);
+    const scheduler = createScheduler({
+      publish: async () => {
+        await storage.updateContentStatus(workspaceId, item.id, "scheduled", { status: "approved" });
+      },
+    });
+
+    expect((await scheduler.tick()).posted).toBe(0);
+    expect((await storage.getContentItem(workspaceId, item.id))?.status).toBe("approved");
+  });
+
+  it("shares a running tick between overlapping calls", async () => {
+    await schedule(start);
+    const publisher = new FlakyPublisher();
+    const scheduler = createScheduler(publisher);
+
+    const [first, second] = await Promise.all([scheduler.tick(), scheduler.tick()]);
+    expect(first).toBe(second);
+    expect(publisher.published).toHaveLength(1);
+  });
+
+  it("releases and publishes the due occurrences of a scheduled series", async () => {
+    const series = await schedule(start, { recurrence: "FREQ=DAILY", timeZone: "UTC" } as Partial<ContentItem>);
+    // Scheduled just before its first occurrence
+    await storage.updateContentStatus(workspaceId, series.id, "scheduled", {
+      status: "scheduled",
+      materializedUntil: new Date(start.getTime() - 1),
+    });
+    const publisher = new FlakyPublisher();
+    const scheduler = createScheduler(publisher);
+
+    clock.advance(24 * 60 * MINUTE);
+    expect((await scheduler.tick()).posted).toBe(2);
+    expect(publisher.published.map((item) => item.scheduledDate)).toEqual([start, new Date(start.getTime() + 24 * 60 * MINUTE)]);
+    expect(publisher.published.every((item) => item.seriesId === series.id && !item.recurrence)).toBe(true);
+
+    // Nothing more until the next occurrence comes due
+    expect((await scheduler.tick()).posted).toBe(0);
+    expect((await storage.getContentItem(workspaceId, series.id))?.materializedUntil).toEqual(clock.now());
+  });
+
+  it("releases each occurrence exactly once across ticks", async () => {
+    const day = 24 * 60 * MINUTE;
+    const series = await schedule(start, { recurrence: "FREQ=DAILY;COUNT=4", timeZone: "UTC" } as Partial<ContentItem>);
+    await storage.updateContentStatus(workspaceId, series.id, "scheduled", {
+      status: "scheduled",
+      materializedUntil: new Date(start.getTime() - 1),
+    });
+    await storage.cancelOccurrence(workspaceId, series.id, new Date(start.getTime() + 2 * day));
+    const publisher = new FlakyPublisher();
+    const scheduler = createScheduler(publisher);
+
+    await Promise.all([scheduler.tick(), scheduler.tick()]);
+    clock.advance(day);
+    await scheduler.tick();
+    await scheduler.tick();
+    clock.advance(10 * day);
+    await scheduler.tick();
+
+    // The third occurrence was cancelled and COUNT stops after the fourth
+    expect(publisher.published.map((item) => item.occurrenceDate)).toEqual([
+      start,
+      new Date(start.getTime() + day),
+      new Date(start.getTime() + 3 * day),
+    ]);
+  });
+});
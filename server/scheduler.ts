@@ -0,0 +1,159 @@
+import type { ContentItem } from "@shared/schema";
+import type { IStorage } from "./storage";
+import { dueOccurrences, inheritedStatus, occurrenceItem } from "./content-series";
+
+export interface Clock {
+  now(): Date;
+}
+
+export const systemClock: Clock = {
+  now: () => new Date(),
+};
+
+// Delivers one content item to its destination. Throwing marks the attempt as
+// failed; the scheduler decides whether to retry.
+export interface Publisher {
+  publish(item: ContentItem): Promise<void>;
+}
+
+export interface SchedulerOptions {
+  storage: IStorage;
+  publisher: Publisher;
+  clock?: Clock;
+  // How often to look for due items
+  intervalMs?: number;
+  // Items picked up per tick
+  batchSize?: number;
+  // Attempts before an item is marked failed
+  maxAttempts?: number;
+  // First retry delay; doubles on every further attempt up to maxBackoffMs
+  baseBackoffMs?: number;
+  maxBackoffMs?: number;
+}
+
+export interface TickResult {
+  posted: number;
+  retried: number;
+  failed: number;
+}
+
+export class PublishScheduler {
+  private storage: IStorage;
+  private publisher: Publisher;
+  private clock: Clock;
+  private intervalMs: number;
+  private batchSize: number;
+  private maxAttempts: number;
+  private baseBackoffMs: number;
+  private maxBackoffMs: number;
+  private timer: NodeJS.Timeout | null = null;
+  private running: Promise<TickResult> | null = null;
+
+  constructor(options: SchedulerOptions) {
+    this.storage = options.storage;
+    this.publisher = options.publisher;
+    this.clock = options.clock ?? systemClock;
+    this.intervalMs = options.intervalMs ?? 30_000;
+    this.batchSize = options.batchSize ?? 25;
+    this.maxAttempts = options.maxAttempts ?? 5;
+    this.baseBackoffMs = options.baseBackoffMs ?? 60_000;
+    this.maxBackoffMs = options.maxBackoffMs ?? 60 * 60_000;
+  }
+
+  start() {
+    if (this.timer) return;
+    this.timer = setInterval(() => {
+      this.tick().catch((error) => console.error("Publish scheduler tick failed:", error));
+    }, this.intervalMs);
+    this.timer.unref();
+  }
+
+  stop() {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = null;
+    }
+  }
+
+  backoffFor(attempt: number): number {
+    return Math.min(this.baseBackoffMs * 2 ** (attempt - 1), this.maxBackoffMs);
+  }
+
+  // Publishes everything due now. Overlapping calls share the running tick.
+  tick(): Promise<TickResult> {
+    if (!this.running) {
+      this.running = this.runTick().finally(() => {
+        this.running = null;
+      });
+    }
+    return this.running;
+  }
+
+  private async runTick(): Promise<TickResult> {
+    const result: TickResult = { posted: 0, retried: 0, failed: 0 };
+    await this.releaseOccurrences();
+    const dueItems = await this.storage.getDueContentItems(this.clock.now(), this.batchSize);
+
+    for (const item of dueItems) {
+      const attempt = item.publishAttempts + 1;
+
+      try {
+        await this.publisher.publish(item);
+      } catch (error) {
+        const message = error instanceof Error ? error.message : String(error);
+        const giveUp = attempt >= this.maxAttempts;
+        const updated = await this.storage.updateContentStatus(item.workspaceId, item.id, "scheduled", {
+          status: giveUp ? "failed" : "scheduled",
+          publishAttempts: attempt,
+          lastPublishError: message,
+          nextPublishAttemptAt: giveUp
+            ? null
+            : new Date(this.clock.now().getTime() + this.backoffFor(attempt)),
+        });
+        if (updated) {
+          if (giveUp) result.failed++;
+          else result.retried++;
+          console.warn(`Publish attempt ${attempt} failed for content item ${item.id}: ${message}`);
+        }
+        continue;
+      }
+
+      // Only flip items that are still scheduled, in case someone
+      // unscheduled them while the publisher was running
+      const updated = await this.storage.updateContentStatus(item.workspaceId, item.id, "scheduled", {
+        status: "posted",
+        publishAttempts: attempt,
+        lastPublishError: null,
+        nextPublishAttemptAt: null,
+        publishedAt: this.clock.now(),
+      });
+      if (updated) result.posted++;
+    }
+
+    return result;
+  }
+
+  // Turns the due occurrences of scheduled series into scheduled items of
+  // their own, which the rest of the tick then publishes like any other
+  private async releaseOccurrences() {
+    const now = this.clock.now();
+    for (const series of await this.storage.getScheduledSeries()) {
+      const dates = await dueOccurrences(this.storage, series, now);
+      if (dates.length === 0) continue;
+      for (const date of dates) {
+        await this.storage.detachOccurrence(
+          series.workspaceId,
+          series.ownerId,
+          series.id,
+          date,
+          occurrenceItem(series, date),
+          { ...inheritedStatus(series), publishAttempts: 0, lastPublishError: null, nextPublishAttemptAt: null },
+        );
+      }
+      await this.storage.updateContentStatus(series.workspaceId, series.id, "scheduled", {
+        status: "scheduled",
+        materializedUntil: now,
+      });
+    }
+  }
+}
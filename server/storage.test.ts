@@ -0,0 +1,303 @@
+import { beforeAll, describe, expect, it } from "vitest";
+import { eq, sql } from "drizzle-orm";
+import { contentItems, type ContentSort } from "@shared/schema";
+import type { Database } from "./db";
+import { DbStorage } from "./storage";
+import { createTestDatabase } from "./test-db";
+
+// One database for the file; tests keep to their own users and workspaces
+let db: Database;
+let storage: DbStorage;
+
+beforeAll(async () => {
+  db = await createTestDatabase();
+  storage = new DbStorage(db);
+});
+
+describe("workspaces", () => {
+  it("makes the creator the owner", async () => {
+    const workspace = await storage.createWorkspace("alice", "alice@example.com", { name: "Team" });
+    expect((await storage.getMembership(workspace.id, "alice"))?.role).toBe("owner");
+    expect(await storage.getWorkspacesForUser("alice")).toEqual([expect.objectContaining({ id: workspace.id, role: "owner" })]);
+  });
+
+  it("adds an invited user with the invited role, once", async () => {
+    const workspace = await storage.createWorkspace("owner", null, { name: "Team" });
+    const invitation = await storage.createInvitation(workspace.id, "owner", { role: "reviewer" });
+
+    expect((await storage.acceptInvitation(invitation.token, "ben", null))?.role).toBe("reviewer");
+    expect(await storage.acceptInvitation(invitation.token, "carol", null)).toBeUndefined();
+    expect(await storage.getMembership(workspace.id, "carol")).toBeUndefined();
+  });
+
+  it("rejects an unknown invitation token", async () => {
+    expect(await storage.acceptInvitation("nope", "bob", null)).toBeUndefined();
+  });
+
+  it("changes and removes members", async () => {
+    const workspace = await storage.createWorkspace("owner", null, { name: "Team" });
+    const invitation = await storage.createInvitation(workspace.id, "owner", { role: "viewer" });
+    await storage.acceptInvitation(invitation.token, "bob", null);
+
+    expect((await storage.updateMemberRole(workspace.id, "bob", "editor"))?.role).toBe("editor");
+    expect(await storage.removeMember(workspace.id, "bob")).toBe(true);
+    expect(await storage.getMembership(workspace.id, "bob")).toBeUndefined();
+    expect(await storage.getWorkspacesForUser("bob")).toEqual([]);
+  });
+});
+
+describe("content pages", () => {
+  it.each<ContentSort>(["createdAt", "-createdAt", "title"])("lists every item once, sorted by %s", async (sort) => {
+    const workspace = await storage.createWorkspace("owner", null, { name: "Team" });
+    const items = await storage.createContentItems(workspace.id, "owner", ["A", "B", "C", "D"].map((title) => ({
+      title,
+      platform: "social",
+      scheduledDate: new Date("2030-01-15T09:00:00Z"),
+      status: "draft",
+    }) as Parameters<DbStorage["createContentItems"]>[2][number]));
+    // Microseconds, as now() gives, are rounded away so the cursor's ISO
+    // date matches
+    await db
+      .update(contentItems)
+      .set({ createdAt: sql`'2030-01-01 00:00:00.000500'::timestamp` })
+      .where(eq(contentItems.workspaceId, workspace.id));
+
+    const seen: string[] = [];
+    let cursor: string | undefined;
+    do {
+      const page = await storage.queryContentItems(workspace.id, { sort, limit: 1, cursor });
+      seen.push(...page.items.map((item) => item.id));
+      cursor = page.nextCursor ?? undefined;
+    } while (cursor && seen.length <= items.length);
+
+    expect(seen.slice().sort()).toEqual(items.map((item) => item.id).sort());
+  });
+
+  it("reads calendar pages straight from the workspace index", async () => {
+    // Tables this small would be scanned anyway
+    await db.execute(sql`set enable_seqscan = off`);
+    try {
+      // The page query for the default sort, after a cursor
+      const date = new Date("2030-01-15T09:00:00Z");
+      const { rows } = await db.execute(sql`
+        explain select * from content_items
+        where workspace_id = ${"workspace"} and (scheduled_date > ${date} or (scheduled_date = ${date} and id > ${"id"}))
+        order by scheduled_date, id limit 26`);
+      const plan = rows.map((row) => Object.values(row)[0]).join("\n");
+      expect(plan).toContain("content_items_workspace_schedule_idx");
+      expect(plan).not.toContain("Sort");
+    } finally {
+      await db.execute(sql`reset enable_seqscan`);
+    }
+  });
+});
+
+describe("content edits", () => {
+  it("saves an edit and its status change together, or neither", async () => {
+    const workspace = await storage.createWorkspace("fay", null, { name: "Team" });
+    const item = await storage.createContentItem(workspace.id, "fay", {
+      title: "Launch",
+      platform: "social",
+      scheduledDate: new Date("2030-01-15T09:00:00Z"),
+      status: "approved",
+    } as Parameters<DbStorage["createContentItem"]>[2]);
+    const backToReview = { status: "in_review" as const, approvedBy: null, approvedAt: null };
+
+    // Someone else scheduled it in the meantime
+    expect(await storage.updateContentItem(workspace.id, item.id, { title: "Relaunch" }, "in_review", backToReview)).toBeUndefined();
+    expect(await storage.getContentItem(workspace.id, item.id)).toMatchObject({ title: "Launch", status: "approved" });
+
+    expect(await storage.updateContentItem(workspace.id, item.id, { title: "Relaunch" }, "approved", backToReview))
+      .toMatchObject({ title: "Relaunch", status: "in_review" });
+  });
+
+  it("applies a change set only while its moves have the status they were judged on", async () => {
+    const workspace = await storage.createWorkspace("kim", null, { name: "Team" });
+    const item = await storage.createContentItem(workspace.id, "kim", {
+      title: "Launch",
+      platform: "social",
+      scheduledDate: new Date("2030-01-15T09:00:00Z"),
+      status: "approved",
+    } as Parameters<DbStorage["createContentItem"]>[2]);
+    const draft = { title: "Follow-up", platform: "email", scheduledDate: new Date("2030-01-16T09:00:00Z"), status: "draft" } as Parameters<DbStorage["createContentItem"]>[2];
+    const move = {
+      id: item.id,
+      scheduledDate: new Date("2030-01-17T09:00:00Z"),
+      change: { status: "in_review" as const, approvedBy: null, approvedAt: null },
+    };
+
+    expect(await storage.applyContentChanges(workspace.id, "kim", [draft], [{ ...move, fromStatus: "scheduled" }])).toBeUndefined();
+    const { items } = await storage.queryContentItems(workspace.id, {});
+    expect(items.map((existing) => [existing.title, existing.status])).toEqual([["Launch", "approved"]]);
+
+    const applied = await storage.applyContentChanges(workspace.id, "kim", [draft], [{ ...move, fromStatus: "approved" }]);
+    expect(applied?.created).toHaveLength(1);
+    expect(applied?.moved).toEqual([expect.objectContaining({ scheduledDate: move.scheduledDate, status: "in_review", approvedBy: null })]);
+  });
+});
+
+describe("content pieces", () => {
+  const post = (platform: string) =>
+    ({ title: "Launch", platform, scheduledDate: new Date("2030-01-15T09:00:00Z"), status: "draft" }) as Parameters<DbStorage["createContentItem"]>[2];
+
+  it("groups variants into a piece, one per platform", async () => {
+    const workspace = await storage.createWorkspace("lea", null, { name: "Team" });
+    const source = await storage.createContentItem(workspace.id, "lea", post("social"));
+
+    expect(await storage.addContentVariant(workspace.id, "lea", source.id, post("social"))).toBeUndefined();
+    const email = await storage.addContentVariant(workspace.id, "lea", source.id, post("email"));
+    expect(email?.pieceId).toBeTruthy();
+    expect(await storage.addContentVariant(workspace.id, "lea", source.id, post("email"))).toBeUndefined();
+
+    const piece = await storage.getContentPiece(workspace.id, email!.pieceId!);
+    expect(piece?.variants.map((item) => item.id)).toEqual([source.id, email!.id]);
+
+    await storage.deleteContentItem(workspace.id, email!.id);
+    await storage.deleteContentItem(workspace.id, source.id);
+    expect(await storage.getContentPiece(workspace.id, email!.pieceId!)).toBeUndefined();
+  });
+
+  it("keeps pieces to their workspace", async () => {
+    const workspace = await storage.createWorkspace("max", null, { name: "Team" });
+    const other = await storage.createWorkspace("ned", null, { name: "Other" });
+    const source = await storage.createContentItem(workspace.id, "max", post("social"));
+    const email = await storage.addContentVariant(workspace.id, "max", source.id, post("email"));
+
+    expect(await storage.getContentPiece(other.id, email!.pieceId!)).toBeUndefined();
+    expect(await storage.renameContentPiece(other.id, email!.pieceId!, "Mine now")).toBeUndefined();
+    expect(await storage.addContentVariant(other.id, "ned", source.id, post("blog"))).toBeUndefined();
+    expect((await storage.getContentPiece(workspace.id, email!.pieceId!))?.title).toBe("Launch");
+    expect((await storage.queryContentItems(other.id, {})).items).toEqual([]);
+  });
+});
+
+describe("content metrics", () => {
+  it("saves no batch that repeats a snapshot", async () => {
+    const workspace = await storage.createWorkspace("analyst", null, { name: "Metrics" });
+    const item = await storage.createContentItem(workspace.id, "analyst", {
+      title: "Post",
+      platform: "social",
+      scheduledDate: new Date("2030-01-15T09:00:00Z"),
+      status: "posted",
+    } as Parameters<DbStorage["createContentItem"]>[2]);
+    const snapshot = (likes: number, capturedAt = new Date("2030-01-16T09:00:00Z")) => ({ contentItemId: item.id, capturedAt, likes });
+
+    expect(await storage.addContentMetrics(workspace.id, "api", [snapshot(1)])).toHaveLength(1);
+    // Repeating a stored snapshot or one earlier in the batch
+    expect(await storage.addContentMetrics(workspace.id, "api", [snapshot(2, new Date("2030-01-17T09:00:00Z")), snapshot(3)])).toBeUndefined();
+    const later = new Date("2030-01-18T09:00:00Z");
+    expect(await storage.addContentMetrics(workspace.id, "api", [snapshot(4, later), snapshot(5, later)])).toBeUndefined();
+    expect((await storage.getContentMetrics(workspace.id, item.id)).map((metrics) => metrics.likes)).toEqual([1]);
+  });
+});
+
+describe("chat threads", () => {
+  it("keeps threads to their user and renames and deletes them", async () => {
+    const workspace = await storage.createWorkspace("gus", null, { name: "Team" });
+    const first = await storage.createChatThread(workspace.id, "gus", null);
+    const second = await storage.createChatThread(workspace.id, "gus", "Launch plan");
+
+    expect(await storage.renameChatThread(workspace.id, "gus", first.id, "Q1 ideas")).toMatchObject({ title: "Q1 ideas" });
+    // Both may carry the same millisecond, so their order isn't checked here
+    expect((await storage.getChatThreads(workspace.id, "gus")).map((thread) => thread.title).sort()).toEqual(["Launch plan", "Q1 ideas"]);
+    expect(await storage.getChatThreads(workspace.id, "hal")).toEqual([]);
+    expect(await storage.getChatThread(workspace.id, "hal", first.id)).toBeUndefined();
+    expect(await storage.renameChatThread(workspace.id, "hal", first.id, "Mine")).toBeUndefined();
+    expect(await storage.deleteChatThread(workspace.id, "hal", first.id)).toBe(false);
+
+    await storage.addChatMessages(second.id, [{ role: "user", content: "Hi" }]);
+    expect(await storage.deleteChatThread(workspace.id, "gus", second.id)).toBe(true);
+    expect(await storage.getChatThread(workspace.id, "gus", second.id)).toBeUndefined();
+    expect(await storage.getChatMessages(second.id)).toEqual([]);
+  });
+
+  it("keeps messages in order and links content to them", async () => {
+    const workspace = await storage.createWorkspace("ida", null, { name: "Team" });
+    const thread = await storage.createChatThread(workspace.id, "ida", null);
+    const proposal = { summary: "Add a post", changes: [] };
+    const [, reply] = await storage.addChatMessages(thread.id, [
+      { role: "user", content: "Plan my week" },
+      { role: "assistant", content: "", proposal, proposalStatus: "pending" },
+    ]);
+    await storage.addChatMessages(thread.id, [{ role: "user", content: "Thanks" }]);
+    expect((await storage.getChatMessages(thread.id)).map((message) => message.content)).toEqual(["Plan my week", "", "Thanks"]);
+
+    expect(await storage.updateProposalStatus(thread.id, reply.id, "pending", "dismissed")).toMatchObject({ proposalStatus: "dismissed" });
+    expect(await storage.updateProposalStatus(thread.id, reply.id, "pending", "applied")).toBeUndefined();
+
+    const item = await storage.createContentItem(workspace.id, "ida", {
+      title: "From the assistant",
+      platform: "social",
+      scheduledDate: new Date("2030-01-15T09:00:00Z"),
+      status: "draft",
+    } as Parameters<DbStorage["createContentItem"]>[2]);
+    await storage.linkChatMessage(thread.id, reply.id, [item.id]);
+    expect((await storage.linkChatMessage(thread.id, reply.id, [item.id]))?.contentIds).toEqual([item.id]);
+    expect(await storage.linkChatMessage(thread.id, "missing", [item.id])).toBeUndefined();
+
+    // Deleting the content drops the link, not the message
+    await storage.deleteContentItem(workspace.id, item.id);
+    expect((await storage.getChatMessage(thread.id, reply.id))?.contentIds).toEqual([]);
+  });
+});
+
+describe("billing events", () => {
+  const subscription = (status: string, lastEventAt: Date) => ({
+    id: "I-DB1",
+    userId: "dana",
+    planId: "P-1",
+    status,
+    startedAt: new Date("2030-01-01T00:00:00Z"),
+    currentPeriodEnd: null,
+    lastEventAt,
+  });
+
+  it("records each event once and keeps the newest state", async () => {
+    const event = (id: string) => ({ id, type: "BILLING.SUBSCRIPTION.UPDATED", subscriptionId: "I-DB1" });
+
+    expect(await storage.processBillingEvent(event("WH-DB2"), subscription("cancelled", new Date("2030-01-05T00:00:00Z")))).toBe(true);
+    expect(await storage.processBillingEvent(event("WH-DB2"), subscription("active", new Date("2030-01-06T00:00:00Z")))).toBe(false);
+    // Arrived late, after the newer event was applied
+    expect(await storage.processBillingEvent(event("WH-DB1"), subscription("active", new Date("2030-01-01T00:00:00Z")))).toBe(true);
+
+    expect(await storage.getSubscription("I-DB1")).toMatchObject({ status: "cancelled", lastEventAt: new Date("2030-01-05T00:00:00Z") });
+  });
+});
+
+describe("content usage", () => {
+  it("counts one-off items in the period and lists series separately", async () => {
+    const workspace = await storage.createWorkspace("erin", null, { name: "Team" });
+    const create = (fields: Record<string, unknown>) =>
+      storage.createContentItem(workspace.id, "erin", { title: "Post", platform: "social", status: "draft", ...fields } as Parameters<DbStorage["createContentItem"]>[2]);
+    await create({ scheduledDate: new Date("2030-03-02T09:00:00Z") });
+    await create({ scheduledDate: new Date("2030-04-02T09:00:00Z"), platform: "email" });
+    const series = await create({ scheduledDate: new Date("2030-02-01T09:00:00Z"), recurrence: "FREQ=WEEKLY", timeZone: "UTC" });
+
+    const usage = await storage.getContentUsage("erin", new Date("2030-03-01T00:00:00Z"), new Date("2030-04-01T00:00:00Z"));
+    expect(usage.scheduled).toBe(1);
+    expect(usage.series.map((item) => item.id)).toEqual([series.id]);
+    expect(usage.platforms.sort()).toEqual(["email", "social"]);
+  });
+});
+
+describe("quota locks", () => {
+  it("runs one holder at a time and rolls back a holder that throws", async () => {
+    const workspace = await storage.createWorkspace("gil", null, { name: "Team" });
+    const item = { title: "Post", platform: "social", scheduledDate: new Date("2030-03-02T09:00:00Z"), status: "draft" } as Parameters<DbStorage["createContentItem"]>[2];
+    const month = [new Date("2030-03-01T00:00:00Z"), new Date("2030-04-01T00:00:00Z")] as const;
+    // Room for one more item
+    const create = () => storage.withQuotaLock(["gil"], async (locked) => {
+      if ((await locked.getContentUsage("gil", ...month)).scheduled >= 1) throw new Error("Over quota");
+      return locked.createContentItem(workspace.id, "gil", item);
+    });
+
+    const results = await Promise.allSettled([create(), create()]);
+    expect(results.map((result) => result.status).sort()).toEqual(["fulfilled", "rejected"]);
+
+    await expect(storage.withQuotaLock(["gil", "hal"], async (locked) => {
+      await locked.createContentItem(workspace.id, "gil", item);
+      throw new Error("Check failed after writing");
+    })).rejects.toThrow("Check failed after writing");
+    expect((await storage.getContentUsage("gil", ...month)).scheduled).toBe(1);
+  });
+});
@@ -1,34 +1,276 @@
-import { type ContentItem, type InsertContentItem } from "@shared/schema";
-import { randomUUID } from "crypto";
+import {
+  billingEvents,
+  calendarFeeds,
+  chatMessageLinks,
+  chatMessages,
+  chatThreads,
+  contentExceptions,
+  contentItems,
+  contentMetrics,
+  contentPieces,
+  contentPlatforms,
+  metricsKeys,
+  publishDestinations,
+  subscriptions,
+  usageCounters,
+  users,
+  workspaceInvitations,
+  workspaceMembers,
+  workspaces,
+  type BillingEvent,
+  type CalendarFeed,
+  type ChatMessage,
+  type ChatThread,
+  type ContentException,
+  type ContentFilter,
+  type ContentChangeResult,
+  type ContentItem,
+  type ContentMetrics,
+  type ContentPage,
+  type ContentPlatform,
+  type ContentPiece,
+  type ContentPieceWithVariants,
+  type ContentQuery,
+  type InsertContentItem,
+  type InsertContentMetrics,
+  type InsertDestination,
+  type InsertInvitation,
+  type InsertSubscription,
+  type InsertUser,
+  type InsertWorkspace,
+  type MetricSource,
+  type MetricsKey,
+  type NewChatMessage,
+  type ProposalStatus,
+  type PublishDestination,
+  type Subscription,
+  type User,
+  type Workspace,
+  type WorkspaceInvitation,
+  type WorkspaceMember,
+  type WorkspaceRole,
+  type WorkspaceWithRole,
+} from "@shared/schema";
+import type { ContentStatus } from "@shared/workflow";
+import { randomBytes, randomUUID } from "crypto";
+import { and, asc, desc, eq, gt, gte, ilike, inArray, isNotNull, isNull, lt, lte, ne, notExists, or, sql, TransactionRollbackError, type SQL } from "drizzle-orm";
+import { db, type Database } from "./db";
+import { compareItems, decodeCursor, encodeCursor, matchesFilter, parseSort } from "./content-query";
 
-// User types for the storage interface
-export interface User {
+// Status plus the approval and publishing fields that move with it
+export interface ContentStatusChange {
+  status: ContentStatus;
+  approvedBy?: string | null;
+  approvedAt?: Date | null;
+  reviewNote?: string | null;
+  publishAttempts?: number;
+  lastPublishError?: string | null;
+  nextPublishAttemptAt?: Date | null;
+  publishedAt?: Date | null;
+  materializedUntil?: Date | null;
+}
+
+// A metrics snapshot and the item it belongs to
+export type NewContentMetrics = InsertContentMetrics & { contentItemId: string };
+
+// A new time for an existing item, applied only while the item still has the
+// status it was judged on
+export interface ContentMove {
   id: string;
-  username: string;
+  scheduledDate: Date;
+  fromStatus: string;
+  change?: ContentStatusChange;
 }
 
-export interface InsertUser {
-  username: string;
+// What a user's own content uses of their plan
+export interface ContentUsage {
+  // One-off items scheduled in the period asked about
+  scheduled: number;
+  // Series starting before the period ends, whose occurrences may fall in it
+  series: ContentItem[];
+  // Platforms of all their items, whenever scheduled
+  platforms: string[];
 }
 
+const INVITATION_TTL_MS = 7 * 24 * 60 * 60 * 1000;
+// First key of the advisory locks withQuotaLock takes, so they can't clash
+// with other locks on the same hash
+const QUOTA_LOCK_CLASS = 1;
+
 export interface IStorage {
   getUser(id: string): Promise<User | undefined>;
   getUserByUsername(username: string): Promise<User | undefined>;
   createUser(user: InsertUser): Promise<User>;
-  getContentItems(): Promise<ContentItem[]>;
-  getContentItem(id: string): Promise<ContentItem | undefined>;
-  createContentItem(item: InsertContentItem): Promise<ContentItem>;
-  updateContentItem(id: string, item: Partial<InsertContentItem>): Promise<ContentItem | undefined>;
-  deleteContentItem(id: string): Promise<boolean>;
+
+  getSubscription(id: string): Promise<Subscription | undefined>;
+  // Newest first
+  getSubscriptionsForUser(userId: string): Promise<Subscription[]>;
+  // Inserts the subscription, or updates the stored one with the same id
+  saveSubscription(subscription: InsertSubscription): Promise<Subscription>;
+  // Records a billing event and saves the subscription it changed, once per
+  // event id. False if the event was handled before.
+  processBillingEvent(event: Omit<BillingEvent, "receivedAt">, subscription?: InsertSubscription): Promise<boolean>;
+
+  getWorkspacesForUser(userId: string): Promise<WorkspaceWithRole[]>;
+  getWorkspace(id: string): Promise<Workspace | undefined>;
+  createWorkspace(ownerId: string, ownerEmail: string | null, workspace: InsertWorkspace): Promise<Workspace>;
+  getMembership(workspaceId: string, userId: string): Promise<WorkspaceMember | undefined>;
+  getMembers(workspaceId: string): Promise<WorkspaceMember[]>;
+  updateMemberRole(workspaceId: string, userId: string, role: WorkspaceRole): Promise<WorkspaceMember | undefined>;
+  removeMember(workspaceId: string, userId: string): Promise<boolean>;
+  getPendingInvitations(workspaceId: string): Promise<WorkspaceInvitation[]>;
+  createInvitation(workspaceId: string, invitedBy: string, invitation: InsertInvitation): Promise<WorkspaceInvitation>;
+  deleteInvitation(workspaceId: string, id: string): Promise<boolean>;
+  // Returns the new membership, or undefined if the token is unknown, used or expired
+  acceptInvitation(token: string, userId: string, email: string | null): Promise<WorkspaceMember | undefined>;
+
+  getDestinations(workspaceId: string): Promise<PublishDestination[]>;
+  getDestination(workspaceId: string, id: string): Promise<PublishDestination | undefined>;
+  createDestination(workspaceId: string, destination: InsertDestination): Promise<PublishDestination>;
+  updateDestination(workspaceId: string, id: string, destination: InsertDestination): Promise<PublishDestination | undefined>;
+  deleteDestination(workspaceId: string, id: string): Promise<boolean>;
+
+  getCalendarFeed(workspaceId: string, userId: string): Promise<CalendarFeed | undefined>;
+  getCalendarFeedByToken(token: string): Promise<CalendarFeed | undefined>;
+  // Creates the feed, or replaces the token of an existing one
+  rotateCalendarFeed(workspaceId: string, userId: string): Promise<CalendarFeed>;
+  deleteCalendarFeed(workspaceId: string, userId: string): Promise<boolean>;
+
+  // Filtered, sorted and optionally paginated; throws InvalidCursorError
+  queryContentItems(workspaceId: string, query?: Partial<ContentQuery>): Promise<ContentPage>;
+  getContentItem(workspaceId: string, id: string): Promise<ContentItem | undefined>;
+  createContentItem(workspaceId: string, ownerId: string, item: InsertContentItem): Promise<ContentItem>;
+  // All-or-nothing batch insert. `change` overrides the status of every item,
+  // for batches that start further along the workflow.
+  createContentItems(workspaceId: string, ownerId: string, items: InsertContentItem[], change?: ContentStatusChange): Promise<ContentItem[]>;
+  // With `fromStatus`, changes nothing unless the item is still in it;
+  // `change` then moves it along the workflow in the same write
+  updateContentItem(workspaceId: string, id: string, item: Partial<InsertContentItem>, fromStatus?: string, change?: ContentStatusChange): Promise<ContentItem | undefined>;
+  // Applies the change only if the item is still in `fromStatus`
+  updateContentStatus(workspaceId: string, id: string, fromStatus: string, change: ContentStatusChange): Promise<ContentItem | undefined>;
+  deleteContentItem(workspaceId: string, id: string): Promise<boolean>;
+  // All-or-nothing batch of new items and moved ones. Undefined, with
+  // nothing changed, if an item to move doesn't exist.
+  applyContentChanges(workspaceId: string, ownerId: string, items: InsertContentItem[], moves: ContentMove[]): Promise<ContentChangeResult | undefined>;
+  getContentPiece(workspaceId: string, id: string): Promise<ContentPieceWithVariants | undefined>;
+  // Adds another channel's version of an item, first making the item a
+  // variant of a new piece if it isn't one yet. Undefined if the item doesn't
+  // exist or its piece already has a variant on that platform.
+  addContentVariant(workspaceId: string, ownerId: string, sourceId: string, item: InsertContentItem): Promise<ContentItem | undefined>;
+  renameContentPiece(workspaceId: string, id: string, title: string): Promise<ContentPiece | undefined>;
+  // Scheduled items across all workspaces whose time (and retry backoff) has
+  // come. Series never are; the scheduler publishes their occurrences.
+  getDueContentItems(now: Date, limit: number): Promise<ContentItem[]>;
+
+  // Recurring series matching the filter's platform, status and search that
+  // start no later than its `to`
+  getContentSeries(workspaceId: string, filter: ContentFilter): Promise<ContentItem[]>;
+  // Scheduled series across all workspaces
+  getScheduledSeries(): Promise<ContentItem[]>;
+  getContentExceptions(seriesIds: string[]): Promise<ContentException[]>;
+  // Replaces one occurrence with an item of its own, recording the exception
+  detachOccurrence(workspaceId: string, ownerId: string, seriesId: string, occurrenceDate: Date, item: InsertContentItem, change?: ContentStatusChange): Promise<ContentItem>;
+  // Stops generating one occurrence; false if the series doesn't exist
+  cancelOccurrence(workspaceId: string, seriesId: string, occurrenceDate: Date): Promise<boolean>;
+  // Ends a series before `occurrenceDate` by giving it the `recurrence` passed
+  // in, and starts `next` there. Exceptions and detached occurrences from
+  // that date on move to the new series.
+  splitSeries(workspaceId: string, ownerId: string, seriesId: string, occurrenceDate: Date, recurrence: string, next: InsertContentItem, change?: ContentStatusChange): Promise<ContentItem | undefined>;
+
+  // All-or-nothing batch insert. Undefined, and nothing saved, if any entry
+  // repeats a snapshot (same item and capturedAt) already recorded or
+  // earlier in the batch.
+  addContentMetrics(workspaceId: string, source: MetricSource, metrics: NewContentMetrics[]): Promise<ContentMetrics[] | undefined>;
+  // Oldest snapshot first; the whole workspace's without an item id
+  getContentMetrics(workspaceId: string, contentItemId?: string): Promise<ContentMetrics[]>;
+
+  getMetricsKey(workspaceId: string): Promise<MetricsKey | undefined>;
+  getMetricsKeyByToken(token: string): Promise<MetricsKey | undefined>;
+  // Creates the key, or replaces the token of an existing one
+  rotateMetricsKey(workspaceId: string, userId: string): Promise<MetricsKey>;
+  deleteMetricsKey(workspaceId: string): Promise<boolean>;
+
+  // The user's threads in the workspace, most recently active first
+  getChatThreads(workspaceId: string, userId: string): Promise<ChatThread[]>;
+  getChatThread(workspaceId: string, userId: string, id: string): Promise<ChatThread | undefined>;
+  createChatThread(workspaceId: string, userId: string, title: string | null): Promise<ChatThread>;
+  renameChatThread(workspaceId: string, userId: string, id: string, title: string): Promise<ChatThread | undefined>;
+  // Its messages and their links go with it
+  deleteChatThread(workspaceId: string, userId: string, id: string): Promise<boolean>;
+  // Oldest first, each with the ids of the content linked to it
+  getChatMessages(threadId: string): Promise<ChatMessage[]>;
+  getChatMessage(threadId: string, id: string): Promise<ChatMessage | undefined>;
+  // Appends to the thread and marks it active
+  addChatMessages(threadId: string, messages: NewChatMessage[]): Promise<ChatMessage[]>;
+  // Only changes a proposal that is still in `from`, so two tabs can't
+  // both apply it
+  updateProposalStatus(threadId: string, id: string, from: ProposalStatus, to: ProposalStatus): Promise<ChatMessage | undefined>;
+  // Items already linked are skipped. The caller checks the items belong to
+  // the thread's workspace.
+  linkChatMessage(threadId: string, id: string, contentIds: string[]): Promise<ChatMessage | undefined>;
+
+  // Counts the items owned by the user across workspaces, scheduled in
+  // [from, to). `excludeId` leaves out an item that is about to change.
+  getContentUsage(ownerId: string, from: Date, to: Date, excludeId?: string): Promise<ContentUsage>;
+  getUsageCount(userId: string, metric: string, day: string): Promise<number>;
+  // Adds one unless the count has reached `limit` (null for no limit).
+  // The new count, or undefined if it was at the limit.
+  incrementUsage(userId: string, metric: string, day: string, limit: number | null): Promise<number | undefined>;
+  // Takes back one, for a counted action that failed
+  decrementUsage(userId: string, metric: string, day: string): Promise<void>;
+  // Runs `fn` holding the content quota locks of the owners. Concurrent calls
+  // for the same owner take turns, so a quota check and the writes it allowed
+  // can't interleave with another's. Use the storage passed to `fn`: on
+  // DbStorage it is the transaction holding the locks.
+  withQuotaLock<T>(ownerIds: string[], fn: (storage: IStorage) => Promise<T>): Promise<T>;
+}
+
+function generateSecretToken(): string {
+  return randomBytes(24).toString("base64url");
+}
+
+function snapshotKey(metrics: ContentMetrics): string {
+  return `${metrics.contentItemId}@${metrics.capturedAt.getTime()}`;
 }
 
 export class MemStorage implements IStorage {
   private users: Map<string, User>;
+  private subscriptions: Map<string, Subscription>;
+  private billingEvents: Map<string, BillingEvent>;
+  private workspaces: Map<string, Workspace>;
+  private members: WorkspaceMember[];
+  private invitations: Map<string, WorkspaceInvitation>;
+  private destinations: Map<string, PublishDestination>;
+  private calendarFeeds: CalendarFeed[];
   private contentItems: Map<string, ContentItem>;
+  private contentPieces: Map<string, ContentPiece>;
+  private contentExceptions: ContentException[];
+  private contentMetrics: ContentMetrics[];
+  private metricsKeys: Map<string, MetricsKey>;
+  private chatThreads: Map<string, ChatThread>;
+  private chatMessages: ChatMessage[];
+  private usageCounters: Map<string, number>;
+  // The last holder of each owner's quota lock settles this
+  private quotaLocks: Map<string, Promise<void>>;
 
   constructor() {
     this.users = new Map();
+    this.subscriptions = new Map();
+    this.billingEvents = new Map();
+    this.workspaces = new Map();
+    this.members = [];
+    this.invitations = new Map();
+    this.destinations = new Map();
+    this.calendarFeeds = [];
     this.contentItems = new Map();
+    this.contentPieces = new Map();
+    this.contentExceptions = [];
+    this.contentMetrics = [];
+    this.metricsKeys = new Map();
+    this.chatThreads = new Map();
+    this.chatMessages = [];
+    this.usageCounters = new Map();
+    this.quotaLocks = new Map();
   }
 
   async getUser(id: string): Promise<User | undefined> {
@@ -48,23 +290,260 @@ export class MemStorage implements IStorage {
     return user;
   }
 
-  async getContentItems(): Promise<ContentItem[]> {
-    return Array.from(this.contentItems.values()).sort(
-      (a, b) => new Date(a.scheduledDate).getTime() - new Date(b.scheduledDate).getTime()
+  async getSubscription(id: string): Promise<Subscription | undefined> {
+    return this.subscriptions.get(id);
+  }
+
+  async getSubscriptionsForUser(userId: string): Promise<Subscription[]> {
+    return Array.from(this.subscriptions.values())
+      .filter((subscription) => subscription.userId === userId)
+      .sort((a, b) => b.startedAt.getTime() - a.startedAt.getTime());
+  }
+
+  async saveSubscription(insertSubscription: InsertSubscription): Promise<Subscription> {
+    const now = new Date();
+    const existing = this.subscriptions.get(insertSubscription.id);
+    const subscription: Subscription = {
+      ...insertSubscription,
+      lastEventAt: insertSubscription.lastEventAt ?? existing?.lastEventAt ?? null,
+      createdAt: existing?.createdAt ?? now,
+      updatedAt: now,
+    };
+    this.subscriptions.set(subscription.id, subscription);
+    return subscription;
+  }
+
+  async processBillingEvent(event: Omit<BillingEvent, "receivedAt">, subscription?: InsertSubscription): Promise<boolean> {
+    if (this.billingEvents.has(event.id)) return false;
+    this.billingEvents.set(event.id, { ...event, receivedAt: new Date() });
+    const stored = subscription && this.subscriptions.get(subscription.id);
+    const stale = !!stored?.lastEventAt && !!subscription?.lastEventAt && subscription.lastEventAt < stored.lastEventAt;
+    if (subscription && !stale) await this.saveSubscription(subscription);
+    return true;
+  }
+
+  async getWorkspacesForUser(userId: string): Promise<WorkspaceWithRole[]> {
+    return this.members
+      .filter((member) => member.userId === userId)
+      .map((member) => ({
+        ...this.workspaces.get(member.workspaceId)!,
+        role: member.role as WorkspaceRole,
+      }))
+      .sort((a, b) => a.createdAt.getTime() - b.createdAt.getTime());
+  }
+
+  async getWorkspace(id: string): Promise<Workspace | undefined> {
+    return this.workspaces.get(id);
+  }
+
+  async createWorkspace(ownerId: string, ownerEmail: string | null, insertWorkspace: InsertWorkspace): Promise<Workspace> {
+    const now = new Date();
+    const workspace: Workspace = { ...insertWorkspace, id: randomUUID(), createdAt: now };
+    this.workspaces.set(workspace.id, workspace);
+    this.members.push({
+      workspaceId: workspace.id,
+      userId: ownerId,
+      email: ownerEmail,
+      role: "owner",
+      createdAt: now,
+    });
+    return workspace;
+  }
+
+  async getMembership(workspaceId: string, userId: string): Promise<WorkspaceMember | undefined> {
+    return this.members.find(
+      (member) => member.workspaceId === workspaceId && member.userId === userId,
+    );
+  }
+
+  async getMembers(workspaceId: string): Promise<WorkspaceMember[]> {
+    return this.members.filter((member) => member.workspaceId === workspaceId);
+  }
+
+  async updateMemberRole(workspaceId: string, userId: string, role: WorkspaceRole): Promise<WorkspaceMember | undefined> {
+    const member = await this.getMembership(workspaceId, userId);
+    if (!member) return undefined;
+    member.role = role;
+    return member;
+  }
+
+  async removeMember(workspaceId: string, userId: string): Promise<boolean> {
+    const before = this.members.length;
+    this.members = this.members.filter(
+      (member) => !(member.workspaceId === workspaceId && member.userId === userId),
+    );
+    return this.members.length < before;
+  }
+
+  async getPendingInvitations(workspaceId: string): Promise<WorkspaceInvitation[]> {
+    const now = new Date();
+    return Array.from(this.invitations.values()).filter(
+      (invitation) =>
+        invitation.workspaceId === workspaceId &&
+        !invitation.acceptedAt &&
+        invitation.expiresAt > now,
+    );
+  }
+
+  async createInvitation(workspaceId: string, invitedBy: string, insertInvitation: InsertInvitation): Promise<WorkspaceInvitation> {
+    const now = new Date();
+    const invitation: WorkspaceInvitation = {
+      id: randomUUID(),
+      workspaceId,
+      token: generateSecretToken(),
+      email: insertInvitation.email || null,
+      role: insertInvitation.role,
+      invitedBy,
+      expiresAt: new Date(now.getTime() + INVITATION_TTL_MS),
+      acceptedAt: null,
+      acceptedBy: null,
+      createdAt: now,
+    };
+    this.invitations.set(invitation.id, invitation);
+    return invitation;
+  }
+
+  async deleteInvitation(workspaceId: string, id: string): Promise<boolean> {
+    const invitation = this.invitations.get(id);
+    if (!invitation || invitation.workspaceId !== workspaceId) return false;
+    return this.invitations.delete(id);
+  }
+
+  async acceptInvitation(token: string, userId: string, email: string | null): Promise<WorkspaceMember | undefined> {
+    const invitation = Array.from(this.invitations.values()).find((i) => i.token === token);
+    if (!invitation || invitation.acceptedAt || invitation.expiresAt <= new Date()) {
+      return undefined;
+    }
+
+    invitation.acceptedAt = new Date();
+    invitation.acceptedBy = userId;
+
+    const existing = await this.getMembership(invitation.workspaceId, userId);
+    if (existing) return existing;
+
+    const member: WorkspaceMember = {
+      workspaceId: invitation.workspaceId,
+      userId,
+      email,
+      role: invitation.role,
+      createdAt: new Date(),
+    };
+    this.members.push(member);
+    return member;
+  }
+
+  async getDestinations(workspaceId: string): Promise<PublishDestination[]> {
+    return Array.from(this.destinations.values()).filter(
+      (destination) => destination.workspaceId === workspaceId,
+    );
+  }
+
+  async getDestination(workspaceId: string, id: string): Promise<PublishDestination | undefined> {
+    const destination = this.destinations.get(id);
+    return destination?.workspaceId === workspaceId ? destination : undefined;
+  }
+
+  async createDestination(workspaceId: string, insertDestination: InsertDestination): Promise<PublishDestination> {
+    const destination: PublishDestination = {
+      ...insertDestination,
+      id: randomUUID(),
+      workspaceId,
+      createdAt: new Date(),
+    };
+    this.destinations.set(destination.id, destination);
+    return destination;
+  }
+
+  async updateDestination(workspaceId: string, id: string, updateData: InsertDestination): Promise<PublishDestination | undefined> {
+    const existing = await this.getDestination(workspaceId, id);
+    if (!existing) return undefined;
+
+    const updated: PublishDestination = { ...existing, ...updateData };
+    this.destinations.set(id, updated);
+    return updated;
+  }
+
+  async deleteDestination(workspaceId: string, id: string): Promise<boolean> {
+    const existing = await this.getDestination(workspaceId, id);
+    if (!existing) return false;
+
+    this.destinations.delete(id);
+    // Mirror the ON DELETE SET NULL foreign key
+    Array.from(this.contentItems.values()).forEach((item) => {
+      if (item.destinationId === id) item.destinationId = null;
+    });
+    return true;
+  }
+
+  async getCalendarFeed(workspaceId: string, userId: string): Promise<CalendarFeed | undefined> {
+    return this.calendarFeeds.find(
+      (feed) => feed.workspaceId === workspaceId && feed.userId === userId,
+    );
+  }
+
+  async getCalendarFeedByToken(token: string): Promise<CalendarFeed | undefined> {
+    return this.calendarFeeds.find((feed) => feed.token === token);
+  }
+
+  async rotateCalendarFeed(workspaceId: string, userId: string): Promise<CalendarFeed> {
+    await this.deleteCalendarFeed(workspaceId, userId);
+    const feed: CalendarFeed = { workspaceId, userId, token: generateSecretToken(), createdAt: new Date() };
+    this.calendarFeeds.push(feed);
+    return feed;
+  }
+
+  async deleteCalendarFeed(workspaceId: string, userId: string): Promise<boolean> {
+    const before = this.calendarFeeds.length;
+    this.calendarFeeds = this.calendarFeeds.filter(
+      (feed) => !(feed.workspaceId === workspaceId && feed.userId === userId),
     );
+    return this.calendarFeeds.length < before;
   }
 
-  async getContentItem(id: string): Promise<ContentItem | undefined> {
-    return this.contentItems.get(id);
+  async queryContentItems(workspaceId: string, query: Partial<ContentQuery> = {}): Promise<ContentPage> {
+    const { field, descending } = parseSort(query.sort);
+    const direction = descending ? -1 : 1;
+    const cursor = query.cursor ? decodeCursor(query.cursor, field) : undefined;
+
+    const matches = Array.from(this.contentItems.values())
+      .filter((item) => item.workspaceId === workspaceId && matchesFilter(item, query))
+      .filter((item) => !cursor || compareItems(item, cursor, field) * direction > 0)
+      .sort((a, b) => compareItems(a, b, field) * direction);
+
+    const items = query.limit ? matches.slice(0, query.limit) : matches;
+    const hasMore = items.length < matches.length;
+    return { items, nextCursor: hasMore ? encodeCursor(items[items.length - 1], field) : null };
+  }
+
+  async getContentItem(workspaceId: string, id: string): Promise<ContentItem | undefined> {
+    const item = this.contentItems.get(id);
+    return item?.workspaceId === workspaceId ? item : undefined;
   }
 
-  async createContentItem(insertItem: InsertContentItem): Promise<ContentItem> {
+  async createContentItem(workspaceId: string, ownerId: string, insertItem: InsertContentItem): Promise<ContentItem> {
     const id = randomUUID();
     const now = new Date();
     const item: ContentItem = {
       ...insertItem,
       description: insertItem.description || null,
+      destinationId: insertItem.destinationId ?? null,
+      tags: insertItem.tags ?? [],
+      recurrence: insertItem.recurrence ?? null,
+      timeZone: insertItem.timeZone ?? null,
+      materializedUntil: null,
+      seriesId: null,
+      occurrenceDate: null,
       id,
+      workspaceId,
+      ownerId,
+      approvedBy: null,
+      approvedAt: null,
+      reviewNote: null,
+      publishAttempts: 0,
+      lastPublishError: null,
+      nextPublishAttemptAt: null,
+      publishedAt: null,
+      pieceId: null,
       createdAt: now,
       updatedAt: now,
     };
@@ -72,22 +551,1131 @@ export class MemStorage implements IStorage {
     return item;
   }
 
-  async updateContentItem(id: string, updateData: Partial<InsertContentItem>): Promise<ContentItem | undefined> {
-    const existing = this.contentItems.get(id);
-    if (!existing) return undefined;
+  async createContentItems(workspaceId: string, ownerId: string, insertItems: InsertContentItem[], change?: ContentStatusChange): Promise<ContentItem[]> {
+    const created: ContentItem[] = [];
+    for (const insertItem of insertItems) {
+      const item = await this.createContentItem(workspaceId, ownerId, insertItem);
+      if (change) Object.assign(item, change);
+      created.push(item);
+    }
+    return created;
+  }
+
+  async updateContentItem(workspaceId: string, id: string, updateData: Partial<InsertContentItem>, fromStatus?: string, change?: ContentStatusChange): Promise<ContentItem | undefined> {
+    const existing = await this.getContentItem(workspaceId, id);
+    if (!existing || (fromStatus !== undefined && existing.status !== fromStatus)) return undefined;
 
     const updated: ContentItem = {
       ...existing,
       ...updateData,
+      ...change,
+      updatedAt: new Date(),
+    };
+    this.contentItems.set(id, updated);
+    return updated;
+  }
+
+  async updateContentStatus(workspaceId: string, id: string, fromStatus: string, change: ContentStatusChange): Promise<ContentItem | undefined> {
+    const existing = await this.getContentItem(workspaceId, id);
+    if (!existing || existing.status !== fromStatus) return undefined;
+
+    const updated: ContentItem = {
+      ...existing,
+      ...change,
       updatedAt: new Date(),
     };
     this.contentItems.set(id, updated);
     return updated;
   }
 
-  async deleteContentItem(id: string): Promise<boolean> {
-    return this.contentItems.delete(id);
+  async deleteContentItem(workspaceId: string, id: string): Promise<boolean> {
+    const existing = await this.getContentItem(workspaceId, id);
+    if (!existing) return false;
+    // Same as the foreign keys: exceptions and metrics go, detached
+    // occurrences stay
+    this.contentExceptions = this.contentExceptions.filter((exception) => exception.seriesId !== id);
+    this.contentMetrics = this.contentMetrics.filter((metrics) => metrics.contentItemId !== id);
+    this.chatMessages = this.chatMessages.map((message) =>
+      message.contentIds.includes(id) ? { ...message, contentIds: message.contentIds.filter((linked) => linked !== id) } : message);
+    this.contentItems.forEach((item) => {
+      if (item.seriesId === id) this.contentItems.set(item.id, { ...item, seriesId: null });
+    });
+    this.contentItems.delete(id);
+    // A piece goes with its last variant
+    if (existing.pieceId && !Array.from(this.contentItems.values()).some((item) => item.pieceId === existing.pieceId)) {
+      this.contentPieces.delete(existing.pieceId);
+    }
+    return true;
+  }
+
+  async applyContentChanges(workspaceId: string, ownerId: string, items: InsertContentItem[], moves: ContentMove[]): Promise<ContentChangeResult | undefined> {
+    for (const move of moves) {
+      if ((await this.getContentItem(workspaceId, move.id))?.status !== move.fromStatus) return undefined;
+    }
+    const created = await this.createContentItems(workspaceId, ownerId, items);
+    const moved: ContentItem[] = [];
+    for (const move of moves) {
+      moved.push((await this.updateContentItem(workspaceId, move.id, { scheduledDate: move.scheduledDate }, undefined, move.change))!);
+    }
+    return { created, moved };
+  }
+
+  async getContentPiece(workspaceId: string, id: string): Promise<ContentPieceWithVariants | undefined> {
+    const piece = this.contentPieces.get(id);
+    if (piece?.workspaceId !== workspaceId) return undefined;
+    const variants = Array.from(this.contentItems.values())
+      .filter((item) => item.pieceId === id)
+      .sort((a, b) => contentPlatforms.indexOf(a.platform as ContentPlatform) - contentPlatforms.indexOf(b.platform as ContentPlatform));
+    return { ...piece, variants };
+  }
+
+  async addContentVariant(workspaceId: string, ownerId: string, sourceId: string, insertItem: InsertContentItem): Promise<ContentItem | undefined> {
+    const source = await this.getContentItem(workspaceId, sourceId);
+    if (!source) return undefined;
+    if (source.pieceId) {
+      const taken = Array.from(this.contentItems.values())
+        .some((item) => item.pieceId === source.pieceId && item.platform === insertItem.platform);
+      if (taken) return undefined;
+    } else if (source.platform === insertItem.platform) {
+      return undefined;
+    }
+
+    let pieceId = source.pieceId;
+    if (!pieceId) {
+      const now = new Date();
+      const piece: ContentPiece = { id: randomUUID(), workspaceId, ownerId, title: source.title, createdAt: now, updatedAt: now };
+      this.contentPieces.set(piece.id, piece);
+      this.contentItems.set(source.id, { ...source, pieceId: piece.id });
+      pieceId = piece.id;
+    }
+    const item = await this.createContentItem(workspaceId, ownerId, insertItem);
+    item.pieceId = pieceId;
+    return item;
+  }
+
+  async renameContentPiece(workspaceId: string, id: string, title: string): Promise<ContentPiece | undefined> {
+    const existing = this.contentPieces.get(id);
+    if (existing?.workspaceId !== workspaceId) return undefined;
+    const piece = { ...existing, title, updatedAt: new Date() };
+    this.contentPieces.set(id, piece);
+    return piece;
+  }
+
+  async getDueContentItems(now: Date, limit: number): Promise<ContentItem[]> {
+    return Array.from(this.contentItems.values())
+      .filter(
+        (item) =>
+          item.status === "scheduled" &&
+          !item.recurrence &&
+          item.scheduledDate <= now &&
+          (!item.nextPublishAttemptAt || item.nextPublishAttemptAt <= now),
+      )
+      .sort((a, b) => a.scheduledDate.getTime() - b.scheduledDate.getTime())
+      .slice(0, limit);
+  }
+
+  async getContentSeries(workspaceId: string, filter: ContentFilter): Promise<ContentItem[]> {
+    const { from, to, ...rest } = filter;
+    return Array.from(this.contentItems.values()).filter(
+      (item) =>
+        item.workspaceId === workspaceId &&
+        !!item.recurrence &&
+        (!to || item.scheduledDate <= to) &&
+        matchesFilter(item, rest),
+    );
+  }
+
+  async getScheduledSeries(): Promise<ContentItem[]> {
+    return Array.from(this.contentItems.values()).filter(
+      (item) => item.status === "scheduled" && !!item.recurrence,
+    );
+  }
+
+  async getContentExceptions(seriesIds: string[]): Promise<ContentException[]> {
+    return this.contentExceptions.filter((exception) => seriesIds.includes(exception.seriesId));
+  }
+
+  async detachOccurrence(workspaceId: string, ownerId: string, seriesId: string, occurrenceDate: Date, insertItem: InsertContentItem, change?: ContentStatusChange): Promise<ContentItem> {
+    if (this.hasException(seriesId, occurrenceDate)) {
+      throw new Error("Occurrence was already detached");
+    }
+    const item = await this.createContentItem(workspaceId, ownerId, insertItem);
+    Object.assign(item, change, { seriesId, occurrenceDate });
+    this.contentExceptions.push({ seriesId, occurrenceDate, createdAt: new Date() });
+    return item;
+  }
+
+  async cancelOccurrence(workspaceId: string, seriesId: string, occurrenceDate: Date): Promise<boolean> {
+    if (!await this.getContentItem(workspaceId, seriesId)) return false;
+    if (!this.hasException(seriesId, occurrenceDate)) {
+      this.contentExceptions.push({ seriesId, occurrenceDate, createdAt: new Date() });
+    }
+    return true;
+  }
+
+  async splitSeries(workspaceId: string, ownerId: string, seriesId: string, occurrenceDate: Date, recurrence: string, next: InsertContentItem, change?: ContentStatusChange): Promise<ContentItem | undefined> {
+    if (!await this.updateContentItem(workspaceId, seriesId, { recurrence })) return undefined;
+
+    const created = await this.createContentItem(workspaceId, ownerId, next);
+    Object.assign(created, change);
+    this.contentExceptions = this.contentExceptions.map((exception) =>
+      exception.seriesId === seriesId && exception.occurrenceDate >= occurrenceDate
+        ? { ...exception, seriesId: created.id }
+        : exception,
+    );
+    this.contentItems.forEach((item) => {
+      if (item.seriesId === seriesId && item.occurrenceDate && item.occurrenceDate >= occurrenceDate) {
+        this.contentItems.set(item.id, { ...item, seriesId: created.id });
+      }
+    });
+    return created;
+  }
+
+  async addContentMetrics(workspaceId: string, source: MetricSource, metrics: NewContentMetrics[]): Promise<ContentMetrics[] | undefined> {
+    const now = new Date();
+    const created = metrics.map((entry): ContentMetrics => ({
+      ...entry,
+      id: randomUUID(),
+      workspaceId,
+      capturedAt: entry.capturedAt ?? now,
+      source,
+      createdAt: now,
+    }));
+    const snapshots = new Set(this.contentMetrics.map(snapshotKey));
+    for (const entry of created) {
+      if (snapshots.has(snapshotKey(entry))) return undefined;
+      snapshots.add(snapshotKey(entry));
+    }
+    this.contentMetrics.push(...created);
+    return created;
+  }
+
+  async getContentMetrics(workspaceId: string, contentItemId?: string): Promise<ContentMetrics[]> {
+    return this.contentMetrics
+      .filter((metrics) => metrics.workspaceId === workspaceId && (!contentItemId || metrics.contentItemId === contentItemId))
+      .sort((a, b) => a.capturedAt.getTime() - b.capturedAt.getTime());
+  }
+
+  async getMetricsKey(workspaceId: string): Promise<MetricsKey | undefined> {
+    return this.metricsKeys.get(workspaceId);
+  }
+
+  async getMetricsKeyByToken(token: string): Promise<MetricsKey | undefined> {
+    return Array.from(this.metricsKeys.values()).find((key) => key.token === token);
+  }
+
+  async rotateMetricsKey(workspaceId: string, userId: string): Promise<MetricsKey> {
+    const key: MetricsKey = { workspaceId, token: generateSecretToken(), createdBy: userId, createdAt: new Date() };
+    this.metricsKeys.set(workspaceId, key);
+    return key;
+  }
+
+  async deleteMetricsKey(workspaceId: string): Promise<boolean> {
+    return this.metricsKeys.delete(workspaceId);
+  }
+
+  async getChatThreads(workspaceId: string, userId: string): Promise<ChatThread[]> {
+    return Array.from(this.chatThreads.values())
+      .filter((thread) => thread.workspaceId === workspaceId && thread.userId === userId)
+      .sort((a, b) => b.updatedAt.getTime() - a.updatedAt.getTime());
+  }
+
+  async getChatThread(workspaceId: string, userId: string, id: string): Promise<ChatThread | undefined> {
+    const thread = this.chatThreads.get(id);
+    return thread?.workspaceId === workspaceId && thread.userId === userId ? thread : undefined;
+  }
+
+  async createChatThread(workspaceId: string, userId: string, title: string | null): Promise<ChatThread> {
+    const now = new Date();
+    const thread: ChatThread = { id: randomUUID(), workspaceId, userId, title, createdAt: now, updatedAt: now };
+    this.chatThreads.set(thread.id, thread);
+    return thread;
+  }
+
+  async renameChatThread(workspaceId: string, userId: string, id: string, title: string): Promise<ChatThread | undefined> {
+    const existing = await this.getChatThread(workspaceId, userId, id);
+    if (!existing) return undefined;
+    const thread = { ...existing, title, updatedAt: new Date() };
+    this.chatThreads.set(id, thread);
+    return thread;
+  }
+
+  async deleteChatThread(workspaceId: string, userId: string, id: string): Promise<boolean> {
+    if (!await this.getChatThread(workspaceId, userId, id)) return false;
+    this.chatMessages = this.chatMessages.filter((message) => message.threadId !== id);
+    return this.chatThreads.delete(id);
+  }
+
+  async getChatMessages(threadId: string): Promise<ChatMessage[]> {
+    return this.chatMessages.filter((message) => message.threadId === threadId);
+  }
+
+  async getChatMessage(threadId: string, id: string): Promise<ChatMessage | undefined> {
+    return this.chatMessages.find((message) => message.threadId === threadId && message.id === id);
+  }
+
+  async addChatMessages(threadId: string, messages: NewChatMessage[]): Promise<ChatMessage[]> {
+    const now = new Date();
+    const created = messages.map((message): ChatMessage => ({
+      id: randomUUID(),
+      threadId,
+      role: message.role,
+      content: message.content,
+      proposal: message.proposal ?? null,
+      proposalStatus: message.proposalStatus ?? null,
+      contentIds: [],
+      createdAt: now,
+    }));
+    this.chatMessages.push(...created);
+    const thread = this.chatThreads.get(threadId);
+    if (thread) this.chatThreads.set(threadId, { ...thread, updatedAt: now });
+    return created;
+  }
+
+  async updateProposalStatus(threadId: string, id: string, from: ProposalStatus, to: ProposalStatus): Promise<ChatMessage | undefined> {
+    return this.updateChatMessage(threadId, id, (message) =>
+      message.proposalStatus === from ? { ...message, proposalStatus: to } : undefined);
+  }
+
+  async linkChatMessage(threadId: string, id: string, contentIds: string[]): Promise<ChatMessage | undefined> {
+    return this.updateChatMessage(threadId, id, (message) => ({
+      ...message,
+      contentIds: Array.from(new Set([...message.contentIds, ...contentIds])),
+    }));
+  }
+
+  private updateChatMessage(threadId: string, id: string, update: (message: ChatMessage) => ChatMessage | undefined): ChatMessage | undefined {
+    const index = this.chatMessages.findIndex((message) => message.threadId === threadId && message.id === id);
+    const updated = index === -1 ? undefined : update(this.chatMessages[index]);
+    if (updated) this.chatMessages[index] = updated;
+    return updated;
+  }
+
+  async getContentUsage(ownerId: string, from: Date, to: Date, excludeId?: string): Promise<ContentUsage> {
+    const owned = Array.from(this.contentItems.values()).filter((item) => item.ownerId === ownerId && item.id !== excludeId);
+    return {
+      scheduled: owned.filter((item) => !item.recurrence && item.scheduledDate >= from && item.scheduledDate < to).length,
+      series: owned.filter((item) => !!item.recurrence && item.scheduledDate < to),
+      platforms: Array.from(new Set(owned.map((item) => item.platform))),
+    };
+  }
+
+  async getUsageCount(userId: string, metric: string, day: string): Promise<number> {
+    return this.usageCounters.get(`${userId}/${metric}/${day}`) ?? 0;
+  }
+
+  async incrementUsage(userId: string, metric: string, day: string, limit: number | null): Promise<number | undefined> {
+    const key = `${userId}/${metric}/${day}`;
+    const count = this.usageCounters.get(key) ?? 0;
+    if (limit !== null && count >= limit) return undefined;
+    this.usageCounters.set(key, count + 1);
+    return count + 1;
+  }
+
+  async decrementUsage(userId: string, metric: string, day: string): Promise<void> {
+    const key = `${userId}/${metric}/${day}`;
+    const count = this.usageCounters.get(key) ?? 0;
+    if (count > 0) this.usageCounters.set(key, count - 1);
+  }
+
+  async withQuotaLock<T>(ownerIds: string[], fn: (storage: IStorage) => Promise<T>): Promise<T> {
+    // Always taken in the same order, so two calls can't wait on each other
+    const releases: (() => void)[] = [];
+    for (const ownerId of Array.from(new Set(ownerIds)).sort()) {
+      releases.push(await this.acquireQuotaLock(ownerId));
+    }
+    try {
+      return await fn(this);
+    } finally {
+      releases.forEach((release) => release());
+    }
+  }
+
+  private async acquireQuotaLock(ownerId: string): Promise<() => void> {
+    const previous = this.quotaLocks.get(ownerId) ?? Promise.resolve();
+    let release!: () => void;
+    const held = new Promise<void>((resolve) => (release = resolve));
+    this.quotaLocks.set(ownerId, held);
+    await previous;
+    return () => {
+      if (this.quotaLocks.get(ownerId) === held) this.quotaLocks.delete(ownerId);
+      release();
+    };
+  }
+
+  private hasException(seriesId: string, occurrenceDate: Date): boolean {
+    return this.contentExceptions.some(
+      (exception) => exception.seriesId === seriesId && exception.occurrenceDate.getTime() === occurrenceDate.getTime(),
+    );
+  }
+}
+
+// SQL equivalent of matchesFilter
+function filterConditions(filter: ContentFilter): (SQL | undefined)[] {
+  const conditions: (SQL | undefined)[] = [];
+  if (filter.from) conditions.push(gte(contentItems.scheduledDate, filter.from));
+  if (filter.to) conditions.push(lte(contentItems.scheduledDate, filter.to));
+  if (filter.platform) conditions.push(inArray(contentItems.platform, filter.platform));
+  if (filter.status) conditions.push(inArray(contentItems.status, filter.status));
+  if (filter.q) {
+    const pattern = `%${filter.q.replace(/[\\%_]/g, "\\$&")}%`;
+    conditions.push(or(
+      ilike(contentItems.title, pattern),
+      ilike(contentItems.description, pattern),
+      sql`array_to_string(${contentItems.tags}, ' ') ilike ${pattern}`,
+    ));
+  }
+  return conditions;
+}
+
+export class DbStorage implements IStorage {
+  constructor(private db: Database) {}
+
+  async getUser(id: string): Promise<User | undefined> {
+    const [user] = await this.db.select().from(users).where(eq(users.id, id));
+    return user;
+  }
+
+  async getUserByUsername(username: string): Promise<User | undefined> {
+    const [user] = await this.db.select().from(users).where(eq(users.username, username));
+    return user;
+  }
+
+  async createUser(insertUser: InsertUser): Promise<User> {
+    const [user] = await this.db.insert(users).values(insertUser).returning();
+    return user;
+  }
+
+  async getSubscription(id: string): Promise<Subscription | undefined> {
+    const [subscription] = await this.db.select().from(subscriptions).where(eq(subscriptions.id, id));
+    return subscription;
+  }
+
+  async getSubscriptionsForUser(userId: string): Promise<Subscription[]> {
+    return this.db
+      .select()
+      .from(subscriptions)
+      .where(eq(subscriptions.userId, userId))
+      .orderBy(desc(subscriptions.startedAt));
+  }
+
+  async saveSubscription(insertSubscription: InsertSubscription): Promise<Subscription> {
+    const { id, ...changes } = insertSubscription;
+    const [subscription] = await this.db
+      .insert(subscriptions)
+      .values(insertSubscription)
+      .onConflictDoUpdate({
+        target: subscriptions.id,
+        set: { ...changes, updatedAt: new Date() },
+      })
+      .returning();
+    return subscription;
+  }
+
+  async processBillingEvent(event: Omit<BillingEvent, "receivedAt">, subscription?: InsertSubscription): Promise<boolean> {
+    return this.db.transaction(async (tx) => {
+      const [recorded] = await tx.insert(billingEvents).values(event).onConflictDoNothing().returning();
+      if (!recorded) return false;
+      if (subscription) {
+        const { id, ...changes } = subscription;
+        await tx
+          .insert(subscriptions)
+          .values(subscription)
+          .onConflictDoUpdate({
+            target: subscriptions.id,
+            set: { ...changes, updatedAt: new Date() },
+            // A newer event may have been applied since the caller looked
+            setWhere: or(
+              isNull(subscriptions.lastEventAt),
+              sql`excluded.last_event_at is null`,
+              lte(subscriptions.lastEventAt, sql`excluded.last_event_at`),
+            ),
+          });
+      }
+      return true;
+    });
+  }
+
+  async getWorkspacesForUser(userId: string): Promise<WorkspaceWithRole[]> {
+    const rows = await this.db
+      .select({ workspace: workspaces, role: workspaceMembers.role })
+      .from(workspaceMembers)
+      .innerJoin(workspaces, eq(workspaceMembers.workspaceId, workspaces.id))
+      .where(eq(workspaceMembers.userId, userId))
+      .orderBy(asc(workspaces.createdAt));
+    return rows.map(({ workspace, role }) => ({ ...workspace, role: role as WorkspaceRole }));
+  }
+
+  async getWorkspace(id: string): Promise<Workspace | undefined> {
+    const [workspace] = await this.db.select().from(workspaces).where(eq(workspaces.id, id));
+    return workspace;
+  }
+
+  async createWorkspace(ownerId: string, ownerEmail: string | null, insertWorkspace: InsertWorkspace): Promise<Workspace> {
+    return this.db.transaction(async (tx) => {
+      const [workspace] = await tx.insert(workspaces).values(insertWorkspace).returning();
+      await tx.insert(workspaceMembers).values({
+        workspaceId: workspace.id,
+        userId: ownerId,
+        email: ownerEmail,
+        role: "owner",
+      });
+      return workspace;
+    });
+  }
+
+  async getMembership(workspaceId: string, userId: string): Promise<WorkspaceMember | undefined> {
+    const [member] = await this.db
+      .select()
+      .from(workspaceMembers)
+      .where(and(eq(workspaceMembers.workspaceId, workspaceId), eq(workspaceMembers.userId, userId)));
+    return member;
+  }
+
+  async getMembers(workspaceId: string): Promise<WorkspaceMember[]> {
+    return this.db
+      .select()
+      .from(workspaceMembers)
+      .where(eq(workspaceMembers.workspaceId, workspaceId))
+      .orderBy(asc(workspaceMembers.createdAt));
+  }
+
+  async updateMemberRole(workspaceId: string, userId: string, role: WorkspaceRole): Promise<WorkspaceMember | undefined> {
+    const [member] = await this.db
+      .update(workspaceMembers)
+      .set({ role })
+      .where(and(eq(workspaceMembers.workspaceId, workspaceId), eq(workspaceMembers.userId, userId)))
+      .returning();
+    return member;
+  }
+
+  async removeMember(workspaceId: string, userId: string): Promise<boolean> {
+    const deleted = await this.db
+      .delete(workspaceMembers)
+      .where(and(eq(workspaceMembers.workspaceId, workspaceId), eq(workspaceMembers.userId, userId)))
+      .returning({ userId: workspaceMembers.userId });
+    return deleted.length > 0;
+  }
+
+  async getPendingInvitations(workspaceId: string): Promise<WorkspaceInvitation[]> {
+    return this.db
+      .select()
+      .from(workspaceInvitations)
+      .where(and(
+        eq(workspaceInvitations.workspaceId, workspaceId),
+        isNull(workspaceInvitations.acceptedAt),
+        gt(workspaceInvitations.expiresAt, new Date()),
+      ))
+      .orderBy(asc(workspaceInvitations.createdAt));
+  }
+
+  async createInvitation(workspaceId: string, invitedBy: string, insertInvitation: InsertInvitation): Promise<WorkspaceInvitation> {
+    const [invitation] = await this.db
+      .insert(workspaceInvitations)
+      .values({
+        workspaceId,
+        invitedBy,
+        token: generateSecretToken(),
+        email: insertInvitation.email || null,
+        role: insertInvitation.role,
+        expiresAt: new Date(Date.now() + INVITATION_TTL_MS),
+      })
+      .returning();
+    return invitation;
+  }
+
+  async deleteInvitation(workspaceId: string, id: string): Promise<boolean> {
+    const deleted = await this.db
+      .delete(workspaceInvitations)
+      .where(and(eq(workspaceInvitations.id, id), eq(workspaceInvitations.workspaceId, workspaceId)))
+      .returning({ id: workspaceInvitations.id });
+    return deleted.length > 0;
+  }
+
+  async acceptInvitation(token: string, userId: string, email: string | null): Promise<WorkspaceMember | undefined> {
+    return this.db.transaction(async (tx) => {
+      // Claiming the row in the UPDATE makes a token single-use even under races
+      const [invitation] = await tx
+        .update(workspaceInvitations)
+        .set({ acceptedAt: new Date(), acceptedBy: userId })
+        .where(and(
+          eq(workspaceInvitations.token, token),
+          isNull(workspaceInvitations.acceptedAt),
+          gt(workspaceInvitations.expiresAt, new Date()),
+        ))
+        .returning();
+      if (!invitation) return undefined;
+
+      await tx
+        .insert(workspaceMembers)
+        .values({ workspaceId: invitation.workspaceId, userId, email, role: invitation.role })
+        .onConflictDoNothing();
+
+      const [member] = await tx
+        .select()
+        .from(workspaceMembers)
+        .where(and(eq(workspaceMembers.workspaceId, invitation.workspaceId), eq(workspaceMembers.userId, userId)));
+      return member;
+    });
+  }
+
+  async getDestinations(workspaceId: string): Promise<PublishDestination[]> {
+    return this.db
+      .select()
+      .from(publishDestinations)
+      .where(eq(publishDestinations.workspaceId, workspaceId))
+      .orderBy(asc(publishDestinations.createdAt));
+  }
+
+  async getDestination(workspaceId: string, id: string): Promise<PublishDestination | undefined> {
+    const [destination] = await this.db
+      .select()
+      .from(publishDestinations)
+      .where(and(eq(publishDestinations.id, id), eq(publishDestinations.workspaceId, workspaceId)));
+    return destination;
+  }
+
+  async createDestination(workspaceId: string, insertDestination: InsertDestination): Promise<PublishDestination> {
+    const [destination] = await this.db
+      .insert(publishDestinations)
+      .values({ ...insertDestination, workspaceId })
+      .returning();
+    return destination;
+  }
+
+  async updateDestination(workspaceId: string, id: string, updateData: InsertDestination): Promise<PublishDestination | undefined> {
+    const [destination] = await this.db
+      .update(publishDestinations)
+      .set(updateData)
+      .where(and(eq(publishDestinations.id, id), eq(publishDestinations.workspaceId, workspaceId)))
+      .returning();
+    return destination;
+  }
+
+  async deleteDestination(workspaceId: string, id: string): Promise<boolean> {
+    const deleted = await this.db
+      .delete(publishDestinations)
+      .where(and(eq(publishDestinations.id, id), eq(publishDestinations.workspaceId, workspaceId)))
+      .returning({ id: publishDestinations.id });
+    return deleted.length > 0;
+  }
+
+  async getCalendarFeed(workspaceId: string, userId: string): Promise<CalendarFeed | undefined> {
+    const [feed] = await this.db
+      .select()
+      .from(calendarFeeds)
+      .where(and(eq(calendarFeeds.workspaceId, workspaceId), eq(calendarFeeds.userId, userId)));
+    return feed;
+  }
+
+  async getCalendarFeedByToken(token: string): Promise<CalendarFeed | undefined> {
+    const [feed] = await this.db.select().from(calendarFeeds).where(eq(calendarFeeds.token, token));
+    return feed;
+  }
+
+  async rotateCalendarFeed(workspaceId: string, userId: string): Promise<CalendarFeed> {
+    const token = generateSecretToken();
+    const [feed] = await this.db
+      .insert(calendarFeeds)
+      .values({ workspaceId, userId, token })
+      .onConflictDoUpdate({
+        target: [calendarFeeds.workspaceId, calendarFeeds.userId],
+        set: { token, createdAt: new Date() },
+      })
+      .returning();
+    return feed;
+  }
+
+  async deleteCalendarFeed(workspaceId: string, userId: string): Promise<boolean> {
+    const deleted = await this.db
+      .delete(calendarFeeds)
+      .where(and(eq(calendarFeeds.workspaceId, workspaceId), eq(calendarFeeds.userId, userId)))
+      .returning({ token: calendarFeeds.token });
+    return deleted.length > 0;
+  }
+
+  async queryContentItems(workspaceId: string, query: Partial<ContentQuery> = {}): Promise<ContentPage> {
+    const { field, descending } = parseSort(query.sort);
+    // Dates are stored to the millisecond, so they compare exactly with the
+    // cursor's, and the order can come from an index
+    const key = contentItems[field];
+    const conditions = [eq(contentItems.workspaceId, workspaceId), ...filterConditions(query)];
+    if (query.cursor) {
+      const cursor = decodeCursor(query.cursor, field);
+      const after = descending ? lt : gt;
+      conditions.push(or(after(key, cursor.value), and(eq(key, cursor.value), after(contentItems.id, cursor.id))));
+    }
+
+    const order = descending ? desc : asc;
+    const base = this.db
+      .select()
+      .from(contentItems)
+      .where(and(...conditions))
+      .orderBy(order(key), order(contentItems.id));
+    // Fetch one extra row to learn whether there is another page
+    const rows = query.limit ? await base.limit(query.limit + 1) : await base;
+
+    const items = query.limit ? rows.slice(0, query.limit) : rows;
+    const hasMore = items.length < rows.length;
+    return { items, nextCursor: hasMore ? encodeCursor(items[items.length - 1], field) : null };
+  }
+
+  async getContentItem(workspaceId: string, id: string): Promise<ContentItem | undefined> {
+    const [item] = await this.db
+      .select()
+      .from(contentItems)
+      .where(and(eq(contentItems.id, id), eq(contentItems.workspaceId, workspaceId)));
+    return item;
+  }
+
+  async createContentItem(workspaceId: string, ownerId: string, insertItem: InsertContentItem): Promise<ContentItem> {
+    const [item] = await this.db
+      .insert(contentItems)
+      .values({ ...insertItem, workspaceId, ownerId })
+      .returning();
+    return item;
+  }
+
+  async createContentItems(workspaceId: string, ownerId: string, insertItems: InsertContentItem[], change?: ContentStatusChange): Promise<ContentItem[]> {
+    if (insertItems.length === 0) return [];
+    // A single multi-row INSERT is atomic on its own
+    return this.db
+      .insert(contentItems)
+      .values(insertItems.map((item) => ({ ...item, ...change, workspaceId, ownerId })))
+      .returning();
+  }
+
+  async updateContentItem(workspaceId: string, id: string, updateData: Partial<InsertContentItem>, fromStatus?: string, change?: ContentStatusChange): Promise<ContentItem | undefined> {
+    // One statement, so the edit is never saved without the status change
+    const [item] = await this.db
+      .update(contentItems)
+      .set({ ...updateData, ...change, updatedAt: new Date() })
+      .where(and(
+        eq(contentItems.id, id),
+        eq(contentItems.workspaceId, workspaceId),
+        fromStatus !== undefined ? eq(contentItems.status, fromStatus) : undefined,
+      ))
+      .returning();
+    return item;
+  }
+
+  async updateContentStatus(workspaceId: string, id: string, fromStatus: string, change: ContentStatusChange): Promise<ContentItem | undefined> {
+    const [item] = await this.db
+      .update(contentItems)
+      .set({ ...change, updatedAt: new Date() })
+      .where(and(
+        eq(contentItems.id, id),
+        eq(contentItems.workspaceId, workspaceId),
+        eq(contentItems.status, fromStatus),
+      ))
+      .returning();
+    return item;
+  }
+
+  async deleteContentItem(workspaceId: string, id: string): Promise<boolean> {
+    return this.db.transaction(async (tx) => {
+      const [deleted] = await tx
+        .delete(contentItems)
+        .where(and(eq(contentItems.id, id), eq(contentItems.workspaceId, workspaceId)))
+        .returning({ pieceId: contentItems.pieceId });
+      if (!deleted) return false;
+      // A piece goes with its last variant
+      if (deleted.pieceId) {
+        await tx
+          .delete(contentPieces)
+          .where(and(
+            eq(contentPieces.id, deleted.pieceId),
+            notExists(tx.select({ id: contentItems.id }).from(contentItems).where(eq(contentItems.pieceId, deleted.pieceId))),
+          ));
+      }
+      return true;
+    });
+  }
+
+  async applyContentChanges(workspaceId: string, ownerId: string, items: InsertContentItem[], moves: ContentMove[]): Promise<ContentChangeResult | undefined> {
+    return this.db.transaction(async (tx) => {
+      const ids = Array.from(new Set(moves.map((move) => move.id)));
+      if (ids.length > 0) {
+        const existing = await tx
+          .select({ id: contentItems.id, status: contentItems.status })
+          .from(contentItems)
+          .where(and(eq(contentItems.workspaceId, workspaceId), inArray(contentItems.id, ids)))
+          .for("update");
+        if (existing.length !== ids.length) return undefined;
+        const statuses = new Map(existing.map((item) => [item.id, item.status]));
+        if (moves.some((move) => statuses.get(move.id) !== move.fromStatus)) return undefined;
+      }
+
+      const created = items.length > 0
+        ? await tx.insert(contentItems).values(items.map((item) => ({ ...item, workspaceId, ownerId }))).returning()
+        : [];
+      const moved: ContentItem[] = [];
+      for (const move of moves) {
+        const [item] = await tx
+          .update(contentItems)
+          .set({ scheduledDate: move.scheduledDate, ...move.change, updatedAt: new Date() })
+          .where(and(eq(contentItems.id, move.id), eq(contentItems.workspaceId, workspaceId)))
+          .returning();
+        moved.push(item);
+      }
+      return { created, moved };
+    });
+  }
+
+  async getContentPiece(workspaceId: string, id: string): Promise<ContentPieceWithVariants | undefined> {
+    const [piece] = await this.db
+      .select()
+      .from(contentPieces)
+      .where(and(eq(contentPieces.id, id), eq(contentPieces.workspaceId, workspaceId)));
+    if (!piece) return undefined;
+    const variants = await this.db.select().from(contentItems).where(eq(contentItems.pieceId, id));
+    variants.sort((a, b) => contentPlatforms.indexOf(a.platform as ContentPlatform) - contentPlatforms.indexOf(b.platform as ContentPlatform));
+    return { ...piece, variants };
+  }
+
+  async addContentVariant(workspaceId: string, ownerId: string, sourceId: string, insertItem: InsertContentItem): Promise<ContentItem | undefined> {
+    return this.db.transaction(async (tx) => {
+      // Locked so two first variants can't make two pieces
+      const [source] = await tx
+        .select()
+        .from(contentItems)
+        .where(and(eq(contentItems.id, sourceId), eq(contentItems.workspaceId, workspaceId)))
+        .for("update");
+      if (!source || (!source.pieceId && source.platform === insertItem.platform)) return undefined;
+
+      let pieceId = source.pieceId;
+      if (!pieceId) {
+        const [piece] = await tx
+          .insert(contentPieces)
+          .values({ workspaceId, ownerId, title: source.title })
+          .returning();
+        await tx.update(contentItems).set({ pieceId: piece.id }).where(eq(contentItems.id, source.id));
+        pieceId = piece.id;
+      }
+      // The unique index turns away a second variant on the same platform
+      const [item] = await tx
+        .insert(contentItems)
+        .values({ ...insertItem, workspaceId, ownerId, pieceId })
+        .onConflictDoNothing()
+        .returning();
+      return item;
+    });
+  }
+
+  async renameContentPiece(workspaceId: string, id: string, title: string): Promise<ContentPiece | undefined> {
+    const [piece] = await this.db
+      .update(contentPieces)
+      .set({ title, updatedAt: new Date() })
+      .where(and(eq(contentPieces.id, id), eq(contentPieces.workspaceId, workspaceId)))
+      .returning();
+    return piece;
+  }
+
+  async getDueContentItems(now: Date, limit: number): Promise<ContentItem[]> {
+    return this.db
+      .select()
+      .from(contentItems)
+      .where(and(
+        eq(contentItems.status, "scheduled"),
+        isNull(contentItems.recurrence),
+        lte(contentItems.scheduledDate, now),
+        or(isNull(contentItems.nextPublishAttemptAt), lte(contentItems.nextPublishAttemptAt, now)),
+      ))
+      .orderBy(asc(contentItems.scheduledDate))
+      .limit(limit);
+  }
+
+  async getContentSeries(workspaceId: string, filter: ContentFilter): Promise<ContentItem[]> {
+    const { from, to, ...rest } = filter;
+    return this.db
+      .select()
+      .from(contentItems)
+      .where(and(
+        eq(contentItems.workspaceId, workspaceId),
+        isNotNull(contentItems.recurrence),
+        to ? lte(contentItems.scheduledDate, to) : undefined,
+        ...filterConditions(rest),
+      ));
+  }
+
+  async getScheduledSeries(): Promise<ContentItem[]> {
+    return this.db
+      .select()
+      .from(contentItems)
+      .where(and(eq(contentItems.status, "scheduled"), isNotNull(contentItems.recurrence)));
+  }
+
+  async getContentExceptions(seriesIds: string[]): Promise<ContentException[]> {
+    if (seriesIds.length === 0) return [];
+    return this.db.select().from(contentExceptions).where(inArray(contentExceptions.seriesId, seriesIds));
+  }
+
+  async detachOccurrence(workspaceId: string, ownerId: string, seriesId: string, occurrenceDate: Date, insertItem: InsertContentItem, change?: ContentStatusChange): Promise<ContentItem> {
+    return this.db.transaction(async (tx) => {
+      // The primary key makes detaching the same occurrence twice fail
+      await tx.insert(contentExceptions).values({ seriesId, occurrenceDate });
+      const [item] = await tx
+        .insert(contentItems)
+        .values({ ...insertItem, ...change, workspaceId, ownerId, seriesId, occurrenceDate })
+        .returning();
+      return item;
+    });
+  }
+
+  async cancelOccurrence(workspaceId: string, seriesId: string, occurrenceDate: Date): Promise<boolean> {
+    if (!await this.getContentItem(workspaceId, seriesId)) return false;
+    await this.db.insert(contentExceptions).values({ seriesId, occurrenceDate }).onConflictDoNothing();
+    return true;
+  }
+
+  async splitSeries(workspaceId: string, ownerId: string, seriesId: string, occurrenceDate: Date, recurrence: string, next: InsertContentItem, change?: ContentStatusChange): Promise<ContentItem | undefined> {
+    return this.db.transaction(async (tx) => {
+      const [series] = await tx
+        .update(contentItems)
+        .set({ recurrence, updatedAt: new Date() })
+        .where(and(eq(contentItems.id, seriesId), eq(contentItems.workspaceId, workspaceId)))
+        .returning();
+      if (!series) return undefined;
+
+      const [created] = await tx
+        .insert(contentItems)
+        .values({ ...next, ...change, workspaceId, ownerId })
+        .returning();
+      await tx
+        .update(contentExceptions)
+        .set({ seriesId: created.id })
+        .where(and(eq(contentExceptions.seriesId, seriesId), gte(contentExceptions.occurrenceDate, occurrenceDate)));
+      await tx
+        .update(contentItems)
+        .set({ seriesId: created.id })
+        .where(and(eq(contentItems.seriesId, seriesId), gte(contentItems.occurrenceDate, occurrenceDate)));
+      return created;
+    });
+  }
+
+  async addContentMetrics(workspaceId: string, source: MetricSource, metrics: NewContentMetrics[]): Promise<ContentMetrics[] | undefined> {
+    if (metrics.length === 0) return [];
+    try {
+      return await this.db.transaction(async (tx) => {
+        // The unique index skips repeated snapshots; any skip undoes the batch
+        const created = await tx
+          .insert(contentMetrics)
+          .values(metrics.map((entry) => ({ ...entry, workspaceId, source })))
+          .onConflictDoNothing()
+          .returning();
+        if (created.length < metrics.length) tx.rollback();
+        return created;
+      });
+    } catch (error) {
+      if (error instanceof TransactionRollbackError) return undefined;
+      throw error;
+    }
+  }
+
+  async getContentMetrics(workspaceId: string, contentItemId?: string): Promise<ContentMetrics[]> {
+    return this.db
+      .select()
+      .from(contentMetrics)
+      .where(and(
+        eq(contentMetrics.workspaceId, workspaceId),
+        contentItemId ? eq(contentMetrics.contentItemId, contentItemId) : undefined,
+      ))
+      .orderBy(asc(contentMetrics.capturedAt));
+  }
+
+  async getMetricsKey(workspaceId: string): Promise<MetricsKey | undefined> {
+    const [key] = await this.db.select().from(metricsKeys).where(eq(metricsKeys.workspaceId, workspaceId));
+    return key;
+  }
+
+  async getMetricsKeyByToken(token: string): Promise<MetricsKey | undefined> {
+    const [key] = await this.db.select().from(metricsKeys).where(eq(metricsKeys.token, token));
+    return key;
+  }
+
+  async rotateMetricsKey(workspaceId: string, userId: string): Promise<MetricsKey> {
+    const token = generateSecretToken();
+    const [key] = await this.db
+      .insert(metricsKeys)
+      .values({ workspaceId, token, createdBy: userId })
+      .onConflictDoUpdate({
+        target: metricsKeys.workspaceId,
+        set: { token, createdBy: userId, createdAt: new Date() },
+      })
+      .returning();
+    return key;
+  }
+
+  async deleteMetricsKey(workspaceId: string): Promise<boolean> {
+    const deleted = await this.db
+      .delete(metricsKeys)
+      .where(eq(metricsKeys.workspaceId, workspaceId))
+      .returning({ token: metricsKeys.token });
+    return deleted.length > 0;
+  }
+
+  private threadOf(workspaceId: string, userId: string, id: string): SQL {
+    return and(eq(chatThreads.id, id), eq(chatThreads.workspaceId, workspaceId), eq(chatThreads.userId, userId))!;
+  }
+
+  async getChatThreads(workspaceId: string, userId: string): Promise<ChatThread[]> {
+    return this.db
+      .select()
+      .from(chatThreads)
+      .where(and(eq(chatThreads.workspaceId, workspaceId), eq(chatThreads.userId, userId)))
+      .orderBy(desc(chatThreads.updatedAt));
+  }
+
+  async getChatThread(workspaceId: string, userId: string, id: string): Promise<ChatThread | undefined> {
+    const [thread] = await this.db.select().from(chatThreads).where(this.threadOf(workspaceId, userId, id));
+    return thread;
+  }
+
+  async createChatThread(workspaceId: string, userId: string, title: string | null): Promise<ChatThread> {
+    const [thread] = await this.db.insert(chatThreads).values({ workspaceId, userId, title }).returning();
+    return thread;
+  }
+
+  async renameChatThread(workspaceId: string, userId: string, id: string, title: string): Promise<ChatThread | undefined> {
+    const [thread] = await this.db
+      .update(chatThreads)
+      .set({ title, updatedAt: new Date() })
+      .where(this.threadOf(workspaceId, userId, id))
+      .returning();
+    return thread;
+  }
+
+  async deleteChatThread(workspaceId: string, userId: string, id: string): Promise<boolean> {
+    const deleted = await this.db
+      .delete(chatThreads)
+      .where(this.threadOf(workspaceId, userId, id))
+      .returning({ id: chatThreads.id });
+    return deleted.length > 0;
+  }
+
+  // Adds each message's linked content ids
+  private async withLinks(messages: (typeof chatMessages.$inferSelect)[]): Promise<ChatMessage[]> {
+    if (messages.length === 0) return [];
+    const links = await this.db
+      .select()
+      .from(chatMessageLinks)
+      .where(inArray(chatMessageLinks.messageId, messages.map((message) => message.id)));
+    return messages.map((message) => ({
+      ...message,
+      contentIds: links.filter((link) => link.messageId === message.id).map((link) => link.contentItemId),
+    }));
+  }
+
+  async getChatMessages(threadId: string): Promise<ChatMessage[]> {
+    const messages = await this.db
+      .select()
+      .from(chatMessages)
+      .where(eq(chatMessages.threadId, threadId))
+      .orderBy(asc(chatMessages.createdAt), asc(chatMessages.id));
+    return this.withLinks(messages);
+  }
+
+  async getChatMessage(threadId: string, id: string): Promise<ChatMessage | undefined> {
+    const messages = await this.db
+      .select()
+      .from(chatMessages)
+      .where(and(eq(chatMessages.threadId, threadId), eq(chatMessages.id, id)));
+    const [message] = await this.withLinks(messages);
+    return message;
+  }
+
+  async addChatMessages(threadId: string, messages: NewChatMessage[]): Promise<ChatMessage[]> {
+    return this.db.transaction(async (tx) => {
+      // One timestamp would leave the order of the messages to their ids
+      const now = Date.now();
+      const created = await tx
+        .insert(chatMessages)
+        .values(messages.map((message, index) => ({ ...message, threadId, createdAt: new Date(now + index) })))
+        .returning();
+      await tx.update(chatThreads).set({ updatedAt: new Date(now) }).where(eq(chatThreads.id, threadId));
+      return created.map((message) => ({ ...message, contentIds: [] }));
+    });
+  }
+
+  async updateProposalStatus(threadId: string, id: string, from: ProposalStatus, to: ProposalStatus): Promise<ChatMessage | undefined> {
+    const updated = await this.db
+      .update(chatMessages)
+      .set({ proposalStatus: to })
+      .where(and(eq(chatMessages.threadId, threadId), eq(chatMessages.id, id), eq(chatMessages.proposalStatus, from)))
+      .returning();
+    const [message] = await this.withLinks(updated);
+    return message;
+  }
+
+  async linkChatMessage(threadId: string, id: string, contentIds: string[]): Promise<ChatMessage | undefined> {
+    if (!await this.getChatMessage(threadId, id)) return undefined;
+    await this.db
+      .insert(chatMessageLinks)
+      .values(contentIds.map((contentItemId) => ({ messageId: id, contentItemId })))
+      .onConflictDoNothing();
+    return this.getChatMessage(threadId, id);
+  }
+
+  async getContentUsage(ownerId: string, from: Date, to: Date, excludeId?: string): Promise<ContentUsage> {
+    const owned = and(eq(contentItems.ownerId, ownerId), excludeId ? ne(contentItems.id, excludeId) : undefined);
+    const [{ scheduled }] = await this.db
+      .select({ scheduled: sql<number>`count(*)::int` })
+      .from(contentItems)
+      .where(and(owned, isNull(contentItems.recurrence), gte(contentItems.scheduledDate, from), lt(contentItems.scheduledDate, to)));
+    const series = await this.db
+      .select()
+      .from(contentItems)
+      .where(and(owned, isNotNull(contentItems.recurrence), lt(contentItems.scheduledDate, to)));
+    const platforms = await this.db.selectDistinct({ platform: contentItems.platform }).from(contentItems).where(owned);
+    return { scheduled, series, platforms: platforms.map((row) => row.platform) };
+  }
+
+  async getUsageCount(userId: string, metric: string, day: string): Promise<number> {
+    const [counter] = await this.db
+      .select()
+      .from(usageCounters)
+      .where(and(eq(usageCounters.userId, userId), eq(usageCounters.metric, metric), eq(usageCounters.day, day)));
+    return counter?.count ?? 0;
+  }
+
+  // A single upsert, so concurrent requests can't both take the last unit
+  async incrementUsage(userId: string, metric: string, day: string, limit: number | null): Promise<number | undefined> {
+    if (limit !== null && limit < 1) return undefined;
+    const [counter] = await this.db
+      .insert(usageCounters)
+      .values({ userId, metric, day, count: 1 })
+      .onConflictDoUpdate({
+        target: [usageCounters.userId, usageCounters.metric, usageCounters.day],
+        set: { count: sql`${usageCounters.count} + 1` },
+        setWhere: limit === null ? undefined : lt(usageCounters.count, limit),
+      })
+      .returning();
+    return counter?.count;
+  }
+
+  async decrementUsage(userId: string, metric: string, day: string): Promise<void> {
+    await this.db
+      .update(usageCounters)
+      .set({ count: sql`${usageCounters.count} - 1` })
+      .where(and(
+        eq(usageCounters.userId, userId),
+        eq(usageCounters.metric, metric),
+        eq(usageCounters.day, day),
+        gt(usageCounters.count, 0),
+      ));
+  }
+
+  async withQuotaLock<T>(ownerIds: string[], fn: (storage: IStorage) => Promise<T>): Promise<T> {
+    return this.db.transaction(async (tx) => {
+      // Transaction-scoped advisory locks, always taken in the same order so
+      // two calls can't wait on each other
+      for (const ownerId of Array.from(new Set(ownerIds)).sort()) {
+        await tx.execute(sql`select pg_advisory_xact_lock(${QUOTA_LOCK_CLASS}::int, hashtext(${ownerId}))`);
+      }
+      return fn(new DbStorage(tx));
+    });
   }
 }
 
-export const storage = new MemStorage();
+// Use Postgres when DATABASE_URL is set, otherwise keep everything in memory.
+export const storage: IStorage = db ? new DbStorage(db) : new MemStorage();
@@ -0,0 +1,142 @@
+import { beforeEach, describe, expect, it } from "vitest";
+import type { Subscription } from "@shared/schema";
+import { PREMIUM_PLAN_ID, type BillingGateway, type PaypalWebhookEvent, type RemoteSubscription } from "./billing";
+import { grantsPremium } from "./entitlements";
+import { MemStorage } from "./storage";
+import { handleBillingEvent } from "./subscription-events";
+
+const SUBSCRIPTION_ID = "I-SUB1";
+const periodEnd = "2030-02-01T00:00:00Z";
+
+// Recorded shape of PayPal's BILLING.SUBSCRIPTION.* webhook events
+function subscriptionEvent(
+  id: string,
+  type: string,
+  status: string,
+  createTime: string,
+  nextBillingTime: string | undefined = periodEnd,
+): PaypalWebhookEvent {
+  return {
+    id,
+    event_type: `BILLING.SUBSCRIPTION.${type}`,
+    create_time: createTime,
+    resource: {
+      id: SUBSCRIPTION_ID,
+      plan_id: PREMIUM_PLAN_ID,
+      status,
+      custom_id: "user-1",
+      start_time: "2030-01-01T00:00:00Z",
+      billing_info: nextBillingTime ? { next_billing_time: nextBillingTime } : {},
+    },
+  };
+}
+
+class FakeBilling implements BillingGateway {
+  remote: RemoteSubscription | undefined;
+
+  async getSubscription() {
+    return this.remote;
+  }
+
+  async cancelSubscription() {}
+}
+
+let storage: MemStorage;
+let billing: FakeBilling;
+
+beforeEach(() => {
+  storage = new MemStorage();
+  billing = new FakeBilling();
+});
+
+const stored = () => storage.getSubscription(SUBSCRIPTION_ID);
+
+describe("handleBillingEvent", () => {
+  it("applies each event id once", async () => {
+    const activated = subscriptionEvent("WH-1", "ACTIVATED", "ACTIVE", "2030-01-01T00:00:00Z");
+    expect(await handleBillingEvent(storage, billing, activated)).toBe(true);
+
+    // A redelivery after a later change must not undo it
+    await handleBillingEvent(storage, billing, subscriptionEvent("WH-2", "SUSPENDED", "SUSPENDED", "2030-01-02T00:00:00Z"));
+    expect(await handleBillingEvent(storage, billing, activated)).toBe(false);
+    expect((await stored())?.status).toBe("suspended");
+  });
+
+  it("follows a subscription from active through past due to cancelled", async () => {
+    await handleBillingEvent(storage, billing, subscriptionEvent("WH-1", "ACTIVATED", "ACTIVE", "2030-01-01T00:00:00Z"));
+    expect(await stored()).toMatchObject({ userId: "user-1", status: "active", currentPeriodEnd: new Date(periodEnd) });
+
+    // PayPal reports the subscription as still ACTIVE while it retries
+    await handleBillingEvent(storage, billing, subscriptionEvent("WH-2", "PAYMENT.FAILED", "ACTIVE", "2030-02-01T00:00:00Z"));
+    expect((await stored())?.status).toBe("past_due");
+
+    await handleBillingEvent(storage, billing, subscriptionEvent("WH-3", "CANCELLED", "CANCELLED", "2030-02-03T00:00:00Z", undefined));
+    // Cancelled subscriptions have no next billing time; the period stays
+    expect(await stored()).toMatchObject({ status: "cancelled", currentPeriodEnd: new Date(periodEnd) });
+  });
+
+  it("skips events older than the last one applied", async () => {
+    await handleBillingEvent(storage, billing, subscriptionEvent("WH-2", "CANCELLED", "CANCELLED", "2030-01-05T00:00:00Z"));
+    expect(await handleBillingEvent(storage, billing, subscriptionEvent("WH-1", "ACTIVATED", "ACTIVE", "2030-01-01T00:00:00Z"))).toBe(true);
+
+    expect(await stored()).toMatchObject({ status: "cancelled", lastEventAt: new Date("2030-01-05T00:00:00Z") });
+  });
+
+  it("fetches the new period when a payment completes", async () => {
+    await handleBillingEvent(storage, billing, subscriptionEvent("WH-1", "ACTIVATED", "ACTIVE", "2030-01-01T00:00:00Z"));
+    billing.remote = {
+      id: SUBSCRIPTION_ID,
+      planId: PREMIUM_PLAN_ID,
+      status: "active",
+      customId: "user-1",
+      startedAt: new Date("2030-01-01T00:00:00Z"),
+      currentPeriodEnd: new Date("2030-03-01T00:00:00Z"),
+    };
+
+    await handleBillingEvent(storage, billing, {
+      id: "WH-2",
+      event_type: "PAYMENT.SALE.COMPLETED",
+      create_time: "2030-02-01T00:00:00Z",
+      resource: { id: "SALE-1", billing_agreement_id: SUBSCRIPTION_ID },
+    });
+    expect((await stored())?.currentPeriodEnd).toEqual(new Date("2030-03-01T00:00:00Z"));
+  });
+
+  it("ignores subscriptions to other plans", async () => {
+    const event = subscriptionEvent("WH-1", "ACTIVATED", "ACTIVE", "2030-01-01T00:00:00Z");
+    await handleBillingEvent(storage, billing, { ...event, resource: { ...event.resource, plan_id: "P-OTHER" } });
+    expect(await stored()).toBeUndefined();
+  });
+});
+
+describe("grantsPremium", () => {
+  const subscription = (status: Subscription["status"]): Subscription => ({
+    id: SUBSCRIPTION_ID,
+    userId: "user-1",
+    planId: PREMIUM_PLAN_ID,
+    status,
+    startedAt: new Date("2030-01-01T00:00:00Z"),
+    currentPeriodEnd: new Date(periodEnd),
+    lastEventAt: null,
+    createdAt: new Date("2030-01-01T00:00:00Z"),
+    updatedAt: new Date("2030-01-01T00:00:00Z"),
+  });
+  const before = new Date(new Date(periodEnd).getTime() - 1);
+  const after = new Date(periodEnd);
+
+  it("grants active and past due subscriptions", () => {
+    expect(grantsPremium(subscription("active"), after)).toBe(true);
+    expect(grantsPremium(subscription("past_due"), after)).toBe(true);
+  });
+
+  it("grants cancelled subscriptions until the paid period ends", () => {
+    expect(grantsPremium(subscription("cancelled"), before)).toBe(true);
+    expect(grantsPremium(subscription("cancelled"), after)).toBe(false);
+    expect(grantsPremium({ ...subscription("cancelled"), currentPeriodEnd: null }, before)).toBe(false);
+  });
+
+  it("grants nothing once suspended or expired", () => {
+    expect(grantsPremium(subscription("suspended"), before)).toBe(false);
+    expect(grantsPremium(subscription("expired"), before)).toBe(false);
+  });
+});
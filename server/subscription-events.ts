@@ -0,0 +1,105 @@
+import type { InsertSubscription, Subscription } from "@shared/schema";
+import {
+  PREMIUM_PLAN_ID,
+  fromPaypalSubscription,
+  type BillingGateway,
+  type PaypalSubscriptionResource,
+  type PaypalWebhookEvent,
+  type RemoteSubscription,
+} from "./billing";
+import type { IStorage } from "./storage";
+
+// Events whose resource is the subscription itself
+const subscriptionEvents = new Set([
+  "BILLING.SUBSCRIPTION.ACTIVATED",
+  "BILLING.SUBSCRIPTION.UPDATED",
+  "BILLING.SUBSCRIPTION.RE-ACTIVATED",
+  "BILLING.SUBSCRIPTION.CANCELLED",
+  "BILLING.SUBSCRIPTION.SUSPENDED",
+  "BILLING.SUBSCRIPTION.EXPIRED",
+  "BILLING.SUBSCRIPTION.PAYMENT.FAILED",
+]);
+
+// A recurring payment went through. The resource is the sale, which names
+// the subscription as its billing agreement.
+const PAYMENT_COMPLETED = "PAYMENT.SALE.COMPLETED";
+
+// The subscription an event is about, or undefined for events that don't
+// concern subscriptions
+export function eventSubscriptionId(event: PaypalWebhookEvent): string | undefined {
+  const { resource } = event;
+  if (subscriptionEvents.has(event.event_type)) {
+    return typeof resource.id === "string" ? resource.id : undefined;
+  }
+  if (event.event_type === PAYMENT_COMPLETED) {
+    return typeof resource.billing_agreement_id === "string" ? resource.billing_agreement_id : undefined;
+  }
+  return undefined;
+}
+
+function eventTime(event: PaypalWebhookEvent): Date | null {
+  const time = event.create_time ? new Date(event.create_time) : null;
+  return time && !isNaN(time.getTime()) ? time : null;
+}
+
+// What the stored subscription should look like after the event, or
+// undefined if the event changes nothing we keep. Sales don't carry the new
+// billing period, so that is fetched from PayPal.
+export async function subscriptionAfterEvent(
+  event: PaypalWebhookEvent,
+  stored: Subscription | undefined,
+  billing: BillingGateway,
+): Promise<InsertSubscription | undefined> {
+  const id = eventSubscriptionId(event);
+  if (!id) return undefined;
+
+  // PayPal doesn't promise to deliver events in order, and an older one
+  // would roll the subscription back
+  const occurredAt = eventTime(event);
+  if (occurredAt && stored?.lastEventAt && occurredAt < stored.lastEventAt) return undefined;
+
+  let remote: RemoteSubscription | undefined;
+  if (event.event_type === PAYMENT_COMPLETED) {
+    remote = await billing.getSubscription(id);
+  } else {
+    remote = fromPaypalSubscription(event.resource as unknown as PaypalSubscriptionResource);
+    // PayPal keeps the subscription ACTIVE while it retries the payment
+    if (event.event_type === "BILLING.SUBSCRIPTION.PAYMENT.FAILED" && remote.status === "active") {
+      remote.status = "past_due";
+    }
+  }
+  if (!remote || remote.planId !== PREMIUM_PLAN_ID) return undefined;
+
+  // Subscriptions are claimed at checkout; before that only the custom id
+  // set there says whose it is
+  const userId = stored?.userId ?? remote.customId;
+  if (!userId) return undefined;
+
+  return {
+    id: remote.id,
+    userId,
+    planId: remote.planId,
+    status: remote.status,
+    startedAt: stored?.startedAt ?? remote.startedAt,
+    // Cancelled subscriptions have no next billing time, but stay paid
+    // for until the end of the current period
+    currentPeriodEnd: remote.currentPeriodEnd ?? stored?.currentPeriodEnd ?? null,
+    lastEventAt: occurredAt ?? stored?.lastEventAt ?? null,
+  };
+}
+
+// Applies a verified webhook event. Returns false for redeliveries of an
+// event that was already handled.
+export async function handleBillingEvent(
+  storage: IStorage,
+  billing: BillingGateway,
+  event: PaypalWebhookEvent,
+): Promise<boolean> {
+  const subscriptionId = eventSubscriptionId(event);
+  const stored = subscriptionId ? await storage.getSubscription(subscriptionId) : undefined;
+  const subscription = await subscriptionAfterEvent(event, stored, billing);
+  return storage.processBillingEvent(
+    { id: event.id, type: event.event_type, subscriptionId: subscriptionId ?? null },
+    subscription,
+  );
+}
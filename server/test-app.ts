@@ -0,0 +1,46 @@
+import express from "express";
+import type { Server } from "http";
+import type { AddressInfo } from "net";
+import { OfflineAiProvider, type AiProvider } from "./ai";
+import type { BillingGateway, WebhookVerifier } from "./billing";
+import { registerRoutes } from "./routes";
+
+export interface TestApp {
+  // Authenticates as `user`: the fake verifier takes the token as the uid.
+  // Without a workspace id the request acts on the user's default one.
+  request(user: string, method: string, path: string, body?: unknown, workspaceId?: string): Promise<Response>;
+  close(): void;
+}
+
+const notUsed = async (): Promise<never> => {
+  throw new Error("Not used in this test");
+};
+
+// The API on a local port over the process-wide storage, for route tests
+export async function startTestApp(options: { billing?: BillingGateway; webhooks?: WebhookVerifier; ai?: AiProvider } = {}): Promise<TestApp> {
+  const app = express();
+  app.use(express.json());
+  const server: Server = await registerRoutes(
+    app,
+    { verifyIdToken: async (token: string) => ({ uid: token }) },
+    options.billing ?? { getSubscription: notUsed, cancelSubscription: notUsed },
+    options.webhooks ?? { verifyWebhook: notUsed },
+    options.ai ?? new OfflineAiProvider(),
+  );
+  await new Promise<void>((resolve) => server.listen(0, "127.0.0.1", resolve));
+  const baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+
+  return {
+    request: (user, method, path, body, workspaceId) =>
+      fetch(`${baseUrl}${path}`, {
+        method,
+        headers: {
+          Authorization: `Bearer ${user}`,
+          "Content-Type": "application/json",
+          ...(workspaceId ? { "X-Workspace-Id": workspaceId } : {}),
+        },
+        body: body === undefined ? undefined : JSON.stringify(body),
+      }),
+    close: () => server.close(),
+  };
+}
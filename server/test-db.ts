@@ -0,0 +1,18 @@
+import { PGlite } from "@electric-sql/pglite";
+import { drizzle } from "drizzle-orm/pglite";
+import { createRequire } from "module";
+import * as schema from "@shared/schema";
+import type { Database } from "./db";
+
+const require = createRequire(import.meta.url);
+
+// A fresh in-process Postgres with the current schema, for DbStorage tests
+export async function createTestDatabase(): Promise<Database> {
+  const { generateDrizzleJson, generateMigration } = require("drizzle-kit/api");
+  const client = new PGlite();
+  const statements: string[] = await generateMigration(generateDrizzleJson({}), generateDrizzleJson(schema));
+  for (const statement of statements) {
+    await client.exec(statement);
+  }
+  return drizzle(client, { schema });
+}
@@ -0,0 +1,52 @@
+// Wall-clock arithmetic in IANA zones with nothing but Intl. Calendar days
+// are passed around as UTC midnights so no zone shifts them.
+
+export interface WallClock {
+  // UTC midnight of the local calendar day
+  day: Date;
+  hours: number;
+  minutes: number;
+  seconds: number;
+}
+
+// The local date and time of an instant in a zone
+export function wallClock(instant: Date, timeZone: string): WallClock {
+  const parts = new Intl.DateTimeFormat("en-US", {
+    timeZone,
+    hourCycle: "h23",
+    year: "numeric",
+    month: "2-digit",
+    day: "2-digit",
+    hour: "2-digit",
+    minute: "2-digit",
+    second: "2-digit",
+  }).formatToParts(instant);
+  const part = (type: string) => Number(parts.find((p) => p.type === type)!.value);
+  return {
+    day: new Date(Date.UTC(part("year"), part("month") - 1, part("day"))),
+    hours: part("hour"),
+    minutes: part("minute"),
+    seconds: part("second"),
+  };
+}
+
+// Milliseconds the zone is ahead of UTC at the given instant
+function zoneOffset(instant: number, timeZone: string): number {
+  const local = wallClock(new Date(instant), timeZone);
+  const asUtc = local.day.getTime() + ((local.hours * 60 + local.minutes) * 60 + local.seconds) * 1000;
+  return asUtc - (instant - (instant % 1000));
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// The instant a wall-clock time occurs in a zone. As in RFC 5545, a time
+// repeated when clocks go back means the first of the two, and a time
+// skipped when they go forward is read with the offset from before the
+// change. Zones change offset at most once in two days.
+export function zonedTime(day: Date, hours: number, minutes: number, timeZone: string, seconds = 0): Date {
+  const local = Date.UTC(day.getUTCFullYear(), day.getUTCMonth(), day.getUTCDate(), hours, minutes, seconds);
+  const candidates = [zoneOffset(local - DAY_MS, timeZone), zoneOffset(local + DAY_MS, timeZone)]
+    .map((offset) => ({ offset, instant: local - offset }));
+  const valid = candidates.find(({ offset, instant }) => zoneOffset(instant, timeZone) === offset);
+  return new Date((valid ?? candidates[0]).instant);
+}
@@ -0,0 +1,71 @@
+import { describe, expect, it } from "vitest";
+import type { ContentItem } from "@shared/schema";
+import { editStatusChange, moveStatusChange, needsNewReview } from "./workflow";
+
+function item(status: string): ContentItem {
+  return {
+    status,
+    title: "Launch",
+    scheduledDate: new Date("2030-01-15T09:00:00Z"),
+    description: null,
+    platform: "social",
+    tags: ["news"],
+    approvedBy: "reviewer",
+    approvedAt: new Date(),
+  } as ContentItem;
+}
+
+describe("needsNewReview", () => {
+  it("is set off by copy changes to signed-off content", () => {
+    expect(needsNewReview(item("approved"), { title: "Launch!" })).toBe(true);
+    expect(needsNewReview(item("scheduled"), { tags: ["news", "launch"] })).toBe(true);
+    expect(needsNewReview(item("scheduled"), { platform: "email" })).toBe(true);
+  });
+
+  it("ignores unchanged copy and other fields", () => {
+    expect(needsNewReview(item("approved"), { title: "Launch", description: "", tags: ["news"] })).toBe(false);
+    expect(needsNewReview(item("scheduled"), { scheduledDate: new Date() })).toBe(false);
+  });
+
+  it("ignores content that isn't signed off", () => {
+    expect(needsNewReview(item("draft"), { title: "Other" })).toBe(false);
+  });
+});
+
+describe("editStatusChange", () => {
+  it("sends edited copy back to review and clears the approval", () => {
+    const result = editStatusChange("editor", "editor-1", item("scheduled"), "scheduled", { title: "Launch!" });
+    expect(result).toEqual({ change: { status: "in_review", approvedBy: null, approvedAt: null } });
+  });
+
+  it("refuses to move edited copy further along", () => {
+    const result = editStatusChange("owner", "owner-1", item("approved"), "scheduled", { title: "Launch!" });
+    expect(result).toEqual({ error: { status: 409, message: expect.stringContaining("new review") } });
+  });
+
+  it("lets edited copy go back to draft", () => {
+    const result = editStatusChange("editor", "editor-1", item("approved"), "draft", { title: "Launch!" });
+    expect(result).toEqual({ change: expect.objectContaining({ status: "draft", approvedBy: null }) });
+  });
+
+  it("leaves the status alone for other edits", () => {
+    expect(editStatusChange("editor", "editor-1", item("scheduled"), undefined, { scheduledDate: new Date() })).toEqual({ change: null });
+  });
+
+  it("still checks requested transitions", () => {
+    const result = editStatusChange("editor", "editor-1", item("in_review"), "approved", {});
+    expect(result).toEqual({ error: expect.objectContaining({ status: 403 }) });
+  });
+});
+
+describe("moveStatusChange", () => {
+  it.each([
+    { status: "approved", to: "2030-01-16T09:00:00Z", expected: { status: "in_review", approvedBy: null, approvedAt: null } },
+    { status: "scheduled", to: "2030-01-16T09:00:00Z", expected: { status: "in_review", approvedBy: null, approvedAt: null } },
+    { status: "scheduled", to: "2030-01-15T09:00:00Z", expected: null },
+    { status: "draft", to: "2030-01-16T09:00:00Z", expected: null },
+    { status: "in_review", to: "2030-01-16T09:00:00Z", expected: null },
+  ])("gives $expected for $status content moved to $to", ({ status, to, expected }) => {
+    expect(moveStatusChange("editor-1", item(status), new Date(to))).toEqual(expected);
+  });
+});
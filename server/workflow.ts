@@ -0,0 +1,90 @@
+import { canTransition, isReviewDecision, statusLabels, type ContentStatus } from "@shared/workflow";
+import { can, type ContentItem, type InsertContentItem, type WorkspaceRole } from "@shared/schema";
+import type { ContentStatusChange } from "./storage";
+
+export interface TransitionError {
+  status: number;
+  message: string;
+}
+
+// Checks that `role` may move an item from one status to another.
+export function checkTransition(role: WorkspaceRole, from: string, to: ContentStatus): TransitionError | null {
+  if (!canTransition(from, to)) {
+    const fromLabel = statusLabels[from as ContentStatus] ?? from;
+    return { status: 409, message: `Cannot move content from ${fromLabel} to ${statusLabels[to]}` };
+  }
+
+  const permission = isReviewDecision(from, to) ? "content:review" : "content:write";
+  if (!can(role, permission)) {
+    return { status: 403, message: "You do not have permission to perform this action" };
+  }
+  return null;
+}
+
+// Approval details travel with the status: approving records who and when,
+// going back to draft or review clears them, and scheduling resets retries.
+export function statusChange(to: ContentStatus, userId: string, note?: string): ContentStatusChange {
+  switch (to) {
+    case "approved":
+      return { status: to, approvedBy: userId, approvedAt: new Date(), reviewNote: note ?? null };
+    case "rejected":
+      return { status: to, approvedBy: null, approvedAt: null, reviewNote: note ?? null };
+    case "draft":
+    case "in_review":
+      return { status: to, approvedBy: null, approvedAt: null };
+    case "scheduled":
+      // (Re)scheduling starts publishing from a clean slate. Series only
+      // publish occurrences from the moment they are scheduled.
+      return { status: to, publishAttempts: 0, lastPublishError: null, nextPublishAttemptAt: null, materializedUntil: new Date() };
+    case "posted":
+      return { status: to, publishedAt: new Date() };
+    default:
+      return { status: to };
+  }
+}
+
+// What a reviewer signs off on
+const reviewedFields = ["title", "description", "platform", "tags"] as const;
+
+// True when an edit changes the copy of content that was already signed off
+export function needsNewReview(existing: ContentItem, changes: Partial<InsertContentItem>): boolean {
+  if (existing.status !== "approved" && existing.status !== "scheduled") return false;
+  return reviewedFields.some((field) => {
+    const value = changes[field];
+    if (value === undefined) return false;
+    if (field === "tags") return JSON.stringify(value) !== JSON.stringify(existing.tags);
+    return (value || null) !== (existing[field] || null);
+  });
+}
+
+// The status change an edit makes: the one asked for, or back to review when
+// signed-off copy changed. Null when the status stays.
+export function editStatusChange(
+  role: WorkspaceRole,
+  userId: string,
+  existing: ContentItem,
+  status: ContentStatus | undefined,
+  changes: Partial<InsertContentItem>,
+): { change: ContentStatusChange | null } | { error: TransitionError } {
+  const statusChanged = status !== undefined && status !== existing.status;
+  if (needsNewReview(existing, changes)) {
+    // Taking it out of the workflow is fine; moving it on isn't
+    if (statusChanged && status !== "draft" && status !== "archived") {
+      return { error: { status: 409, message: `Edited content needs a new review before it can be ${statusLabels[status].toLowerCase()}` } };
+    }
+    if (!statusChanged) return { change: statusChange("in_review", userId) };
+  }
+
+  if (!statusChanged) return { change: null };
+  const transitionError = checkTransition(role, existing.status, status);
+  return transitionError ? { error: transitionError } : { change: statusChange(status, userId) };
+}
+
+// The status change a move from a change set makes. Nobody looks at the items
+// one by one when a set is applied, so signed-off content goes back to review
+// at its new time. Null when the status stays.
+export function moveStatusChange(userId: string, existing: ContentItem, scheduledDate: Date): ContentStatusChange | null {
+  if (existing.status !== "approved" && existing.status !== "scheduled") return null;
+  if (scheduledDate.getTime() === existing.scheduledDate.getTime()) return null;
+  return statusChange("in_review", userId);
+}
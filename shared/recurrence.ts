@@ -0,0 +1,155 @@
+// Recurrence rules for content series: the subset of RFC 5545 RRULE the
+// planner supports. FREQ is DAILY, WEEKLY or MONTHLY; INTERVAL, BYDAY, UNTIL
+// and COUNT are optional. MONTHLY rules may prefix BYDAY entries with an
+// ordinal ("1MO" = first Monday, "-1FR" = last Friday).
+
+export const recurrenceFrequencies = ["DAILY", "WEEKLY", "MONTHLY"] as const;
+export type RecurrenceFrequency = typeof recurrenceFrequencies[number];
+
+// RFC 5545 order: weeks start on Monday
+export const weekdayCodes = ["MO", "TU", "WE", "TH", "FR", "SA", "SU"] as const;
+export type WeekdayCode = typeof weekdayCodes[number];
+
+export interface RecurrenceDay {
+  weekday: WeekdayCode;
+  // Nth weekday of the month, negative counts from the end. MONTHLY only.
+  ordinal?: number;
+}
+
+export interface RecurrenceRule {
+  freq: RecurrenceFrequency;
+  interval: number;
+  byDay: RecurrenceDay[];
+  // Inclusive; at most one of until and count is set
+  until?: Date;
+  count?: number;
+}
+
+// How an edit or delete of one occurrence applies to the rest of its series
+export const occurrenceScopes = ["this", "following", "all"] as const;
+export type OccurrenceScope = typeof occurrenceScopes[number];
+
+export class RecurrenceError extends Error {}
+
+const MAX_COUNT = 1000;
+const MAX_INTERVAL = 366;
+
+function parseUntil(value: string): Date {
+  const match = /^(\d{4})(\d{2})(\d{2})(?:T(\d{2})(\d{2})(\d{2})Z)?$/.exec(value);
+  if (!match) throw new RecurrenceError("UNTIL must be YYYYMMDD or YYYYMMDDTHHMMSSZ");
+  const [, year, month, day, hours, minutes, seconds] = match.map(Number);
+  // A bare date includes the whole day
+  const until = match[4] === undefined
+    ? new Date(Date.UTC(year, month - 1, day, 23, 59, 59))
+    : new Date(Date.UTC(year, month - 1, day, hours, minutes, seconds));
+  if (until.getUTCDate() !== day) throw new RecurrenceError("UNTIL is not a valid date");
+  return until;
+}
+
+function parseDay(value: string, freq: RecurrenceFrequency): RecurrenceDay {
+  const match = /^([+-]?\d{1,2})?(MO|TU|WE|TH|FR|SA|SU)$/.exec(value);
+  if (!match) throw new RecurrenceError(`Invalid BYDAY value "${value}"`);
+  const weekday = match[2] as WeekdayCode;
+  if (match[1] === undefined) return { weekday };
+
+  const ordinal = Number(match[1]);
+  if (freq !== "MONTHLY") throw new RecurrenceError("BYDAY ordinals are only supported with FREQ=MONTHLY");
+  if (ordinal === 0 || Math.abs(ordinal) > 5) throw new RecurrenceError(`Invalid BYDAY ordinal in "${value}"`);
+  return { weekday, ordinal };
+}
+
+function positiveInteger(name: string, value: string, max: number): number {
+  const number = Number(value);
+  if (!/^\d+$/.test(value) || number < 1 || number > max) {
+    throw new RecurrenceError(`${name} must be a whole number from 1 to ${max}`);
+  }
+  return number;
+}
+
+export function parseRecurrence(value: string): RecurrenceRule {
+  const parts = new Map<string, string>();
+  for (const part of value.trim().replace(/^RRULE:/i, "").split(";")) {
+    const [name, partValue, ...rest] = part.split("=");
+    if (!name || partValue === undefined || rest.length > 0) throw new RecurrenceError(`Invalid RRULE part "${part}"`);
+    const key = name.toUpperCase();
+    if (parts.has(key)) throw new RecurrenceError(`${key} is given more than once`);
+    parts.set(key, partValue.toUpperCase());
+  }
+
+  const freq = parts.get("FREQ") as RecurrenceFrequency | undefined;
+  if (!freq || !recurrenceFrequencies.includes(freq)) {
+    throw new RecurrenceError("FREQ must be DAILY, WEEKLY or MONTHLY");
+  }
+  for (const key of Array.from(parts.keys())) {
+    if (!["FREQ", "INTERVAL", "BYDAY", "UNTIL", "COUNT"].includes(key)) {
+      throw new RecurrenceError(`${key} is not supported`);
+    }
+  }
+  if (parts.has("UNTIL") && parts.has("COUNT")) {
+    throw new RecurrenceError("UNTIL and COUNT cannot be combined");
+  }
+
+  const byDayValue = parts.get("BYDAY");
+  const byDay = byDayValue ? byDayValue.split(",").map((day) => parseDay(day, freq)) : [];
+  if (freq === "DAILY" && byDay.length > 0) throw new RecurrenceError("BYDAY is not supported with FREQ=DAILY");
+
+  const rule: RecurrenceRule = {
+    freq,
+    interval: parts.has("INTERVAL") ? positiveInteger("INTERVAL", parts.get("INTERVAL")!, MAX_INTERVAL) : 1,
+    byDay,
+  };
+  if (parts.has("UNTIL")) rule.until = parseUntil(parts.get("UNTIL")!);
+  if (parts.has("COUNT")) rule.count = positiveInteger("COUNT", parts.get("COUNT")!, MAX_COUNT);
+  return rule;
+}
+
+export function isValidRecurrence(value: string): boolean {
+  try {
+    parseRecurrence(value);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+export function formatRecurrence(rule: RecurrenceRule): string {
+  const parts = [`FREQ=${rule.freq}`];
+  if (rule.interval > 1) parts.push(`INTERVAL=${rule.interval}`);
+  if (rule.byDay.length > 0) {
+    parts.push(`BYDAY=${rule.byDay.map((day) => `${day.ordinal ?? ""}${day.weekday}`).join(",")}`);
+  }
+  if (rule.until) parts.push(`UNTIL=${rule.until.toISOString().replace(/[-:]/g, "").replace(/\.\d{3}/, "")}`);
+  if (rule.count) parts.push(`COUNT=${rule.count}`);
+  return parts.join(";");
+}
+
+const weekdayNames: Record<WeekdayCode, string> = {
+  MO: "Mon", TU: "Tue", WE: "Wed", TH: "Thu", FR: "Fri", SA: "Sat", SU: "Sun",
+};
+
+const unitNames: Record<RecurrenceFrequency, string> = {
+  DAILY: "day",
+  WEEKLY: "week",
+  MONTHLY: "month",
+};
+
+function ordinalName(ordinal: number): string {
+  if (ordinal === -1) return "last";
+  if (ordinal < 0) return `${ordinalName(-ordinal)} to last`;
+  return ["first", "second", "third", "fourth", "fifth"][ordinal - 1];
+}
+
+// Human-readable summary, e.g. "Every 2 weeks on Mon, Thu, 10 times"
+export function describeRecurrence(rule: RecurrenceRule): string {
+  const unit = unitNames[rule.freq];
+  let text = rule.interval === 1 ? `Every ${unit}` : `Every ${rule.interval} ${unit}s`;
+  if (rule.byDay.length > 0) {
+    const days = rule.byDay.map((day) =>
+      day.ordinal ? `${ordinalName(day.ordinal)} ${weekdayNames[day.weekday]}` : weekdayNames[day.weekday],
+    );
+    text += ` on ${rule.freq === "MONTHLY" ? "the " : ""}${days.join(", ")}`;
+  }
+  if (rule.count) text += `, ${rule.count} ${rule.count === 1 ? "time" : "times"}`;
+  if (rule.until) text += `, until ${rule.until.toISOString().slice(0, 10)}`;
+  return text;
+}
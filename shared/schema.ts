@@ -1,27 +1,781 @@
 import { sql } from "drizzle-orm";
-import { pgTable, text, varchar, timestamp } from "drizzle-orm/pg-core";
+import { pgTable, text, varchar, timestamp, primaryKey, integer, jsonb, index, uniqueIndex, type AnyPgColumn } from "drizzle-orm/pg-core";
 import { createInsertSchema } from "drizzle-zod";
 import { z } from "zod";
+import { contentStatuses, initialStatuses, type ContentStatus } from "./workflow";
+import { isValidRecurrence, occurrenceScopes } from "./recurrence";
+
+export const users = pgTable("users", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  username: text("username").notNull().unique(),
+});
+
+export const workspaceRoles = ["owner", "editor", "reviewer", "viewer"] as const;
+export type WorkspaceRole = typeof workspaceRoles[number];
+
+export type Permission =
+  | "content:read"
+  | "content:write"
+  | "content:review"
+  | "workspace:manage";
+
+const rolePermissions: Record<WorkspaceRole, Permission[]> = {
+  owner: ["content:read", "content:write", "content:review", "workspace:manage"],
+  editor: ["content:read", "content:write"],
+  reviewer: ["content:read", "content:review"],
+  viewer: ["content:read"],
+};
+
+export function can(role: WorkspaceRole, permission: Permission): boolean {
+  return rolePermissions[role].includes(permission);
+}
+
+export const workspaces = pgTable("workspaces", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  name: text("name").notNull(),
+  createdAt: timestamp("created_at").notNull().default(sql`now()`),
+});
+
+export const workspaceMembers = pgTable("workspace_members", {
+  workspaceId: varchar("workspace_id").notNull().references(() => workspaces.id, { onDelete: "cascade" }),
+  // Firebase UID of the member
+  userId: varchar("user_id").notNull(),
+  email: text("email"),
+  role: varchar("role", { length: 20 }).notNull(),
+  createdAt: timestamp("created_at").notNull().default(sql`now()`),
+}, (table) => [primaryKey({ columns: [table.workspaceId, table.userId] })]);
+
+export const workspaceInvitations = pgTable("workspace_invitations", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  workspaceId: varchar("workspace_id").notNull().references(() => workspaces.id, { onDelete: "cascade" }),
+  token: varchar("token", { length: 64 }).notNull().unique(),
+  email: text("email"),
+  role: varchar("role", { length: 20 }).notNull(),
+  invitedBy: varchar("invited_by").notNull(),
+  expiresAt: timestamp("expires_at").notNull(),
+  acceptedAt: timestamp("accepted_at"),
+  acceptedBy: varchar("accepted_by"),
+  createdAt: timestamp("created_at").notNull().default(sql`now()`),
+});
+
+// Secret-token iCalendar subscription, one per user and workspace. Rotating
+// replaces the token; revoking deletes the row.
+export const calendarFeeds = pgTable("calendar_feeds", {
+  workspaceId: varchar("workspace_id").notNull().references(() => workspaces.id, { onDelete: "cascade" }),
+  userId: varchar("user_id").notNull(),
+  token: varchar("token", { length: 64 }).notNull().unique(),
+  createdAt: timestamp("created_at").notNull().default(sql`now()`),
+}, (table) => [primaryKey({ columns: [table.workspaceId, table.userId] })]);
+
+// past_due: a payment failed and PayPal is retrying it
+export const subscriptionStatuses = ["pending", "active", "past_due", "suspended", "cancelled", "expired"] as const;
+export type SubscriptionStatus = typeof subscriptionStatuses[number];
+
+// Premium subscriptions, billed through PayPal. They belong to a user, not
+// a workspace, and the server is the only judge of what they unlock.
+export const subscriptions = pgTable("subscriptions", {
+  // PayPal's subscription ID
+  id: varchar("id").primaryKey(),
+  // Firebase UID of the subscriber
+  userId: varchar("user_id").notNull(),
+  planId: varchar("plan_id").notNull(),
+  status: varchar("status", { length: 20 }).notNull(),
+  startedAt: timestamp("started_at").notNull().default(sql`now()`),
+  // End of the paid period; a cancelled subscription keeps access until then
+  currentPeriodEnd: timestamp("current_period_end"),
+  // create_time of the last webhook event applied; older events are skipped
+  lastEventAt: timestamp("last_event_at"),
+  createdAt: timestamp("created_at").notNull().default(sql`now()`),
+  updatedAt: timestamp("updated_at").notNull().default(sql`now()`),
+});
+
+// PayPal webhook events already handled, so redeliveries are ignored
+export const billingEvents = pgTable("billing_events", {
+  // PayPal's event ID
+  id: varchar("id").primaryKey(),
+  type: varchar("type", { length: 100 }).notNull(),
+  subscriptionId: varchar("subscription_id"),
+  receivedAt: timestamp("received_at").notNull().default(sql`now()`),
+});
+
+// Per-user counts of metered actions, such as AI requests, for each day
+export const usageCounters = pgTable("usage_counters", {
+  // Firebase UID
+  userId: varchar("user_id").notNull(),
+  metric: varchar("metric", { length: 50 }).notNull(),
+  // YYYY-MM-DD in UTC
+  day: varchar("day", { length: 10 }).notNull(),
+  count: integer("count").notNull().default(0),
+}, (table) => [primaryKey({ columns: [table.userId, table.metric, table.day] })]);
+
+export const destinationTypes = ["webhook", "email", "blog"] as const;
+export type DestinationType = typeof destinationTypes[number];
+
+// Where a content item is delivered when it is published
+export const publishDestinations = pgTable("publish_destinations", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  workspaceId: varchar("workspace_id").notNull().references(() => workspaces.id, { onDelete: "cascade" }),
+  name: text("name").notNull(),
+  type: varchar("type", { length: 20 }).notNull(),
+  config: jsonb("config").notNull().$type<Record<string, unknown>>(),
+  createdAt: timestamp("created_at").notNull().default(sql`now()`),
+});
+
+// One post that goes out on several channels. Each channel's version is a
+// content item of its own (a variant), with its own copy, schedule and status.
+export const contentPieces = pgTable("content_pieces", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  workspaceId: varchar("workspace_id").notNull().references(() => workspaces.id, { onDelete: "cascade" }),
+  // Firebase UID of the user who created the piece
+  ownerId: varchar("owner_id").notNull(),
+  title: text("title").notNull(),
+  createdAt: timestamp("created_at").notNull().default(sql`now()`),
+  updatedAt: timestamp("updated_at").notNull().default(sql`now()`),
+});
 
 export const contentItems = pgTable("content_items", {
   id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  workspaceId: varchar("workspace_id").notNull().references(() => workspaces.id, { onDelete: "cascade" }),
+  // Firebase UID of the user who created the item
+  ownerId: varchar("owner_id").notNull(),
   title: text("title").notNull(),
   description: text("description"),
   platform: varchar("platform", { length: 50 }).notNull(),
-  scheduledDate: timestamp("scheduled_date").notNull(),
+  // The sortable dates are kept to the millisecond, like the Dates and
+  // page cursors they are compared with
+  scheduledDate: timestamp("scheduled_date", { precision: 3 }).notNull(),
   status: varchar("status", { length: 20 }).notNull().default("draft"),
+  destinationId: varchar("destination_id").references(() => publishDestinations.id, { onDelete: "set null" }),
+  tags: text("tags").array().notNull().default(sql`'{}'::text[]`),
+  // Series only: an RRULE evaluated in timeZone, starting at scheduledDate
+  recurrence: text("recurrence"),
+  timeZone: varchar("time_zone", { length: 64 }),
+  // Series only: occurrences up to here have been handed to the scheduler
+  materializedUntil: timestamp("materialized_until"),
+  // An occurrence that was edited or published on its own: the series it
+  // came from and the start it had there
+  seriesId: varchar("series_id").references((): AnyPgColumn => contentItems.id, { onDelete: "set null" }),
+  occurrenceDate: timestamp("occurrence_date"),
+  // Set when a reviewer approves the item, cleared when it goes back to draft
+  approvedBy: varchar("approved_by"),
+  approvedAt: timestamp("approved_at"),
+  reviewNote: text("review_note"),
+  // Publishing outcome, maintained by the scheduler
+  publishAttempts: integer("publish_attempts").notNull().default(0),
+  lastPublishError: text("last_publish_error"),
+  nextPublishAttemptAt: timestamp("next_publish_attempt_at"),
+  publishedAt: timestamp("published_at"),
+  // Set on variants: the piece this is one channel's version of
+  pieceId: varchar("piece_id").references(() => contentPieces.id, { onDelete: "cascade" }),
+  createdAt: timestamp("created_at", { precision: 3 }).notNull().default(sql`now()`),
+  updatedAt: timestamp("updated_at", { precision: 3 }).notNull().default(sql`now()`),
+}, (table) => [
+  // One variant per channel
+  uniqueIndex("content_items_piece_platform_idx").on(table.pieceId, table.platform),
+  // The calendar's default order, which pages are fetched in
+  index("content_items_workspace_schedule_idx").on(table.workspaceId, table.scheduledDate, table.id),
+]);
+
+// Occurrences of a series that are no longer generated from its rule,
+// because they were cancelled or replaced by an item of their own
+export const contentExceptions = pgTable("content_exceptions", {
+  seriesId: varchar("series_id").notNull().references(() => contentItems.id, { onDelete: "cascade" }),
+  occurrenceDate: timestamp("occurrence_date").notNull(),
+  createdAt: timestamp("created_at").notNull().default(sql`now()`),
+}, (table) => [primaryKey({ columns: [table.seriesId, table.occurrenceDate] })]);
+
+export const metricFields = ["impressions", "clicks", "likes", "shares", "comments", "opens"] as const;
+export type MetricField = typeof metricFields[number];
+
+export const metricSources = ["manual", "csv", "api"] as const;
+export type MetricSource = typeof metricSources[number];
+
+// Engagement snapshots of posted content. Counters are running totals as of
+// capturedAt, so the latest snapshot of an item is its current total.
+export const contentMetrics = pgTable("content_metrics", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  workspaceId: varchar("workspace_id").notNull().references(() => workspaces.id, { onDelete: "cascade" }),
+  contentItemId: varchar("content_item_id").notNull().references(() => contentItems.id, { onDelete: "cascade" }),
+  impressions: integer("impressions").notNull().default(0),
+  clicks: integer("clicks").notNull().default(0),
+  likes: integer("likes").notNull().default(0),
+  shares: integer("shares").notNull().default(0),
+  comments: integer("comments").notNull().default(0),
+  opens: integer("opens").notNull().default(0),
+  capturedAt: timestamp("captured_at").notNull().default(sql`now()`),
+  source: varchar("source", { length: 20 }).notNull(),
   createdAt: timestamp("created_at").notNull().default(sql`now()`),
+}, (table) => [
+  // One snapshot per item and moment, so re-sending a batch records nothing twice
+  uniqueIndex("content_metrics_snapshot_idx").on(table.contentItemId, table.capturedAt),
+]);
+
+// Secret key outside scripts send to push metrics, one per workspace.
+// Rotating replaces the token; revoking deletes the row.
+export const metricsKeys = pgTable("metrics_keys", {
+  workspaceId: varchar("workspace_id").primaryKey().references(() => workspaces.id, { onDelete: "cascade" }),
+  token: varchar("token", { length: 64 }).notNull().unique(),
+  createdBy: varchar("created_by").notNull(),
+  createdAt: timestamp("created_at").notNull().default(sql`now()`),
+});
+
+// Conversations with the AI assistant. Threads are private to their user
+// and belong to the workspace whose content they discuss.
+export const chatThreads = pgTable("chat_threads", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  workspaceId: varchar("workspace_id").notNull().references(() => workspaces.id, { onDelete: "cascade" }),
+  userId: varchar("user_id").notNull(),
+  // Null until the first message names the thread
+  title: text("title"),
+  createdAt: timestamp("created_at").notNull().default(sql`now()`),
+  // The last message or rename
   updatedAt: timestamp("updated_at").notNull().default(sql`now()`),
 });
 
+export const proposalStatuses = ["pending", "applied", "dismissed"] as const;
+export type ProposalStatus = typeof proposalStatuses[number];
+
+export const chatMessages = pgTable("chat_messages", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  threadId: varchar("thread_id").notNull().references(() => chatThreads.id, { onDelete: "cascade" }),
+  role: varchar("role", { length: 20 }).notNull().$type<ChatRole>(),
+  content: text("content").notNull(),
+  // Changes the assistant proposed in this reply, if any
+  proposal: jsonb("proposal").$type<ChangeProposal>(),
+  proposalStatus: varchar("proposal_status", { length: 20 }).$type<ProposalStatus>(),
+  createdAt: timestamp("created_at").notNull().default(sql`now()`),
+});
+
+// Content items that came out of a message
+export const chatMessageLinks = pgTable("chat_message_links", {
+  messageId: varchar("message_id").notNull().references(() => chatMessages.id, { onDelete: "cascade" }),
+  contentItemId: varchar("content_item_id").notNull().references(() => contentItems.id, { onDelete: "cascade" }),
+}, (table) => [primaryKey({ columns: [table.messageId, table.contentItemId] })]);
+
+export const insertUserSchema = createInsertSchema(users).pick({
+  username: true,
+});
+
+export const insertWorkspaceSchema = createInsertSchema(workspaces).pick({
+  name: true,
+}).extend({
+  name: z.string().trim().min(1).max(100),
+});
+
+export const insertInvitationSchema = z.object({
+  email: z.string().email().optional(),
+  // Ownership is never handed out by invitation
+  role: z.enum(["editor", "reviewer", "viewer"]),
+});
+
+export const updateMemberSchema = z.object({
+  role: z.enum(workspaceRoles),
+});
+
+export const webhookConfigSchema = z.object({
+  url: z.string().url().refine((url) => /^https?:\/\//i.test(url), "Webhook URL must use http or https"),
+  // Used to sign the body with HMAC-SHA256
+  secret: z.string().optional(),
+});
+
+export const emailConfigSchema = z.object({
+  host: z.string().min(1),
+  port: z.number().int().min(1).max(65535),
+  secure: z.boolean().default(false),
+  user: z.string().optional(),
+  password: z.string().optional(),
+  from: z.string().email(),
+  to: z.array(z.string().email()).min(1),
+});
+
+export const blogConfigSchema = z.object({
+  // Relative to the server's blog publish root
+  directory: z.string().min(1),
+});
+
+export const insertDestinationSchema = z.discriminatedUnion("type", [
+  z.object({ name: z.string().trim().min(1), type: z.literal("webhook"), config: webhookConfigSchema }),
+  z.object({ name: z.string().trim().min(1), type: z.literal("email"), config: emailConfigSchema }),
+  z.object({ name: z.string().trim().min(1), type: z.literal("blog"), config: blogConfigSchema }),
+]);
+
+export const contentPlatforms = ["social", "email", "blog"] as const;
+
+function isTimeZone(value: string): boolean {
+  try {
+    new Intl.DateTimeFormat("en-US", { timeZone: value });
+    return true;
+  } catch {
+    return false;
+  }
+}
+
 export const insertContentItemSchema = createInsertSchema(contentItems).omit({
   id: true,
+  workspaceId: true,
+  ownerId: true,
+  approvedBy: true,
+  approvedAt: true,
+  reviewNote: true,
+  publishAttempts: true,
+  lastPublishError: true,
+  nextPublishAttemptAt: true,
+  publishedAt: true,
+  materializedUntil: true,
+  seriesId: true,
+  occurrenceDate: true,
+  pieceId: true,
   createdAt: true,
   updatedAt: true,
 }).extend({
-  platform: z.enum(["social", "email", "blog"]),
-  status: z.enum(["draft", "scheduled", "posted"]),
+  platform: z.enum(contentPlatforms),
+  // JSON bodies carry dates as ISO strings
+  scheduledDate: z.coerce.date(),
+  status: z.enum(contentStatuses),
+  tags: z.array(z.string().trim().min(1).max(50))
+    .max(20)
+    .transform((tags) => Array.from(new Set(tags)))
+    .optional(),
+  recurrence: z.string().trim().refine(isValidRecurrence, "Invalid recurrence rule").nullable().optional(),
+  timeZone: z.string().refine(isTimeZone, "Unknown time zone").nullable().optional(),
+});
+
+// New items must start at the beginning of the workflow
+export const createContentItemSchema = insertContentItemSchema.extend({
+  status: z.enum(initialStatuses),
+});
+
+// Another channel's version of an item. Variants don't repeat; a series
+// can't have them.
+export const contentVariantCreateSchema = createContentItemSchema.omit({
+  recurrence: true,
+  timeZone: true,
+});
+
+export const contentPieceUpdateSchema = z.object({
+  title: z.string().trim().min(1).max(200),
+});
+
+export const contentImportSchema = z.object({
+  csv: z.string().min(1),
+  // Preview by default; nothing is written until dryRun is false
+  dryRun: z.boolean().default(true),
+});
+
+// Counts arrive as numbers from JSON and as strings from CSV
+const metricCount = z.coerce.number().int().min(0).max(2_000_000_000).default(0);
+
+export const insertContentMetricsSchema = z.object({
+  impressions: metricCount,
+  clicks: metricCount,
+  likes: metricCount,
+  shares: metricCount,
+  comments: metricCount,
+  opens: metricCount,
+  // Defaults to the time the snapshot is recorded
+  capturedAt: z.coerce.date().optional(),
+});
+
+// Body of the ingestion endpoint for outside scripts
+export const metricsIngestSchema = z.object({
+  metrics: z.array(insertContentMetricsSchema.extend({ contentId: z.string().min(1) })).min(1).max(1000),
+});
+
+// Query-string lists such as ?status=draft,scheduled
+const commaList = <T extends readonly [string, ...string[]]>(values: T) =>
+  z.string().transform((value) => value.split(",").map((entry) => entry.trim()).filter(Boolean)).pipe(z.array(z.enum(values)));
+
+// Filters shared by the content list, exports and calendar feeds
+export const contentFilterSchema = z.object({
+  from: z.coerce.date().optional(),
+  to: z.coerce.date().optional(),
+  platform: commaList(contentPlatforms).optional(),
+  status: commaList(contentStatuses).optional(),
+  // Case-insensitive match on title, description or tags
+  q: z.string().trim().min(1).max(200).optional(),
+});
+
+export const contentSorts = [
+  "scheduledDate", "-scheduledDate",
+  "createdAt", "-createdAt",
+  "updatedAt", "-updatedAt",
+  "title", "-title",
+] as const;
+
+export const contentQuerySchema = contentFilterSchema.extend({
+  // A leading "-" sorts descending
+  sort: z.enum(contentSorts).default("scheduledDate"),
+  // Without a limit every matching item is returned
+  limit: z.coerce.number().int().min(1).max(500).optional(),
+  // Opaque; taken from the X-Next-Cursor header of the previous page
+  cursor: z.string().optional(),
+});
+
+export const contentExportQuerySchema = contentFilterSchema.extend({
+  format: z.enum(["csv", "json"]).default("csv"),
+});
+
+export const scheduleFrequencies = ["daily", "business-days", "custom"] as const;
+
+// Spreads one item per line over the calendar, starting at startDate
+export const bulkScheduleSchema = z.object({
+  lines: z.array(z.string())
+    .transform((lines) => lines.map((line) => line.trim()).filter(Boolean))
+    .pipe(z.array(z.string()).min(1, "Enter at least one line").max(500)),
+  platform: z.enum(contentPlatforms),
+  startDate: z.string()
+    .regex(/^\d{4}-\d{2}-\d{2}$/, "Expected YYYY-MM-DD")
+    .refine((value) => !isNaN(Date.parse(`${value}T00:00:00Z`)), "Invalid date"),
+  frequency: z.enum(scheduleFrequencies),
+  // Days of the week for the custom frequency, 0 = Sunday
+  weekdays: z.array(z.number().int().min(0).max(6)).default([]),
+  timeOfDay: z.string().regex(/^([01]\d|2[0-3]):[0-5]\d$/, "Expected HH:MM"),
+  // IANA zone the start date and time of day are in
+  timeZone: z.string().refine(isTimeZone, "Unknown time zone").default("UTC"),
+  // Scheduling skips review, so it needs reviewer rights
+  status: z.enum(["draft", "scheduled"]).default("draft"),
+  dryRun: z.boolean().default(true),
+}).refine((request) => request.frequency !== "custom" || request.weekdays.length > 0, {
+  path: ["weekdays"],
+  message: "Pick at least one day for a custom schedule",
+});
+
+export const analyticsQuerySchema = z.object({
+  // Weeks and months are counted on this zone's calendar
+  timeZone: z.string().refine(isTimeZone, "Unknown time zone").default("UTC"),
+  // Weeks of posting cadence, ending with the current one
+  weeks: z.coerce.number().int().min(1).max(52).default(12),
+});
+
+export const postingTimesQuerySchema = analyticsQuerySchema.pick({ timeZone: true });
+
+export const calendarFeedQuerySchema = contentFilterSchema.pick({ platform: true, status: true });
+
+// Editing one occurrence of a series, and how far the change reaches
+export const occurrenceUpdateSchema = insertContentItemSchema.partial().extend({
+  scope: z.enum(occurrenceScopes),
+});
+
+export const occurrenceDeleteQuerySchema = z.object({
+  scope: z.enum(occurrenceScopes).default("this"),
+});
+
+// Registers a subscription the user just approved in PayPal's checkout
+export const subscriptionActivationSchema = z.object({
+  subscriptionId: z.string().min(1).max(64),
+});
+
+export const subscriptionCancelSchema = z.object({
+  reason: z.string().trim().min(1).max(127).default("Cancelled by the subscriber"),
+});
+
+const chatTitle = z.string().trim().min(1).max(100);
+
+export const chatThreadCreateSchema = z.object({
+  title: chatTitle.optional(),
+});
+
+export const chatThreadUpdateSchema = z.object({
+  title: chatTitle,
+});
+
+// The user's next message; the server keeps the rest of the conversation
+export const chatMessageCreateSchema = z.object({
+  content: z.string().trim().min(1).max(4000),
+});
+
+// Body of /api/ai/chat, from before threads were stored: the conversation so
+// far, ending with the user's message. With a thread, only that last message
+// is used.
+export const aiChatSchema = z.object({
+  messages: z.array(z.object({
+    role: z.enum(["user", "assistant"]),
+    content: z.string().trim().min(1).max(4000),
+  })).min(1).max(50),
+  threadId: z.string().min(1).optional(),
+});
+
+// Applying a proposal goes through /api/content/changes instead
+export const chatMessageUpdateSchema = z.object({
+  proposalStatus: z.literal("dismissed"),
+});
+
+export const chatMessageLinkSchema = z.object({
+  contentIds: z.array(z.string().min(1)).min(1).max(50),
+});
+
+// One step of a change set: a new draft, or an existing item at a new time
+export const contentChangeSchema = z.discriminatedUnion("type", [
+  insertContentItemSchema.pick({ title: true, description: true, platform: true, scheduledDate: true, tags: true }).extend({
+    type: z.literal("create"),
+  }),
+  z.object({
+    type: z.literal("move"),
+    contentId: z.string().min(1),
+    scheduledDate: z.coerce.date(),
+  }),
+]);
+
+// Changes the assistant proposes, applied together once the user agrees.
+// With a source, the proposal is marked applied and the items are linked
+// to its message.
+export const contentChangeSetSchema = z.object({
+  changes: z.array(contentChangeSchema).min(1).max(50),
+  source: z.object({ threadId: z.string().min(1), messageId: z.string().min(1) }).optional(),
+});
+
+// What the model proposes. Its changes are checked one at a time, so one bad
+// change doesn't sink the rest.
+export const changeProposalSchema = z.object({
+  summary: z.string().trim().min(1).max(500),
+  changes: z.array(z.unknown()).min(1).max(50),
+});
+
+export const aiSuggestionsSchema = z.object({
+  count: z.number().int().min(1).max(10).default(5),
+});
+
+export const contentSuggestionSchema = z.object({
+  title: z.string().trim().min(1).max(200),
+  platform: z.enum(contentPlatforms),
+  // Why the idea fits this workspace's content
+  reasoning: z.string().trim().min(1).max(500),
+});
+
+export const contentStatusChangeSchema = z.object({
+  status: z.enum(contentStatuses),
+  note: z.string().trim().max(2000).optional(),
 });
 
 export type InsertContentItem = z.infer<typeof insertContentItemSchema>;
 export type ContentItem = typeof contentItems.$inferSelect;
+export type ContentVariantCreateRequest = z.infer<typeof contentVariantCreateSchema>;
+export type ContentPiece = typeof contentPieces.$inferSelect;
+export type ContentStatusChangeRequest = z.infer<typeof contentStatusChangeSchema>;
+export type ContentFilter = z.infer<typeof contentFilterSchema>;
+export type ContentSort = typeof contentSorts[number];
+export type ContentPlatform = typeof contentPlatforms[number];
+export type AnalyticsQuery = z.infer<typeof analyticsQuerySchema>;
+export type PostingTimesQuery = z.infer<typeof postingTimesQuerySchema>;
+export type ContentQuery = z.infer<typeof contentQuerySchema>;
+export type ContentExportQuery = z.infer<typeof contentExportQuerySchema>;
+export type CalendarFeed = typeof calendarFeeds.$inferSelect;
+export type ContentException = typeof contentExceptions.$inferSelect;
+export type OccurrenceUpdateRequest = z.infer<typeof occurrenceUpdateSchema>;
+export type InsertContentMetrics = z.infer<typeof insertContentMetricsSchema>;
+export type ContentMetrics = typeof contentMetrics.$inferSelect;
+export type MetricsKey = typeof metricsKeys.$inferSelect;
+export type MetricsIngestRequest = z.infer<typeof metricsIngestSchema>;
+export type ScheduleFrequency = typeof scheduleFrequencies[number];
+export type BulkScheduleRequest = z.infer<typeof bulkScheduleSchema>;
+
+export type Subscription = typeof subscriptions.$inferSelect;
+export type InsertSubscription = Omit<Subscription, "createdAt" | "updatedAt" | "lastEventAt"> & {
+  lastEventAt?: Date | null;
+};
+export type BillingEvent = typeof billingEvents.$inferSelect;
+
+export const premiumFeatures = ["analytics", "bulk-scheduling", "team-collaboration", "ai-suggestions", "advanced-export"] as const;
+export type PremiumFeature = typeof premiumFeatures[number];
+
+export type Plan = "free" | "premium";
+
+export interface Entitlements {
+  plan: Plan;
+  // The subscription the plan comes from, or the latest one
+  subscription: Subscription | null;
+  features: PremiumFeature[];
+}
+
+// What the client needs to start a Premium checkout
+export interface PremiumPlan {
+  // The PayPal plan subscriptions are created on
+  planId: string;
+}
+
+// What each plan allows; null means unlimited
+export const quotaNames = ["scheduledItemsPerMonth", "platforms", "aiRequestsPerDay", "exportItems"] as const;
+export type QuotaName = typeof quotaNames[number];
+export type PlanLimits = Record<QuotaName, number | null>;
+
+export interface UsageMeter {
+  plan: Plan;
+  limits: PlanLimits;
+  // Export size isn't used up, so it has no running count
+  usage: Record<Exclude<QuotaName, "exportItems">, number>;
+}
+
+// Body of the 402 (or 403, when no plan allows more) a request gets when
+// it would go over a limit
+export interface QuotaExceeded {
+  message: string;
+  quota: QuotaName;
+  plan: Plan;
+  limit: number;
+  used: number;
+}
+
+export interface ContentPieceWithVariants extends ContentPiece {
+  // In the order of contentPlatforms
+  variants: ContentItem[];
+}
+
+export interface BulkScheduleResult {
+  dryRun: boolean;
+  items: { title: string; scheduledDate: Date }[];
+  created: ContentItem[];
+}
+
+export interface ContentAnalytics {
+  total: number;
+  byStatus: Record<ContentStatus, number>;
+  byPlatform: Record<ContentPlatform, number>;
+  // Oldest week first; weekStart is the Monday, as YYYY-MM-DD
+  cadence: { weekStart: string; posted: number; planned: number }[];
+  monthOverMonth: {
+    thisMonth: number;
+    lastMonth: number;
+    // Percent change, null when last month had nothing
+    change: number | null;
+  };
+  publishing: {
+    onTime: number;
+    late: number;
+    averageDelayMinutes: number | null;
+  };
+  // From creation to scheduled date
+  averageLeadTimeHours: number | null;
+  engagement: EngagementAnalytics;
+}
+
+export type MetricTotals = Record<MetricField, number>;
+
+export interface EngagementAnalytics {
+  // Latest snapshot of every posted item, summed
+  totals: MetricTotals;
+  byPlatform: Record<ContentPlatform, MetricTotals>;
+  // Oldest day first; interactions gained per local day, from the growth
+  // between consecutive snapshots
+  timeline: { date: string; interactions: number; impressions: number }[];
+  // Most interactions first; rate is interactions per impression, null
+  // without impressions
+  topContent: {
+    id: string;
+    title: string;
+    platform: string;
+    impressions: number;
+    interactions: number;
+    rate: number | null;
+  }[];
+}
+
+// A weekly slot in the requested time zone, from startHour up to endHour
+export interface PostingWindow {
+  // 0 = Sunday
+  dayOfWeek: number;
+  startHour: number;
+  endHour: number;
+  // Posted items the window is based on; 0 for defaults
+  posts: number;
+  // Percent more interactions than the platform's average post; null for
+  // defaults
+  lift: number | null;
+}
+
+export interface PlatformPostingTimes {
+  // "default" when there isn't enough engagement history yet
+  source: "history" | "default";
+  // Posted items with engagement recorded, out of the minimum needed
+  postsWithMetrics: number;
+  minimumPosts: number;
+  // Best first
+  windows: PostingWindow[];
+}
+
+export interface PostingTimes {
+  timeZone: string;
+  platforms: Record<ContentPlatform, PlatformPostingTimes>;
+}
+
+export interface MetricsImportRow {
+  row: number;
+  data?: InsertContentMetrics & { contentId: string };
+  errors: string[];
+}
+
+export interface MetricsImportResult {
+  dryRun: boolean;
+  rows: MetricsImportRow[];
+  valid: number;
+  invalid: number;
+  created: ContentMetrics[];
+}
+
+export interface ContentPage {
+  items: ContentItem[];
+  nextCursor: string | null;
+}
+
+export interface ContentImportRow {
+  row: number;
+  data?: InsertContentItem;
+  errors: string[];
+}
+
+export interface ContentImportResult {
+  dryRun: boolean;
+  rows: ContentImportRow[];
+  valid: number;
+  invalid: number;
+  created: ContentItem[];
+}
+
+export type ChatRole = "user" | "assistant";
+export type ChatThread = typeof chatThreads.$inferSelect;
+export type ChatMessage = typeof chatMessages.$inferSelect & { contentIds: string[] };
+export type NewChatMessage = Pick<ChatMessage, "role" | "content"> & Partial<Pick<ChatMessage, "proposal" | "proposalStatus">>;
+export type ChatThreadWithMessages = ChatThread & { messages: ChatMessage[] };
+
+// What the model is sent of the conversation
+export interface AiChatMessage {
+  role: ChatRole;
+  content: string;
+}
+export type ContentSuggestion = z.infer<typeof contentSuggestionSchema>;
+export type ContentChange = z.infer<typeof contentChangeSchema>;
+export type ContentChangeSet = z.infer<typeof contentChangeSetSchema>;
+
+// A proposal as the user reviews it. Moves carry the item as it is now.
+export interface ChangeProposal {
+  summary: string;
+  changes: (ContentChange & { current?: { title: string; platform: string; scheduledDate: Date } })[];
+}
+
+// A streamed reply is one of these per line. The last one carries the
+// user's message and the reply as stored, or says why the reply failed.
+export type AssistantEvent =
+  | { type: "text"; text: string }
+  | { type: "proposal"; proposal: ChangeProposal }
+  | { type: "saved"; thread: ChatThread; messages: ChatMessage[] }
+  | { type: "error"; message: string };
+
+export interface ContentChangeResult {
+  created: ContentItem[];
+  moved: ContentItem[];
+}
+
+export type InsertUser = z.infer<typeof insertUserSchema>;
+export type User = typeof users.$inferSelect;
+
+export type InsertDestination = z.infer<typeof insertDestinationSchema>;
+export type PublishDestination = typeof publishDestinations.$inferSelect;
+export type WebhookConfig = z.infer<typeof webhookConfigSchema>;
+export type EmailConfig = z.infer<typeof emailConfigSchema>;
+export type BlogConfig = z.infer<typeof blogConfigSchema>;
+
+export type InsertWorkspace = z.infer<typeof insertWorkspaceSchema>;
+export type Workspace = typeof workspaces.$inferSelect;
+export type WorkspaceWithRole = Workspace & { role: WorkspaceRole };
+export type WorkspaceMember = typeof workspaceMembers.$inferSelect;
+export type InsertInvitation = z.infer<typeof insertInvitationSchema>;
+export type WorkspaceInvitation = typeof workspaceInvitations.$inferSelect;
@@ -0,0 +1,48 @@
+export const contentStatuses = [
+  "draft",
+  "in_review",
+  "approved",
+  "rejected",
+  "scheduled",
+  "posted",
+  "failed",
+  "archived",
+] as const;
+
+export type ContentStatus = typeof contentStatuses[number];
+
+// Statuses a new item may start in; everything else is reached by transition
+export const initialStatuses = ["draft", "in_review"] as const satisfies readonly ContentStatus[];
+
+// Allowed next statuses. Nothing reaches "scheduled" without passing review.
+export const statusTransitions: Record<ContentStatus, ContentStatus[]> = {
+  draft: ["in_review", "archived"],
+  in_review: ["approved", "rejected", "draft"],
+  approved: ["scheduled", "draft", "archived"],
+  rejected: ["draft", "archived"],
+  scheduled: ["posted", "failed", "approved", "archived"],
+  posted: ["archived"],
+  // The publisher gave up; retry by scheduling again
+  failed: ["scheduled", "draft", "archived"],
+  archived: ["draft"],
+};
+
+export const statusLabels: Record<ContentStatus, string> = {
+  draft: "Draft",
+  in_review: "In Review",
+  approved: "Approved",
+  rejected: "Rejected",
+  scheduled: "Scheduled",
+  posted: "Posted",
+  failed: "Failed",
+  archived: "Archived",
+};
+
+export function canTransition(from: string, to: string): boolean {
+  return statusTransitions[from as ContentStatus]?.includes(to as ContentStatus) ?? false;
+}
+
+// Sign-off decisions that only reviewers (and owners) may take
+export function isReviewDecision(from: string, to: string): boolean {
+  return from === "in_review" && (to === "approved" || to === "rejected");
+}